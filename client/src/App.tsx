@@ -11,6 +11,8 @@ import Videos from "@/pages/Videos";
 import Video from "@/pages/Video";
 import Jobs from "@/pages/Jobs";
 import Storage from "@/pages/Storage";
+import Shared from "@/pages/Shared";
+import Trash from "@/pages/Trash";
 import { AuthProvider, useAuth } from "./hooks/useAuth";
 import { queryClient } from "./lib/queryClient";
 
@@ -61,6 +63,8 @@ const ProtectedRoutes = () => {
           <Route path="/video/:id" component={Video} />
           <Route path="/jobs" component={Jobs} />
           <Route path="/storage" component={Storage} />
+          <Route path="/shared" component={Shared} />
+          <Route path="/trash" component={Trash} />
           <Route path="/">
             <Redirect to="/dashboard" />
           </Route>
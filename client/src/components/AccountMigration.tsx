@@ -0,0 +1,117 @@
+import React from 'react';
+import { useMutation, useQuery, useQueryClient } from '@tanstack/react-query';
+import { Button } from '@/components/ui/button';
+import { Progress } from '@/components/ui/progress';
+import { useToast } from '@/hooks/use-toast';
+import { apiRequest } from '@/lib/queryClient';
+import { ArrowRightLeft } from 'lucide-react';
+
+interface MigrationProgress {
+  total: number;
+  migrated: number;
+  failed: number;
+  bytes: number;
+}
+
+interface MigrationStatus {
+  jobId: string;
+  state: string;
+  progress: MigrationProgress | number;
+  result: MigrationProgress | null;
+  error: string | null;
+}
+
+interface AccountMigrationProps {
+  accountId: string | number;
+  accountName: string;
+}
+
+const runningStates = ['waiting', 'delayed', 'active', 'prioritized', 'waiting-children'];
+
+export const AccountMigration: React.FC<AccountMigrationProps> = ({ accountId, accountName }) => {
+  const { toast } = useToast();
+  const queryClient = useQueryClient();
+  const statusUrl = `/api/service-accounts/${accountId}/migrate`;
+
+  // Accounts that were never migrated have no status, which the API reports as a 404
+  const { data: status } = useQuery<MigrationStatus | null>({
+    queryKey: [statusUrl],
+    queryFn: async () => {
+      const res = await fetch(statusUrl, { credentials: 'include' });
+      if (res.status === 404) return null;
+      if (!res.ok) throw new Error(`${res.status}: ${(await res.text()) || res.statusText}`);
+      return res.json();
+    },
+    refetchInterval: (query) =>
+      query.state.data && runningStates.includes(query.state.data.state) ? 2000 : false,
+  });
+
+  const isRunning = !!status && runningStates.includes(status.state);
+
+  const migrateMutation = useMutation({
+    mutationFn: async () => {
+      const response = await apiRequest('POST', statusUrl, { deactivate: true });
+      return response.json();
+    },
+    onSuccess: () => {
+      queryClient.invalidateQueries({ queryKey: [statusUrl] });
+      queryClient.invalidateQueries({ queryKey: ['/api/service-accounts/usage'] });
+      toast({
+        title: 'Migration started',
+        description: `Files on ${accountName} are being moved to the other service accounts.`,
+        variant: 'default'
+      });
+    },
+    onError: (error: any) => {
+      toast({
+        title: 'Failed to start migration',
+        description: error.message || 'There was an error starting the migration.',
+        variant: 'destructive'
+      });
+    }
+  });
+
+  const handleMigrate = () => {
+    if (window.confirm(`Move every file on ${accountName} to other service accounts? The account will be deactivated.`)) {
+      migrateMutation.mutate();
+    }
+  };
+
+  // Progress is 0 until the worker reports the first figures
+  const progress = status && typeof status.progress === 'object' ? status.progress : null;
+  const summary = status?.result ?? progress;
+  const done = summary ? summary.migrated + summary.failed : 0;
+  const percentage = summary && summary.total > 0 ? Math.round((done / summary.total) * 100) : 0;
+
+  return (
+    <div className="flex flex-col gap-1 min-w-[140px]">
+      <Button
+        variant="outline"
+        size="sm"
+        onClick={handleMigrate}
+        disabled={isRunning || migrateMutation.isPending}
+      >
+        <ArrowRightLeft className="mr-2 h-4 w-4" />
+        {isRunning ? 'Migrating...' : 'Migrate'}
+      </Button>
+
+      {isRunning && (
+        <div className="text-xs text-muted-foreground">
+          <Progress value={percentage} className="h-1.5 mb-1" />
+          {summary ? `${done} / ${summary.total} files` : 'Queued'}
+        </div>
+      )}
+
+      {status?.state === 'completed' && summary && (
+        <div className={`text-xs ${summary.failed > 0 ? 'text-yellow-700' : 'text-muted-foreground'}`}>
+          Moved {summary.migrated} of {summary.total} files
+          {summary.failed > 0 && `, ${summary.failed} failed`}
+        </div>
+      )}
+
+      {status?.state === 'failed' && (
+        <div className="text-xs text-red-500">Migration failed: {status.error}</div>
+      )}
+    </div>
+  );
+};
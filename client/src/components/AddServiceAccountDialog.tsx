@@ -6,7 +6,7 @@ import { Label } from '@/components/ui/label';
 import { Switch } from '@/components/ui/switch';
 import { useMutation, useQueryClient } from '@tanstack/react-query';
 import { useToast } from '@/hooks/use-toast';
-import { apiRequest } from '@/lib/queryClient';
+import { addServiceAccount } from '@/lib/api';
 import { Info } from 'lucide-react';
 
 interface AddServiceAccountDialogProps {
@@ -16,8 +16,9 @@ interface AddServiceAccountDialogProps {
 
 export const AddServiceAccountDialog: React.FC<AddServiceAccountDialogProps> = ({ isOpen, onClose }) => {
   const [name, setName] = useState('');
-  const [email, setEmail] = useState('');
-  const [credentialsPath, setCredentialsPath] = useState('');
+  const [keyFile, setKeyFile] = useState<File | null>(null);
+  const [keyEmail, setKeyEmail] = useState<string | null>(null);
+  const [keyError, setKeyError] = useState<string | null>(null);
   const [storageLimit, setStorageLimit] = useState(15); // Default 15GB
   const [isActive, setIsActive] = useState(true);
   const { toast } = useToast();
@@ -26,14 +27,12 @@ export const AddServiceAccountDialog: React.FC<AddServiceAccountDialogProps> = (
   // Add service account mutation
   const addAccountMutation = useMutation({
     mutationFn: async () => {
-      const response = await apiRequest('POST', '/api/service-accounts', {
+      if (!keyFile) throw new Error('Choose the JSON key file first.');
+      return addServiceAccount(keyFile, {
         name,
-        email,
-        credentialsPath,
         storageLimit: storageLimit * 1024 * 1024 * 1024, // Convert GB to bytes
         isActive
       });
-      return response.json();
     },
     onSuccess: () => {
       queryClient.invalidateQueries({ queryKey: ['/api/service-accounts/usage'] });
@@ -54,10 +53,30 @@ export const AddServiceAccountDialog: React.FC<AddServiceAccountDialogProps> = (
     }
   });
 
+  // Read the key locally to show which account it is for; the server validates it properly
+  const handleKeyFileChange = async (file: File | null) => {
+    setKeyFile(file);
+    setKeyEmail(null);
+    setKeyError(null);
+    if (!file) return;
+
+    try {
+      const key = JSON.parse(await file.text());
+      if (key.type !== 'service_account' || !key.client_email) {
+        setKeyError('This does not look like a service account key.');
+      } else {
+        setKeyEmail(key.client_email);
+      }
+    } catch {
+      setKeyError('The file is not valid JSON.');
+    }
+  };
+
   const resetForm = () => {
     setName('');
-    setEmail('');
-    setCredentialsPath('');
+    setKeyFile(null);
+    setKeyEmail(null);
+    setKeyError(null);
     setStorageLimit(15);
     setIsActive(true);
   };
@@ -74,41 +93,32 @@ export const AddServiceAccountDialog: React.FC<AddServiceAccountDialogProps> = (
           <DialogTitle>Add Google Drive Service Account</DialogTitle>
         </DialogHeader>
         <form onSubmit={handleSubmit} className="space-y-4">
-          <div className="grid grid-cols-2 gap-4">
-            <div className="space-y-2">
-              <Label htmlFor="name">Account Name</Label>
-              <Input
-                id="name"
-                value={name}
-                onChange={(e) => setName(e.target.value)}
-                placeholder="My Service Account"
-                required
-              />
-            </div>
-            <div className="space-y-2">
-              <Label htmlFor="email">Service Account Email</Label>
-              <Input
-                id="email"
-                type="email"
-                value={email}
-                onChange={(e) => setEmail(e.target.value)}
-                placeholder="service-account@project.iam.gserviceaccount.com"
-                required
-              />
-            </div>
+          <div className="space-y-2">
+            <Label htmlFor="name">Account Name</Label>
+            <Input
+              id="name"
+              value={name}
+              onChange={(e) => setName(e.target.value)}
+              placeholder="My Service Account"
+              required
+            />
           </div>
 
           <div className="space-y-2">
-            <Label htmlFor="credentialsPath">Credentials Path</Label>
+            <Label htmlFor="credentials">JSON Key File</Label>
             <Input
-              id="credentialsPath"
-              value={credentialsPath}
-              onChange={(e) => setCredentialsPath(e.target.value)}
-              placeholder="/credentials/service-account-credentials.json"
+              id="credentials"
+              type="file"
+              accept="application/json,.json"
+              onChange={(e) => handleKeyFileChange(e.target.files?.[0] ?? null)}
               required
             />
+            {keyEmail && (
+              <p className="text-xs text-muted-foreground">Service account: {keyEmail}</p>
+            )}
+            {keyError && <p className="text-xs text-red-500">{keyError}</p>}
             <p className="text-xs text-muted-foreground">
-              Path to the service account JSON key file that was downloaded from Google Cloud Console.
+              The key file downloaded from Google Cloud Console. It is checked against Google Drive and its private key is stored encrypted.
             </p>
           </div>
 
@@ -150,8 +160,8 @@ export const AddServiceAccountDialog: React.FC<AddServiceAccountDialogProps> = (
             <Button type="button" variant="outline" onClick={onClose}>
               Cancel
             </Button>
-            <Button type="submit" disabled={addAccountMutation.isPending}>
-              {addAccountMutation.isPending ? 'Adding...' : 'Add Service Account'}
+            <Button type="submit" disabled={addAccountMutation.isPending || !keyFile || !!keyError}>
+              {addAccountMutation.isPending ? 'Verifying...' : 'Add Service Account'}
             </Button>
           </DialogFooter>
         </form>
@@ -0,0 +1,237 @@
+import React, { useEffect, useState } from "react";
+import { useMutation, useQuery, useQueryClient } from "@tanstack/react-query";
+import { Button } from "@/components/ui/button";
+import { Input } from "@/components/ui/input";
+import { Label } from "@/components/ui/label";
+import {
+  Dialog,
+  DialogContent,
+  DialogDescription,
+  DialogFooter,
+  DialogHeader,
+  DialogTitle,
+} from "@/components/ui/dialog";
+import {
+  Select,
+  SelectContent,
+  SelectItem,
+  SelectTrigger,
+  SelectValue,
+} from "@/components/ui/select";
+import { useToast } from "@/hooks/use-toast";
+import { apiRequest } from "@/lib/queryClient";
+import { MetadataField, MetadataFieldValues } from "@shared/schema";
+
+interface EditMetadataDialogProps {
+  isOpen: boolean;
+  onClose: () => void;
+  uploadIds: number[];
+  name: string;
+}
+
+interface UploadMetadata {
+  tags: string[];
+  fields: MetadataFieldValues;
+  definitions: MetadataField[];
+  editable: boolean;
+}
+
+// Radix selects cannot hold an empty value, so "no value" gets a stand-in
+const NO_VALUE = "__none__";
+
+const parseTags = (text: string): string[] =>
+  text.split(",").map((tag) => tag.trim()).filter(Boolean);
+
+/**
+ * Edit the tags and custom fields of one upload, or of several at once.
+ * Several uploads keep their own tags: the dialog adds and removes tags,
+ * and only sets the fields that were changed.
+ */
+export const EditMetadataDialog: React.FC<EditMetadataDialogProps> = ({
+  isOpen,
+  onClose,
+  uploadIds,
+  name,
+}) => {
+  const single = uploadIds.length === 1;
+  const [tags, setTags] = useState("");
+  const [removeTags, setRemoveTags] = useState("");
+  const [values, setValues] = useState<Record<string, string>>({});
+  const [changed, setChanged] = useState<string[]>([]);
+  const { toast } = useToast();
+  const queryClient = useQueryClient();
+
+  const { data: metadata, isLoading: metadataLoading } = useQuery<UploadMetadata>({
+    queryKey: [`/api/uploads/${uploadIds[0]}/metadata`],
+    enabled: isOpen && single,
+  });
+
+  const { data: ownFields = [], isLoading: fieldsLoading } = useQuery<MetadataField[]>({
+    queryKey: ["/api/metadata-fields"],
+    enabled: isOpen && !single,
+  });
+
+  const definitions = single ? metadata?.definitions ?? [] : ownFields;
+  const isLoading = single ? metadataLoading : fieldsLoading;
+
+  useEffect(() => {
+    if (!isOpen) return;
+    setRemoveTags("");
+    setChanged([]);
+    if (single && metadata) {
+      setTags(metadata.tags.join(", "));
+      setValues(
+        Object.fromEntries(
+          Object.entries(metadata.fields).map(([key, value]) => [key, String(value)]),
+        ),
+      );
+    } else {
+      setTags("");
+      setValues({});
+    }
+  }, [isOpen, single, metadata]);
+
+  const setValue = (key: string, value: string) => {
+    setValues({ ...values, [key]: value });
+    if (!changed.includes(key)) setChanged([...changed, key]);
+  };
+
+  const saveMutation = useMutation({
+    mutationFn: async () => {
+      const keys = single ? definitions.map((field) => field.key) : changed;
+      const fields = Object.fromEntries(
+        keys.map((key) => [key, values[key] ? values[key] : null]),
+      );
+
+      if (single) {
+        await apiRequest("PUT", `/api/uploads/${uploadIds[0]}/metadata`, {
+          tags: parseTags(tags),
+          fields,
+        });
+      } else {
+        await apiRequest("PATCH", "/api/uploads/metadata", {
+          ids: uploadIds,
+          addTags: parseTags(tags),
+          removeTags: parseTags(removeTags),
+          fields,
+        });
+      }
+    },
+    onSuccess: () => {
+      queryClient.invalidateQueries({
+        predicate: (query) => String(query.queryKey[0]).startsWith("/api/uploads"),
+      });
+      toast({
+        title: "Saved",
+        description: `Updated tags and fields of ${name}.`,
+        variant: "default",
+      });
+      onClose();
+    },
+    onError: (error: any) => {
+      toast({
+        title: "Failed to save",
+        description: error.message || "There was an error saving tags and fields.",
+        variant: "destructive",
+      });
+    },
+  });
+
+  const renderInput = (field: MetadataField) => {
+    const value = values[field.key] ?? "";
+
+    if (field.type === "select") {
+      return (
+        <Select
+          value={value || NO_VALUE}
+          onValueChange={(selected) => setValue(field.key, selected === NO_VALUE ? "" : selected)}
+        >
+          <SelectTrigger id={`field-${field.key}`}>
+            <SelectValue />
+          </SelectTrigger>
+          <SelectContent>
+            <SelectItem value={NO_VALUE}>None</SelectItem>
+            {field.options.map((option) => (
+              <SelectItem key={option} value={option}>
+                {option}
+              </SelectItem>
+            ))}
+          </SelectContent>
+        </Select>
+      );
+    }
+
+    return (
+      <Input
+        id={`field-${field.key}`}
+        type={field.type === "text" ? "text" : field.type}
+        value={value}
+        placeholder={!single && !changed.includes(field.key) ? "Unchanged" : undefined}
+        onChange={(e) => setValue(field.key, e.target.value)}
+      />
+    );
+  };
+
+  return (
+    <Dialog open={isOpen} onOpenChange={(open) => !open && onClose()}>
+      <DialogContent>
+        <DialogHeader>
+          <DialogTitle>Tags & fields of {name}</DialogTitle>
+          <DialogDescription>
+            {single
+              ? "Separate tags with commas. Empty fields are cleared."
+              : "Tags are added to or removed from every selected file. Only the fields you change are set."}
+          </DialogDescription>
+        </DialogHeader>
+
+        {isLoading ? (
+          <div className="text-sm text-muted-foreground">Loading...</div>
+        ) : (
+          <div className="space-y-4">
+            <div className="space-y-1">
+              <Label htmlFor="metadata-tags">{single ? "Tags" : "Add tags"}</Label>
+              <Input
+                id="metadata-tags"
+                placeholder="e.g. holiday, 2024, raw"
+                value={tags}
+                onChange={(e) => setTags(e.target.value)}
+              />
+            </div>
+            {!single && (
+              <div className="space-y-1">
+                <Label htmlFor="metadata-remove-tags">Remove tags</Label>
+                <Input
+                  id="metadata-remove-tags"
+                  value={removeTags}
+                  onChange={(e) => setRemoveTags(e.target.value)}
+                />
+              </div>
+            )}
+
+            {definitions.map((field) => (
+              <div key={field.key} className="space-y-1">
+                <Label htmlFor={`field-${field.key}`}>{field.label}</Label>
+                {renderInput(field)}
+              </div>
+            ))}
+            {definitions.length === 0 && (
+              <div className="text-sm text-muted-foreground">No custom fields defined yet</div>
+            )}
+          </div>
+        )}
+
+        <DialogFooter>
+          <Button variant="outline" onClick={onClose} disabled={saveMutation.isPending}>
+            Cancel
+          </Button>
+          <Button
+            onClick={() => saveMutation.mutate()}
+            disabled={isLoading || saveMutation.isPending || (single && metadata?.editable === false)}
+          >
+            {saveMutation.isPending ? "Saving..." : "Save"}
+          </Button>
+        </DialogFooter>
+      </DialogContent>
+    </Dialog>
+  );
+};
@@ -1,6 +1,6 @@
 import React, { useState } from "react";
 import { Link } from "wouter";
-import { useQuery } from "@tanstack/react-query";
+import { useMutation, useQuery, useQueryClient } from "@tanstack/react-query";
 import {
   Table,
   TableBody,
@@ -23,17 +23,34 @@ import {
   FolderInput, // Assuming this is imported correctly
   Film, // Assuming this is imported correctly
   Trash2, // Assuming this is imported correctly
+  Share2,
+  Tags,
+  Settings2,
+  Layers,
+  ImagePlus,
 } from "lucide-react";
+import { Checkbox } from "@/components/ui/checkbox";
 import { Progress } from "@/components/ui/progress";
 import {
   DropdownMenu,
   DropdownMenuContent,
   DropdownMenuItem,
   DropdownMenuSeparator,
+  DropdownMenuSub,
+  DropdownMenuSubContent,
+  DropdownMenuSubTrigger,
   DropdownMenuTrigger,
 } from "@/components/ui/dropdown-menu";
 import { format } from "date-fns";
-import { FileCategory } from "@shared/schema";
+import { EncodingProfile, FileCategory } from "@shared/schema";
+import { ShareDialog } from "@/components/ShareDialog";
+import { EditMetadataDialog } from "@/components/EditMetadataDialog";
+import { MetadataFieldsDialog } from "@/components/MetadataFieldsDialog";
+import { MoveFileDialog } from "@/components/MoveFileDialog";
+import { useBulkOperation } from "@/hooks/useBulkOperation";
+import { useAuth } from "@/hooks/useAuth";
+import { useToast } from "@/hooks/use-toast";
+import { apiRequest } from "@/lib/queryClient";
 
 interface FileListProps {
   category?: FileCategory;
@@ -54,6 +71,8 @@ interface FileData {
   status: string;
   createdAt: string;
   thumbnail?: string;
+  userId?: string | null;
+  tags?: string[];
 }
 
 const formatBytes = (bytes: number): string => {
@@ -66,6 +85,14 @@ const formatBytes = (bytes: number): string => {
   return parseFloat((bytes / Math.pow(k, i)).toFixed(2)) + " " + sizes[i];
 };
 
+// Categories a file can be moved into by hand
+const assignableCategories: { value: FileCategory; label: string }[] = [
+  { value: "video", label: "Video" },
+  { value: "image", label: "Image" },
+  { value: "document", label: "Document" },
+  { value: "code", label: "Code" },
+];
+
 const getCategoryIcon = (category: FileCategory) => {
   switch (category) {
     case "video":
@@ -98,6 +125,14 @@ const getCategoryColor = (category: FileCategory) => {
 
 export const FileList: React.FC<FileListProps> = ({ category, folderId }) => {
   const [page, setPage] = useState(1);
+  const [sharingFile, setSharingFile] = useState<FileData | null>(null);
+  const [selectedIds, setSelectedIds] = useState<number[]>([]);
+  const [editing, setEditing] = useState<{ ids: number[]; name: string } | null>(null);
+  const [fieldsDialogOpen, setFieldsDialogOpen] = useState(false);
+  const [movingIds, setMovingIds] = useState<number[] | null>(null);
+  const { user } = useAuth();
+  const { toast } = useToast();
+  const queryClient = useQueryClient();
   const limit = 10;
 
   // Build query parameters
@@ -127,6 +162,13 @@ export const FileList: React.FC<FileListProps> = ({ category, folderId }) => {
     queryKey: [`/api/folders/`],
   });
 
+  const { data: profiles = [] } = useQuery<EncodingProfile[]>({
+    queryKey: ["/api/profiles"],
+    enabled: selectedIds.length > 0,
+  });
+
+  const bulk = useBulkOperation(() => setSelectedIds([]));
+
   const files = data?.files || [];
   const totalFiles = data?.total || 0;
   const totalPages = Math.ceil(totalFiles / limit);
@@ -142,13 +184,66 @@ export const FileList: React.FC<FileListProps> = ({ category, folderId }) => {
   };
 
   const onMoveFile = (file: FileData) => {
-    // Implement move file logic here
-    console.log("Move file:", file);
+    setMovingIds([file.id]);
+  };
+
+  const onTrashSelected = () => {
+    if (window.confirm(`Move ${selectedIds.length} files to the trash?`)) {
+      bulk.start(selectedIds, { action: "delete" });
+    }
   };
 
+  // Only a file's owner (or an admin) decides who else sees it, or deletes it
+  const isOwner = (file: FileData) =>
+    Boolean(user && (user.isAdmin || file.userId === user.id));
+  const canShare = (file: FileData) => Boolean(file.userId) && isOwner(file);
+
+  const trashMutation = useMutation({
+    mutationFn: async (file: FileData) => {
+      await apiRequest("DELETE", `/api/uploads/${file.id}`);
+    },
+    onSuccess: (_data, file) => {
+      queryClient.invalidateQueries({
+        predicate: (query) =>
+          String(query.queryKey[0]).startsWith("/api/uploads") ||
+          String(query.queryKey[0]).startsWith("/api/trash"),
+      });
+      toast({
+        title: "Moved to trash",
+        description: `${file.uploadName || file.name} can be restored from the Trash page.`,
+        variant: "default",
+      });
+    },
+    onError: (error: any) => {
+      toast({
+        title: "Failed to delete file",
+        description: error.message || "There was an error deleting the file.",
+        variant: "destructive",
+      });
+    },
+  });
+
   const onDelete = (file: FileData) => {
-    // Implement delete logic here
-    console.log("Delete file:", file);
+    trashMutation.mutate(file);
+  };
+
+  const toggleSelected = (file: FileData) => {
+    setSelectedIds(
+      selectedIds.includes(file.id)
+        ? selectedIds.filter((id) => id !== file.id)
+        : [...selectedIds, file.id],
+    );
+  };
+
+  // Selection survives paging, so "all" means every file on this page
+  const allSelected = files.length > 0 && files.every((file) => selectedIds.includes(file.id));
+  const toggleAllSelected = () => {
+    const pageIds = files.map((file) => file.id);
+    setSelectedIds(
+      allSelected
+        ? selectedIds.filter((id) => !pageIds.includes(id))
+        : Array.from(new Set([...selectedIds, ...pageIds])),
+    );
   };
 
 
@@ -175,10 +270,118 @@ export const FileList: React.FC<FileListProps> = ({ category, folderId }) => {
 
   return (
     <div>
+      <div className="mb-4 flex items-center justify-between">
+        <div className="text-sm text-muted-foreground">
+          {selectedIds.length > 0 && `${selectedIds.length} selected`}
+        </div>
+        <div className="flex space-x-2">
+          {selectedIds.length > 0 && (
+            <>
+              <Button
+                variant="outline"
+                size="sm"
+                onClick={() =>
+                  setEditing({ ids: selectedIds, name: `${selectedIds.length} files` })
+                }
+              >
+                <Tags className="w-4 h-4 mr-2" />
+                Edit tags & fields
+              </Button>
+              <DropdownMenu>
+                <DropdownMenuTrigger asChild>
+                  <Button variant="outline" size="sm" disabled={bulk.isRunning}>
+                    <Layers className="w-4 h-4 mr-2" />
+                    Actions
+                  </Button>
+                </DropdownMenuTrigger>
+                <DropdownMenuContent align="end">
+                  <DropdownMenuItem onSelect={() => setMovingIds(selectedIds)}>
+                    <FolderInput className="w-4 h-4 mr-2" />
+                    Move to Folder
+                  </DropdownMenuItem>
+                  <DropdownMenuSub>
+                    <DropdownMenuSubTrigger>
+                      <Archive className="w-4 h-4 mr-2" />
+                      Change Category
+                    </DropdownMenuSubTrigger>
+                    <DropdownMenuSubContent>
+                      {assignableCategories.map(({ value, label }) => (
+                        <DropdownMenuItem
+                          key={value}
+                          onSelect={() => bulk.start(selectedIds, { action: "categorize", category: value })}
+                        >
+                          {label}
+                        </DropdownMenuItem>
+                      ))}
+                    </DropdownMenuSubContent>
+                  </DropdownMenuSub>
+                  <DropdownMenuSub>
+                    <DropdownMenuSubTrigger>
+                      <Film className="w-4 h-4 mr-2" />
+                      Convert Videos to HLS
+                    </DropdownMenuSubTrigger>
+                    <DropdownMenuSubContent>
+                      {profiles.map((profile) => (
+                        <DropdownMenuItem
+                          key={profile.id}
+                          onSelect={() =>
+                            bulk.start(selectedIds, { action: "convert", resolutions: [profile.name] })
+                          }
+                        >
+                          {profile.label}
+                        </DropdownMenuItem>
+                      ))}
+                      {profiles.length > 1 && (
+                        <DropdownMenuItem
+                          onSelect={() =>
+                            bulk.start(selectedIds, {
+                              action: "convert",
+                              resolutions: profiles.map((profile) => profile.name),
+                            })
+                          }
+                        >
+                          All profiles
+                        </DropdownMenuItem>
+                      )}
+                    </DropdownMenuSubContent>
+                  </DropdownMenuSub>
+                  <DropdownMenuItem onSelect={() => bulk.start(selectedIds, { action: "thumbnails" })}>
+                    <ImagePlus className="w-4 h-4 mr-2" />
+                    Regenerate Thumbnails
+                  </DropdownMenuItem>
+                  <DropdownMenuSeparator />
+                  <DropdownMenuItem
+                    onSelect={onTrashSelected}
+                    className="text-red-600 focus:text-red-600"
+                  >
+                    <Trash2 className="w-4 h-4 mr-2" />
+                    Move to Trash
+                  </DropdownMenuItem>
+                </DropdownMenuContent>
+              </DropdownMenu>
+              <Button variant="ghost" size="sm" onClick={() => setSelectedIds([])}>
+                Clear selection
+              </Button>
+            </>
+          )}
+          <Button variant="ghost" size="sm" onClick={() => setFieldsDialogOpen(true)}>
+            <Settings2 className="w-4 h-4 mr-2" />
+            Custom fields
+          </Button>
+        </div>
+      </div>
+
       <div className="overflow-x-auto">
         <Table>
           <TableHeader>
             <TableRow>
+              <TableHead className="w-8">
+                <Checkbox
+                  checked={allSelected}
+                  onCheckedChange={toggleAllSelected}
+                  aria-label="Select all files on this page"
+                />
+              </TableHead>
               <TableHead>Name</TableHead>
               <TableHead>Category</TableHead>
               <TableHead>Folder</TableHead>
@@ -191,6 +394,13 @@ export const FileList: React.FC<FileListProps> = ({ category, folderId }) => {
           <TableBody>
             {files.map((file) => (
               <TableRow key={file.id} className="hover:bg-gray-50">
+                <TableCell>
+                  <Checkbox
+                    checked={selectedIds.includes(file.id)}
+                    onCheckedChange={() => toggleSelected(file)}
+                    aria-label={`Select ${file.uploadName || file.name}`}
+                  />
+                </TableCell>
                 <TableCell>
                   <div className="flex items-center">
                     <div className="w-10 h-10 mr-3 bg-gray-100 rounded flex-shrink-0 flex items-center justify-center">
@@ -203,6 +413,15 @@ export const FileList: React.FC<FileListProps> = ({ category, folderId }) => {
                       <div className="text-xs text-muted-foreground">
                         {file.fileType || file.mimeType}
                       </div>
+                      {file.tags && file.tags.length > 0 && (
+                        <div className="mt-1 flex flex-wrap gap-1">
+                          {file.tags.map((tag) => (
+                            <Badge key={tag} variant="secondary" className="text-xs">
+                              {tag}
+                            </Badge>
+                          ))}
+                        </div>
+                      )}
                     </div>
                   </div>
                 </TableCell>
@@ -281,6 +500,20 @@ export const FileList: React.FC<FileListProps> = ({ category, folderId }) => {
                           <Download className="w-4 h-4 mr-2" />
                           Download
                         </DropdownMenuItem>
+                        <DropdownMenuItem
+                          onSelect={() =>
+                            setEditing({ ids: [file.id], name: file.uploadName || file.name })
+                          }
+                        >
+                          <Tags className="w-4 h-4 mr-2" />
+                          Edit tags & fields
+                        </DropdownMenuItem>
+                        {canShare(file) && (
+                          <DropdownMenuItem onSelect={() => setSharingFile(file)}>
+                            <Share2 className="w-4 h-4 mr-2" />
+                            Share
+                          </DropdownMenuItem>
+                        )}
                         <DropdownMenuItem onSelect={() => onMoveFile(file)}>
                           <FolderInput className="w-4 h-4 mr-2" />
                           Move to Folder
@@ -295,14 +528,18 @@ export const FileList: React.FC<FileListProps> = ({ category, folderId }) => {
                             </Link>
                           </DropdownMenuItem>
                         )}
-                        <DropdownMenuSeparator />
-                        <DropdownMenuItem
-                          onSelect={() => onDelete(file)}
-                          className="text-red-600 focus:text-red-600"
-                        >
-                          <Trash2 className="w-4 h-4 mr-2" />
-                          Delete File
-                        </DropdownMenuItem>
+                        {isOwner(file) && (
+                          <>
+                            <DropdownMenuSeparator />
+                            <DropdownMenuItem
+                              onSelect={() => onDelete(file)}
+                              className="text-red-600 focus:text-red-600"
+                            >
+                              <Trash2 className="w-4 h-4 mr-2" />
+                              Move to Trash
+                            </DropdownMenuItem>
+                          </>
+                        )}
                       </DropdownMenuContent>
                     </DropdownMenu>
                   </div>
@@ -339,6 +576,37 @@ export const FileList: React.FC<FileListProps> = ({ category, folderId }) => {
           </div>
         </div>
       )}
+
+      {sharingFile && (
+        <ShareDialog
+          isOpen={sharingFile !== null}
+          onClose={() => setSharingFile(null)}
+          kind="uploads"
+          id={sharingFile.id}
+          name={sharingFile.uploadName || sharingFile.name}
+        />
+      )}
+
+      {editing && (
+        <EditMetadataDialog
+          isOpen={editing !== null}
+          onClose={() => setEditing(null)}
+          uploadIds={editing.ids}
+          name={editing.name}
+        />
+      )}
+
+      <MoveFileDialog
+        isOpen={movingIds !== null}
+        onClose={() => setMovingIds(null)}
+        count={movingIds?.length ?? 0}
+        onMove={(folderId) => movingIds && bulk.start(movingIds, { action: "move", folderId })}
+      />
+
+      <MetadataFieldsDialog
+        isOpen={fieldsDialogOpen}
+        onClose={() => setFieldsDialogOpen(false)}
+      />
     </div>
   );
 };
\ No newline at end of file
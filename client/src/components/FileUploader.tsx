@@ -9,7 +9,9 @@ import { X, UploadCloud } from 'lucide-react';
 import { useQuery, useMutation, useQueryClient } from '@tanstack/react-query';
 import { useToast } from '@/hooks/use-toast';
 import { apiRequest } from '@/lib/queryClient';
-import { CHUNK_SIZE, API_BASE_URL } from '@/lib/constants';
+import { getUploadStatus } from '@/lib/api';
+import { sha256Blob } from '@/lib/sha256';
+import { CHUNK_SIZE, CHUNK_RETRY_LIMIT, API_BASE_URL } from '@/lib/constants';
 
 interface FileUploaderProps {
   isOpen: boolean;
@@ -24,6 +26,32 @@ interface SelectedFile {
   error?: string;
 }
 
+interface ResumableSession {
+  uploadId: number;
+  chunkSize: number;
+}
+
+// Unfinished uploads are remembered per file so a reload can pick up where it left off
+const sessionKey = (file: File) =>
+  `resumable-upload:${file.name}:${file.size}:${file.lastModified}`;
+
+const loadSession = (file: File): ResumableSession | null => {
+  try {
+    const raw = localStorage.getItem(sessionKey(file));
+    return raw ? JSON.parse(raw) : null;
+  } catch {
+    return null;
+  }
+};
+
+const saveSession = (file: File, session: ResumableSession) => {
+  localStorage.setItem(sessionKey(file), JSON.stringify(session));
+};
+
+const clearSession = (file: File) => {
+  localStorage.removeItem(sessionKey(file));
+};
+
 export const FileUploader: React.FC<FileUploaderProps> = ({ isOpen, onClose }) => {
   const [selectedFiles, setSelectedFiles] = useState<SelectedFile[]>([]);
   const [category, setCategory] = useState<string>('');
@@ -71,75 +99,156 @@ export const FileUploader: React.FC<FileUploaderProps> = ({ isOpen, onClose }) =
     setSelectedFiles(prev => prev.filter(file => file.id !== id));
   };
 
-  // Upload a file in chunks
+  // Send a single chunk, retrying a few times before giving up
+  const uploadChunk = async (file: File, uploadId: number, chunkSize: number, index: number) => {
+    const start = index * chunkSize;
+    const end = Math.min(file.size, start + chunkSize);
+
+    const chunk = file.slice(start, end);
+    const digest = await crypto.subtle.digest('SHA-256', await chunk.arrayBuffer());
+    const checksum = Array.from(new Uint8Array(digest), (b) => b.toString(16).padStart(2, '0')).join('');
+
+    let lastError: unknown;
+    for (let attempt = 1; attempt <= CHUNK_RETRY_LIMIT; attempt++) {
+      const chunkForm = new FormData();
+      chunkForm.append('uploadId', uploadId.toString());
+      chunkForm.append('chunkIndex', index.toString());
+      chunkForm.append('checksum', checksum);
+      chunkForm.append('chunk', chunk);
+
+      try {
+        const response = await fetch(`${API_BASE_URL}/upload/chunk`, {
+          method: 'POST',
+          body: chunkForm,
+        });
+
+        if (response.ok) {
+          return;
+        }
+
+        // Checksum mismatches and server errors are worth another attempt, other rejections are not
+        const body = await response.json().catch(() => ({}));
+        lastError = new Error(`Failed to upload chunk ${index}: ${body.error || response.statusText}`);
+        if (response.status < 500 && !body.retryable) {
+          break;
+        }
+      } catch (error) {
+        lastError = error;
+      }
+
+      // Back off before retrying a dropped connection
+      await new Promise(resolve => setTimeout(resolve, attempt * 1000));
+    }
+
+    throw lastError;
+  };
+
+  // Reuse the server-side manifest of a previous attempt, or start a new upload
+  const resumeOrInitUpload = async (file: File) => {
+    const session = loadSession(file);
+
+    if (session && session.chunkSize === CHUNK_SIZE) {
+      try {
+        const status = await getUploadStatus(session.uploadId);
+        if (!status.complete && status.status === 'processing' && status.totalChunks) {
+          return {
+            uploadId: session.uploadId,
+            totalChunks: status.totalChunks,
+            missingChunks: status.missingChunks,
+            skipChunks: false,
+          };
+        }
+      } catch {
+        // The previous upload is gone; fall through and start over
+      }
+      clearSession(file);
+    }
+
+    const totalChunks = Math.ceil(file.size / CHUNK_SIZE);
+    const checksum = await sha256Blob(file);
+    const initResponse = await apiRequest('POST', '/api/upload/init', {
+      category,
+      folderName: folder,
+      fileName: file.name,
+      fileSize: file.size,
+      fileType: file.type,
+      totalChunks,
+      chunkSize: CHUNK_SIZE,
+      checksum,
+    });
+
+    const { uploadId, skipChunks } = await initResponse.json();
+
+    // The server already holds identical content, so there is nothing to send
+    if (skipChunks) {
+      return { uploadId: uploadId as number, totalChunks, missingChunks: [], skipChunks: true };
+    }
+
+    saveSession(file, { uploadId, chunkSize: CHUNK_SIZE });
+
+    return {
+      uploadId: uploadId as number,
+      totalChunks,
+      missingChunks: Array.from({ length: totalChunks }, (_, i) => i),
+      skipChunks: false,
+    };
+  };
+
+  // Upload a file in chunks, skipping any the server already holds
   const uploadFile = async (selectedFile: SelectedFile) => {
     try {
       const file = selectedFile.file;
-      const totalChunks = Math.ceil(file.size / CHUNK_SIZE);
-      
+
       // Update file status
-      setSelectedFiles(prev => 
+      setSelectedFiles(prev =>
         prev.map(f => f.id === selectedFile.id ? { ...f, status: 'uploading' } : f)
       );
-      
-      // Create form data for initial creation
-      const formData = new FormData();
-      formData.append('category', category);
-      formData.append('folderName', folder);
-      formData.append('fileName', file.name);
-      formData.append('fileSize', file.size.toString());
-      formData.append('fileType', file.type);
-      formData.append('totalChunks', totalChunks.toString());
-      
-      // Create initial upload record
-      const initResponse = await apiRequest('POST', '/api/upload/init', {
-        category,
-        folderName: folder,
-        fileName: file.name,
-        fileSize: file.size,
-        fileType: file.type,
-        totalChunks
-      });
-      
-      const { uploadId } = await initResponse.json();
-      
-      // Upload each chunk
-      for (let i = 0; i < totalChunks; i++) {
-        const start = i * CHUNK_SIZE;
-        const end = Math.min(file.size, start + CHUNK_SIZE);
-        const chunk = file.slice(start, end);
-        
-        const chunkForm = new FormData();
-        chunkForm.append('chunk', chunk);
-        chunkForm.append('uploadId', uploadId);
-        chunkForm.append('chunkIndex', i.toString());
-        
-        const response = await fetch(`${API_BASE_URL}/upload/chunk`, {
-          method: 'POST',
-          body: chunkForm,
-        });
-        
-        if (!response.ok) {
-          throw new Error(`Failed to upload chunk ${i}: ${response.statusText}`);
-        }
-        
-        // Update progress
-        const progress = Math.round(((i + 1) / totalChunks) * 100);
-        setSelectedFiles(prev => 
-          prev.map(f => f.id === selectedFile.id ? { ...f, progress } : f)
+
+      const { uploadId, totalChunks, missingChunks, skipChunks } = await resumeOrInitUpload(file);
+
+      if (skipChunks) {
+        setSelectedFiles(prev =>
+          prev.map(f => f.id === selectedFile.id ? { ...f, status: 'success', progress: 100 } : f)
         );
+        return uploadId;
       }
-      
+
+      let pending = missingChunks;
+      let received = totalChunks - pending.length;
+
+      // Keep going until the server confirms it holds every chunk
+      for (let pass = 1; pending.length > 0; pass++) {
+        if (pass > CHUNK_RETRY_LIMIT) {
+          throw new Error(`Server is still missing ${pending.length} chunks`);
+        }
+
+        for (const index of pending) {
+          await uploadChunk(file, uploadId, CHUNK_SIZE, index);
+
+          // Update progress
+          received++;
+          const progress = Math.round((received / totalChunks) * 100);
+          setSelectedFiles(prev =>
+            prev.map(f => f.id === selectedFile.id ? { ...f, progress } : f)
+          );
+        }
+
+        const status = await getUploadStatus(uploadId);
+        pending = status.missingChunks;
+        received = totalChunks - pending.length;
+      }
+
       // Complete the upload
       await apiRequest('POST', '/api/upload/complete', {
         uploadId
       });
-      
+      clearSession(file);
+
       // Update status to success
-      setSelectedFiles(prev => 
+      setSelectedFiles(prev =>
         prev.map(f => f.id === selectedFile.id ? { ...f, status: 'success', progress: 100 } : f)
       );
-      
+
       return uploadId;
     } catch (error: any) {
       console.error('Upload error:', error);
@@ -158,7 +267,7 @@ export const FileUploader: React.FC<FileUploaderProps> = ({ isOpen, onClose }) =
   const uploadMutation = useMutation({
     mutationFn: async () => {
       const uploadPromises = selectedFiles
-        .filter(f => f.status === 'waiting')
+        .filter(f => f.status === 'waiting' || f.status === 'error')
         .map(uploadFile);
       
       return Promise.all(uploadPromises);
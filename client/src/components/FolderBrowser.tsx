@@ -0,0 +1,324 @@
+import React, { useState } from "react";
+import { useMutation, useQuery, useQueryClient } from "@tanstack/react-query";
+import {
+  Breadcrumb,
+  BreadcrumbItem,
+  BreadcrumbLink,
+  BreadcrumbList,
+  BreadcrumbPage,
+  BreadcrumbSeparator,
+} from "@/components/ui/breadcrumb";
+import { Button } from "@/components/ui/button";
+import { Input } from "@/components/ui/input";
+import {
+  Dialog,
+  DialogContent,
+  DialogFooter,
+  DialogHeader,
+  DialogTitle,
+} from "@/components/ui/dialog";
+import {
+  DropdownMenu,
+  DropdownMenuContent,
+  DropdownMenuItem,
+  DropdownMenuTrigger,
+} from "@/components/ui/dropdown-menu";
+import {
+  Select,
+  SelectContent,
+  SelectItem,
+  SelectTrigger,
+  SelectValue,
+} from "@/components/ui/select";
+import { ShareDialog } from "@/components/ShareDialog";
+import { useToast } from "@/hooks/use-toast";
+import { apiRequest } from "@/lib/queryClient";
+import { Folder as FolderIcon, FolderInput, FolderPlus, MoreVertical, Share2, Trash2 } from "lucide-react";
+import { Folder } from "@shared/schema";
+
+interface FolderBrowserProps {
+  currentFolderId: number | null;
+  onNavigate: (folderId: number | null) => void;
+  rootLabel?: string;
+}
+
+type FolderWithAncestors = Folder & { ancestors: Folder[]; role: "viewer" | "editor" | "owner" };
+
+const TOP_LEVEL = "root";
+
+// "Parent / Child" label for a folder, from the flat folder list
+const folderLabel = (folder: Folder, all: Folder[]) =>
+  [...(folder.path ?? []).map((id) => all.find((f) => f.id === id)?.name ?? "…"), folder.name].join(" / ");
+
+export const FolderBrowser: React.FC<FolderBrowserProps> = ({
+  currentFolderId,
+  onNavigate,
+  rootLabel = "All Files",
+}) => {
+  const [newFolderOpen, setNewFolderOpen] = useState(false);
+  const [newFolderName, setNewFolderName] = useState("");
+  const [movingFolder, setMovingFolder] = useState<Folder | null>(null);
+  const [moveTarget, setMoveTarget] = useState<string>("");
+  const [sharingFolder, setSharingFolder] = useState<Folder | null>(null);
+  const { toast } = useToast();
+  const queryClient = useQueryClient();
+
+  const { data: current } = useQuery<FolderWithAncestors>({
+    queryKey: [`/api/folders/${currentFolderId}`],
+    enabled: currentFolderId !== null,
+  });
+
+  const { data: children = [], isLoading } = useQuery<Folder[]>({
+    queryKey: [`/api/folders?parentId=${currentFolderId ?? TOP_LEVEL}`],
+  });
+
+  const { data: allFolders = [] } = useQuery<Folder[]>({
+    queryKey: ["/api/folders"],
+    enabled: movingFolder !== null,
+  });
+
+  const refresh = () => {
+    queryClient.invalidateQueries({
+      predicate: (query) => String(query.queryKey[0]).startsWith("/api/folders"),
+    });
+  };
+
+  const createMutation = useMutation({
+    mutationFn: async (name: string) => {
+      const response = await apiRequest("POST", "/api/folders", { name, parentId: currentFolderId });
+      return response.json();
+    },
+    onSuccess: () => {
+      setNewFolderOpen(false);
+      setNewFolderName("");
+      refresh();
+    },
+    onError: (error: any) => {
+      toast({
+        title: "Failed to create folder",
+        description: error.message || "There was an error creating the folder.",
+        variant: "destructive",
+      });
+    },
+  });
+
+  const moveMutation = useMutation({
+    mutationFn: async ({ folder, parentId }: { folder: Folder; parentId: number | null }) => {
+      const response = await apiRequest("PUT", `/api/folders/${folder.id}/move`, { parentId });
+      return response.json();
+    },
+    onSuccess: () => {
+      setMovingFolder(null);
+      setMoveTarget("");
+      refresh();
+      toast({ title: "Folder moved", variant: "default" });
+    },
+    onError: (error: any) => {
+      toast({
+        title: "Failed to move folder",
+        description: error.message || "There was an error moving the folder.",
+        variant: "destructive",
+      });
+    },
+  });
+
+  const deleteMutation = useMutation({
+    mutationFn: async (folder: Folder) => {
+      // The server refuses to delete a non-empty folder unless asked to take everything in it
+      const response = await fetch(`/api/folders/${folder.id}`, { method: "DELETE", credentials: "include" });
+      if (response.status === 409) {
+        const { folders, files } = await response.json();
+        if (!window.confirm(`"${folder.name}" contains ${folders} subfolder(s) and ${files} file(s). Delete the folders and move the files to the trash?`)) {
+          return false;
+        }
+        await apiRequest("DELETE", `/api/folders/${folder.id}?recursive=true`);
+      } else if (!response.ok) {
+        throw new Error(`${response.status}: ${(await response.text()) || response.statusText}`);
+      }
+      return true;
+    },
+    onSuccess: (deleted) => {
+      if (!deleted) return;
+      refresh();
+      queryClient.invalidateQueries({
+        predicate: (query) =>
+          String(query.queryKey[0]).startsWith("/api/uploads") ||
+          String(query.queryKey[0]).startsWith("/api/trash"),
+      });
+      toast({ title: "Folder deleted", variant: "default" });
+    },
+    onError: (error: any) => {
+      toast({
+        title: "Failed to delete folder",
+        description: error.message || "There was an error deleting the folder.",
+        variant: "destructive",
+      });
+    },
+  });
+
+  // Subfolders of a folder someone shared with us can only be changed by its owner,
+  // and viewers cannot add to it
+  const ownsChildren = currentFolderId === null || current?.role === "owner";
+  const canAdd = currentFolderId === null || current?.role === "owner" || current?.role === "editor";
+
+  // A folder cannot go into itself or anything below it
+  const moveTargets = movingFolder
+    ? allFolders.filter((f) => f.id !== movingFolder.id && !(f.path ?? []).includes(movingFolder.id))
+    : [];
+
+  return (
+    <div className="space-y-4">
+      <div className="flex items-center justify-between">
+        <Breadcrumb>
+          <BreadcrumbList>
+            <BreadcrumbItem>
+              {currentFolderId === null ? (
+                <BreadcrumbPage>{rootLabel}</BreadcrumbPage>
+              ) : (
+                <BreadcrumbLink className="cursor-pointer" onClick={() => onNavigate(null)}>
+                  {rootLabel}
+                </BreadcrumbLink>
+              )}
+            </BreadcrumbItem>
+            {current?.ancestors.map((ancestor) => (
+              <React.Fragment key={ancestor.id}>
+                <BreadcrumbSeparator />
+                <BreadcrumbItem>
+                  <BreadcrumbLink className="cursor-pointer" onClick={() => onNavigate(ancestor.id)}>
+                    {ancestor.name}
+                  </BreadcrumbLink>
+                </BreadcrumbItem>
+              </React.Fragment>
+            ))}
+            {currentFolderId !== null && (
+              <>
+                <BreadcrumbSeparator />
+                <BreadcrumbItem>
+                  <BreadcrumbPage>{current?.name ?? "…"}</BreadcrumbPage>
+                </BreadcrumbItem>
+              </>
+            )}
+          </BreadcrumbList>
+        </Breadcrumb>
+        <Button variant="outline" size="sm" onClick={() => setNewFolderOpen(true)} disabled={!canAdd}>
+          <FolderPlus className="mr-2 h-4 w-4" /> New Folder
+        </Button>
+      </div>
+
+      {isLoading && <div className="text-sm text-muted-foreground">Loading folders...</div>}
+
+      {children.length > 0 && (
+        <div className="grid grid-cols-2 md:grid-cols-4 gap-3">
+          {children.map((folder) => (
+            <div
+              key={folder.id}
+              className="flex items-center justify-between border rounded-lg px-3 py-2 hover:bg-gray-50"
+            >
+              <button
+                className="flex items-center min-w-0 flex-1 text-left"
+                onClick={() => onNavigate(folder.id)}
+              >
+                <FolderIcon className="h-5 w-5 mr-2 text-yellow-500 shrink-0" />
+                <span className="truncate">{folder.name}</span>
+              </button>
+              {folder.userId && ownsChildren && (
+                <DropdownMenu>
+                  <DropdownMenuTrigger asChild>
+                    <Button variant="ghost" size="icon" className="h-8 w-8">
+                      <MoreVertical className="h-4 w-4" />
+                    </Button>
+                  </DropdownMenuTrigger>
+                  <DropdownMenuContent align="end">
+                    <DropdownMenuItem onClick={() => setSharingFolder(folder)}>
+                      <Share2 className="mr-2 h-4 w-4" /> Share
+                    </DropdownMenuItem>
+                    <DropdownMenuItem onClick={() => setMovingFolder(folder)}>
+                      <FolderInput className="mr-2 h-4 w-4" /> Move
+                    </DropdownMenuItem>
+                    <DropdownMenuItem className="text-red-600" onClick={() => deleteMutation.mutate(folder)}>
+                      <Trash2 className="mr-2 h-4 w-4" /> Delete
+                    </DropdownMenuItem>
+                  </DropdownMenuContent>
+                </DropdownMenu>
+              )}
+            </div>
+          ))}
+        </div>
+      )}
+
+      {/* New Folder Dialog */}
+      <Dialog open={newFolderOpen} onOpenChange={setNewFolderOpen}>
+        <DialogContent>
+          <DialogHeader>
+            <DialogTitle>New Folder{current ? ` in ${current.name}` : ""}</DialogTitle>
+          </DialogHeader>
+          <Input
+            placeholder="Folder name"
+            value={newFolderName}
+            onChange={(e) => setNewFolderName(e.target.value)}
+          />
+          <DialogFooter>
+            <Button variant="outline" onClick={() => setNewFolderOpen(false)}>
+              Cancel
+            </Button>
+            <Button
+              onClick={() => createMutation.mutate(newFolderName.trim())}
+              disabled={!newFolderName.trim() || createMutation.isPending}
+            >
+              {createMutation.isPending ? "Creating..." : "Create"}
+            </Button>
+          </DialogFooter>
+        </DialogContent>
+      </Dialog>
+
+      {/* Move Folder Dialog */}
+      <Dialog open={movingFolder !== null} onOpenChange={(open) => !open && setMovingFolder(null)}>
+        <DialogContent>
+          <DialogHeader>
+            <DialogTitle>Move {movingFolder?.name}</DialogTitle>
+          </DialogHeader>
+          <Select value={moveTarget} onValueChange={setMoveTarget}>
+            <SelectTrigger>
+              <SelectValue placeholder="Select destination folder" />
+            </SelectTrigger>
+            <SelectContent>
+              <SelectItem value={TOP_LEVEL}>Top level</SelectItem>
+              {moveTargets.map((folder) => (
+                <SelectItem key={folder.id} value={folder.id.toString()}>
+                  {folderLabel(folder, allFolders)}
+                </SelectItem>
+              ))}
+            </SelectContent>
+          </Select>
+          <DialogFooter>
+            <Button variant="outline" onClick={() => setMovingFolder(null)}>
+              Cancel
+            </Button>
+            <Button
+              onClick={() =>
+                movingFolder &&
+                moveMutation.mutate({
+                  folder: movingFolder,
+                  parentId: moveTarget === TOP_LEVEL ? null : parseInt(moveTarget, 10),
+                })
+              }
+              disabled={!moveTarget || moveMutation.isPending}
+            >
+              {moveMutation.isPending ? "Moving..." : "Move Folder"}
+            </Button>
+          </DialogFooter>
+        </DialogContent>
+      </Dialog>
+
+      {sharingFolder && (
+        <ShareDialog
+          isOpen={sharingFolder !== null}
+          onClose={() => setSharingFolder(null)}
+          kind="folders"
+          id={sharingFolder.id}
+          name={sharingFolder.name}
+        />
+      )}
+    </div>
+  );
+};
@@ -0,0 +1,379 @@
+import React, { useEffect, useState } from "react";
+import { Link } from "wouter";
+import { useInfiniteQuery } from "@tanstack/react-query";
+import { Badge } from "@/components/ui/badge";
+import { Button } from "@/components/ui/button";
+import { Checkbox } from "@/components/ui/checkbox";
+import { Input } from "@/components/ui/input";
+import {
+  Select,
+  SelectContent,
+  SelectItem,
+  SelectTrigger,
+  SelectValue,
+} from "@/components/ui/select";
+import {
+  Table,
+  TableBody,
+  TableCell,
+  TableHead,
+  TableHeader,
+  TableRow,
+} from "@/components/ui/table";
+import { apiRequest } from "@/lib/queryClient";
+import { Download, Eye, Search, SlidersHorizontal, X } from "lucide-react";
+import { format } from "date-fns";
+import {
+  FileCategory,
+  SearchDateFacet,
+  SearchFacetValue,
+  SearchRangeFacet,
+  SearchSort,
+  Upload,
+  UploadSearchResult,
+} from "@shared/schema";
+
+interface LibrarySearchProps {
+  // Search only within this category, e.g. videos on the Videos page
+  category?: FileCategory;
+  placeholder?: string;
+  // Shown instead of results while nothing is being searched for
+  children: React.ReactNode;
+}
+
+interface SearchFilters {
+  category: string[];
+  mimeType: string[];
+  status: string[];
+  size: SearchRangeFacet | null;
+  date: SearchDateFacet | null;
+}
+
+const noFilters: SearchFilters = { category: [], mimeType: [], status: [], size: null, date: null };
+
+const sortLabels: Record<SearchSort, string> = {
+  relevance: "Best match",
+  newest: "Newest",
+  oldest: "Oldest",
+  name: "Name",
+  largest: "Largest",
+  smallest: "Smallest",
+};
+
+const formatBytes = (bytes: number): string => {
+  if (bytes === 0) return "0 Bytes";
+
+  const k = 1024;
+  const sizes = ["Bytes", "KB", "MB", "GB", "TB"];
+  const i = Math.floor(Math.log(bytes) / Math.log(k));
+
+  return parseFloat((bytes / Math.pow(k, i)).toFixed(2)) + " " + sizes[i];
+};
+
+const sizeLabel = ({ min, max }: SearchRangeFacet) =>
+  max === null ? `${formatBytes(min ?? 0)} and up` : min ? `${formatBytes(min)} – ${formatBytes(max)}` : `Under ${formatBytes(max)}`;
+
+const dateLabel = ({ from, to }: SearchDateFacet) => {
+  if (!from) return "Older than a year";
+  if (!to) return "Last 24 hours";
+  const days = Math.round((Date.now() - new Date(from).getTime()) / (24 * 60 * 60 * 1000));
+  return days <= 7 ? "Last week" : days <= 31 ? "Last month" : "Last year";
+};
+
+// Duration, resolution or page count, whichever the file has
+const metadataSummary = ({ metadata }: Upload) => {
+  const parts: string[] = [];
+  if (metadata?.duration) {
+    const minutes = Math.floor(metadata.duration / 60);
+    parts.push(`${minutes}:${String(Math.round(metadata.duration % 60)).padStart(2, "0")}`);
+  }
+  if (metadata?.height) parts.push(`${metadata.height}p`);
+  if (metadata?.codec) parts.push(metadata.codec);
+  if (metadata?.pageCount) parts.push(`${metadata.pageCount} pages`);
+  return parts.join(" · ");
+};
+
+const FacetGroup: React.FC<{
+  title: string;
+  values: SearchFacetValue[];
+  selected: string[];
+  onChange: (selected: string[]) => void;
+}> = ({ title, values, selected, onChange }) =>
+  values.length === 0 ? null : (
+    <div>
+      <h3 className="text-sm font-medium mb-2">{title}</h3>
+      <ul className="space-y-1.5">
+        {values.map(({ value, count }) => (
+          <li key={value} className="flex items-center space-x-2 text-sm">
+            <Checkbox
+              id={`${title}-${value}`}
+              checked={selected.includes(value)}
+              onCheckedChange={(checked) =>
+                onChange(checked ? [...selected, value] : selected.filter((v) => v !== value))
+              }
+            />
+            <label htmlFor={`${title}-${value}`} className="flex-1 truncate capitalize cursor-pointer">
+              {value}
+            </label>
+            <span className="text-muted-foreground">{count}</span>
+          </li>
+        ))}
+      </ul>
+    </div>
+  );
+
+function RangeGroup<T extends SearchRangeFacet | SearchDateFacet>({
+  title,
+  ranges,
+  selected,
+  label,
+  onChange,
+}: {
+  title: string;
+  ranges: T[];
+  selected: T | null;
+  label: (range: T) => string;
+  onChange: (range: T | null) => void;
+}) {
+  if (ranges.length === 0) return null;
+  const isSelected = (range: T) => label(range) === (selected && label(selected));
+
+  return (
+    <div>
+      <h3 className="text-sm font-medium mb-2">{title}</h3>
+      <ul className="space-y-1">
+        {ranges.map((range) => (
+          <li key={label(range)}>
+            <button
+              className={`w-full flex justify-between text-sm rounded px-1.5 py-0.5 hover:bg-gray-100 ${
+                isSelected(range) ? "bg-gray-100 font-medium" : ""
+              }`}
+              onClick={() => onChange(isSelected(range) ? null : range)}
+            >
+              <span>{label(range)}</span>
+              <span className="text-muted-foreground">{range.count}</span>
+            </button>
+          </li>
+        ))}
+      </ul>
+    </div>
+  );
+}
+
+export const LibrarySearch: React.FC<LibrarySearchProps> = ({ category, placeholder = "Search files", children }) => {
+  const [input, setInput] = useState("");
+  const [query, setQuery] = useState("");
+  const [showFilters, setShowFilters] = useState(false);
+  const [filters, setFilters] = useState<SearchFilters>(noFilters);
+  const [sort, setSort] = useState<SearchSort>("relevance");
+
+  // Search once typing pauses rather than on every keystroke
+  useEffect(() => {
+    const timer = setTimeout(() => setQuery(input.trim()), 300);
+    return () => clearTimeout(timer);
+  }, [input]);
+
+  const active = query !== "" || showFilters;
+
+  const params = new URLSearchParams();
+  if (query) params.append("q", query);
+  const categories = category ? [category] : filters.category;
+  if (categories.length) params.append("category", categories.join(","));
+  if (filters.mimeType.length) params.append("mimeType", filters.mimeType.join(","));
+  if (filters.status.length) params.append("status", filters.status.join(","));
+  if (filters.size?.min) params.append("minSize", String(filters.size.min));
+  if (filters.size?.max) params.append("maxSize", String(filters.size.max - 1));
+  if (filters.date?.from) params.append("from", filters.date.from);
+  if (filters.date?.to) params.append("to", filters.date.to);
+  params.append("sort", sort);
+
+  const { data, isLoading, error, fetchNextPage, hasNextPage, isFetchingNextPage } = useInfiniteQuery({
+    queryKey: ["/api/search", params.toString()],
+    queryFn: async ({ pageParam }): Promise<UploadSearchResult> => {
+      const cursor = pageParam ? `&cursor=${encodeURIComponent(pageParam)}` : "";
+      const response = await apiRequest("GET", `/api/search?${params.toString()}${cursor}`);
+      return response.json();
+    },
+    initialPageParam: null as string | null,
+    getNextPageParam: (last) => last.nextCursor,
+    enabled: active,
+  });
+
+  const results = data?.pages.flatMap((page) => page.results) ?? [];
+  const facets = data?.pages[0]?.facets;
+  const total = data?.pages[0]?.total ?? 0;
+
+  const clear = () => {
+    setInput("");
+    setQuery("");
+    setFilters(noFilters);
+    setShowFilters(false);
+  };
+
+  return (
+    <div className="space-y-6">
+      <div className="bg-white rounded-lg shadow-sm p-4">
+        <div className="flex flex-col md:flex-row gap-2">
+          <div className="relative flex-1">
+            <Search className="absolute left-3 top-1/2 -translate-y-1/2 h-4 w-4 text-muted-foreground" />
+            <Input
+              className="pl-9"
+              placeholder={placeholder}
+              value={input}
+              onChange={(e) => setInput(e.target.value)}
+            />
+          </div>
+          <Select value={sort} onValueChange={(value) => setSort(value as SearchSort)}>
+            <SelectTrigger className="md:w-40">
+              <SelectValue />
+            </SelectTrigger>
+            <SelectContent>
+              {Object.entries(sortLabels).map(([value, label]) => (
+                <SelectItem key={value} value={value}>
+                  {label}
+                </SelectItem>
+              ))}
+            </SelectContent>
+          </Select>
+          <Button variant={showFilters ? "secondary" : "outline"} onClick={() => setShowFilters(!showFilters)}>
+            <SlidersHorizontal className="mr-2 h-4 w-4" /> Filters
+          </Button>
+          {active && (
+            <Button variant="ghost" onClick={clear}>
+              <X className="mr-2 h-4 w-4" /> Clear
+            </Button>
+          )}
+        </div>
+      </div>
+
+      {!active ? (
+        children
+      ) : (
+        <div className="flex flex-col md:flex-row gap-6">
+          {/* Facet Sidebar */}
+          <aside className="md:w-60 shrink-0 bg-white rounded-lg shadow-sm p-4 space-y-5">
+            {facets && (
+              <>
+                {!category && (
+                  <FacetGroup
+                    title="Category"
+                    values={facets.category}
+                    selected={filters.category}
+                    onChange={(selected) => setFilters({ ...filters, category: selected })}
+                  />
+                )}
+                <FacetGroup
+                  title="Type"
+                  values={facets.mimeType}
+                  selected={filters.mimeType}
+                  onChange={(selected) => setFilters({ ...filters, mimeType: selected })}
+                />
+                <FacetGroup
+                  title="Status"
+                  values={facets.status}
+                  selected={filters.status}
+                  onChange={(selected) => setFilters({ ...filters, status: selected })}
+                />
+                <RangeGroup
+                  title="Size"
+                  ranges={facets.size}
+                  selected={filters.size}
+                  label={sizeLabel}
+                  onChange={(size) => setFilters({ ...filters, size })}
+                />
+                <RangeGroup
+                  title="Uploaded"
+                  ranges={facets.date}
+                  selected={filters.date}
+                  label={dateLabel}
+                  onChange={(date) => setFilters({ ...filters, date })}
+                />
+              </>
+            )}
+          </aside>
+
+          {/* Search Results */}
+          <div className="flex-1 bg-white rounded-lg shadow-sm p-6">
+            {isLoading && <div className="py-8 text-center">Searching...</div>}
+
+            {error && (
+              <div className="py-8 text-center text-red-500">
+                Search failed: {(error as Error).message}
+              </div>
+            )}
+
+            {data && results.length === 0 && (
+              <div className="py-12 text-center text-gray-500">No files match your search</div>
+            )}
+
+            {results.length > 0 && (
+              <>
+                <div className="text-sm text-muted-foreground mb-2">
+                  {total} {total === 1 ? "file" : "files"}
+                </div>
+                <Table>
+                  <TableHeader>
+                    <TableRow>
+                      <TableHead>Name</TableHead>
+                      <TableHead>Folder</TableHead>
+                      <TableHead>Details</TableHead>
+                      <TableHead>Uploaded</TableHead>
+                      <TableHead>Size</TableHead>
+                      <TableHead>Actions</TableHead>
+                    </TableRow>
+                  </TableHeader>
+                  <TableBody>
+                    {results.map((upload) => (
+                      <TableRow key={upload.id}>
+                        <TableCell>
+                          <div className="font-medium">{upload.uploadName}</div>
+                          <div className="flex flex-wrap gap-1 mt-1">
+                            <Badge variant="outline" className="capitalize">{upload.category}</Badge>
+                            {(upload.tags ?? []).map((tag) => (
+                              <Badge key={tag} variant="secondary">{tag}</Badge>
+                            ))}
+                          </div>
+                        </TableCell>
+                        <TableCell>{upload.folderName || "home"}</TableCell>
+                        <TableCell className="text-muted-foreground">{metadataSummary(upload)}</TableCell>
+                        <TableCell className="text-muted-foreground">
+                          {format(new Date(upload.createdAt), "PP")}
+                        </TableCell>
+                        <TableCell className="text-muted-foreground">{formatBytes(upload.fileSize)}</TableCell>
+                        <TableCell>
+                          {upload.category === "video" ? (
+                            <Link href={`/video/${upload.id}`}>
+                              <Button variant="ghost" size="icon" title="View">
+                                <Eye className="h-4 w-4 text-muted-foreground" />
+                              </Button>
+                            </Link>
+                          ) : (
+                            <Button
+                              variant="ghost"
+                              size="icon"
+                              title="Download"
+                              onClick={() => window.open(`/api/download/${upload.id}`, "_blank")}
+                            >
+                              <Download className="h-4 w-4 text-muted-foreground" />
+                            </Button>
+                          )}
+                        </TableCell>
+                      </TableRow>
+                    ))}
+                  </TableBody>
+                </Table>
+                {hasNextPage && (
+                  <div className="mt-4 text-center">
+                    <Button variant="outline" onClick={() => fetchNextPage()} disabled={isFetchingNextPage}>
+                      {isFetchingNextPage ? "Loading..." : "Load more"}
+                    </Button>
+                  </div>
+                )}
+              </>
+            )}
+          </div>
+        </div>
+      )}
+    </div>
+  );
+};
@@ -0,0 +1,170 @@
+import React, { useState } from "react";
+import { useMutation, useQuery, useQueryClient } from "@tanstack/react-query";
+import { Button } from "@/components/ui/button";
+import { Input } from "@/components/ui/input";
+import {
+  Dialog,
+  DialogContent,
+  DialogDescription,
+  DialogHeader,
+  DialogTitle,
+} from "@/components/ui/dialog";
+import {
+  Select,
+  SelectContent,
+  SelectItem,
+  SelectTrigger,
+  SelectValue,
+} from "@/components/ui/select";
+import { useToast } from "@/hooks/use-toast";
+import { apiRequest } from "@/lib/queryClient";
+import { Plus, X } from "lucide-react";
+import { MetadataField, MetadataFieldType, metadataFieldTypes } from "@shared/schema";
+
+interface MetadataFieldsDialogProps {
+  isOpen: boolean;
+  onClose: () => void;
+}
+
+export const MetadataFieldsDialog: React.FC<MetadataFieldsDialogProps> = ({ isOpen, onClose }) => {
+  const [label, setLabel] = useState("");
+  const [type, setType] = useState<MetadataFieldType>("text");
+  const [options, setOptions] = useState("");
+  const { toast } = useToast();
+  const queryClient = useQueryClient();
+
+  const { data: fields = [], isLoading } = useQuery<MetadataField[]>({
+    queryKey: ["/api/metadata-fields"],
+    enabled: isOpen,
+  });
+
+  const onChanged = () => {
+    queryClient.invalidateQueries({
+      predicate: (query) =>
+        String(query.queryKey[0]).startsWith("/api/metadata-fields") ||
+        String(query.queryKey[0]).startsWith("/api/uploads"),
+    });
+  };
+
+  const createMutation = useMutation({
+    mutationFn: async () => {
+      const response = await apiRequest("POST", "/api/metadata-fields", {
+        label,
+        type,
+        options: type === "select"
+          ? options.split(",").map((option) => option.trim()).filter(Boolean)
+          : [],
+      });
+      return response.json();
+    },
+    onSuccess: () => {
+      onChanged();
+      setLabel("");
+      setOptions("");
+    },
+    onError: (error: any) => {
+      toast({
+        title: "Failed to add field",
+        description: error.message || "There was an error adding the field.",
+        variant: "destructive",
+      });
+    },
+  });
+
+  const deleteMutation = useMutation({
+    mutationFn: async (field: MetadataField) => {
+      await apiRequest("DELETE", `/api/metadata-fields/${field.id}`);
+    },
+    onSuccess: onChanged,
+    onError: (error: any) => {
+      toast({
+        title: "Failed to delete field",
+        description: error.message || "There was an error deleting the field.",
+        variant: "destructive",
+      });
+    },
+  });
+
+  const onDelete = (field: MetadataField) => {
+    if (window.confirm(`Delete "${field.label}"? Its values are removed from every file.`)) {
+      deleteMutation.mutate(field);
+    }
+  };
+
+  return (
+    <Dialog open={isOpen} onOpenChange={(open) => !open && onClose()}>
+      <DialogContent>
+        <DialogHeader>
+          <DialogTitle>Custom fields</DialogTitle>
+          <DialogDescription>
+            Fields you define here can be filled in on each of your files, and on files in folders you share.
+          </DialogDescription>
+        </DialogHeader>
+
+        <div className="space-y-2">
+          <div className="flex gap-2">
+            <Input
+              placeholder="Field name"
+              value={label}
+              onChange={(e) => setLabel(e.target.value)}
+            />
+            <Select value={type} onValueChange={(value) => setType(value as MetadataFieldType)}>
+              <SelectTrigger className="w-32">
+                <SelectValue />
+              </SelectTrigger>
+              <SelectContent>
+                {metadataFieldTypes.map((t) => (
+                  <SelectItem key={t} value={t} className="capitalize">
+                    {t}
+                  </SelectItem>
+                ))}
+              </SelectContent>
+            </Select>
+            <Button
+              size="icon"
+              title="Add field"
+              onClick={() => createMutation.mutate()}
+              disabled={!label.trim() || (type === "select" && !options.trim()) || createMutation.isPending}
+            >
+              <Plus className="h-4 w-4" />
+            </Button>
+          </div>
+          {type === "select" && (
+            <Input
+              placeholder="Choices, separated by commas"
+              value={options}
+              onChange={(e) => setOptions(e.target.value)}
+            />
+          )}
+        </div>
+
+        <div className="space-y-2">
+          {isLoading && <div className="text-sm text-muted-foreground">Loading...</div>}
+          {!isLoading && fields.length === 0 && (
+            <div className="text-sm text-muted-foreground">No custom fields yet</div>
+          )}
+          {fields.map((field) => (
+            <div key={field.id} className="flex items-center justify-between text-sm">
+              <div className="min-w-0">
+                <div className="truncate font-medium">{field.label}</div>
+                <div className="truncate text-xs text-muted-foreground capitalize">
+                  {field.type}
+                  {field.type === "select" && `: ${field.options.join(", ")}`}
+                </div>
+              </div>
+              <Button
+                variant="ghost"
+                size="icon"
+                title="Delete field"
+                onClick={() => onDelete(field)}
+                disabled={deleteMutation.isPending}
+              >
+                <X className="h-4 w-4" />
+              </Button>
+            </div>
+          ))}
+        </div>
+      </DialogContent>
+    </Dialog>
+  );
+};
@@ -1,69 +1,54 @@
-
 import React from 'react';
 import { Dialog, DialogContent, DialogHeader, DialogTitle, DialogFooter } from './ui/dialog';
 import { Button } from './ui/button';
 import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from './ui/select';
-import { useQuery, useMutation, useQueryClient } from '@tanstack/react-query';
-import { apiRequest } from '@/lib/api';
-import { useToast } from '@/hooks/use-toast';
+import { useQuery } from '@tanstack/react-query';
+import { Folder } from '@shared/schema';
 
 interface MoveFileDialogProps {
   isOpen: boolean;
   onClose: () => void;
-  file?: any;
+  count: number;
+  onMove: (folderId: number | null) => void;
 }
 
+// Radix selects cannot hold an empty value, so the top level gets a stand-in
+const TOP_LEVEL = 'root';
+
 export const MoveFileDialog: React.FC<MoveFileDialogProps> = ({
   isOpen,
   onClose,
-  file
+  count,
+  onMove
 }) => {
   const [selectedFolder, setSelectedFolder] = React.useState<string>('');
-  const { toast } = useToast();
-  const queryClient = useQueryClient();
 
-  const { data: folders = [] } = useQuery({
+  const { data: folders = [] } = useQuery<Folder[]>({
     queryKey: ['/api/folders'],
     enabled: isOpen
   });
 
-  const moveMutation = useMutation({
-    mutationFn: async () => {
-      await apiRequest('PUT', `/api/files/${file?.id}/move`, {
-        folderId: selectedFolder
-      });
-    },
-    onSuccess: () => {
-      queryClient.invalidateQueries({ queryKey: ['/api/uploads'] });
-      toast({
-        title: 'File moved successfully',
-        variant: 'default'
-      });
-      onClose();
-    },
-    onError: (error: any) => {
-      toast({
-        title: 'Failed to move file',
-        description: error.message,
-        variant: 'destructive'
-      });
-    }
-  });
+  const onConfirm = () => {
+    onMove(selectedFolder === TOP_LEVEL ? null : parseInt(selectedFolder, 10));
+    setSelectedFolder('');
+    onClose();
+  };
 
   return (
     <Dialog open={isOpen} onOpenChange={onClose}>
       <DialogContent>
         <DialogHeader>
-          <DialogTitle>Move File</DialogTitle>
+          <DialogTitle>{count === 1 ? 'Move File' : `Move ${count} Files`}</DialogTitle>
         </DialogHeader>
-        
+
         <div className="py-4">
           <Select value={selectedFolder} onValueChange={setSelectedFolder}>
             <SelectTrigger>
               <SelectValue placeholder="Select destination folder" />
             </SelectTrigger>
             <SelectContent>
-              {folders.map((folder: any) => (
+              <SelectItem value={TOP_LEVEL}>All Files (top level)</SelectItem>
+              {folders.map((folder) => (
                 <SelectItem key={folder.id} value={folder.id.toString()}>
                   {folder.name}
                 </SelectItem>
@@ -76,11 +61,11 @@ export const MoveFileDialog: React.FC<MoveFileDialogProps> = ({
           <Button variant="outline" onClick={onClose}>
             Cancel
           </Button>
-          <Button 
-            onClick={() => moveMutation.mutate()}
-            disabled={!selectedFolder || moveMutation.isPending}
+          <Button
+            onClick={onConfirm}
+            disabled={!selectedFolder}
           >
-            {moveMutation.isPending ? 'Moving...' : 'Move File'}
+            {count === 1 ? 'Move File' : 'Move Files'}
           </Button>
         </DialogFooter>
       </DialogContent>
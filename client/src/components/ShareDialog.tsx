@@ -0,0 +1,177 @@
+import React, { useState } from "react";
+import { useMutation, useQuery, useQueryClient } from "@tanstack/react-query";
+import { Button } from "@/components/ui/button";
+import { Input } from "@/components/ui/input";
+import {
+  Dialog,
+  DialogContent,
+  DialogDescription,
+  DialogFooter,
+  DialogHeader,
+  DialogTitle,
+} from "@/components/ui/dialog";
+import {
+  Select,
+  SelectContent,
+  SelectItem,
+  SelectTrigger,
+  SelectValue,
+} from "@/components/ui/select";
+import { useToast } from "@/hooks/use-toast";
+import { apiRequest } from "@/lib/queryClient";
+import { X } from "lucide-react";
+import { ShareRole, shareRoles } from "@shared/schema";
+
+interface ShareDialogProps {
+  isOpen: boolean;
+  onClose: () => void;
+  kind: "folders" | "uploads";
+  id: number;
+  name: string;
+}
+
+interface ShareData {
+  userId: string;
+  role: ShareRole;
+  username: string | null;
+  displayName: string | null;
+  email: string | null;
+}
+
+export const ShareDialog: React.FC<ShareDialogProps> = ({ isOpen, onClose, kind, id, name }) => {
+  const [user, setUser] = useState("");
+  const [role, setRole] = useState<ShareRole>("viewer");
+  const { toast } = useToast();
+  const queryClient = useQueryClient();
+  const sharesKey = `/api/${kind}/${id}/shares`;
+
+  const { data: shares = [], isLoading } = useQuery<ShareData[]>({
+    queryKey: [sharesKey],
+    enabled: isOpen,
+  });
+
+  const onSaved = (updated: ShareData[]) => {
+    queryClient.setQueryData([sharesKey], updated);
+  };
+
+  const shareMutation = useMutation({
+    mutationFn: async (share: { user: string; role: ShareRole }) => {
+      const response = await apiRequest("PUT", sharesKey, share);
+      return response.json();
+    },
+    onSuccess: (updated: ShareData[]) => {
+      onSaved(updated);
+      setUser("");
+    },
+    onError: (error: any) => {
+      toast({
+        title: "Failed to share",
+        description: error.message || `There was an error sharing ${name}.`,
+        variant: "destructive",
+      });
+    },
+  });
+
+  const unshareMutation = useMutation({
+    mutationFn: async (userId: string) => {
+      const response = await apiRequest("DELETE", `${sharesKey}/${userId}`);
+      return response.json();
+    },
+    onSuccess: onSaved,
+    onError: (error: any) => {
+      toast({
+        title: "Failed to remove access",
+        description: error.message || "There was an error removing access.",
+        variant: "destructive",
+      });
+    },
+  });
+
+  return (
+    <Dialog open={isOpen} onOpenChange={(open) => !open && onClose()}>
+      <DialogContent>
+        <DialogHeader>
+          <DialogTitle>Share {name}</DialogTitle>
+          <DialogDescription>
+            Viewers can open and download; editors can also add and change files.
+          </DialogDescription>
+        </DialogHeader>
+
+        <div className="flex gap-2">
+          <Input
+            placeholder="Username or email"
+            value={user}
+            onChange={(e) => setUser(e.target.value)}
+          />
+          <Select value={role} onValueChange={(value) => setRole(value as ShareRole)}>
+            <SelectTrigger className="w-32">
+              <SelectValue />
+            </SelectTrigger>
+            <SelectContent>
+              {shareRoles.map((r) => (
+                <SelectItem key={r} value={r} className="capitalize">
+                  {r}
+                </SelectItem>
+              ))}
+            </SelectContent>
+          </Select>
+        </div>
+
+        <div className="space-y-2">
+          {isLoading && <div className="text-sm text-muted-foreground">Loading...</div>}
+          {!isLoading && shares.length === 0 && (
+            <div className="text-sm text-muted-foreground">Not shared with anyone yet</div>
+          )}
+          {shares.map((share) => (
+            <div key={share.userId} className="flex items-center justify-between text-sm">
+              <div className="min-w-0">
+                <div className="truncate font-medium">{share.displayName || share.username || share.userId}</div>
+                {share.email && <div className="truncate text-xs text-muted-foreground">{share.email}</div>}
+              </div>
+              <div className="flex items-center gap-2">
+                <Select
+                  value={share.role}
+                  onValueChange={(value) =>
+                    shareMutation.mutate({ user: share.username ?? share.email ?? "", role: value as ShareRole })
+                  }
+                >
+                  <SelectTrigger className="h-8 w-28">
+                    <SelectValue />
+                  </SelectTrigger>
+                  <SelectContent>
+                    {shareRoles.map((r) => (
+                      <SelectItem key={r} value={r} className="capitalize">
+                        {r}
+                      </SelectItem>
+                    ))}
+                  </SelectContent>
+                </Select>
+                <Button
+                  variant="ghost"
+                  size="icon"
+                  className="h-8 w-8"
+                  title="Remove access"
+                  onClick={() => unshareMutation.mutate(share.userId)}
+                >
+                  <X className="h-4 w-4" />
+                </Button>
+              </div>
+            </div>
+          ))}
+        </div>
+
+        <DialogFooter>
+          <Button variant="outline" onClick={onClose}>
+            Done
+          </Button>
+          <Button
+            onClick={() => shareMutation.mutate({ user: user.trim(), role })}
+            disabled={!user.trim() || shareMutation.isPending}
+          >
+            {shareMutation.isPending ? "Sharing..." : "Share"}
+          </Button>
+        </DialogFooter>
+      </DialogContent>
+    </Dialog>
+  );
+};
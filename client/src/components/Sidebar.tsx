@@ -1,7 +1,7 @@
 import React, { useEffect, useState } from "react";
 import { Link, useLocation } from "wouter";
 import { useQuery } from "@tanstack/react-query";
-import { Home, FolderOpen, Video, ListChecks, Database } from "lucide-react";
+import { Home, FolderOpen, Users, Video, ListChecks, Database, Trash2 } from "lucide-react";
 import { getFolders } from "@/lib/api";
 
 interface NavItemProps {
@@ -67,6 +67,14 @@ export const Sidebar: React.FC<SidebarProps> = ({ closeMobile }) => {
         >
           Files
         </NavItem>
+        <NavItem
+          href="/shared"
+          icon={<Users className="h-5 w-5" />}
+          isActive={location === "/shared"}
+          onClick={closeMobile}
+        >
+          Shared with me
+        </NavItem>
         <NavItem
           href="/videos"
           icon={<Video className="h-5 w-5" />}
@@ -91,6 +99,14 @@ export const Sidebar: React.FC<SidebarProps> = ({ closeMobile }) => {
         >
           Storage
         </NavItem>
+        <NavItem
+          href="/trash"
+          icon={<Trash2 className="h-5 w-5" />}
+          isActive={location === "/trash"}
+          onClick={closeMobile}
+        >
+          Trash
+        </NavItem>
       </ul>
 
       <div className="border-t my-4"></div>
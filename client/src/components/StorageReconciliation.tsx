@@ -0,0 +1,307 @@
+import React, { useState } from 'react';
+import { useMutation, useQuery, useQueryClient } from '@tanstack/react-query';
+import { Card, CardContent, CardHeader, CardTitle } from '@/components/ui/card';
+import { Badge } from '@/components/ui/badge';
+import { Button } from '@/components/ui/button';
+import { Checkbox } from '@/components/ui/checkbox';
+import {
+  Select,
+  SelectContent,
+  SelectItem,
+  SelectTrigger,
+  SelectValue,
+} from '@/components/ui/select';
+import {
+  Table,
+  TableBody,
+  TableCell,
+  TableHead,
+  TableHeader,
+  TableRow,
+} from '@/components/ui/table';
+import { useToast } from '@/hooks/use-toast';
+import { apiRequest } from '@/lib/queryClient';
+import { RefreshCw, Trash2, Link } from 'lucide-react';
+import { formatDistance } from 'date-fns';
+import { DriveFileReference, OrphanedDriveFile, StorageReconciliationReport } from '@shared/schema';
+
+interface ReconciliationResponse {
+  running: boolean;
+  report: StorageReconciliationReport | null;
+  lastError: string | null;
+}
+
+const reconciliationUrl = '/api/storage/reconciliation';
+
+const formatBytes = (bytes: number) => {
+  if (bytes === 0) return '0 Bytes';
+  const k = 1024;
+  const sizes = ['Bytes', 'KB', 'MB', 'GB', 'TB'];
+  const i = Math.floor(Math.log(bytes) / Math.log(k));
+  return parseFloat((bytes / Math.pow(k, i)).toFixed(2)) + ' ' + sizes[i];
+};
+
+const referenceKey = (reference: DriveFileReference) => `${reference.kind}:${reference.recordId}`;
+
+export const StorageReconciliation: React.FC = () => {
+  const [selectedOrphans, setSelectedOrphans] = useState<string[]>([]);
+  const [relinkTargets, setRelinkTargets] = useState<Record<string, string>>({});
+  const { toast } = useToast();
+  const queryClient = useQueryClient();
+
+  const { data, isLoading } = useQuery<ReconciliationResponse>({
+    queryKey: [reconciliationUrl],
+    refetchInterval: (query) => (query.state.data?.running ? 3000 : false),
+  });
+
+  const refresh = () => {
+    queryClient.invalidateQueries({ queryKey: [reconciliationUrl] });
+    queryClient.invalidateQueries({ queryKey: ['/api/service-accounts/usage'] });
+  };
+
+  const runMutation = useMutation({
+    mutationFn: async () => {
+      const response = await apiRequest('POST', reconciliationUrl);
+      return response.json();
+    },
+    onSuccess: refresh,
+    onError: (error: any) => {
+      toast({
+        title: 'Failed to start reconciliation',
+        description: error.message || 'There was an error starting the reconciliation.',
+        variant: 'destructive'
+      });
+    }
+  });
+
+  const deleteMutation = useMutation({
+    mutationFn: async (files: OrphanedDriveFile[]) => {
+      const response = await apiRequest('POST', `${reconciliationUrl}/orphans/delete`, {
+        files: files.map(file => ({ id: file.id, accountId: file.accountId })),
+      });
+      return response.json() as Promise<{ deleted: string[]; skipped: { id: string; reason: string }[] }>;
+    },
+    onSuccess: (result) => {
+      setSelectedOrphans([]);
+      toast({
+        title: 'Orphaned files deleted',
+        description: `${result.deleted.length} deleted${result.skipped.length ? `, ${result.skipped.length} skipped` : ''}. Run the check again to refresh the report.`,
+        variant: 'default'
+      });
+      refresh();
+    },
+    onError: (error: any) => {
+      toast({
+        title: 'Failed to delete orphaned files',
+        description: error.message || 'There was an error deleting the files.',
+        variant: 'destructive'
+      });
+    }
+  });
+
+  const relinkMutation = useMutation({
+    mutationFn: async ({ reference, fileId }: { reference: DriveFileReference; fileId: string }) => {
+      const response = await apiRequest('POST', `${reconciliationUrl}/relink`, {
+        fileId,
+        kind: reference.kind,
+        recordId: reference.recordId,
+      });
+      return response.json();
+    },
+    onSuccess: () => {
+      toast({
+        title: 'Record relinked',
+        description: 'Run the check again to refresh the report.',
+        variant: 'default'
+      });
+    },
+    onError: (error: any) => {
+      toast({
+        title: 'Failed to relink record',
+        description: error.message || 'There was an error relinking the record.',
+        variant: 'destructive'
+      });
+    }
+  });
+
+  const report = data?.report ?? null;
+  const orphans = report?.orphans ?? [];
+  const dangling = report?.dangling ?? [];
+  const orphanedBytes = orphans.reduce((total, file) => total + file.size, 0);
+
+  const toggleOrphan = (id: string, checked: boolean) => {
+    setSelectedOrphans(current => checked ? [...current, id] : current.filter(selected => selected !== id));
+  };
+
+  const handleDeleteSelected = () => {
+    const files = orphans.filter(file => selectedOrphans.includes(file.id));
+    if (files.length && window.confirm(`Permanently delete ${files.length} file(s) from Google Drive?`)) {
+      deleteMutation.mutate(files);
+    }
+  };
+
+  return (
+    <Card>
+      <CardHeader>
+        <div className="flex flex-col md:flex-row md:items-center md:justify-between">
+          <div>
+            <CardTitle>Storage Reconciliation</CardTitle>
+            <div className="text-sm text-muted-foreground mt-1">
+              {data?.running
+                ? 'Checking Google Drive against the database...'
+                : report
+                  ? `Last checked ${formatDistance(new Date(report.finishedAt), new Date(), { addSuffix: true })}`
+                  : 'Not checked yet'}
+            </div>
+          </div>
+          <Button
+            variant="outline"
+            className="mt-4 md:mt-0"
+            onClick={() => runMutation.mutate()}
+            disabled={data?.running || runMutation.isPending}
+          >
+            <RefreshCw className={`mr-2 h-4 w-4 ${data?.running ? 'animate-spin' : ''}`} /> Check Now
+          </Button>
+        </div>
+      </CardHeader>
+      <CardContent className="space-y-6">
+        {isLoading && <div className="text-sm text-muted-foreground">Loading report...</div>}
+
+        {data?.lastError && (
+          <div className="text-sm text-red-500">The last check failed: {data.lastError}</div>
+        )}
+
+        {report && (
+          <>
+            <div className="grid grid-cols-2 md:grid-cols-4 gap-4">
+              <div className="border rounded-lg p-3">
+                <div className="text-sm text-muted-foreground mb-1">Drive Files</div>
+                <div className="text-2xl font-semibold">{report.driveFiles}</div>
+              </div>
+              <div className="border rounded-lg p-3">
+                <div className="text-sm text-muted-foreground mb-1">Database References</div>
+                <div className="text-2xl font-semibold">{report.references}</div>
+              </div>
+              <div className="border rounded-lg p-3">
+                <div className="text-sm text-muted-foreground mb-1">Orphaned Files</div>
+                <div className="text-2xl font-semibold">{orphans.length}</div>
+                <div className="text-xs text-muted-foreground">{formatBytes(orphanedBytes)}</div>
+              </div>
+              <div className="border rounded-lg p-3">
+                <div className="text-sm text-muted-foreground mb-1">Dangling Records</div>
+                <div className="text-2xl font-semibold">{dangling.length}</div>
+              </div>
+            </div>
+
+            {orphans.length > 0 && (
+              <div className="space-y-2">
+                <div className="flex items-center justify-between">
+                  <h3 className="font-medium">Orphaned Drive files</h3>
+                  <Button
+                    variant="destructive"
+                    size="sm"
+                    onClick={handleDeleteSelected}
+                    disabled={selectedOrphans.length === 0 || deleteMutation.isPending}
+                  >
+                    <Trash2 className="mr-2 h-4 w-4" /> Delete Selected
+                  </Button>
+                </div>
+                <Table>
+                  <TableHeader>
+                    <TableRow>
+                      <TableHead className="w-8" />
+                      <TableHead>Name</TableHead>
+                      <TableHead>Account</TableHead>
+                      <TableHead>Size</TableHead>
+                      <TableHead>Created</TableHead>
+                    </TableRow>
+                  </TableHeader>
+                  <TableBody>
+                    {orphans.map((file) => (
+                      <TableRow key={file.id}>
+                        <TableCell>
+                          <Checkbox
+                            checked={selectedOrphans.includes(file.id)}
+                            onCheckedChange={(checked) => toggleOrphan(file.id, checked === true)}
+                          />
+                        </TableCell>
+                        <TableCell className="font-medium">{file.name}</TableCell>
+                        <TableCell>{file.accountEmail}</TableCell>
+                        <TableCell>{formatBytes(file.size)}</TableCell>
+                        <TableCell>{new Date(file.createdAt).toLocaleDateString()}</TableCell>
+                      </TableRow>
+                    ))}
+                  </TableBody>
+                </Table>
+              </div>
+            )}
+
+            {dangling.length > 0 && (
+              <div className="space-y-2">
+                <h3 className="font-medium">Records whose Drive file is missing</h3>
+                <Table>
+                  <TableHeader>
+                    <TableRow>
+                      <TableHead>Type</TableHead>
+                      <TableHead>Name</TableHead>
+                      <TableHead>Upload</TableHead>
+                      <TableHead>Missing File</TableHead>
+                      <TableHead>Relink To</TableHead>
+                    </TableRow>
+                  </TableHeader>
+                  <TableBody>
+                    {dangling.map((reference) => {
+                      const key = referenceKey(reference);
+                      return (
+                        <TableRow key={key}>
+                          <TableCell>
+                            <Badge variant="outline">{reference.kind}</Badge>
+                          </TableCell>
+                          <TableCell className="font-medium">{reference.name}</TableCell>
+                          <TableCell>#{reference.uploadId}</TableCell>
+                          <TableCell className="font-mono text-xs">{reference.fileId}</TableCell>
+                          <TableCell>
+                            <div className="flex items-center gap-2">
+                              <Select
+                                value={relinkTargets[key]}
+                                onValueChange={(fileId) => setRelinkTargets(current => ({ ...current, [key]: fileId }))}
+                                disabled={orphans.length === 0}
+                              >
+                                <SelectTrigger className="w-[200px]">
+                                  <SelectValue placeholder="Orphaned file" />
+                                </SelectTrigger>
+                                <SelectContent>
+                                  {orphans.map((file) => (
+                                    <SelectItem key={file.id} value={file.id}>{file.name}</SelectItem>
+                                  ))}
+                                </SelectContent>
+                              </Select>
+                              <Button
+                                variant="outline"
+                                size="sm"
+                                onClick={() => relinkMutation.mutate({ reference, fileId: relinkTargets[key] })}
+                                disabled={!relinkTargets[key] || relinkMutation.isPending}
+                              >
+                                <Link className="mr-2 h-4 w-4" /> Relink
+                              </Button>
+                            </div>
+                          </TableCell>
+                        </TableRow>
+                      );
+                    })}
+                  </TableBody>
+                </Table>
+              </div>
+            )}
+
+            {orphans.length === 0 && dangling.length === 0 && (
+              <div className="text-sm text-muted-foreground">
+                Every Drive file is referenced and every record has its file.
+              </div>
+            )}
+          </>
+        )}
+      </CardContent>
+    </Card>
+  );
+};
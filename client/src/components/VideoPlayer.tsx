@@ -1,11 +1,12 @@
 
-import React, { useEffect, useRef } from 'react';
+import React, { useEffect, useRef, useState } from 'react';
 import videojs from 'video.js';
 import type Player from 'video.js/dist/types/player';
 import 'video.js/dist/video-js.css';
 
 interface VideoPlayerProps {
   src: string;
+  type?: string; // MIME type of src; looked up with a HEAD request when omitted
   poster?: string;
   autoplay?: boolean;
   controls?: boolean;
@@ -13,22 +14,47 @@ interface VideoPlayerProps {
 
 export const VideoPlayer: React.FC<VideoPlayerProps> = ({
   src,
+  type,
   poster,
   autoplay = false,
   controls = true,
 }) => {
   const videoRef = useRef<HTMLVideoElement>(null);
   const playerRef = useRef<Player | null>(null);
+  const [sourceType, setSourceType] = useState<string | null>(type ?? null);
 
+  // The same URL can answer with an HLS playlist or the original file, so ask the server
   useEffect(() => {
-    if (!videoRef.current) return;
+    if (type) {
+      setSourceType(type);
+      return;
+    }
+
+    let cancelled = false;
+    setSourceType(null);
+    fetch(src, { method: 'HEAD', credentials: 'include' })
+      .then((response) => response.headers.get('Content-Type'))
+      .catch(() => null)
+      .then((contentType) => {
+        if (!cancelled) {
+          setSourceType(contentType?.split(';')[0].trim() || 'video/mp4');
+        }
+      });
+
+    return () => {
+      cancelled = true;
+    };
+  }, [src, type]);
+
+  useEffect(() => {
+    if (!videoRef.current || !sourceType) return;
 
     const options = {
       autoplay,
       controls,
       sources: [{
         src,
-        type: src.includes('.m3u8') ? 'application/x-mpegURL' : 'video/mp4'
+        type: sourceType
       }],
       poster,
       html5: {
@@ -49,7 +75,7 @@ export const VideoPlayer: React.FC<VideoPlayerProps> = ({
         playerRef.current = null;
       }
     };
-  }, [src, poster, autoplay, controls]);
+  }, [src, sourceType, poster, autoplay, controls]);
 
   return (
     <div data-vjs-player>
@@ -0,0 +1,136 @@
+import React, { useEffect, useRef, useState } from "react";
+import { useMutation, useQuery, useQueryClient } from "@tanstack/react-query";
+import { Progress } from "@/components/ui/progress";
+import { toast, useToast } from "@/hooks/use-toast";
+import { apiRequest } from "@/lib/queryClient";
+import { BulkAction, BulkItemResult, BulkOperationProgress, FileCategory } from "@shared/schema";
+
+export type BulkOperation =
+  | { action: "move"; folderId: number | null }
+  | { action: "delete" }
+  | { action: "tag"; addTags?: string[]; removeTags?: string[] }
+  | { action: "categorize"; category: FileCategory }
+  | { action: "convert"; resolutions: string[]; encrypt?: boolean }
+  | { action: "thumbnails" };
+
+interface BulkOperationStatus {
+  jobId: string;
+  action: BulkAction;
+  state: string;
+  progress: BulkOperationProgress;
+  results: BulkItemResult[] | null;
+  error: string | null;
+}
+
+const runningStates = ["waiting", "delayed", "active", "prioritized", "waiting-children"];
+
+const actionLabels: Record<BulkAction, string> = {
+  move: "Moving",
+  delete: "Moving to trash",
+  tag: "Tagging",
+  categorize: "Changing the category of",
+  convert: "Queuing conversions for",
+  thumbnails: "Regenerating thumbnails for",
+};
+
+const files = (total: number) => (total === 1 ? "1 file" : `${total} files`);
+
+const describe = (status: BulkOperationStatus, running: boolean) => {
+  const { total, processed, succeeded, failed, skipped } = status.progress;
+  const firstFailure = status.results?.find((result) => result.status === "failed");
+
+  return (
+    <div className="space-y-2">
+      <Progress value={total ? (processed / total) * 100 : 0} className="h-1.5" />
+      <div>
+        {running
+          ? `${processed} of ${total} done`
+          : `${succeeded} done, ${skipped} skipped, ${failed} failed`}
+      </div>
+      {firstFailure?.message && (
+        <div className="text-xs">
+          File {firstFailure.uploadId}: {firstFailure.message}
+        </div>
+      )}
+      {status.error && <div className="text-xs">{status.error}</div>}
+    </div>
+  );
+};
+
+/**
+ * Run an action on many uploads through POST /api/uploads/bulk, following the batch
+ * in a toast until it finishes
+ */
+export function useBulkOperation(onFinished?: () => void) {
+  const [jobId, setJobId] = useState<string | null>(null);
+  const progressToast = useRef<ReturnType<typeof toast> | null>(null);
+  const { toast: showToast } = useToast();
+  const queryClient = useQueryClient();
+
+  const { data: status } = useQuery<BulkOperationStatus>({
+    queryKey: [`/api/uploads/bulk/${jobId}`],
+    enabled: jobId !== null,
+    refetchInterval: (query) =>
+      !query.state.data || runningStates.includes(query.state.data.state) ? 1000 : false,
+  });
+
+  useEffect(() => {
+    if (!status || status.jobId !== jobId || !progressToast.current) return;
+
+    const running = runningStates.includes(status.state);
+    const { total, failed } = status.progress;
+    progressToast.current.update({
+      id: progressToast.current.id,
+      title: running
+        ? `${actionLabels[status.action]} ${files(total)}...`
+        : status.state === "failed" || failed > 0
+          ? `${actionLabels[status.action]} ${files(total)} finished with errors`
+          : `${actionLabels[status.action]} ${files(total)} done`,
+      description: describe(status, running),
+      variant: !running && (status.state === "failed" || failed > 0) ? "destructive" : "default",
+      duration: running ? Infinity : 8000,
+    });
+
+    if (!running) {
+      setJobId(null);
+      progressToast.current = null;
+      queryClient.invalidateQueries({
+        predicate: (query) =>
+          ["/api/uploads", "/api/trash", "/api/folders", "/api/job"].some((prefix) =>
+            String(query.queryKey[0]).startsWith(prefix),
+          ),
+      });
+      onFinished?.();
+    }
+  }, [status, jobId]);
+
+  const startMutation = useMutation({
+    mutationFn: async (request: { ids: number[]; operation: BulkOperation }) => {
+      const response = await apiRequest("POST", "/api/uploads/bulk", {
+        selection: { ids: request.ids },
+        operation: request.operation,
+      });
+      return response.json() as Promise<{ jobId: string; total: number }>;
+    },
+    onSuccess: ({ jobId: startedJobId, total }, { operation }) => {
+      progressToast.current = showToast({
+        title: `${actionLabels[operation.action]} ${files(total)}...`,
+        description: <Progress value={0} className="h-1.5" />,
+        duration: Infinity,
+      });
+      setJobId(startedJobId);
+    },
+    onError: (error: any) => {
+      showToast({
+        title: "Failed to start bulk operation",
+        description: error.message || "There was an error starting the bulk operation.",
+        variant: "destructive",
+      });
+    },
+  });
+
+  return {
+    start: (ids: number[], operation: BulkOperation) => startMutation.mutate({ ids, operation }),
+    isRunning: startMutation.isPending || jobId !== null,
+  };
+}
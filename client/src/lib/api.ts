@@ -23,6 +23,46 @@ export const uploadFile = async (file: File, metadata: any) => {
   return response.json();
 };
 
+// Service accounts, added from their JSON key file
+export const addServiceAccount = async (keyFile: File, fields: {
+  name: string;
+  storageLimit: number;
+  isActive: boolean;
+}) => {
+  const formData = new FormData();
+  formData.append('credentials', keyFile);
+  formData.append('name', fields.name);
+  formData.append('storageLimit', String(fields.storageLimit));
+  formData.append('isActive', String(fields.isActive));
+
+  const response = await fetch('/api/service-accounts', {
+    method: 'POST',
+    body: formData,
+    credentials: 'include',
+  });
+
+  if (!response.ok) {
+    const body = await response.json().catch(() => ({}));
+    throw new Error(body.error || response.statusText);
+  }
+
+  return response.json();
+};
+
+// Resumable chunked uploads
+export const getUploadStatus = async (uploadId: number): Promise<{
+  uploadId: number;
+  status: string;
+  complete: boolean;
+  totalChunks?: number;
+  chunkSize?: number;
+  receivedChunks: number[];
+  missingChunks: number[];
+}> => {
+  const response = await apiRequest('GET', `/api/upload/${uploadId}/status`);
+  return response.json();
+};
+
 // Google Drive import
 export const importFromGoogleDrive = async (params: {
   fileId: string;
@@ -87,8 +127,8 @@ export const getFolders = async () => {
   return response.json();
 };
 
-export const createFolder = async (name: string) => {
-  const response = await apiRequest('POST', '/api/folders', { name });
+export const createFolder = async (name: string, parentId: number | null = null) => {
+  const response = await apiRequest('POST', '/api/folders', { name, parentId });
   return response.json();
 };
 
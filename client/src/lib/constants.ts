@@ -4,6 +4,7 @@ export const API_BASE_URL = 'http://localhost:5000/api';
 // File upload constants
 export const CHUNK_SIZE = 10 * 1024 * 1024; // 10MB chunks
 export const MAX_FILE_SIZE = 1024 * 1024 * 1024; // 1GB max file size
+export const CHUNK_RETRY_LIMIT = 3; // attempts per chunk before giving up
 
 // Supported file types
 export const SUPPORTED_FILE_TYPES = {
@@ -2,6 +2,8 @@ import React, { useState } from "react";
 import { FileList } from "@/components/FileList";
 import { FileUploader } from "@/components/FileUploader";
 import { ImportDialog } from "@/components/ImportDialog";
+import { FolderBrowser } from "@/components/FolderBrowser";
+import { LibrarySearch } from "@/components/LibrarySearch";
 import { Button } from "@/components/ui/button";
 import {
   Select,
@@ -11,19 +13,12 @@ import {
   SelectValue,
 } from "@/components/ui/select";
 import { UploadCloud, Download } from "lucide-react";
-import { useQuery } from "@tanstack/react-query";
 
 export default function Files() {
   const [uploadDialogOpen, setUploadDialogOpen] = useState(false);
   const [importDialogOpen, setImportDialogOpen] = useState(false);
   const [selectedCategory, setSelectedCategory] = useState<string | undefined>("all");
-  const [selectedFolder, setSelectedFolder] = useState<string | undefined>("all");
-
-  // Fetch folders for dropdown
-  const { data: folders = [] } = useQuery({
-    queryKey: ["/api/folders"],
-    initialData: [],
-  });
+  const [currentFolderId, setCurrentFolderId] = useState<number | null>(null);
 
   return (
     <div className="space-y-6">
@@ -61,36 +56,30 @@ export default function Files() {
               </SelectContent>
             </Select>
           </div>
-
-          <div className="w-full md:w-1/3">
-            <Select value={selectedFolder} onValueChange={setSelectedFolder}>
-              <SelectTrigger>
-                <SelectValue placeholder="All Folders" />
-              </SelectTrigger>
-              <SelectContent>
-                <SelectItem value="all">All Folders</SelectItem>
-                {folders.map((folder: any) => (
-                  <SelectItem key={folder.id} value={folder.id.toString()}>
-                    {folder.name}
-                  </SelectItem>
-                ))}
-              </SelectContent>
-            </Select>
-          </div>
         </div>
       </div>
 
-      {/* Files List */}
-      <div className="bg-white rounded-lg shadow-sm p-6">
-        <FileList
-          category={
-            selectedCategory !== "all"
-              ? (selectedCategory as "code" | "video" | "image" | "document" | undefined)
-              : undefined
-          }
-          folderId={selectedFolder !== "all" ? selectedFolder : undefined}
-        />
-      </div>
+      {/* Search, or the current folder when not searching */}
+      <LibrarySearch placeholder="Search files, folders and tags">
+        <>
+          {/* Folder Navigation */}
+          <div className="bg-white rounded-lg shadow-sm p-4">
+            <FolderBrowser currentFolderId={currentFolderId} onNavigate={setCurrentFolderId} />
+          </div>
+
+          {/* Files List */}
+          <div className="bg-white rounded-lg shadow-sm p-6">
+            <FileList
+              category={
+                selectedCategory !== "all"
+                  ? (selectedCategory as "code" | "video" | "image" | "document" | undefined)
+                  : undefined
+              }
+              folderId={currentFolderId !== null ? currentFolderId.toString() : undefined}
+            />
+          </div>
+        </>
+      </LibrarySearch>
 
       {/* File Upload Dialog */}
       <FileUploader
@@ -0,0 +1,160 @@
+import React, { useState } from "react";
+import { Link } from "wouter";
+import { useQuery } from "@tanstack/react-query";
+import { Card, CardContent, CardHeader, CardTitle } from "@/components/ui/card";
+import { Badge } from "@/components/ui/badge";
+import { Button } from "@/components/ui/button";
+import {
+  Table,
+  TableBody,
+  TableCell,
+  TableHead,
+  TableHeader,
+  TableRow,
+} from "@/components/ui/table";
+import { FileList } from "@/components/FileList";
+import { FolderBrowser } from "@/components/FolderBrowser";
+import { Download, Eye, Folder as FolderIcon } from "lucide-react";
+import { format } from "date-fns";
+import { Folder, ShareRole, Upload } from "@shared/schema";
+
+interface SharedBy {
+  role: ShareRole;
+  owner: { username: string; displayName: string } | null;
+}
+
+interface SharedApiResponse {
+  folders: (Folder & SharedBy)[];
+  uploads: (Omit<Upload, "createdAt"> & SharedBy & { createdAt: string })[];
+}
+
+const ownerName = (record: SharedBy) => record.owner?.displayName || record.owner?.username || "Unknown";
+
+export default function Shared() {
+  const [currentFolderId, setCurrentFolderId] = useState<number | null>(null);
+
+  const { data = { folders: [], uploads: [] }, isLoading, error } = useQuery<SharedApiResponse>({
+    queryKey: ["/api/shared"],
+  });
+
+  // Inside a shared folder, browse it like the Files page
+  if (currentFolderId !== null) {
+    return (
+      <div className="space-y-6">
+        <h1 className="text-2xl font-medium">Shared with me</h1>
+        <div className="bg-white rounded-lg shadow-sm p-4">
+          <FolderBrowser
+            currentFolderId={currentFolderId}
+            onNavigate={setCurrentFolderId}
+            rootLabel="Shared with me"
+          />
+        </div>
+        <div className="bg-white rounded-lg shadow-sm p-6">
+          <FileList folderId={currentFolderId.toString()} />
+        </div>
+      </div>
+    );
+  }
+
+  if (isLoading) {
+    return <div className="py-8 text-center">Loading shared files...</div>;
+  }
+
+  if (error) {
+    return (
+      <div className="py-8 text-center text-red-500">
+        Error loading shared files: {(error as Error).message}
+      </div>
+    );
+  }
+
+  return (
+    <div className="space-y-6">
+      <h1 className="text-2xl font-medium">Shared with me</h1>
+
+      <Card>
+        <CardHeader>
+          <CardTitle>Folders</CardTitle>
+        </CardHeader>
+        <CardContent>
+          {data.folders.length === 0 ? (
+            <p className="text-sm text-muted-foreground">No folders have been shared with you</p>
+          ) : (
+            <div className="grid grid-cols-2 md:grid-cols-4 gap-3">
+              {data.folders.map((folder) => (
+                <button
+                  key={folder.id}
+                  className="flex items-center border rounded-lg px-3 py-2 hover:bg-gray-50 text-left"
+                  onClick={() => setCurrentFolderId(folder.id)}
+                >
+                  <FolderIcon className="h-5 w-5 mr-2 text-yellow-500 shrink-0" />
+                  <div className="min-w-0">
+                    <div className="truncate">{folder.name}</div>
+                    <div className="text-xs text-muted-foreground truncate">
+                      {ownerName(folder)} · {folder.role}
+                    </div>
+                  </div>
+                </button>
+              ))}
+            </div>
+          )}
+        </CardContent>
+      </Card>
+
+      <Card>
+        <CardHeader>
+          <CardTitle>Files</CardTitle>
+        </CardHeader>
+        <CardContent>
+          {data.uploads.length === 0 ? (
+            <p className="text-sm text-muted-foreground">No files have been shared with you</p>
+          ) : (
+            <Table>
+              <TableHeader>
+                <TableRow>
+                  <TableHead>Name</TableHead>
+                  <TableHead>Owner</TableHead>
+                  <TableHead>Access</TableHead>
+                  <TableHead>Uploaded</TableHead>
+                  <TableHead>Actions</TableHead>
+                </TableRow>
+              </TableHeader>
+              <TableBody>
+                {data.uploads.map((upload) => (
+                  <TableRow key={upload.id}>
+                    <TableCell className="font-medium">{upload.uploadName}</TableCell>
+                    <TableCell>{ownerName(upload)}</TableCell>
+                    <TableCell>
+                      <Badge variant="outline" className="capitalize">{upload.role}</Badge>
+                    </TableCell>
+                    <TableCell className="text-muted-foreground">
+                      {format(new Date(upload.createdAt), "PP")}
+                    </TableCell>
+                    <TableCell>
+                      {upload.category === "video" ? (
+                        <Link href={`/video/${upload.id}`}>
+                          <Button variant="ghost" size="icon" title="View">
+                            <Eye className="h-4 w-4 text-muted-foreground" />
+                          </Button>
+                        </Link>
+                      ) : (
+                        <Button
+                          variant="ghost"
+                          size="icon"
+                          title="Download"
+                          onClick={() => window.open(`/api/download/${upload.id}`, "_blank")}
+                        >
+                          <Download className="h-4 w-4 text-muted-foreground" />
+                        </Button>
+                      )}
+                    </TableCell>
+                  </TableRow>
+                ))}
+              </TableBody>
+            </Table>
+          )}
+        </CardContent>
+      </Card>
+    </div>
+  );
+}
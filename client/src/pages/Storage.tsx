@@ -1,5 +1,5 @@
 import React, { useState } from "react";
-import { useQuery } from "@tanstack/react-query";
+import { useMutation, useQuery, useQueryClient } from "@tanstack/react-query";
 import { Card, CardContent, CardHeader, CardTitle } from "@/components/ui/card";
 import { Progress } from "@/components/ui/progress";
 import { Badge } from "@/components/ui/badge";
@@ -13,9 +13,13 @@ import {
 } from "@/components/ui/table";
 import { Button } from "@/components/ui/button";
 import { Alert, AlertDescription, AlertTitle } from "@/components/ui/alert";
-import { Plus, AlertTriangle } from "lucide-react";
+import { Plus, AlertTriangle, RefreshCw } from "lucide-react";
+import { apiRequest } from "@/lib/queryClient";
 import { AddServiceAccountDialog } from "@/components/AddServiceAccountDialog";
 import { NoAccountsNotice } from "@/components/NoAccountsNotice";
+import { AccountMigration } from "@/components/AccountMigration";
+import { StorageReconciliation } from "@/components/StorageReconciliation";
+import { useAuth } from "@/hooks/useAuth";
 
 interface AccountData {
   id: number;
@@ -24,6 +28,11 @@ interface AccountData {
   storageLimit: number;
   storageUsed: number;
   isActive: boolean;
+  health: {
+    status: "unknown" | "healthy" | "unhealthy" | "unloaded";
+    checkedAt: string | null;
+    error: string | null;
+  };
   createdAt: string;
 }
 
@@ -35,6 +44,7 @@ export interface AccountsApiResponse {
 
 export default function Storage() {
   const [isAddAccountDialogOpen, setIsAddAccountDialogOpen] = useState(false);
+  const { user } = useAuth();
 
   // Fetch accounts
   const {
@@ -46,6 +56,18 @@ export default function Storage() {
   });
   console.log("accounts", accounts);
 
+  // Probe an account's credentials now instead of waiting for the next scheduled check
+  const queryClient = useQueryClient();
+  const checkHealthMutation = useMutation({
+    mutationFn: async (accountId: number) => {
+      const response = await apiRequest("POST", `/api/service-accounts/${accountId}/health`);
+      return response.json();
+    },
+    onSuccess: () => {
+      queryClient.invalidateQueries({ queryKey: ["/api/service-accounts/usage"] });
+    },
+  });
+
   // Calculate overall storage usage
   // Use new API response structure
   const totalStorageLimit = accounts?.total ?? 0;
@@ -194,6 +216,7 @@ export default function Storage() {
                     <TableHead>Storage</TableHead>
                     <TableHead>Usage</TableHead>
                     <TableHead>Added</TableHead>
+                    <TableHead>Migration</TableHead>
                   </TableRow>
                 </TableHeader>
                 <TableBody>
@@ -210,19 +233,45 @@ export default function Storage() {
                         </TableCell>
                         <TableCell>{account.email}</TableCell>
                         <TableCell>
-                          {account.isActive ? (
-                            isLowSpace ? (
-                              <Badge className="bg-yellow-100 text-yellow-800">
-                                Low Space
+                          <div className="flex items-center gap-1">
+                            {account.health?.status === "unhealthy" ||
+                            account.health?.status === "unloaded" ? (
+                              <Badge
+                                className="bg-red-100 text-red-800"
+                                title={account.health.error ?? undefined}
+                              >
+                                {account.health.status === "unloaded"
+                                  ? "Not Loaded"
+                                  : "Auth Failed"}
                               </Badge>
+                            ) : account.isActive ? (
+                              isLowSpace ? (
+                                <Badge className="bg-yellow-100 text-yellow-800">
+                                  Low Space
+                                </Badge>
+                              ) : (
+                                <Badge className="bg-green-100 text-green-800">
+                                  Healthy
+                                </Badge>
+                              )
                             ) : (
-                              <Badge className="bg-green-100 text-green-800">
-                                Healthy
-                              </Badge>
-                            )
-                          ) : (
-                            <Badge variant="outline">Inactive</Badge>
-                          )}
+                              <Badge variant="outline">Inactive</Badge>
+                            )}
+                            <Button
+                              variant="ghost"
+                              size="icon"
+                              className="h-6 w-6"
+                              title={
+                                account.health?.checkedAt
+                                  ? `Last checked ${new Date(account.health.checkedAt).toLocaleString()}`
+                                  : "Check credentials"
+                              }
+                              onClick={() => checkHealthMutation.mutate(account.id)}
+                              disabled={checkHealthMutation.isPending}
+                            >
+                              <RefreshCw className="h-3 w-3" />
+                            </Button>
+                          </div>
                         </TableCell>
                         <TableCell>
                           <div className="flex flex-col">
@@ -242,6 +291,12 @@ export default function Storage() {
                         <TableCell>
                           {new Date(account.createdAt).toLocaleDateString()}
                         </TableCell>
+                        <TableCell>
+                          <AccountMigration
+                            accountId={account.id}
+                            accountName={account.name}
+                          />
+                        </TableCell>
                       </TableRow>
                     );
                   })}
@@ -249,6 +304,9 @@ export default function Storage() {
               </Table>
             </CardContent>
           </Card>
+
+          {/* Reconciliation Report, which covers every user's storage */}
+          {user?.isAdmin && <StorageReconciliation />}
         </>
       )}
 
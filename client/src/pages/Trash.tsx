@@ -0,0 +1,229 @@
+import React, { useState } from "react";
+import { useMutation, useQuery, useQueryClient } from "@tanstack/react-query";
+import { Button } from "@/components/ui/button";
+import {
+  Table,
+  TableBody,
+  TableCell,
+  TableHead,
+  TableHeader,
+  TableRow,
+} from "@/components/ui/table";
+import { useToast } from "@/hooks/use-toast";
+import { apiRequest } from "@/lib/queryClient";
+import { RotateCcw, Trash2 } from "lucide-react";
+import { format, formatDistanceToNow } from "date-fns";
+
+interface TrashedFile {
+  id: number;
+  uploadName: string;
+  fileType: string;
+  fileSize: number;
+  folderName: string | null;
+  deletedAt: string;
+  purgeAt: string;
+}
+
+interface TrashApiResponse {
+  files: TrashedFile[];
+  total: number;
+  totalPages: number;
+  retentionDays: number;
+}
+
+const formatBytes = (bytes: number): string => {
+  if (bytes === 0) return "0 Bytes";
+
+  const k = 1024;
+  const sizes = ["Bytes", "KB", "MB", "GB", "TB"];
+  const i = Math.floor(Math.log(bytes) / Math.log(k));
+
+  return parseFloat((bytes / Math.pow(k, i)).toFixed(2)) + " " + sizes[i];
+};
+
+export default function Trash() {
+  const [page, setPage] = useState(1);
+  const limit = 10;
+  const { toast } = useToast();
+  const queryClient = useQueryClient();
+
+  const { data, isLoading, error } = useQuery<TrashApiResponse>({
+    queryKey: [`/api/trash?page=${page}&limit=${limit}`],
+  });
+
+  const files = data?.files ?? [];
+
+  const refresh = () => {
+    queryClient.invalidateQueries({
+      predicate: (query) =>
+        String(query.queryKey[0]).startsWith("/api/trash") ||
+        String(query.queryKey[0]).startsWith("/api/uploads"),
+    });
+  };
+
+  const onError = (title: string) => (error: any) => {
+    toast({
+      title,
+      description: error.message || "Please try again.",
+      variant: "destructive",
+    });
+  };
+
+  const restoreMutation = useMutation({
+    mutationFn: async (file: TrashedFile) => {
+      await apiRequest("POST", `/api/trash/${file.id}/restore`);
+    },
+    onSuccess: (_data, file) => {
+      refresh();
+      toast({ title: "File restored", description: file.uploadName, variant: "default" });
+    },
+    onError: onError("Failed to restore file"),
+  });
+
+  const purgeMutation = useMutation({
+    mutationFn: async (file: TrashedFile) => {
+      await apiRequest("DELETE", `/api/trash/${file.id}`);
+    },
+    onSuccess: refresh,
+    onError: onError("Failed to delete file"),
+  });
+
+  const emptyMutation = useMutation({
+    mutationFn: async () => {
+      const response = await apiRequest("DELETE", "/api/trash");
+      return response.json() as Promise<{ deleted: number; failed: number }>;
+    },
+    onSuccess: ({ failed }) => {
+      setPage(1);
+      refresh();
+      toast(
+        failed > 0
+          ? {
+              title: "Some files could not be deleted",
+              description: `${failed} ${failed === 1 ? "file was" : "files were"} left in the trash. Try again later.`,
+              variant: "destructive",
+            }
+          : { title: "Trash emptied", variant: "default" },
+      );
+    },
+    onError: onError("Failed to empty trash"),
+  });
+
+  const onPurge = (file: TrashedFile) => {
+    if (window.confirm(`Permanently delete "${file.uploadName}"? This cannot be undone.`)) {
+      purgeMutation.mutate(file);
+    }
+  };
+
+  const onEmpty = () => {
+    if (window.confirm(`Permanently delete all ${data?.total ?? 0} files in the trash? This cannot be undone.`)) {
+      emptyMutation.mutate();
+    }
+  };
+
+  return (
+    <div className="space-y-6">
+      <div className="flex flex-col md:flex-row md:items-center md:justify-between">
+        <div>
+          <h1 className="text-2xl font-medium">Trash</h1>
+          {data && (
+            <p className="text-sm text-muted-foreground">
+              Files are permanently deleted {data.retentionDays} days after they are moved to the trash.
+            </p>
+          )}
+        </div>
+        <Button
+          variant="destructive"
+          className="mt-4 md:mt-0"
+          onClick={onEmpty}
+          disabled={files.length === 0 || emptyMutation.isPending}
+        >
+          <Trash2 className="mr-2 h-4 w-4" /> Empty Trash
+        </Button>
+      </div>
+
+      <div className="bg-white rounded-lg shadow-sm p-6">
+        {isLoading && <div className="py-8 text-center">Loading trash...</div>}
+
+        {error && (
+          <div className="py-8 text-center text-red-500">
+            Error loading trash: {(error as Error).message}
+          </div>
+        )}
+
+        {!isLoading && !error && files.length === 0 && (
+          <div className="py-12 text-center text-gray-500">The trash is empty</div>
+        )}
+
+        {files.length > 0 && (
+          <Table>
+            <TableHeader>
+              <TableRow>
+                <TableHead>Name</TableHead>
+                <TableHead>Folder</TableHead>
+                <TableHead>Size</TableHead>
+                <TableHead>Deleted</TableHead>
+                <TableHead>Deleted for good</TableHead>
+                <TableHead>Actions</TableHead>
+              </TableRow>
+            </TableHeader>
+            <TableBody>
+              {files.map((file) => (
+                <TableRow key={file.id}>
+                  <TableCell>
+                    <div className="font-medium">{file.uploadName}</div>
+                    <div className="text-xs text-muted-foreground">{file.fileType}</div>
+                  </TableCell>
+                  <TableCell>{file.folderName || "home"}</TableCell>
+                  <TableCell className="text-muted-foreground">{formatBytes(file.fileSize)}</TableCell>
+                  <TableCell className="text-muted-foreground">{format(new Date(file.deletedAt), "PP")}</TableCell>
+                  <TableCell className="text-muted-foreground">
+                    {formatDistanceToNow(new Date(file.purgeAt), { addSuffix: true })}
+                  </TableCell>
+                  <TableCell>
+                    <div className="flex space-x-1">
+                      <Button
+                        variant="ghost"
+                        size="icon"
+                        title="Restore"
+                        onClick={() => restoreMutation.mutate(file)}
+                        disabled={restoreMutation.isPending}
+                      >
+                        <RotateCcw className="h-4 w-4 text-muted-foreground" />
+                      </Button>
+                      <Button
+                        variant="ghost"
+                        size="icon"
+                        title="Delete permanently"
+                        onClick={() => onPurge(file)}
+                        disabled={purgeMutation.isPending}
+                      >
+                        <Trash2 className="h-4 w-4 text-red-600" />
+                      </Button>
+                    </div>
+                  </TableCell>
+                </TableRow>
+              ))}
+            </TableBody>
+          </Table>
+        )}
+
+        {data && data.totalPages > 1 && (
+          <div className="mt-4 flex justify-end space-x-2">
+            <Button variant="outline" size="sm" disabled={page === 1} onClick={() => setPage(page - 1)}>
+              Previous
+            </Button>
+            <Button
+              variant="outline"
+              size="sm"
+              disabled={page === data.totalPages}
+              onClick={() => setPage(page + 1)}
+            >
+              Next
+            </Button>
+          </div>
+        )}
+      </div>
+    </div>
+  );
+}
@@ -3,6 +3,8 @@ import { Link, useLocation } from "wouter";
 import { useQuery, useMutation, useQueryClient } from "@tanstack/react-query";
 import { VideoPlayer } from "@/components/VideoPlayer";
 import { JobStatus } from "@/components/JobStatus";
+import { EditMetadataDialog } from "@/components/EditMetadataDialog";
+import { Badge } from "@/components/ui/badge";
 import { Button } from "@/components/ui/button";
 import {
   Dialog,
@@ -20,14 +22,33 @@ import {
 } from "@/components/ui/select";
 import { Checkbox } from "@/components/ui/checkbox";
 import { Label } from "@/components/ui/label";
-import { ChevronLeft, Film, Play } from "lucide-react";
+import { ChevronLeft, Film, Play, Tags } from "lucide-react";
 import { useToast } from "@/hooks/use-toast";
 import { apiRequest } from "@/lib/queryClient";
+import { EncodingProfile, MediaAudioTrack, MediaMetadata, MetadataField, MetadataFieldValues } from "@shared/schema";
 
 interface VideoProps {
   id?: string;
 }
 
+const formatDuration = (seconds: number): string => {
+  const total = Math.round(seconds);
+  const h = Math.floor(total / 3600);
+  const m = Math.floor((total % 3600) / 60);
+  const s = String(total % 60).padStart(2, "0");
+  return h > 0 ? `${h}:${String(m).padStart(2, "0")}:${s}` : `${m}:${s}`;
+};
+
+const formatBitrate = (bitsPerSecond: number): string =>
+  bitsPerSecond >= 1_000_000
+    ? `${(bitsPerSecond / 1_000_000).toFixed(1)} Mbps`
+    : `${Math.round(bitsPerSecond / 1000)} kbps`;
+
+const formatAudioTrack = (track: MediaAudioTrack): string =>
+  [track.codec, track.channels && `${track.channels} ch`, track.language]
+    .filter(Boolean)
+    .join(", ");
+
 export default function Video({ params = 0 }: VideoProps) {
   const videoId = params.id;
 
@@ -41,6 +62,8 @@ export default function Video({ params = 0 }: VideoProps) {
   const [selectedResolutions, setSelectedResolutions] = useState<string[]>([
     "720p",
   ]);
+  const [encrypt, setEncrypt] = useState(false);
+  const [metadataDialogOpen, setMetadataDialogOpen] = useState(false);
 
   // Define the type for the video object
   type VideoType = {
@@ -50,6 +73,7 @@ export default function Video({ params = 0 }: VideoProps) {
     createdAt: string;
     status: string;
     folderName?: string;
+    metadata?: MediaMetadata;
     // add other properties as needed
   };
 
@@ -62,13 +86,34 @@ export default function Video({ params = 0 }: VideoProps) {
     queryKey: [`/api/uploads/${videoId}`],
   });
 
+  // Fetch tags and custom field values
+  const { data: metadata } = useQuery<{
+    tags: string[];
+    fields: MetadataFieldValues;
+    definitions: MetadataField[];
+    editable: boolean;
+  }>({
+    queryKey: [`/api/uploads/${videoId}/metadata`],
+  });
+
+  // Fetch encoding profiles for the convert dialog
+  const { data: profiles = [], isLoading: profilesLoading } = useQuery<
+    EncodingProfile[]
+  >({
+    queryKey: ["/api/profiles"],
+    enabled: convertDialogOpen,
+  });
+
   console.log("video", video);
   // Create HLS conversion job mutation
   const convertMutation = useMutation({
     mutationFn: async () => {
       const response = await apiRequest("POST", "/api/job/hls/create", {
         uploadId: parseInt(videoId, 10),
-        resolutions: selectedResolutions,
+        resolutions: selectedResolutions.filter((name) =>
+          profiles.some((profile) => profile.name === name),
+        ),
+        encrypt,
       });
       return response.json();
     },
@@ -157,8 +202,87 @@ export default function Video({ params = 0 }: VideoProps) {
                 <dt className="text-sm text-muted-foreground">Folder:</dt>
                 <dd>{video.folderName || "Uncategorized"}</dd>
               </div>
+              {video.metadata?.duration !== undefined && (
+                <div className="flex justify-between">
+                  <dt className="text-sm text-muted-foreground">Duration:</dt>
+                  <dd>{formatDuration(video.metadata.duration)}</dd>
+                </div>
+              )}
+              {video.metadata?.width !== undefined && video.metadata.height !== undefined && (
+                <div className="flex justify-between">
+                  <dt className="text-sm text-muted-foreground">Resolution:</dt>
+                  <dd>
+                    {video.metadata.width}x{video.metadata.height}
+                    {video.metadata.rotation ? ` (rotated ${video.metadata.rotation}°)` : ""}
+                  </dd>
+                </div>
+              )}
+              {video.metadata?.codec && (
+                <div className="flex justify-between">
+                  <dt className="text-sm text-muted-foreground">Codec:</dt>
+                  <dd>{video.metadata.codec}</dd>
+                </div>
+              )}
+              {video.metadata?.frameRate !== undefined && (
+                <div className="flex justify-between">
+                  <dt className="text-sm text-muted-foreground">Frame rate:</dt>
+                  <dd>{video.metadata.frameRate} fps</dd>
+                </div>
+              )}
+              {video.metadata?.bitrate !== undefined && (
+                <div className="flex justify-between">
+                  <dt className="text-sm text-muted-foreground">Bitrate:</dt>
+                  <dd>{formatBitrate(video.metadata.bitrate)}</dd>
+                </div>
+              )}
+              {video.metadata?.probedAt && (
+                <div className="flex justify-between">
+                  <dt className="text-sm text-muted-foreground">Audio:</dt>
+                  <dd className="text-right">
+                    {video.metadata.audioTracks?.length
+                      ? video.metadata.audioTracks.map((track, index) => (
+                          <div key={index}>{formatAudioTrack(track)}</div>
+                        ))
+                      : "None"}
+                  </dd>
+                </div>
+              )}
             </dl>
 
+            {metadata && (
+              <div className="mt-4 pt-4 border-t space-y-2">
+                <div className="flex items-center justify-between">
+                  <h3 className="text-sm font-medium">Tags & Fields</h3>
+                  {metadata.editable && (
+                    <Button variant="ghost" size="sm" onClick={() => setMetadataDialogOpen(true)}>
+                      <Tags className="mr-2 h-4 w-4" /> Edit
+                    </Button>
+                  )}
+                </div>
+                {metadata.tags.length > 0 ? (
+                  <div className="flex flex-wrap gap-1">
+                    {metadata.tags.map((tag) => (
+                      <Badge key={tag} variant="secondary">
+                        {tag}
+                      </Badge>
+                    ))}
+                  </div>
+                ) : (
+                  <p className="text-sm text-muted-foreground">No tags</p>
+                )}
+                <dl className="space-y-2">
+                  {metadata.definitions
+                    .filter((field) => metadata.fields[field.key] !== undefined)
+                    .map((field) => (
+                      <div key={field.key} className="flex justify-between">
+                        <dt className="text-sm text-muted-foreground">{field.label}:</dt>
+                        <dd>{String(metadata.fields[field.key])}</dd>
+                      </div>
+                    ))}
+                </dl>
+              </div>
+            )}
+
             <div className="mt-4 pt-4 border-t">
               <Button
                 onClick={() => setConvertDialogOpen(true)}
@@ -177,6 +301,14 @@ export default function Video({ params = 0 }: VideoProps) {
         <JobStatus uploadId={videoId} />
       </div>
 
+      {/* Tags & Fields Dialog */}
+      <EditMetadataDialog
+        isOpen={metadataDialogOpen}
+        onClose={() => setMetadataDialogOpen(false)}
+        uploadIds={[parseInt(videoId, 10)]}
+        name={video.uploadName}
+      />
+
       {/* Convert Dialog */}
       <Dialog open={convertDialogOpen} onOpenChange={setConvertDialogOpen}>
         <DialogContent>
@@ -190,32 +322,40 @@ export default function Video({ params = 0 }: VideoProps) {
             </p>
 
             <div className="space-y-3">
-              <div className="flex items-center space-x-2">
-                <Checkbox
-                  id="resolution-1080p"
-                  checked={selectedResolutions.includes("1080p")}
-                  onCheckedChange={() => toggleResolution("1080p")}
-                />
-                <Label htmlFor="resolution-1080p">1080p (Full HD)</Label>
-              </div>
-
-              <div className="flex items-center space-x-2">
-                <Checkbox
-                  id="resolution-720p"
-                  checked={selectedResolutions.includes("720p")}
-                  onCheckedChange={() => toggleResolution("720p")}
-                />
-                <Label htmlFor="resolution-720p">720p (HD)</Label>
-              </div>
+              {profilesLoading && (
+                <p className="text-sm text-muted-foreground">
+                  Loading encoding profiles...
+                </p>
+              )}
+              {profiles.map((profile) => (
+                <div key={profile.id} className="flex items-center space-x-2">
+                  <Checkbox
+                    id={`resolution-${profile.name}`}
+                    checked={selectedResolutions.includes(profile.name)}
+                    onCheckedChange={() => toggleResolution(profile.name)}
+                  />
+                  <Label htmlFor={`resolution-${profile.name}`}>
+                    {profile.label}
+                    <span className="ml-2 text-xs text-muted-foreground">
+                      {profile.width}x{profile.height},{" "}
+                      {profile.rateControl === "crf"
+                        ? `CRF ${profile.crf} up to ${profile.videoBitrate}`
+                        : profile.videoBitrate}
+                    </span>
+                  </Label>
+                </div>
+              ))}
+            </div>
 
-              <div className="flex items-center space-x-2">
-                <Checkbox
-                  id="resolution-360p"
-                  checked={selectedResolutions.includes("360p")}
-                  onCheckedChange={() => toggleResolution("360p")}
-                />
-                <Label htmlFor="resolution-360p">360p (SD)</Label>
-              </div>
+            <div className="flex items-center space-x-2 mt-4 pt-4 border-t">
+              <Checkbox
+                id="encrypt-segments"
+                checked={encrypt}
+                onCheckedChange={(checked) => setEncrypt(checked === true)}
+              />
+              <Label htmlFor="encrypt-segments">
+                Encrypt segments (AES-128, playback requires sign-in)
+              </Label>
             </div>
           </div>
           <DialogFooter>
@@ -229,7 +369,9 @@ export default function Video({ params = 0 }: VideoProps) {
             <Button
               onClick={() => convertMutation.mutate()}
               disabled={
-                selectedResolutions.length === 0 || convertMutation.isPending
+                !profiles.some((profile) =>
+                  selectedResolutions.includes(profile.name),
+                ) || convertMutation.isPending
               }
             >
               {convertMutation.isPending
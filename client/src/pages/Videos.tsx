@@ -2,6 +2,7 @@ import React, { useState } from "react";
 import { FileList } from "@/components/FileList";
 import { FileUploader } from "@/components/FileUploader";
 import { ImportDialog } from "@/components/ImportDialog";
+import { LibrarySearch } from "@/components/LibrarySearch";
 import { Button } from "@/components/ui/button";
 import {
   Select,
@@ -60,13 +61,15 @@ export default function Videos() {
         </div>
       </div>
 
-      {/* Videos List */}
-      <div className="bg-white rounded-lg shadow-sm p-6">
-        <FileList
-          category="video"
-          folderId={selectedFolder !== "all" ? selectedFolder : undefined}
-        />
-      </div>
+      {/* Search, or the videos in the selected folder when not searching */}
+      <LibrarySearch category="video" placeholder="Search videos by name, tag or codec">
+        <div className="bg-white rounded-lg shadow-sm p-6">
+          <FileList
+            category="video"
+            folderId={selectedFolder !== "all" ? selectedFolder : undefined}
+          />
+        </div>
+      </LibrarySearch>
 
       {/* File Upload Dialog */}
       <FileUploader
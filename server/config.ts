@@ -23,7 +23,26 @@ const envSchema = Joi.object().keys({
     REDIS_HOST: Joi.string().required(),
     REDIS_PORT: Joi.string().required(),
     REDIS_PASSWORD: Joi.string().required(),
-    REDIS_URL: Joi.string().required()
+    REDIS_URL: Joi.string().required(),
+    HLS_KEY_ROTATION_SEGMENTS: Joi.number().integer().min(1).default(10),
+    STREAM_SIGNING_SECRET: Joi.string().min(32),
+    STREAM_URL_TTL_SECONDS: Joi.number().integer().min(60).default(7200),
+    STORAGE_BACKEND: Joi.string().valid('gdrive', 'local', 's3').default('gdrive'),
+    DRIVE_PLACEMENT_STRATEGY: Joi.string().valid('most-free', 'round-robin', 'fill-first').default('most-free'),
+    DRIVE_HEALTH_CHECK_MINUTES: Joi.number().integer().min(0).default(5),
+    LOCAL_STORAGE_DIR: Joi.string().default('./data/blobs'),
+    S3_ENDPOINT: Joi.string().uri(),
+    S3_REGION: Joi.string().default('us-east-1'),
+    S3_BUCKET: Joi.string().when('STORAGE_BACKEND', { is: 's3', then: Joi.required() }),
+    S3_ACCESS_KEY_ID: Joi.string(),
+    S3_SECRET_ACCESS_KEY: Joi.string(),
+    S3_FORCE_PATH_STYLE: Joi.boolean().default(true),
+    S3_QUOTA_BYTES: Joi.number().integer().min(0),
+    RECONCILE_INTERVAL_MINUTES: Joi.number().integer().min(0).default(360),
+    TRASH_RETENTION_DAYS: Joi.number().integer().min(1).default(30),
+    // 32 bytes, hex or base64 encoded
+    CREDENTIALS_MASTER_KEY: Joi.string().pattern(/^(?:[0-9a-fA-F]{64}|[A-Za-z0-9+/]{43}=)$/),
+    GOOGLE_API_ROOT_URL: Joi.string().uri()
 });
 
 
@@ -62,6 +81,47 @@ const config = {
         port: validatedEnv.REDIS_PORT || 6379,        // Default port
         password: validatedEnv.REDIS_PASSWORD || undefined, // No password for now
         url: validatedEnv.REDIS_URL
+    },
+    hls: {
+        keyRotationSegments: validatedEnv.HLS_KEY_ROTATION_SEGMENTS as number // segments per AES-128 key
+    },
+    stream: {
+        // HMAC secret for signed stream URLs; falls back to the session secret
+        signingSecret: (validatedEnv.STREAM_SIGNING_SECRET || validatedEnv.SESSION_SECRET) as string,
+        urlTtlSeconds: validatedEnv.STREAM_URL_TTL_SECONDS as number // lifetime of playlist and segment URLs
+    },
+    storage: {
+        backend: validatedEnv.STORAGE_BACKEND as 'gdrive' | 'local' | 's3', // where new blobs are written
+        drive: {
+            // how new files are spread over service accounts; pinned folders override it
+            placementStrategy: validatedEnv.DRIVE_PLACEMENT_STRATEGY as 'most-free' | 'round-robin' | 'fill-first',
+            // how often each account's credentials are probed; 0 turns probing off
+            healthCheckMinutes: validatedEnv.DRIVE_HEALTH_CHECK_MINUTES as number
+        },
+        local: {
+            dir: validatedEnv.LOCAL_STORAGE_DIR as string
+        },
+        s3: {
+            endpoint: validatedEnv.S3_ENDPOINT as string | undefined, // e.g. http://localhost:9000 for MinIO
+            region: validatedEnv.S3_REGION as string,
+            bucket: validatedEnv.S3_BUCKET as string | undefined,
+            accessKeyId: validatedEnv.S3_ACCESS_KEY_ID as string | undefined,
+            secretAccessKey: validatedEnv.S3_SECRET_ACCESS_KEY as string | undefined,
+            forcePathStyle: validatedEnv.S3_FORCE_PATH_STYLE as boolean, // MinIO needs path-style URLs
+            quotaBytes: (validatedEnv.S3_QUOTA_BYTES ?? null) as number | null // buckets have no quota of their own
+        },
+        // how often Drive is checked against the database; 0 turns the schedule off
+        reconcileIntervalMinutes: validatedEnv.RECONCILE_INTERVAL_MINUTES as number,
+        // how long trashed uploads can be restored before they are purged for good
+        trashRetentionDays: validatedEnv.TRASH_RETENTION_DAYS as number
+    },
+    credentials: {
+        // encrypts service account private keys at rest; required to add accounts
+        masterKey: validatedEnv.CREDENTIALS_MASTER_KEY as string | undefined
+    },
+    google: {
+        // e.g. http://localhost:8089/ to send Drive calls to a local mock instead of Google
+        apiRootUrl: validatedEnv.GOOGLE_API_ROOT_URL as string | undefined
     }
 } as const;
 
@@ -3,6 +3,8 @@ import { Strategy as GitHubStrategy } from 'passport-github2';
 import { Request, Response, NextFunction } from 'express';
 import { User } from '../models/mongoose/user';
 import { logger } from '../utils/logger';
+import { verifyResourceSignature } from '../utils/signing';
+import type { AccessUser } from '../services/sharing';
 import config from '../config';
 
 // GitHub OAuth credentials
@@ -95,4 +97,76 @@ export function isAdmin(req: Request, res: Response, next: NextFunction): void {
     return next();
   }
   res.status(403).json({ error: 'Admin privileges required' });
-}
\ No newline at end of file
+}
+
+/**
+ * ID of the signed-in user, as stored in the userId of the records they own
+ */
+export function currentUserId(req: Request): string {
+  return (req.user as any)._id.toString();
+}
+
+/**
+ * Owner to filter listings by: the signed-in user, or nobody when an admin asks for
+ * every user's records with allUsers=true
+ */
+export function ownerFilter(req: Request): string | undefined {
+  if ((req.user as any).isAdmin && req.query.allUsers === 'true') {
+    return undefined;
+  }
+  return currentUserId(req);
+}
+
+/**
+ * The signed-in user as permission checks see them, or null when signed out
+ */
+export function accessUser(req: Request): AccessUser | null {
+  if (!req.isAuthenticated()) {
+    return null;
+  }
+  return { id: currentUserId(req), isAdmin: !!(req.user as any).isAdmin };
+}
+
+/**
+ * Whether the signed-in user may see a record: admins see everything, others only their own
+ */
+export function canAccess(req: Request, record: { userId?: string | null }): boolean {
+  if (!req.isAuthenticated()) {
+    return false;
+  }
+  return !!(req.user as any).isAdmin || record.userId === currentUserId(req);
+}
+
+/**
+ * Middleware to require a valid expires/sig pair for the resource a request targets.
+ * The signature's expiry is left in res.locals.signedExpires for URLs issued in the response.
+ */
+export function requireSignature(resourceOf: (req: Request) => string) {
+  return (req: Request, res: Response, next: NextFunction): void => {
+    const check = verifyResourceSignature(resourceOf(req), req.query.expires, req.query.sig);
+    if (check === 'valid') {
+      res.locals.signedExpires = parseInt(req.query.expires as string, 10);
+      return next();
+    }
+    res.status(check === 'expired' ? 410 : 403).json({
+      error: check === 'expired' ? 'Signed URL has expired' : 'Missing or invalid signature',
+    });
+  };
+}
+
+/**
+ * Middleware to accept either a signed-in user or a valid signature for the resource
+ */
+export function isAuthenticatedOrSigned(resourceOf: (req: Request) => string) {
+  const signed = requireSignature(resourceOf);
+  return (req: Request, res: Response, next: NextFunction): void => {
+    if (req.isAuthenticated()) {
+      return next();
+    }
+    if (req.query.sig === undefined) {
+      res.status(401).json({ error: 'Authentication required' });
+      return;
+    }
+    signed(req, res, next);
+  };
+}
@@ -16,6 +16,11 @@ class ChunkModel {
     const now = new Date();
     const newChunk: Chunk = {
       ...chunk,
+      keyIndex: chunk.keyIndex ?? null,
+      keyIv: chunk.keyIv ?? null,
+      storageBackend: chunk.storageBackend ?? 'gdrive',
+      serviceAccountId: chunk.serviceAccountId ?? null,
+      deletedAt: null,
       id: nextId++,
       createdAt: now,
     };
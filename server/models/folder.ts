@@ -1,4 +1,4 @@
-import { InsertFolder, Folder } from '@shared/schema';
+import { InsertFolder, Folder, Share } from '@shared/schema';
 import { logger } from '../utils/logger';
 
 // In-memory collection for testing
@@ -45,6 +45,11 @@ class FolderModel {
     const now = new Date();
     const newFolder: Folder = {
       ...folder,
+      userId: folder.userId ?? null,
+      parentId: folder.parentId ?? null,
+      path: (folder.path as number[] | undefined) ?? [],
+      shares: (folder.shares as Share[] | undefined) ?? [],
+      serviceAccountId: folder.serviceAccountId ?? null,
       id: nextId++,
       createdAt: now,
     };
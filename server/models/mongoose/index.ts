@@ -1,5 +1,6 @@
 import mongoose, { Schema, model } from 'mongoose';
-import { User, File, Upload, Chunk, Conversion, Account, Folder } from '@shared/schema';
+import { User, File, Upload, UploadManifest, Chunk, Conversion, EncodingProfile, Account, Folder, MetadataField } from '@shared/schema';
+import type { EncryptedSecret } from '../../utils/credentialEncryption';
 
 const userSchema = new Schema<User>({
   id: Number,
@@ -16,10 +17,18 @@ const fileSchema = new Schema<File>({
   mimeType: String,
 }, { timestamps: true });
 
+const shareSchema = new Schema({
+  userId: String,
+  role: String,
+}, { _id: false });
+
 const uploadSchema = new Schema<Upload>({
   id: Number,
+  userId: { type: String, index: true },
   fileType: String,
   externalFileId: String,
+  storageBackend: { type: String, default: 'gdrive' },
+  serviceAccountId: String,
   source: String,
   fileId: Number,
   fileSize: Number,
@@ -27,17 +36,51 @@ const uploadSchema = new Schema<Upload>({
   category: String,
   status: String,
   identifier: String,
+  checksum: String,
   folderName: String,
   thumbnail: String,
+  thumbnailServiceAccountId: String,
   folderId: String,
+  shares: { type: [shareSchema], default: [] },
+  tags: { type: [String], default: [], index: true },
+  metadata: { type: Schema.Types.Mixed, default: {} },
+  duration: { type: Number, default: null },
+  width: { type: Number, default: null },
+  height: { type: Number, default: null },
+  deletedAt: { type: Date, default: null, index: true },
+}, { timestamps: true, minimize: false });
+
+uploadSchema.index({ 'shares.userId': 1 });
+// Library search; names count most, then tags, then the folder and codec
+uploadSchema.index(
+  { uploadName: 'text', tags: 'text', folderName: 'text', 'metadata.codec': 'text' },
+  { name: 'upload_search', weights: { uploadName: 10, tags: 5, folderName: 3, 'metadata.codec': 1 } }
+);
+
+const uploadManifestSchema = new Schema<UploadManifest>({
+  uploadId: Number,
+  fileSize: Number,
+  chunkSize: Number,
+  totalChunks: Number,
+  receivedChunks: [{ _id: false, index: Number, size: Number, checksum: String }],
+  completingAt: { type: Date, default: null },
 }, { timestamps: true });
 
+uploadManifestSchema.index({ uploadId: 1 }, { unique: true });
+
 const chunkSchema = new Schema<Chunk>({
   id: Number,
   uploadId: Number,
   index: Number,
+  duration: Number,
   path: String,
   resolution: String,
+  externalFileId: String,
+  storageBackend: { type: String, default: 'gdrive' },
+  serviceAccountId: String,
+  keyIndex: Number,
+  keyIv: String,
+  deletedAt: { type: Date, default: null },
 }, { timestamps: true });
 
 const conversionSchema = new Schema<Conversion>({
@@ -49,8 +92,32 @@ const conversionSchema = new Schema<Conversion>({
   startedAt: Date,
   completedAt: Date,
   error: String,
+  bandwidth: Number,
+  codecs: String,
+  width: Number,
+  height: Number,
+  encrypted: { type: Boolean, default: false },
+  // Only loaded on request, so conversions can be returned to clients as they are
+  encryptionKeys: { type: [String], select: false },
 }, { timestamps: true });
 
+const encodingProfileSchema = new Schema<EncodingProfile>({
+  id: Number,
+  name: String,
+  label: String,
+  width: Number,
+  height: Number,
+  videoCodec: String,
+  rateControl: String,
+  videoBitrate: String,
+  crf: Number,
+  audioBitrate: String,
+  audioChannels: Number,
+  segmentDuration: Number,
+}, { timestamps: true });
+
+encodingProfileSchema.index({ name: 1 }, { unique: true });
+
 const accountSchema = new Schema<Account>({
   _id: Number,
   name: String,
@@ -63,19 +130,43 @@ const accountSchema = new Schema<Account>({
 const folderSchema = new Schema<Folder>({
   id: Number,
   name: String,
+  userId: { type: String, index: true },
+  parentId: { type: Number, default: null },
+  path: { type: [Number], default: [], index: true },
+  shares: { type: [shareSchema], default: [] },
+  serviceAccountId: String,
 }, { timestamps: true });
+
+folderSchema.index({ 'shares.userId': 1 });
+
+// Sibling folders of one owner have distinct names; routes check first, this settles races
+folderSchema.index({ userId: 1, parentId: 1, name: 1 }, { unique: true });
+
+const metadataFieldSchema = new Schema<MetadataField>({
+  id: Number,
+  userId: String,
+  key: String,
+  label: String,
+  type: String,
+  options: { type: [String], default: [] },
+}, { timestamps: true });
+
+metadataFieldSchema.index({ userId: 1, key: 1 }, { unique: true });
 export interface IServiceAccount extends Document {
   id: string;
   name: string;
   email: string;
   credentials: {
     client_email: string;
-    private_key: string;
+    private_key?: string; // only on accounts saved before keys were encrypted
+    [field: string]: any;
   };
+  encryptedPrivateKey?: EncryptedSecret | null;
   storageLimit: number;
   storageUsed: number;
   isActive: boolean;
   userId: mongoose.Types.ObjectId;
+  pendingCopies: { fileId: string; copyId: string; copyAccountId: string | null }[];
   createdAt: Date;
   updatedAt: Date;
 }
@@ -85,10 +176,13 @@ const ServiceAccountSchema: Schema = new Schema(
     name: { type: String, required: true },
     email: { type: String, required: true, unique: true },
     credentials: { type: Object, required: true },
+    encryptedPrivateKey: { type: Object, default: null }, // private_key, sealed with CREDENTIALS_MASTER_KEY
     storageLimit: { type: Number, required: true },
     storageUsed: { type: Number, default: 0 },
     isActive: { type: Boolean, default: true },
     userId: { type: Schema.Types.ObjectId, ref: 'User', required: true }, // ✅ enforce linkage
+    // Copies made by a migration whose records are being repointed, so a rerun reuses them
+    pendingCopies: [{ _id: false, fileId: String, copyId: String, copyAccountId: String }],
   },
   { timestamps: true }
 );
@@ -96,10 +190,13 @@ const ServiceAccountSchema: Schema = new Schema(
 export const UserModel = mongoose.models.User || model<User>('User', userSchema);
 export const FileModel = mongoose.models.File || model<File>('File', fileSchema);
 export const UploadModel = mongoose.models.Upload || model<Upload>('Upload', uploadSchema);
+export const UploadManifestModel = mongoose.models.UploadManifest || model<UploadManifest>('UploadManifest', uploadManifestSchema);
 export const ChunkModel = mongoose.models.Chunk || model<Chunk>('Chunk', chunkSchema);
 export const ConversionModel = mongoose.models.Conversion || model<Conversion>('Conversion', conversionSchema);
+export const EncodingProfileModel = mongoose.models.EncodingProfile || model<EncodingProfile>('EncodingProfile', encodingProfileSchema);
 export const ServiceAccount = mongoose.models.Account || model<IServiceAccount>('Account', ServiceAccountSchema);
 export const FolderModel = mongoose.models.Folder || model<Folder>('Folder', folderSchema);
+export const MetadataFieldModel = mongoose.models.MetadataField || model<MetadataField>('MetadataField', metadataFieldSchema);
 
 
 // Define ServiceAccountSchema or import it from the correct module
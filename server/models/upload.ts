@@ -18,6 +18,7 @@ class UploadModel {
       ...upload,
       id: nextId++,
       status: upload.status || 'processing',
+      deletedAt: null,
       createdAt: now,
       updatedAt: now,
     };
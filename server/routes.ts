@@ -15,6 +15,13 @@ import { registerStreamRoutes } from "./routes/stream";
 import { registerFileRoutes } from "./routes/files";
 import { registerAuthRoutes } from "./routes/auth";
 import { registerServiceAccountRoutes } from "./routes/serviceAccounts";
+import { registerProfileRoutes } from "./routes/profiles";
+import { registerReconciliationRoutes } from "./routes/reconciliation";
+import { registerSharingRoutes } from "./routes/sharing";
+import { registerTrashRoutes } from "./routes/trash";
+import { registerSearchRoutes } from "./routes/search";
+import { registerMetadataRoutes } from "./routes/metadata";
+import { registerBulkRoutes } from "./routes/bulk";
 
 // Create necessary directories
 async function ensureDirectories() {
@@ -72,8 +79,15 @@ export async function registerRoutes(app: Express): Promise<Server> {
   // Register other API routes
   registerUploadRoutes(app);
   registerJobRoutes(app);
+  registerProfileRoutes(app);
   registerStreamRoutes(app);
   registerFileRoutes(app);
+  registerReconciliationRoutes(app);
+  registerSharingRoutes(app);
+  registerTrashRoutes(app);
+  registerSearchRoutes(app);
+  registerMetadataRoutes(app);
+  registerBulkRoutes(app);
   
   // Create HTTP server
   const httpServer = createServer(app);
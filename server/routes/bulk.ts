@@ -0,0 +1,207 @@
+import { Router, Request, Response } from 'express';
+import { z } from 'zod';
+import { BulkOperationProgress, BulkOperationResult, fileCategories, MetadataFieldValues } from '@shared/schema';
+import { storage } from '../storage';
+import { accessUser, currentUserId, isAuthenticated, ownerFilter } from '../config/auth';
+import { hasRole, sharing } from '../services/sharing';
+import { BulkOperationJobData, jobQueue } from '../services/jobQueue';
+import { checkFieldValues, MAX_TAG_LENGTH, MAX_TAGS, normalizeTags } from '../utils/metadataFields';
+import { logger } from '../utils/logger';
+
+const router = Router();
+
+// Largest selection one bulk operation may cover
+const MAX_BULK_UPLOADS = 1000;
+
+const tagsSchema = z.array(z.string().max(MAX_TAG_LENGTH)).max(MAX_TAGS).transform(normalizeTags);
+
+// Validation schema for a selection: explicit upload IDs, or everything matching a filter
+// as GET /api/uploads would list it
+const selectionSchema = z.union([
+  z.object({
+    ids: z.array(z.number().int()).min(1).max(MAX_BULK_UPLOADS)
+      .transform((ids) => Array.from(new Set(ids))),
+  }),
+  z.object({
+    filter: z.object({
+      folderId: z.number().int().optional(),
+      category: z.enum(fileCategories).exclude(['all', 'uncategorized']).optional(),
+      tags: tagsSchema.optional(),
+      fields: z.record(z.union([z.string(), z.number()])).optional(),
+    }),
+  }),
+]);
+
+// Validation schema for the action to run on every selected upload
+const operationSchema = z.discriminatedUnion('action', [
+  z.object({ action: z.literal('move'), folderId: z.number().int().nullable() }),
+  z.object({ action: z.literal('delete') }),
+  z.object({
+    action: z.literal('tag'),
+    addTags: tagsSchema.optional().default([]),
+    removeTags: tagsSchema.optional().default([]),
+  }),
+  z.object({ action: z.literal('categorize'), category: z.enum(fileCategories).exclude(['all', 'uncategorized']) }),
+  z.object({
+    action: z.literal('convert'),
+    resolutions: z.array(z.string().min(1)).min(1, 'At least one resolution is required')
+      .transform((resolutions) => Array.from(new Set(resolutions))),
+    encrypt: z.boolean().optional().default(false),
+  }),
+  z.object({ action: z.literal('thumbnails') }),
+]);
+
+const bulkRequestSchema = z.object({
+  selection: selectionSchema,
+  operation: operationSchema,
+});
+
+/**
+ * Resolve a selection to upload IDs, replying with an error if it cannot be
+ */
+async function resolveSelection(
+  req: Request,
+  res: Response,
+  selection: z.infer<typeof selectionSchema>
+): Promise<number[] | null> {
+  if ('ids' in selection) {
+    return selection.ids;
+  }
+
+  const { folderId, category, tags, fields } = selection.filter;
+  let userId = ownerFilter(req);
+  let fieldsOwnerId = currentUserId(req);
+
+  // Inside another user's folder shared with the caller, select everything the folder holds
+  if (folderId !== undefined) {
+    const folder = await storage.getFolder(folderId);
+    if (!folder || !(await sharing.folderRole(accessUser(req), folder))) {
+      res.status(404).json({ error: 'Folder not found' });
+      return null;
+    }
+    if (folder.userId && folder.userId !== userId) {
+      userId = undefined;
+      fieldsOwnerId = folder.userId;
+    }
+  }
+
+  // Field values are typed by the owner's definitions, as when they are set
+  let fieldFilter: MetadataFieldValues | undefined;
+  if (fields) {
+    const checked = checkFieldValues(await storage.getMetadataFields(fieldsOwnerId), fields);
+    if ('errors' in checked) {
+      res.status(400).json({ error: 'Invalid field filter', details: checked.errors });
+      return null;
+    }
+    fieldFilter = Object.fromEntries(
+      Object.entries(checked.values).filter((entry): entry is [string, string | number] => entry[1] !== null)
+    );
+  }
+
+  const uploads = await storage.getUploads({
+    userId,
+    tags,
+    fields: fieldFilter,
+    category,
+    folderId: folderId?.toString(),
+  });
+
+  if (uploads.length === 0) {
+    res.status(400).json({ error: 'No uploads match the filter' });
+    return null;
+  }
+  if (uploads.length > MAX_BULK_UPLOADS) {
+    res.status(400).json({ error: `The filter matches ${uploads.length} uploads; at most ${MAX_BULK_UPLOADS} can be changed at once` });
+    return null;
+  }
+  return uploads.map((upload) => upload.id);
+}
+
+/**
+ * Run an action on many uploads in the background. Each upload is checked and reported on
+ * separately; poll GET /api/uploads/bulk/:jobId for progress and results.
+ */
+router.post('/api/uploads/bulk', isAuthenticated, async (req: Request, res: Response) => {
+  try {
+    const validationResult = bulkRequestSchema.safeParse(req.body);
+    if (!validationResult.success) {
+      return res.status(400).json({
+        error: 'Invalid request data',
+        details: validationResult.error.format(),
+      });
+    }
+
+    const { selection, operation } = validationResult.data;
+    const user = accessUser(req)!;
+
+    // Problems shared by the whole selection are reported now rather than once per upload
+    if (operation.action === 'tag' && operation.addTags.length === 0 && operation.removeTags.length === 0) {
+      return res.status(400).json({ error: 'Add or remove at least one tag' });
+    }
+    if (operation.action === 'move' && operation.folderId !== null) {
+      const folder = await storage.getFolder(operation.folderId);
+      if (!folder || !hasRole(await sharing.folderRole(user, folder), 'editor')) {
+        return res.status(404).json({ error: 'Folder not found' });
+      }
+    }
+    if (operation.action === 'convert') {
+      for (const resolution of operation.resolutions) {
+        if (!(await storage.getEncodingProfileByName(resolution))) {
+          return res.status(400).json({ error: `Unknown encoding profile: ${resolution}` });
+        }
+      }
+    }
+
+    const uploadIds = await resolveSelection(req, res, selection);
+    if (!uploadIds) return;
+
+    const jobId = await jobQueue.addBulkOperationJob(user, uploadIds, operation);
+    res.status(202).json({ jobId, total: uploadIds.length });
+  } catch (error) {
+    logger.error('Failed to queue bulk operation:', error);
+    res.status(500).json({ error: 'Failed to queue bulk operation' });
+  }
+});
+
+/**
+ * Get the state, progress and per-upload results of a bulk operation
+ */
+router.get('/api/uploads/bulk/:jobId', isAuthenticated, async (req: Request, res: Response) => {
+  try {
+    const job = await jobQueue.getBulkOperationJob(req.params.jobId);
+    const data = job?.data as BulkOperationJobData | undefined;
+    if (!job || !data || data.user.id !== currentUserId(req)) {
+      return res.status(404).json({ error: 'Bulk operation not found' });
+    }
+
+    const result = (job.returnvalue ?? null) as BulkOperationResult | null;
+    const progress: BulkOperationProgress = result ?? (typeof job.progress === 'object'
+      ? job.progress as BulkOperationProgress
+      : { total: data.uploadIds.length, processed: 0, succeeded: 0, failed: 0, skipped: 0 });
+
+    res.status(200).json({
+      jobId: job.id,
+      action: data.operation.action,
+      state: await job.getState(),
+      progress: {
+        total: progress.total,
+        processed: progress.processed,
+        succeeded: progress.succeeded,
+        failed: progress.failed,
+        skipped: progress.skipped,
+      },
+      results: result?.results ?? null,
+      error: job.failedReason ?? null,
+      startedAt: job.processedOn ? new Date(job.processedOn) : null,
+      finishedAt: job.finishedOn ? new Date(job.finishedOn) : null,
+    });
+  } catch (error) {
+    logger.error(`Failed to get bulk operation ${req.params.jobId}:`, error);
+    res.status(500).json({ error: 'Failed to get bulk operation' });
+  }
+});
+
+export function registerBulkRoutes(app: any): void {
+  app.use(router);
+  logger.info('Bulk operation routes registered');
+}
@@ -1,6 +1,8 @@
 import { Router, Request, Response } from 'express';
-import { storage } from '../storage';
+import { isDuplicateKeyError, storage } from '../storage';
 import { logger } from '../utils/logger';
+import { accessUser, currentUserId, isAuthenticated, ownerFilter } from '../config/auth';
+import { AccessRole, hasRole, sharing } from '../services/sharing';
 import { z } from 'zod';
 import { insertFolderSchema, Folder, Upload } from '@shared/schema';
 
@@ -18,6 +20,37 @@ const updateFolderSchema = z.object({
   name: z.string().min(1, 'Folder name is required'),
 });
 
+// Validation schema for creating a folder, at the top level unless a parent is given
+const createFolderSchema = insertFolderSchema.pick({ name: true, parentId: true });
+
+// Validation schema for moving a folder; null moves it to the top level
+const moveFolderSchema = z.object({
+  parentId: z.number().int().nullable(),
+});
+
+// Validation schema for listing a folder's children; "root" lists top-level folders
+const foldersQuerySchema = z.object({
+  parentId: z.union([z.literal('root'), z.string().regex(/^\d+$/).transform((val) => parseInt(val, 10))]).optional(),
+});
+
+// Validation schema for resolving a slash-separated folder path, e.g. "Projects/2024/Demos"
+const resolvePathSchema = z.object({
+  path: z.string().min(1, 'Path is required'),
+});
+
+// Validation schema for pinning a folder's uploads to a service account; null unpins
+const folderPlacementSchema = z.object({
+  serviceAccountId: z.string().min(1).nullable(),
+});
+
+// Role of the signed-in user on a folder, or null if they cannot see it
+const folderRole = (req: Request, folder: Folder): Promise<AccessRole | null> =>
+  sharing.folderRole(accessUser(req), folder);
+
+// Everything in a user's folder belongs to them; in a shared default folder each user sees only their own
+const contentOwnerFilter = (req: Request, folder?: Folder | null): string | undefined =>
+  folder?.userId ? undefined : ownerFilter(req);
+
 // Validation schema for query parameters in get uploads
 const uploadsQuerySchema = z.object({
   page: z.string().optional().default('1').transform((val) => parseInt(val, 10)).refine((val) => val > 0, {
@@ -29,11 +62,29 @@ const uploadsQuerySchema = z.object({
 });
 
 /**
- * Get all folders
+ * Get all folders, or the children of one with parentId
  */
-router.get('/api/folders', async (req: Request, res: Response) => {
+router.get('/api/folders', isAuthenticated, async (req: Request, res: Response) => {
   try {
-    const folders = await storage.getFolders();
+    const validationResult = foldersQuerySchema.safeParse(req.query);
+    if (!validationResult.success) {
+      return res.status(400).json({
+        error: 'Invalid query parameters',
+        details: validationResult.error.format(),
+      });
+    }
+
+    const { parentId } = validationResult.data;
+    if (parentId === undefined) {
+      return res.status(200).json(await storage.getFolders(ownerFilter(req)));
+    }
+
+    const parent = parentId === 'root' ? null : await storage.getFolder(parentId);
+    if (parentId !== 'root' && (!parent || !(await folderRole(req, parent)))) {
+      return res.status(404).json({ error: 'Folder not found' });
+    }
+
+    const folders = await storage.getChildFolders(parent?.id ?? null, contentOwnerFilter(req, parent));
     res.status(200).json(folders);
   } catch (error) {
     logger.error('Failed to get folders:', error);
@@ -41,13 +92,84 @@ router.get('/api/folders', async (req: Request, res: Response) => {
   }
 });
 
+/**
+ * Find a folder by its path of names from the top level
+ */
+router.get('/api/folders/resolve', isAuthenticated, async (req: Request, res: Response) => {
+  try {
+    const validationResult = resolvePathSchema.safeParse(req.query);
+    if (!validationResult.success) {
+      return res.status(400).json({
+        error: 'Invalid folder path',
+        details: validationResult.error.format(),
+      });
+    }
+
+    const names = validationResult.data.path.split('/').filter(Boolean);
+    const ancestors: Folder[] = [];
+    let folder: Folder | undefined;
+
+    for (const name of names) {
+      if (folder) ancestors.push(folder);
+      folder = await storage.getFolderByName(name, folder?.id ?? null, contentOwnerFilter(req, folder));
+      if (!folder) {
+        return res.status(404).json({ error: 'Folder not found', missing: name });
+      }
+    }
+
+    if (!folder) {
+      return res.status(400).json({ error: 'Path names no folder' });
+    }
+    if (!(await folderRole(req, folder))) {
+      return res.status(404).json({ error: 'Folder not found' });
+    }
+
+    res.status(200).json({ ...folder, ancestors });
+  } catch (error) {
+    logger.error('Failed to resolve folder path:', error);
+    res.status(500).json({ error: 'Failed to resolve folder path' });
+  }
+});
+
+/**
+ * Get a folder with the signed-in user's role on it and its ancestors, top-level first,
+ * for breadcrumbs
+ */
+router.get('/api/folders/:id', isAuthenticated, async (req: Request, res: Response) => {
+  try {
+    const validationResult = folderIdSchema.safeParse(req.params);
+    if (!validationResult.success) {
+      return res.status(400).json({
+        error: 'Invalid folder ID',
+        details: validationResult.error.format(),
+      });
+    }
+
+    const folder = await storage.getFolder(validationResult.data.id);
+    const role = folder && await folderRole(req, folder);
+    if (!folder || !role) {
+      return res.status(404).json({ error: 'Folder not found' });
+    }
+
+    // Someone a subfolder was shared with does not see the folders above it
+    const ancestors: Folder[] = [];
+    for (const ancestor of await storage.getFolderAncestors(folder)) {
+      if (await folderRole(req, ancestor)) ancestors.push(ancestor);
+    }
+    res.status(200).json({ ...folder, ancestors, role });
+  } catch (error) {
+    logger.error(`Failed to get folder ${req.params.id}:`, error);
+    res.status(500).json({ error: 'Failed to get folder' });
+  }
+});
+
 /**
  * Create a new folder
  */
-router.post('/api/folders', async (req: Request, res: Response) => {
+router.post('/api/folders', isAuthenticated, async (req: Request, res: Response) => {
   try {
     // Validate request body
-    const validationResult = insertFolderSchema.safeParse(req.body);
+    const validationResult = createFolderSchema.safeParse(req.body);
     if (!validationResult.success) {
       return res.status(400).json({
         error: 'Invalid request data',
@@ -56,17 +178,29 @@ router.post('/api/folders', async (req: Request, res: Response) => {
     }
 
     const { name } = validationResult.data;
+    const parentId = validationResult.data.parentId ?? null;
+
+    const parent = parentId === null ? null : await storage.getFolder(parentId);
+    if (parentId !== null && (!parent || !hasRole(await folderRole(req, parent), 'editor'))) {
+      return res.status(404).json({ error: 'Parent folder not found' });
+    }
+
+    // A folder made inside someone else's shared folder is theirs, like the files put in it
+    const userId = parent?.userId ?? currentUserId(req);
 
     // Check if folder with this name already exists
-    const existingFolder = await storage.getFolderByName(name);
+    const existingFolder = await storage.getFolderByName(name, parentId, contentOwnerFilter(req, parent));
     if (existingFolder) {
       return res.status(400).json({ error: 'Folder with this name already exists' });
     }
 
     // Create folder
-    const folder = await storage.createFolder({ name });
+    const folder = await storage.createFolder({ name, parentId, userId });
     res.status(201).json(folder);
   } catch (error) {
+    if (isDuplicateKeyError(error)) {
+      return res.status(400).json({ error: 'Folder with this name already exists' });
+    }
     logger.error('Failed to create folder:', error);
     res.status(500).json({ error: 'Failed to create folder' });
   }
@@ -75,7 +209,7 @@ router.post('/api/folders', async (req: Request, res: Response) => {
 /**
  * Update a folder
  */
-router.put('/api/folders/:id', async (req: Request, res: Response) => {
+router.put('/api/folders/:id', isAuthenticated, async (req: Request, res: Response) => {
   try {
     // Validate folder ID
     const idValidation = folderIdSchema.safeParse(req.params);
@@ -100,12 +234,16 @@ router.put('/api/folders/:id', async (req: Request, res: Response) => {
 
     // Check if folder exists
     const folder = await storage.getFolder(id);
-    if (!folder) {
+    const role = folder && await folderRole(req, folder);
+    if (!folder || !role) {
       return res.status(404).json({ error: 'Folder not found' });
     }
+    if (role !== 'owner') {
+      return res.status(403).json({ error: 'Only the owner can change this folder' });
+    }
 
     // Check if another folder with this name already exists
-    const existingFolder = await storage.getFolderByName(name);
+    const existingFolder = await storage.getFolderByName(name, folder.parentId ?? null, folder.userId ?? undefined);
     if (existingFolder && existingFolder.id !== id) {
       return res.status(400).json({ error: 'Another folder with this name already exists' });
     }
@@ -114,15 +252,133 @@ router.put('/api/folders/:id', async (req: Request, res: Response) => {
     const updatedFolder = await storage.updateFolder(id, { name });
     res.status(200).json(updatedFolder);
   } catch (error) {
+    if (isDuplicateKeyError(error)) {
+      return res.status(400).json({ error: 'Another folder with this name already exists' });
+    }
     logger.error(`Failed to update folder ${req.params.id}:`, error);
     res.status(500).json({ error: 'Failed to update folder' });
   }
 });
 
 /**
- * Delete a folder
+ * Move a folder, with everything below it, under another parent
  */
-router.delete('/api/folders/:id', async (req: Request, res: Response) => {
+router.put('/api/folders/:id/move', isAuthenticated, async (req: Request, res: Response) => {
+  try {
+    const idValidation = folderIdSchema.safeParse(req.params);
+    if (!idValidation.success) {
+      return res.status(400).json({
+        error: 'Invalid folder ID',
+        details: idValidation.error.format(),
+      });
+    }
+
+    const bodyValidation = moveFolderSchema.safeParse(req.body);
+    if (!bodyValidation.success) {
+      return res.status(400).json({
+        error: 'Invalid request data',
+        details: bodyValidation.error.format(),
+      });
+    }
+
+    const { id } = idValidation.data;
+    const { parentId } = bodyValidation.data;
+
+    const folder = await storage.getFolder(id);
+    const role = folder && await folderRole(req, folder);
+    if (!folder || !role) {
+      return res.status(404).json({ error: 'Folder not found' });
+    }
+    if (role !== 'owner') {
+      return res.status(403).json({ error: 'Only the owner can change this folder' });
+    }
+
+    if (parentId !== null) {
+      const parent = await storage.getFolder(parentId);
+      if (!parent || !hasRole(await folderRole(req, parent), 'editor')) {
+        return res.status(404).json({ error: 'Parent folder not found' });
+      }
+      if (parent.id === id || (parent.path ?? []).includes(id)) {
+        return res.status(400).json({ error: 'A folder cannot be moved into itself' });
+      }
+      // Whatever is below a user's folder is theirs, so it cannot move under another user's folder
+      if (parent.userId && parent.userId !== folder.userId) {
+        return res.status(400).json({ error: 'A folder can only be moved among its owner\'s folders' });
+      }
+    }
+
+    const existingFolder = await storage.getFolderByName(folder.name, parentId, folder.userId ?? undefined);
+    if (existingFolder && existingFolder.id !== id) {
+      return res.status(400).json({ error: 'Another folder with this name already exists there' });
+    }
+
+    const movedFolder = await storage.moveFolder(id, parentId);
+    res.status(200).json(movedFolder);
+  } catch (error) {
+    if (isDuplicateKeyError(error)) {
+      return res.status(400).json({ error: 'Another folder with this name already exists there' });
+    }
+    logger.error(`Failed to move folder ${req.params.id}:`, error);
+    res.status(500).json({ error: 'Failed to move folder' });
+  }
+});
+
+/**
+ * Pin a folder's new uploads to a Drive service account, or unpin it
+ */
+router.put('/api/folders/:id/placement', isAuthenticated, async (req: Request, res: Response) => {
+  try {
+    const idValidation = folderIdSchema.safeParse(req.params);
+    if (!idValidation.success) {
+      return res.status(400).json({
+        error: 'Invalid folder ID',
+        details: idValidation.error.format(),
+      });
+    }
+
+    const bodyValidation = folderPlacementSchema.safeParse(req.body);
+    if (!bodyValidation.success) {
+      return res.status(400).json({
+        error: 'Invalid request data',
+        details: bodyValidation.error.format(),
+      });
+    }
+
+    const { id } = idValidation.data;
+    const { serviceAccountId } = bodyValidation.data;
+
+    const folder = await storage.getFolder(id);
+    const role = folder && await folderRole(req, folder);
+    if (!folder || !role) {
+      return res.status(404).json({ error: 'Folder not found' });
+    }
+    if (role !== 'owner') {
+      return res.status(403).json({ error: 'Only the owner can change this folder' });
+    }
+
+    // Files in a user's folder go to their service accounts, so only those can be pinned
+    if (serviceAccountId) {
+      const accounts = await storage.getAccounts();
+      const account = accounts.find(account => account._id.toString() === serviceAccountId);
+      if (!account || (folder.userId && String(account.userId) !== folder.userId)) {
+        return res.status(400).json({ error: 'Service account not found' });
+      }
+    }
+
+    // Files already in the folder stay where they are
+    const updatedFolder = await storage.updateFolder(id, { serviceAccountId });
+    res.status(200).json(updatedFolder);
+  } catch (error) {
+    logger.error(`Failed to update placement for folder ${req.params.id}:`, error);
+    res.status(500).json({ error: 'Failed to update folder placement' });
+  }
+});
+
+/**
+ * Delete a folder. One with subfolders or files is only deleted, along with all of
+ * them, when recursive=true is passed.
+ */
+router.delete('/api/folders/:id', isAuthenticated, async (req: Request, res: Response) => {
   try {
     // Validate folder ID
     const validationResult = folderIdSchema.safeParse(req.params);
@@ -137,22 +393,34 @@ router.delete('/api/folders/:id', async (req: Request, res: Response) => {
 
     // Check if folder exists
     const folder = await storage.getFolder(id);
-    if (!folder) {
+    const role = folder && await folderRole(req, folder);
+    if (!folder || !role) {
       return res.status(404).json({ error: 'Folder not found' });
     }
+    if (role !== 'owner') {
+      return res.status(403).json({ error: 'Only the owner can change this folder' });
+    }
 
-    // Get uploads in this folder
-    const uploads = await storage.getUploads({ folderId: id.toString() });
-    if (uploads.length > 0) {
-      return res.status(400).json({
-        error: 'Cannot delete folder with files in it',
-        count: uploads.length,
+    // Count what is below the folder, whoever it belongs to, so the client can confirm
+    const descendants = await storage.getFolderDescendants(id);
+    const fileCounts = await Promise.all(
+      [folder, ...descendants].map((f) => storage.count({ folderId: f.id.toString() }))
+    );
+    const files = fileCounts.reduce((sum, n) => sum + n, 0);
+
+    if ((descendants.length > 0 || files > 0) && req.query.recursive !== 'true') {
+      return res.status(409).json({
+        error: 'Folder is not empty',
+        folders: descendants.length,
+        files,
       });
     }
 
     // Delete folder
-    const deleted = await storage.deleteFolder(id);
-    if (!deleted) {
+    if (descendants.length > 0 || files > 0) {
+      const deleted = await storage.deleteFolderTree(id);
+      logger.info(`Deleted folder ${id} with ${deleted.folders - 1} subfolders and moved ${deleted.files} files to the trash`);
+    } else if (!(await storage.deleteFolder(id))) {
       return res.status(500).json({ error: 'Failed to delete folder' });
     }
 
@@ -166,7 +434,7 @@ router.delete('/api/folders/:id', async (req: Request, res: Response) => {
 /**
  * Get uploads by folder
  */
-router.get('/api/folders/:id/uploads', async (req: Request, res: Response) => {
+router.get('/api/folders/:id/uploads', isAuthenticated, async (req: Request, res: Response) => {
   try {
     // Validate folder ID
     const idValidation = folderIdSchema.safeParse(req.params);
@@ -191,19 +459,21 @@ router.get('/api/folders/:id/uploads', async (req: Request, res: Response) => {
 
     // Check if folder exists
     const folder = await storage.getFolder(id);
-    if (!folder) {
+    if (!folder || !(await folderRole(req, folder))) {
       return res.status(404).json({ error: 'Folder not found' });
     }
 
-    // Get uploads in this folder
+    // Get the uploads in this folder the user can see
+    const userId = contentOwnerFilter(req, folder);
     const uploads = await storage.getUploads({
+      userId,
       folderId: id.toString(),
       offset: (page - 1) * limit,
       limit,
     });
 
     // Get total count for pagination
-    const total = await storage.count({ folderId: id.toString() });
+    const total = await storage.count({ userId, folderId: id.toString() });
 
     res.status(200).json({
       files: uploads,
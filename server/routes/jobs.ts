@@ -2,9 +2,12 @@ import { Router, Request, Response } from 'express';
 import { storage } from '../storage';
 import { jobQueue, JobType } from '../services/jobQueue';
 import { logger } from '../utils/logger';
+import { accessUser, isAuthenticated, ownerFilter } from '../config/auth';
+import { hasRole, sharing } from '../services/sharing';
+import config from '../config';
 import { z } from 'zod';
 import {
-  videoResolutions, Conversion, Upload, FileStatus, JobStatus
+  Conversion, EncodingProfile, Upload, FileStatus, JobStatus
 } from '@shared/schema';
 
 const router = Router();
@@ -12,7 +15,13 @@ const router = Router();
 // Validation schema for creating HLS conversion job
 const createHlsJobSchema = z.object({
   uploadId: z.number(),
-  resolutions: z.array(z.enum(videoResolutions)),
+  // Encoding profile names; checked against the stored profiles below
+  resolutions: z.array(z.string().min(1)).min(1, 'At least one resolution is required'),
+  // single-pass encodes every pending resolution from one decode of the source
+  mode: z.enum(['single-pass', 'per-resolution']).optional(),
+  // AES-128 encrypt the segments, switching keys every keyRotationSegments segments
+  encrypt: z.boolean().optional(),
+  keyRotationSegments: z.number().int().min(1).optional(),
 });
 
 // Validation schema for query parameters
@@ -35,7 +44,7 @@ const statusSchema = z.object({
 /**
  * Create HLS conversion job
  */
-router.post('/api/job/hls/create', async (req: Request, res: Response) => {
+router.post('/api/job/hls/create', isAuthenticated, async (req: Request, res: Response) => {
   try {
     // Validate request body
     const validationResult = createHlsJobSchema.safeParse(req.body);
@@ -46,11 +55,14 @@ router.post('/api/job/hls/create', async (req: Request, res: Response) => {
       });
     }
 
-    const { uploadId, resolutions } = validationResult.data;
+    const { uploadId, resolutions, mode, encrypt, keyRotationSegments } = validationResult.data;
+    const encryption = encrypt
+      ? { segmentsPerKey: keyRotationSegments ?? config.hls.keyRotationSegments }
+      : null;
 
-    // Check if upload exists
+    // Check if upload exists; nothing in the trash is converted
     const upload = await storage.getUpload(uploadId);
-    if (!upload) {
+    if (!upload || upload.deletedAt || !hasRole(await sharing.uploadRole(accessUser(req), upload), 'editor')) {
       return res.status(404).json({ error: 'Upload not found' });
     }
 
@@ -59,76 +71,18 @@ router.post('/api/job/hls/create', async (req: Request, res: Response) => {
       return res.status(400).json({ error: 'File is not a video' });
     }
 
-    // Create conversion jobs for each resolution
-    const jobs: { conversionId: number; resolution: string; status: string; message: string }[] = [];
-
-    for (const resolution of resolutions) {
-      // Check if conversion already exists
-      const existingConversions = await storage.getConversionsByUploadId(uploadId);
-      const existingConversion = existingConversions.find((c) => c.resolution === resolution);
-
-      if (existingConversion) {
-        if (existingConversion.status === 'ready') {
-          jobs.push({
-            conversionId: existingConversion.id,
-            resolution,
-            status: 'ready',
-            message: 'Conversion already complete',
-          });
-          continue;
-        }
-
-        if (existingConversion.status === 'failed') {
-          await storage.updateConversionStatus(existingConversion.id, 'waiting', 0);
-          jobs.push({
-            conversionId: existingConversion.id,
-            resolution,
-            status: 'waiting',
-            message: 'Retrying failed conversion',
-          });
-
-          await jobQueue.addHlsConversionJob(
-            uploadId,
-            existingConversion.id,
-            resolution,
-            upload.externalFileId
-          );
-          continue;
-        }
-
-        if (existingConversion.status === 'processing' || existingConversion.status === 'waiting') {
-          jobs.push({
-            conversionId: existingConversion.id,
-            resolution,
-            status: existingConversion.status,
-            message: `Conversion already ${existingConversion.status}`,
-          });
-          continue;
-        }
+    // Every requested resolution must name an encoding profile
+    const profiles = new Map<string, EncodingProfile>();
+    for (const resolution of Array.from(new Set(resolutions))) {
+      const profile = await storage.getEncodingProfileByName(resolution);
+      if (!profile) {
+        return res.status(400).json({ error: `Unknown encoding profile: ${resolution}` });
       }
-
-      // Create new conversion job
-      const conversion = await storage.createConversion({
-        uploadId,
-        resolution,
-        status: 'waiting',
-      });
-
-      await jobQueue.addHlsConversionJob(
-        uploadId,
-        conversion.id,
-        resolution,
-        upload.externalFileId
-      );
-
-      jobs.push({
-        conversionId: conversion.id,
-        resolution,
-        status: 'waiting',
-        message: 'Conversion job created',
-      });
+      profiles.set(resolution, profile);
     }
 
+    const jobs = await jobQueue.queueHlsConversions(upload, Array.from(profiles.values()), encryption, mode);
+
     // Update upload status to processing if not already
     if (upload.status !== 'processing') {
       await storage.updateUploadStatus(uploadId, 'processing');
@@ -148,7 +102,7 @@ router.post('/api/job/hls/create', async (req: Request, res: Response) => {
 /**
  * Get HLS conversion job status
  */
-router.get('/api/job/hls/get', async (req: Request, res: Response) => {
+router.get('/api/job/hls/get', isAuthenticated, async (req: Request, res: Response) => {
   try {
     // Validate query parameters
     const validationResult = jobIdSchema.safeParse(req.query);
@@ -161,14 +115,13 @@ router.get('/api/job/hls/get', async (req: Request, res: Response) => {
 
     const { jobId } = validationResult.data;
 
+    // Jobs belong to whoever owns the upload
     const conversion = await storage.getConversion(jobId);
-    if (!conversion) {
+    const upload = conversion && await storage.getUpload(conversion.uploadId);
+    if (!conversion || !upload || !hasRole(await sharing.uploadRole(accessUser(req), upload), 'viewer')) {
       return res.status(404).json({ error: 'Conversion job not found' });
     }
 
-    // Get upload details for context
-    const upload = await storage.getUpload(conversion.uploadId);
-
     res.status(200).json({
       id: conversion.id,
       uploadId: conversion.uploadId,
@@ -189,7 +142,7 @@ router.get('/api/job/hls/get', async (req: Request, res: Response) => {
 /**
  * Get all conversion jobs for an upload
  */
-router.get('/api/job/hls/getConversionJobs', async (req: Request, res: Response) => {
+router.get('/api/job/hls/getConversionJobs', isAuthenticated, async (req: Request, res: Response) => {
   try {
     // Validate query parameters
     const validationResult = uploadIdSchema.safeParse(req.query);
@@ -202,8 +155,12 @@ router.get('/api/job/hls/getConversionJobs', async (req: Request, res: Response)
 
     const { uploadId } = validationResult.data;
 
-    const conversions = await storage.getConversionsByUploadId(uploadId);
     const upload = await storage.getUpload(uploadId);
+    if (!upload || !hasRole(await sharing.uploadRole(accessUser(req), upload), 'viewer')) {
+      return res.status(404).json({ error: 'Upload not found' });
+    }
+
+    const conversions = await storage.getConversionsByUploadId(uploadId);
 
     // Format response
     const response = {
@@ -240,11 +197,11 @@ router.get('/api/job/hls/getConversionJobs', async (req: Request, res: Response)
 /**
  * Get all active jobs
  */
-router.get('/api/job/hls/active', async (req: Request, res: Response) => {
+router.get('/api/job/hls/active', isAuthenticated, async (req: Request, res: Response) => {
   try {
     // Get all conversions and filter for active ones (waiting or processing)
     const allConversions = await Promise.all(
-      (await storage.getUploads()).map(async (upload) =>
+      (await storage.getUploads({ userId: ownerFilter(req) })).map(async (upload) =>
         (await storage.getConversionsByUploadId(upload.id)).map((c) => ({ ...c, upload }))
       )
     );
@@ -300,7 +257,7 @@ router.get('/api/job/hls/active', async (req: Request, res: Response) => {
 /**
  * Get all jobs by status
  */
-router.get('/api/job/hls/all', async (req: Request, res: Response) => {
+router.get('/api/job/hls/all', isAuthenticated, async (req: Request, res: Response) => {
   try {
     // Validate query parameters
     const validationResult = statusSchema.safeParse(req.query);
@@ -315,7 +272,7 @@ router.get('/api/job/hls/all', async (req: Request, res: Response) => {
 
     // Get all conversions and filter by status if provided
     const allConversions = await Promise.all(
-      (await storage.getUploads()).map(async (upload) =>
+      (await storage.getUploads({ userId: ownerFilter(req) })).map(async (upload) =>
         (await storage.getConversionsByUploadId(upload.id)).map((c) => ({ ...c, upload }))
       )
     );
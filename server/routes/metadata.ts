@@ -0,0 +1,318 @@
+import { Router, Request, Response } from 'express';
+import { z } from 'zod';
+import { metadataFieldTypes, MetadataField, Upload } from '@shared/schema';
+import { storage } from '../storage';
+import { accessUser, currentUserId, isAuthenticated } from '../config/auth';
+import { hasRole, sharing } from '../services/sharing';
+import { checkFieldValues, fieldKeyFor, MAX_TAG_LENGTH, MAX_TAGS, normalizeTags } from '../utils/metadataFields';
+import { logger } from '../utils/logger';
+
+const router = Router();
+
+// Validation schema for field and upload ID parameters
+const recordIdSchema = z.object({
+  id: z.string().transform((val) => parseInt(val, 10)).refine((val) => !isNaN(val), {
+    message: 'ID must be a valid number',
+  }),
+});
+
+const optionsSchema = z.array(z.string().trim().min(1).max(100)).max(100)
+  .transform((options) => Array.from(new Set(options)));
+
+// Validation schema for defining a field; select fields need choices
+const createFieldSchema = z.object({
+  label: z.string().trim().min(1, 'Label is required').max(60)
+    .refine((label) => fieldKeyFor(label) !== '', 'Label must contain a letter or digit'),
+  type: z.enum(metadataFieldTypes),
+  options: optionsSchema.optional().default([]),
+}).refine((field) => field.type !== 'select' || field.options.length > 0, {
+  message: 'Select fields need at least one option',
+  path: ['options'],
+});
+
+// Values are stored under the field's key and checked against its type, so neither changes
+const updateFieldSchema = z.object({
+  label: z.string().trim().min(1).max(60).optional(),
+  options: optionsSchema.optional(),
+});
+
+const tagsSchema = z.array(z.string().max(MAX_TAG_LENGTH)).max(MAX_TAGS).transform(normalizeTags);
+const fieldValuesSchema = z.record(z.union([z.string(), z.number(), z.null()]));
+
+// Validation schema for editing one upload's tags and fields
+const uploadMetadataSchema = z.object({
+  tags: tagsSchema.optional(),
+  fields: fieldValuesSchema.optional(),
+});
+
+// Validation schema for editing many uploads at once; tags are added and removed rather than replaced
+const bulkMetadataSchema = z.object({
+  ids: z.array(z.number().int()).min(1).max(500),
+  addTags: tagsSchema.optional(),
+  removeTags: tagsSchema.optional(),
+  fields: fieldValuesSchema.optional(),
+});
+
+/**
+ * Load a field the signed-in user defined, replying with an error if there is none
+ */
+async function loadOwnField(req: Request, res: Response): Promise<MetadataField | null> {
+  const validationResult = recordIdSchema.safeParse(req.params);
+  if (!validationResult.success) {
+    res.status(400).json({
+      error: 'Invalid field ID',
+      details: validationResult.error.format(),
+    });
+    return null;
+  }
+
+  const field = await storage.getMetadataField(validationResult.data.id);
+  if (!field || field.userId !== currentUserId(req)) {
+    res.status(404).json({ error: 'Field not found' });
+    return null;
+  }
+  return field;
+}
+
+/**
+ * Check field values against the definitions of the user who owns the uploads
+ */
+async function checkOwnerFieldValues(ownerId: string | null, values: Record<string, unknown>) {
+  const definitions = ownerId ? await storage.getMetadataFields(ownerId) : [];
+  return checkFieldValues(definitions, values);
+}
+
+/**
+ * Get the signed-in user's custom fields
+ */
+router.get('/api/metadata-fields', isAuthenticated, async (req: Request, res: Response) => {
+  try {
+    res.status(200).json(await storage.getMetadataFields(currentUserId(req)));
+  } catch (error) {
+    logger.error('Failed to get metadata fields:', error);
+    res.status(500).json({ error: 'Failed to get metadata fields' });
+  }
+});
+
+/**
+ * Define a custom field
+ */
+router.post('/api/metadata-fields', isAuthenticated, async (req: Request, res: Response) => {
+  try {
+    const validationResult = createFieldSchema.safeParse(req.body);
+    if (!validationResult.success) {
+      return res.status(400).json({
+        error: 'Invalid request data',
+        details: validationResult.error.format(),
+      });
+    }
+
+    const { label, type, options } = validationResult.data;
+    const userId = currentUserId(req);
+    const key = fieldKeyFor(label);
+
+    const existing = await storage.getMetadataFields(userId);
+    if (existing.some((field) => field.key === key)) {
+      return res.status(409).json({ error: 'A field with this name already exists' });
+    }
+
+    const field = await storage.createMetadataField({
+      userId,
+      key,
+      label,
+      type,
+      options: type === 'select' ? options : [],
+    });
+
+    res.status(201).json(field);
+  } catch (error) {
+    logger.error('Failed to create metadata field:', error);
+    res.status(500).json({ error: 'Failed to create metadata field' });
+  }
+});
+
+/**
+ * Rename a custom field or change a select field's choices
+ */
+router.patch('/api/metadata-fields/:id', isAuthenticated, async (req: Request, res: Response) => {
+  try {
+    const field = await loadOwnField(req, res);
+    if (!field) return;
+
+    const validationResult = updateFieldSchema.safeParse(req.body);
+    if (!validationResult.success) {
+      return res.status(400).json({
+        error: 'Invalid request data',
+        details: validationResult.error.format(),
+      });
+    }
+
+    const { label, options } = validationResult.data;
+    if (options && field.type !== 'select') {
+      return res.status(400).json({ error: 'Only select fields have options' });
+    }
+    if (options?.length === 0) {
+      return res.status(400).json({ error: 'Select fields need at least one option' });
+    }
+
+    const updated = await storage.updateMetadataField(field.id, {
+      ...(label && { label }),
+      ...(options && { options }),
+    });
+
+    res.status(200).json(updated);
+  } catch (error) {
+    logger.error(`Failed to update metadata field ${req.params.id}:`, error);
+    res.status(500).json({ error: 'Failed to update metadata field' });
+  }
+});
+
+/**
+ * Delete a custom field and its values on every upload
+ */
+router.delete('/api/metadata-fields/:id', isAuthenticated, async (req: Request, res: Response) => {
+  try {
+    const field = await loadOwnField(req, res);
+    if (!field) return;
+
+    await storage.deleteMetadataField(field.id);
+    res.status(204).send();
+  } catch (error) {
+    logger.error(`Failed to delete metadata field ${req.params.id}:`, error);
+    res.status(500).json({ error: 'Failed to delete metadata field' });
+  }
+});
+
+/**
+ * Get an upload's tags and field values, with the fields its owner defined
+ */
+router.get('/api/uploads/:id/metadata', isAuthenticated, async (req: Request, res: Response) => {
+  try {
+    const validationResult = recordIdSchema.safeParse(req.params);
+    if (!validationResult.success) {
+      return res.status(400).json({
+        error: 'Invalid upload ID',
+        details: validationResult.error.format(),
+      });
+    }
+
+    const upload = await storage.getUpload(validationResult.data.id);
+    const role = upload ? await sharing.uploadRole(accessUser(req), upload) : null;
+    if (!upload || !hasRole(role, 'viewer')) {
+      return res.status(404).json({ error: 'Upload not found' });
+    }
+
+    res.status(200).json({
+      tags: upload.tags ?? [],
+      fields: upload.metadata?.fields ?? {},
+      definitions: upload.userId ? await storage.getMetadataFields(upload.userId) : [],
+      editable: hasRole(role, 'editor'),
+    });
+  } catch (error) {
+    logger.error(`Failed to get metadata of upload ${req.params.id}:`, error);
+    res.status(500).json({ error: 'Failed to get upload metadata' });
+  }
+});
+
+/**
+ * Replace an upload's tags and set or clear its field values
+ */
+router.put('/api/uploads/:id/metadata', isAuthenticated, async (req: Request, res: Response) => {
+  try {
+    const idValidation = recordIdSchema.safeParse(req.params);
+    if (!idValidation.success) {
+      return res.status(400).json({
+        error: 'Invalid upload ID',
+        details: idValidation.error.format(),
+      });
+    }
+
+    const bodyValidation = uploadMetadataSchema.safeParse(req.body);
+    if (!bodyValidation.success) {
+      return res.status(400).json({
+        error: 'Invalid request data',
+        details: bodyValidation.error.format(),
+      });
+    }
+
+    const upload = await storage.getUpload(idValidation.data.id);
+    const role = upload ? await sharing.uploadRole(accessUser(req), upload) : null;
+    if (!upload || !role) {
+      return res.status(404).json({ error: 'Upload not found' });
+    }
+    if (!hasRole(role, 'editor')) {
+      return res.status(403).json({ error: 'You cannot edit this upload' });
+    }
+
+    const { tags, fields } = bodyValidation.data;
+    const checked = await checkOwnerFieldValues(upload.userId, fields ?? {});
+    if ('errors' in checked) {
+      return res.status(400).json({ error: 'Invalid field values', details: checked.errors });
+    }
+
+    await storage.updateUploadsMetadata([upload.id], { tags, fields: checked.values });
+    res.status(200).json(await storage.getUpload(upload.id));
+  } catch (error) {
+    logger.error(`Failed to update metadata of upload ${req.params.id}:`, error);
+    res.status(500).json({ error: 'Failed to update upload metadata' });
+  }
+});
+
+/**
+ * Add and remove tags and set field values across many uploads
+ */
+router.patch('/api/uploads/metadata', isAuthenticated, async (req: Request, res: Response) => {
+  try {
+    const validationResult = bulkMetadataSchema.safeParse(req.body);
+    if (!validationResult.success) {
+      return res.status(400).json({
+        error: 'Invalid request data',
+        details: validationResult.error.format(),
+      });
+    }
+
+    const { ids, addTags, removeTags, fields } = validationResult.data;
+    const user = accessUser(req);
+
+    // Every upload must be editable, or none is changed
+    const uploads: Upload[] = [];
+    for (const id of Array.from(new Set(ids))) {
+      const upload = await storage.getUpload(id);
+      if (!upload || !hasRole(await sharing.uploadRole(user, upload), 'editor')) {
+        return res.status(403).json({ error: 'You cannot edit every selected upload', uploadId: id });
+      }
+      uploads.push(upload);
+    }
+
+    // Field values are checked against each owner's own definitions
+    const byOwner = new Map<string | null, number[]>();
+    for (const upload of uploads) {
+      byOwner.set(upload.userId, [...(byOwner.get(upload.userId) ?? []), upload.id]);
+    }
+
+    const edits: { ids: number[]; fields: Record<string, string | number | null> }[] = [];
+    for (const [ownerId, ownerUploadIds] of Array.from(byOwner.entries())) {
+      const checked = await checkOwnerFieldValues(ownerId, fields ?? {});
+      if ('errors' in checked) {
+        return res.status(400).json({ error: 'Invalid field values', details: checked.errors });
+      }
+      edits.push({ ids: ownerUploadIds, fields: checked.values });
+    }
+
+    let updated = 0;
+    for (const edit of edits) {
+      updated += await storage.updateUploadsMetadata(edit.ids, { addTags, removeTags, fields: edit.fields });
+    }
+    logger.info(`User ${currentUserId(req)} edited metadata of ${updated} uploads`);
+
+    res.status(200).json({ updated });
+  } catch (error) {
+    logger.error('Failed to bulk edit upload metadata:', error);
+    res.status(500).json({ error: 'Failed to update upload metadata' });
+  }
+});
+
+export function registerMetadataRoutes(app: any): void {
+  app.use(router);
+  logger.info('Metadata routes registered');
+}
@@ -0,0 +1,192 @@
+import { Router, Request, Response } from 'express';
+import { storage } from '../storage';
+import { isAdmin, isAuthenticated } from '../config/auth';
+import { logger } from '../utils/logger';
+import { bitratePattern } from '../utils/encodingProfiles';
+import { z } from 'zod';
+import { videoCodecs, rateControlModes } from '@shared/schema';
+
+const router = Router();
+
+// Validation schema for profile ID parameter
+const profileIdSchema = z.object({
+  id: z.string().transform((val) => parseInt(val, 10)).refine((val) => !isNaN(val), {
+    message: 'Profile ID must be a valid number',
+  }),
+});
+
+// Profile settings; the name ends up in file names and URLs, so keep it to safe characters
+const profileFieldsSchema = z.object({
+  name: z.string().regex(/^[A-Za-z0-9_-]{1,32}$/, 'Name may only contain letters, digits, "-" and "_"'),
+  label: z.string().min(1, 'Label is required'),
+  width: z.number().int().positive().max(7680).refine((val) => val % 2 === 0, 'Width must be even'),
+  height: z.number().int().positive().max(4320).refine((val) => val % 2 === 0, 'Height must be even'),
+  videoCodec: z.enum(videoCodecs).default('libx264'),
+  rateControl: z.enum(rateControlModes).default('cbr'),
+  videoBitrate: z.string().regex(bitratePattern, 'Bitrate must look like 2500k or 5M'),
+  crf: z.number().int().min(0).max(51).nullable().optional(),
+  audioBitrate: z.string().regex(bitratePattern, 'Bitrate must look like 128k'),
+  audioChannels: z.number().int().min(1).max(8).default(2),
+  segmentDuration: z.number().int().min(1).max(60).default(10),
+});
+
+const crfRequired = (profile: { rateControl?: string; crf?: number | null }) =>
+  profile.rateControl !== 'crf' || (profile.crf !== undefined && profile.crf !== null);
+const crfRequiredMessage = { message: 'CRF rate control requires a crf value', path: ['crf'] };
+
+const createProfileSchema = profileFieldsSchema.refine(crfRequired, crfRequiredMessage);
+
+// Conversions and chunks refer to profiles by name, so the name cannot change
+const updateProfileSchema = profileFieldsSchema.omit({ name: true }).partial();
+
+/**
+ * Get all encoding profiles
+ */
+router.get('/api/profiles', isAuthenticated, async (req: Request, res: Response) => {
+  try {
+    const profiles = await storage.getEncodingProfiles();
+    res.status(200).json(profiles);
+  } catch (error) {
+    logger.error('Failed to get encoding profiles:', error);
+    res.status(500).json({ error: 'Failed to get encoding profiles' });
+  }
+});
+
+/**
+ * Get an encoding profile
+ */
+router.get('/api/profiles/:id', isAuthenticated, async (req: Request, res: Response) => {
+  try {
+    const validationResult = profileIdSchema.safeParse(req.params);
+    if (!validationResult.success) {
+      return res.status(400).json({
+        error: 'Invalid profile ID',
+        details: validationResult.error.format(),
+      });
+    }
+
+    const profile = await storage.getEncodingProfile(validationResult.data.id);
+    if (!profile) {
+      return res.status(404).json({ error: 'Encoding profile not found' });
+    }
+
+    res.status(200).json(profile);
+  } catch (error) {
+    logger.error('Failed to get encoding profile:', error);
+    res.status(500).json({ error: 'Failed to get encoding profile' });
+  }
+});
+
+/**
+ * Create an encoding profile. Profiles are shared by every user's conversions, so only
+ * admins may change them.
+ */
+router.post('/api/profiles', isAdmin, async (req: Request, res: Response) => {
+  try {
+    const validationResult = createProfileSchema.safeParse(req.body);
+    if (!validationResult.success) {
+      return res.status(400).json({
+        error: 'Invalid request data',
+        details: validationResult.error.format(),
+      });
+    }
+
+    const data = validationResult.data;
+
+    const existingProfile = await storage.getEncodingProfileByName(data.name);
+    if (existingProfile) {
+      return res.status(409).json({ error: 'Encoding profile with this name already exists' });
+    }
+
+    const profile = await storage.createEncodingProfile({
+      ...data,
+      crf: data.rateControl === 'crf' ? data.crf ?? null : null,
+    });
+
+    res.status(201).json(profile);
+  } catch (error) {
+    logger.error('Failed to create encoding profile:', error);
+    res.status(500).json({ error: 'Failed to create encoding profile' });
+  }
+});
+
+/**
+ * Update an encoding profile
+ */
+router.patch('/api/profiles/:id', isAdmin, async (req: Request, res: Response) => {
+  try {
+    const idResult = profileIdSchema.safeParse(req.params);
+    if (!idResult.success) {
+      return res.status(400).json({
+        error: 'Invalid profile ID',
+        details: idResult.error.format(),
+      });
+    }
+
+    const validationResult = updateProfileSchema.safeParse(req.body);
+    if (!validationResult.success) {
+      return res.status(400).json({
+        error: 'Invalid request data',
+        details: validationResult.error.format(),
+      });
+    }
+
+    const { id } = idResult.data;
+    const profile = await storage.getEncodingProfile(id);
+    if (!profile) {
+      return res.status(404).json({ error: 'Encoding profile not found' });
+    }
+
+    // Check the rate control rule against the profile as it will be after the update
+    const update = validationResult.data;
+    if (!crfRequired({ ...profile, ...update })) {
+      return res.status(400).json({ error: crfRequiredMessage.message });
+    }
+
+    const updatedProfile = await storage.updateEncodingProfile(id, update);
+    res.status(200).json(updatedProfile);
+  } catch (error) {
+    logger.error('Failed to update encoding profile:', error);
+    res.status(500).json({ error: 'Failed to update encoding profile' });
+  }
+});
+
+/**
+ * Delete an encoding profile
+ */
+router.delete('/api/profiles/:id', isAdmin, async (req: Request, res: Response) => {
+  try {
+    const validationResult = profileIdSchema.safeParse(req.params);
+    if (!validationResult.success) {
+      return res.status(400).json({
+        error: 'Invalid profile ID',
+        details: validationResult.error.format(),
+      });
+    }
+
+    const { id } = validationResult.data;
+    const profile = await storage.getEncodingProfile(id);
+    if (!profile) {
+      return res.status(404).json({ error: 'Encoding profile not found' });
+    }
+
+    // Existing renditions still need their profile to build master playlists
+    const conversionCount = await storage.countConversionsByResolution(profile.name);
+    if (conversionCount > 0) {
+      return res.status(409).json({
+        error: 'Encoding profile is used by existing conversions',
+        conversionCount,
+      });
+    }
+
+    await storage.deleteEncodingProfile(id);
+    res.status(200).json({ success: true });
+  } catch (error) {
+    logger.error('Failed to delete encoding profile:', error);
+    res.status(500).json({ error: 'Failed to delete encoding profile' });
+  }
+});
+
+export function registerProfileRoutes(app: any): void {
+  app.use(router);
+}
@@ -0,0 +1,143 @@
+import { Router, Request, Response } from 'express';
+import { z } from 'zod';
+import { driveFileReferenceKinds, StorageReconciliationReport } from '@shared/schema';
+import { storage } from '../storage';
+import { jobQueue } from '../services/jobQueue';
+import { googleDriveService } from '../services/googleDrive';
+import { isAdmin } from '../config/auth';
+import { logger } from '../utils/logger';
+
+const router = Router();
+
+const deleteOrphansSchema = z.object({
+  files: z.array(z.object({
+    id: z.string().min(1),
+    accountId: z.string().nullable(),
+  })).min(1, 'At least one file is required'),
+});
+
+const relinkSchema = z.object({
+  fileId: z.string().min(1),
+  kind: z.enum(driveFileReferenceKinds),
+  recordId: z.number().int(),
+});
+
+/**
+ * Latest reconciliation report, and whether a run is in progress. The report covers every
+ * user's records and accounts, so these routes are for admins only.
+ */
+router.get('/api/storage/reconciliation', isAdmin, async (req: Request, res: Response) => {
+  try {
+    const jobs = await jobQueue.getStorageReconciliationJobs();
+    const states = await Promise.all(jobs.map(job => job.getState()));
+    const latest = jobs.find((_, i) => states[i] === 'completed');
+    const failed = jobs.find((_, i) => states[i] === 'failed');
+
+    res.json({
+      running: states.some(state => state === 'active' || state === 'waiting'),
+      report: (latest?.returnvalue as StorageReconciliationReport | undefined) ?? null,
+      // Only worth showing when it is newer than the report
+      lastError: failed && (!latest || failed.timestamp > latest.timestamp) ? failed.failedReason : null,
+    });
+  } catch (error) {
+    logger.error('Failed to get storage reconciliation:', error);
+    res.status(500).json({ error: 'Failed to get storage reconciliation' });
+  }
+});
+
+/**
+ * Run a reconciliation now rather than waiting for the schedule
+ */
+router.post('/api/storage/reconciliation', isAdmin, async (req: Request, res: Response) => {
+  try {
+    const jobs = await jobQueue.getStorageReconciliationJobs();
+    const states = await Promise.all(jobs.map(job => job.getState()));
+    if (states.some(state => state === 'active' || state === 'waiting')) {
+      return res.status(409).json({ error: 'A reconciliation is already running' });
+    }
+
+    const jobId = await jobQueue.addStorageReconciliationJob();
+    res.status(202).json({ jobId });
+  } catch (error) {
+    logger.error('Failed to queue storage reconciliation:', error);
+    res.status(500).json({ error: 'Failed to queue storage reconciliation' });
+  }
+});
+
+/**
+ * Delete orphaned Drive files. Files picked up by a record since the report are kept.
+ */
+router.post('/api/storage/reconciliation/orphans/delete', isAdmin, async (req: Request, res: Response) => {
+  try {
+    const validationResult = deleteOrphansSchema.safeParse(req.body);
+    if (!validationResult.success) {
+      return res.status(400).json({
+        error: 'Invalid request data',
+        details: validationResult.error.format(),
+      });
+    }
+
+    const deleted: string[] = [];
+    const skipped: { id: string; reason: string }[] = [];
+
+    for (const file of validationResult.data.files) {
+      try {
+        if (await storage.isDriveFileReferenced(file.id)) {
+          skipped.push({ id: file.id, reason: 'File is referenced' });
+          continue;
+        }
+
+        const { size } = await googleDriveService.stat(file);
+        await googleDriveService.delete(file);
+        if (file.accountId) {
+          await storage.incrementAccountUsage(file.accountId, -size);
+        }
+        deleted.push(file.id);
+      } catch (error) {
+        logger.error(`Failed to delete orphaned file: ${file.id}`, error);
+        skipped.push({ id: file.id, reason: (error as Error).message });
+      }
+    }
+
+    res.json({ deleted, skipped });
+  } catch (error) {
+    logger.error('Failed to delete orphaned files:', error);
+    res.status(500).json({ error: 'Failed to delete orphaned files' });
+  }
+});
+
+/**
+ * Point a dangling upload, thumbnail or segment record at an existing Drive file
+ */
+router.post('/api/storage/reconciliation/relink', isAdmin, async (req: Request, res: Response) => {
+  try {
+    const validationResult = relinkSchema.safeParse(req.body);
+    if (!validationResult.success) {
+      return res.status(400).json({
+        error: 'Invalid request data',
+        details: validationResult.error.format(),
+      });
+    }
+
+    const { fileId, kind, recordId } = validationResult.data;
+
+    const serviceAccountId = await googleDriveService.locate(fileId);
+    if (!serviceAccountId) {
+      return res.status(404).json({ error: 'File not found in Google Drive' });
+    }
+
+    if (!(await storage.relinkDriveFile(kind, recordId, fileId, serviceAccountId))) {
+      return res.status(404).json({ error: `${kind === 'chunk' ? 'Chunk' : 'Upload'} not found` });
+    }
+
+    res.json({ success: true, kind, recordId, fileId, serviceAccountId });
+  } catch (error) {
+    logger.error('Failed to relink Drive file:', error);
+    res.status(500).json({ error: 'Failed to relink Drive file' });
+  }
+});
+
+export function registerReconciliationRoutes(app: any): void {
+  app.use(router);
+  logger.info('Reconciliation routes registered');
+}
@@ -0,0 +1,105 @@
+import { Router, Request, Response } from 'express';
+import { z } from 'zod';
+import { searchSorts } from '@shared/schema';
+import { storage } from '../storage';
+import { accessUser, isAuthenticated, ownerFilter } from '../config/auth';
+import { sharing } from '../services/sharing';
+import { decodeSearchCursor } from '../utils/searchCursor';
+import { logger } from '../utils/logger';
+
+const router = Router();
+
+// Comma-separated list, e.g. category=video,image
+const listParam = z.string().optional().transform((val) =>
+  val ? val.split(',').map((item) => item.trim()).filter(Boolean) : undefined
+);
+
+const numberParam = z.string().optional().transform((val) => (val ? Number(val) : undefined)).refine(
+  (val) => val === undefined || (Number.isFinite(val) && val >= 0),
+  { message: 'Must be a non-negative number' }
+);
+
+const dateParam = z.string().optional().transform((val) => (val ? new Date(val) : undefined)).refine(
+  (val) => val === undefined || !isNaN(val.getTime()),
+  { message: 'Must be a valid date' }
+);
+
+// Validation schema for search query parameters
+const searchQuerySchema = z.object({
+  q: z.string().trim().max(200).optional(),
+  folderId: z.string().regex(/^\d+$/).optional(),
+  tags: listParam.transform((tags) => tags?.map((tag) => tag.toLowerCase())),
+  category: listParam,
+  mimeType: listParam,
+  status: listParam,
+  minSize: numberParam,
+  maxSize: numberParam,
+  from: dateParam,
+  to: dateParam,
+  codec: z.string().optional(),
+  minDuration: numberParam,
+  maxDuration: numberParam,
+  // Smallest video resolution, e.g. 720p and up; any height, as encoding profiles are custom
+  resolution: z.string().regex(/^\d+p$/, 'Must be a height such as 720p').optional(),
+  minPages: numberParam,
+  maxPages: numberParam,
+  sort: z.enum(searchSorts).optional().default('relevance'),
+  limit: z.string().optional().default('20').transform((val) => parseInt(val, 10)).refine((val) => val > 0 && val <= 100, {
+    message: 'Limit must be between 1 and 100',
+  }),
+  cursor: z.string().optional().transform((val, ctx) => {
+    if (!val) return undefined;
+    const cursor = decodeSearchCursor(val);
+    if (!cursor) {
+      ctx.addIssue({ code: z.ZodIssueCode.custom, message: 'Invalid cursor' });
+      return z.NEVER;
+    }
+    return cursor;
+  }),
+});
+
+/**
+ * Search the media library by words and filters, with facet counts for narrowing it down
+ */
+router.get('/api/search', isAuthenticated, async (req: Request, res: Response) => {
+  try {
+    const validationResult = searchQuerySchema.safeParse(req.query);
+    if (!validationResult.success) {
+      return res.status(400).json({
+        error: 'Invalid query parameters',
+        details: validationResult.error.format(),
+      });
+    }
+
+    const { q, resolution, ...filters } = validationResult.data;
+    let userId = ownerFilter(req);
+
+    // Inside another user's folder shared with the caller, search everything the folder holds
+    if (filters.folderId) {
+      const folder = await storage.getFolder(parseInt(filters.folderId, 10));
+      if (!folder || !(await sharing.folderRole(accessUser(req), folder))) {
+        return res.status(404).json({ error: 'Folder not found' });
+      }
+      if (folder.userId && folder.userId !== userId) {
+        userId = undefined;
+      }
+    }
+
+    const result = await storage.searchUploads({
+      ...filters,
+      userId,
+      query: q || undefined,
+      minHeight: resolution ? parseInt(resolution, 10) : undefined,
+    });
+
+    res.status(200).json(result);
+  } catch (error) {
+    logger.error('Search failed:', error);
+    res.status(500).json({ error: 'Search failed' });
+  }
+});
+
+export function registerSearchRoutes(app: any): void {
+  app.use(router);
+  logger.info('Search routes registered');
+}
@@ -1,92 +1,129 @@
 import { Router, Request, Response } from 'express';
 import { ServiceAccount } from '../models/mongoose';
-import { isAuthenticated } from '../config/auth';
+import { storage } from '../storage';
+import { isAdmin, isAuthenticated } from '../config/auth';
 import { logger } from '../utils/logger';
 import mongoose from 'mongoose';
-import fs from 'fs'
+import multer from 'multer';
+import { z } from 'zod';
 import { googleDriveService } from 'server/services/googleDrive';
+import { jobQueue } from 'server/services/jobQueue';
+import { serviceAccountKeySchema, sealServiceAccountKey } from 'server/services/serviceAccountCredentials';
+import { isEncryptionConfigured } from '../utils/credentialEncryption';
 const router = Router();
 
+// Keys are a few KB; keep them in memory so the private key never touches the disk
+const credentialsUpload = multer({
+  storage: multer.memoryStorage(),
+  limits: { fileSize: 64 * 1024 }
+});
+
+const addServiceAccountSchema = z.object({
+  name: z.string().min(1),
+  storageLimit: z.coerce.number().int().positive().optional(),
+  isActive: z.enum(['true', 'false']).optional().transform(value => value !== 'false'),
+});
+
 /**
  * @route   POST /api/service-accounts
- * @desc    Add a new service account
+ * @desc    Add a new service account from an uploaded JSON key (multipart field "credentials")
  * @access  Private
  */
-router.post('/api/service-accounts', isAuthenticated, async (req: Request, res: Response) => {
-  try {
-    const { name, email, credentialsPath, storageLimit, isActive } = req.body;
-
-    // Validate required fields
-    if (!name || !email || !credentialsPath) {
-      return res.status(400).json({ error: 'Missing required fields' });
-    }
-    // Read credentials from credentialsPath (JSON file)
-
-    let credentials;
+router.post('/api/service-accounts', isAuthenticated, (req: Request, res: Response) => {
+  credentialsUpload.single('credentials')(req, res, async (err: any) => {
     try {
-      const credentialsData = fs.readFileSync(credentialsPath, 'utf-8');
-      credentials = JSON.parse(credentialsData);
-    } catch (err) {
-      return res.status(400).json({ error: 'Failed to read or parse credentials file' });
-    }
-
-    // Check if credentials is a valid JSON object with required fields
-    const requiredFields = [
-      'type', 'project_id', 'private_key_id', 'private_key',
-      'client_email', 'client_id', 'auth_uri', 'token_uri',
-      'auth_provider_x509_cert_url', 'client_x509_cert_url'
-    ];
-
-    for (const field of requiredFields) {
-      if (!credentials[field]) {
-        return res.status(400).json({ error: `Missing required credential field: ${field}` });
+      if (err) {
+        return res.status(400).json({ error: `Failed to read credentials file: ${err.message}` });
       }
-    }
-
-
-    // Check if service account with this email already exists for this user
-    const existingAccount = await ServiceAccount.findOne({
-      email: credentials.client_email,
-      userId: (req.user as any)._id
-    });
-
 
+      const validationResult = addServiceAccountSchema.safeParse(req.body);
+      if (!validationResult.success) {
+        return res.status(400).json({
+          error: 'Invalid request data',
+          details: validationResult.error.format(),
+        });
+      }
 
-    if (existingAccount) {
-      return res.status(400).json({ error: 'Service account with this email already exists' });
-    }
+      if (!req.file) {
+        return res.status(400).json({ error: 'Missing credentials file' });
+      }
 
+      if (!isEncryptionConfigured()) {
+        logger.error('Cannot add service account: CREDENTIALS_MASTER_KEY is not configured');
+        return res.status(500).json({ error: 'Credential encryption is not configured on the server' });
+      }
 
+      let key;
+      try {
+        key = JSON.parse(req.file.buffer.toString('utf-8'));
+      } catch {
+        return res.status(400).json({ error: 'Credentials file is not valid JSON' });
+      }
 
-    // Create service account
-    const serviceAccount = await ServiceAccount.create({
-      name,
-      email: credentials.client_email,
-      credentials,
-      storageLimit: storageLimit || 15 * 1024 * 1024 * 1024, // Default to 15GB
-      storageUsed: 0,
-      isActive: isActive !== undefined ? isActive : true,
-      userId: (req.user as any)._id
-    });
+      const keyValidation = serviceAccountKeySchema.safeParse(key);
+      if (!keyValidation.success) {
+        return res.status(400).json({
+          error: 'Invalid service account key',
+          details: keyValidation.error.format(),
+        });
+      }
+      const credentials = keyValidation.data;
 
+      // Check if service account with this email already exists for this user
+      const existingAccount = await ServiceAccount.findOne({
+        email: credentials.client_email,
+        userId: (req.user as any)._id
+      });
 
+      if (existingAccount) {
+        return res.status(400).json({ error: 'Service account with this email already exists' });
+      }
 
-    // Remove sensitive information before sending response
-    const response = {
-      id: serviceAccount._id,
-      name: serviceAccount.name,
-      email: serviceAccount.email,
-      storageLimit: serviceAccount.storageLimit,
-      storageUsed: serviceAccount.storageUsed,
-      isActive: serviceAccount.isActive,
-      createdAt: serviceAccount.createdAt
-    };
+      // Make sure Drive accepts the key before saving it
+      let quota;
+      try {
+        quota = await googleDriveService.testCredentials(credentials.client_email, credentials.private_key);
+      } catch (error) {
+        logger.warn(`Drive rejected credentials for ${credentials.client_email}: ${(error as Error).message}`);
+        return res.status(400).json({ error: `Google Drive rejected the credentials: ${(error as Error).message}` });
+      }
 
-    res.status(201).json(response);
-  } catch (error) {
-    logger.error('Failed to add service account:', error);
-    res.status(500).json({ error: 'Failed to add service account' });
-  }
+      const { name, storageLimit, isActive } = validationResult.data;
+      const sealed = sealServiceAccountKey(credentials);
+
+      // Create service account
+      const serviceAccount = await ServiceAccount.create({
+        name,
+        email: credentials.client_email,
+        credentials: sealed.credentials,
+        encryptedPrivateKey: sealed.encryptedPrivateKey,
+        storageLimit: storageLimit || quota.limit || 15 * 1024 * 1024 * 1024, // Default to Drive's quota, then 15GB
+        storageUsed: quota.used,
+        isActive,
+        userId: (req.user as any)._id
+      });
+
+      // Start using it straight away
+      await googleDriveService.refreshServiceAccount(serviceAccount.id);
+
+      // Remove sensitive information before sending response
+      const response = {
+        id: serviceAccount._id,
+        name: serviceAccount.name,
+        email: serviceAccount.email,
+        storageLimit: serviceAccount.storageLimit,
+        storageUsed: serviceAccount.storageUsed,
+        isActive: serviceAccount.isActive,
+        health: googleDriveService.getHealth(serviceAccount.id),
+        createdAt: serviceAccount.createdAt
+      };
+
+      res.status(201).json(response);
+    } catch (error) {
+      logger.error('Failed to add service account:', error);
+      res.status(500).json({ error: 'Failed to add service account' });
+    }
+  });
 });
 
 /**
@@ -106,6 +143,7 @@ router.get('/api/service-accounts', isAuthenticated, async (req: Request, res: R
       storageLimit: account.storageLimit,
       storageUsed: account.storageUsed,
       isActive: account.isActive,
+      health: googleDriveService.getHealth(account.id),
       createdAt: account.createdAt
     }));
 
@@ -148,6 +186,7 @@ router.patch('/api/service-accounts/:id', isAuthenticated, async (req: Request,
     if (isActive !== undefined) serviceAccount.isActive = isActive;
 
     await serviceAccount.save();
+    await googleDriveService.refreshServiceAccount(serviceAccount.id);
 
     // Remove sensitive information before sending response
     const response = {
@@ -157,6 +196,7 @@ router.patch('/api/service-accounts/:id', isAuthenticated, async (req: Request,
       storageLimit: serviceAccount.storageLimit,
       storageUsed: serviceAccount.storageUsed,
       isActive: serviceAccount.isActive,
+      health: googleDriveService.getHealth(serviceAccount.id),
       createdAt: serviceAccount.createdAt,
       updatedAt: serviceAccount.updatedAt
     };
@@ -170,7 +210,7 @@ router.patch('/api/service-accounts/:id', isAuthenticated, async (req: Request,
 
 /**
  * @route   DELETE /api/service-accounts/:id
- * @desc    Delete a service account
+ * @desc    Delete a service account that no longer holds any files
  * @access  Private
  */
 router.delete('/api/service-accounts/:id', isAuthenticated, async (req: Request, res: Response) => {
@@ -191,10 +231,17 @@ router.delete('/api/service-accounts/:id', isAuthenticated, async (req: Request,
       return res.status(404).json({ error: 'Service account not found' });
     }
 
-    // Check if account is being used by any uploads
-    // TODO: Add check for active uploads using this service account
+    // Files recorded on the account would become unreadable; they have to be moved off first
+    const ownedFiles = await storage.getFileIdsOwnedByAccount(id);
+    if (ownedFiles.length > 0) {
+      return res.status(409).json({
+        error: `Service account still holds ${ownedFiles.length} files; migrate them with POST /api/service-accounts/${id}/migrate first`,
+        files: ownedFiles.length,
+      });
+    }
 
     await serviceAccount.deleteOne();
+    googleDriveService.evictServiceAccount(id);
 
     res.json({ message: 'Service account deleted successfully' });
   } catch (error) {
@@ -222,7 +269,9 @@ router.get('/api/service-accounts/usage', isAuthenticated, async (req: Request,
         email: account.email,
         storageLimit: account.storageLimit,
         storageUsed: account.storageUsed,
-        isActive: account.isActive
+        isActive: account.isActive,
+        health: googleDriveService.getHealth(account.id),
+        createdAt: account.createdAt
       }))
     };
 
@@ -238,6 +287,157 @@ router.get('/api/service-accounts/usage', isAuthenticated, async (req: Request,
     res.status(500).json({ error: 'Failed to get storage usage' });
   }
 });
+/**
+ * @route   POST /api/service-accounts/backfill-owners
+ * @desc    Queue a job recording the owning service account on older Drive files, and the
+ *          owning user on older uploads, for every user
+ * @access  Admin
+ */
+router.post('/api/service-accounts/backfill-owners', isAdmin, async (req: Request, res: Response) => {
+  try {
+    const jobId = await jobQueue.addServiceAccountBackfillJob();
+    res.status(202).json({ jobId });
+  } catch (error) {
+    logger.error('Failed to queue service account backfill:', error);
+    res.status(500).json({ error: 'Failed to queue service account backfill' });
+  }
+});
+
+/**
+ * @route   POST /api/service-accounts/:id/health
+ * @desc    Probe a service account's credentials now and return its health
+ * @access  Private
+ */
+router.post('/api/service-accounts/:id/health', isAuthenticated, async (req: Request, res: Response) => {
+  try {
+    const { id } = req.params;
+
+    // Validate ObjectId
+    if (!mongoose.Types.ObjectId.isValid(id)) {
+      return res.status(400).json({ error: 'Invalid service account ID' });
+    }
+
+    const serviceAccount = await ServiceAccount.findOne({
+      _id: id,
+      userId: (req.user as any)._id
+    });
+
+    if (!serviceAccount) {
+      return res.status(404).json({ error: 'Service account not found' });
+    }
+
+    // Accounts that failed to load get another go first
+    if (googleDriveService.getHealth(id).status === 'unloaded') {
+      await googleDriveService.refreshServiceAccount(id);
+    }
+
+    res.json(await googleDriveService.checkHealth(id));
+  } catch (error) {
+    logger.error('Failed to check service account health:', error);
+    res.status(500).json({ error: 'Failed to check service account health' });
+  }
+});
+
+const migrateAccountSchema = z.object({
+  deactivate: z.boolean().optional().default(true),
+});
+
+/**
+ * @route   POST /api/service-accounts/:id/migrate
+ * @desc    Queue a job moving every file off a service account onto the others
+ * @access  Private
+ */
+router.post('/api/service-accounts/:id/migrate', isAuthenticated, async (req: Request, res: Response) => {
+  try {
+    const { id } = req.params;
+
+    // Validate ObjectId
+    if (!mongoose.Types.ObjectId.isValid(id)) {
+      return res.status(400).json({ error: 'Invalid service account ID' });
+    }
+
+    const validationResult = migrateAccountSchema.safeParse(req.body ?? {});
+    if (!validationResult.success) {
+      return res.status(400).json({
+        error: 'Invalid request data',
+        details: validationResult.error.format(),
+      });
+    }
+
+    const serviceAccount = await ServiceAccount.findOne({
+      _id: id,
+      userId: (req.user as any)._id
+    });
+
+    if (!serviceAccount) {
+      return res.status(404).json({ error: 'Service account not found' });
+    }
+
+    const previous = await jobQueue.getAccountMigrationJob(id);
+    if (previous) {
+      const state = await previous.getState();
+      if (state !== 'completed' && state !== 'failed') {
+        return res.status(409).json({ error: 'A migration is already running for this service account' });
+      }
+    }
+
+    // Keep new uploads off the account while it is being emptied
+    if (validationResult.data.deactivate && serviceAccount.isActive) {
+      serviceAccount.isActive = false;
+      await serviceAccount.save();
+    }
+
+    const jobId = await jobQueue.addAccountMigrationJob(id);
+    res.status(202).json({ jobId });
+  } catch (error) {
+    logger.error('Failed to queue service account migration:', error);
+    res.status(500).json({ error: 'Failed to queue service account migration' });
+  }
+});
+
+/**
+ * @route   GET /api/service-accounts/:id/migrate
+ * @desc    Get the state and progress of the latest migration of a service account
+ * @access  Private
+ */
+router.get('/api/service-accounts/:id/migrate', isAuthenticated, async (req: Request, res: Response) => {
+  try {
+    const { id } = req.params;
+
+    // Validate ObjectId
+    if (!mongoose.Types.ObjectId.isValid(id)) {
+      return res.status(400).json({ error: 'Invalid service account ID' });
+    }
+
+    const serviceAccount = await ServiceAccount.findOne({
+      _id: id,
+      userId: (req.user as any)._id
+    });
+
+    if (!serviceAccount) {
+      return res.status(404).json({ error: 'Service account not found' });
+    }
+
+    const job = await jobQueue.getAccountMigrationJob(id);
+    if (!job) {
+      return res.status(404).json({ error: 'No migration found for this service account' });
+    }
+
+    res.json({
+      jobId: job.id,
+      state: await job.getState(),
+      progress: job.progress,
+      result: job.returnvalue ?? null,
+      error: job.failedReason ?? null,
+      startedAt: job.processedOn ? new Date(job.processedOn) : null,
+      finishedAt: job.finishedOn ? new Date(job.finishedOn) : null
+    });
+  } catch (error) {
+    logger.error('Failed to get service account migration:', error);
+    res.status(500).json({ error: 'Failed to get service account migration' });
+  }
+});
+
 /**
  * @route   GET /api/service-accounts/:id
  * @desc    Get a specific service account
@@ -269,6 +469,7 @@ router.get('/api/service-accounts/:id', isAuthenticated, async (req: Request, re
       storageLimit: serviceAccount.storageLimit,
       storageUsed: serviceAccount.storageUsed,
       isActive: serviceAccount.isActive,
+      health: googleDriveService.getHealth(serviceAccount.id),
       createdAt: serviceAccount.createdAt
     };
 
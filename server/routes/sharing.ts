@@ -0,0 +1,225 @@
+import { Router, Request, Response } from 'express';
+import { z } from 'zod';
+import { Share, shareRoles } from '@shared/schema';
+import { storage } from '../storage';
+import { User } from '../models/mongoose/user';
+import { accessUser, currentUserId, isAuthenticated } from '../config/auth';
+import { AccessRole, sharing } from '../services/sharing';
+import { logger } from '../utils/logger';
+
+const router = Router();
+
+// Validation schema for folder or upload ID parameters
+const recordIdSchema = z.object({
+  id: z.string().transform((val) => parseInt(val, 10)).refine((val) => !isNaN(val), {
+    message: 'ID must be a valid number',
+  }),
+});
+
+// Validation schema for sharing with a user, named by username or email
+const shareSchema = z.object({
+  user: z.string().min(1, 'User is required'),
+  role: z.enum(shareRoles),
+});
+
+interface Shareable {
+  userId?: string | null;
+  shares?: Share[] | null;
+}
+
+// Folders and uploads are shared the same way; only loading, role lookup and saving differ
+const shareTargets: Record<'folders' | 'uploads', {
+  label: string;
+  load: (id: number) => Promise<Shareable | undefined>;
+  role: (req: Request, record: any) => Promise<AccessRole | null>;
+  save: (id: number, shares: Share[]) => Promise<unknown>;
+}> = {
+  folders: {
+    label: 'Folder',
+    load: (id) => storage.getFolder(id),
+    role: (req, folder) => sharing.folderRole(accessUser(req), folder),
+    save: (id, shares) => storage.updateFolder(id, { shares }),
+  },
+  uploads: {
+    label: 'Upload',
+    load: (id) => storage.getUpload(id),
+    role: (req, upload) => sharing.uploadRole(accessUser(req), upload),
+    save: (id, shares) => storage.updateUploadShares(id, shares),
+  },
+};
+
+/**
+ * Shares with the users' names filled in, for display
+ */
+async function describeShares(shares: Share[]) {
+  const users = await User.find({ _id: { $in: shares.map((share) => share.userId) } });
+  return shares.map((share) => {
+    const user = users.find((u: any) => u._id.toString() === share.userId);
+    return {
+      ...share,
+      username: user?.username ?? null,
+      displayName: user?.displayName ?? null,
+      email: user?.email ?? null,
+    };
+  });
+}
+
+for (const [kind, target] of Object.entries(shareTargets)) {
+  /**
+   * List who a folder or upload is shared with; owners only
+   */
+  router.get(`/api/${kind}/:id/shares`, isAuthenticated, async (req: Request, res: Response) => {
+    try {
+      const validationResult = recordIdSchema.safeParse(req.params);
+      if (!validationResult.success) {
+        return res.status(400).json({
+          error: `Invalid ${target.label.toLowerCase()} ID`,
+          details: validationResult.error.format(),
+        });
+      }
+
+      const record = await target.load(validationResult.data.id);
+      const role = record && await target.role(req, record);
+      if (!record || !role) {
+        return res.status(404).json({ error: `${target.label} not found` });
+      }
+      if (role !== 'owner') {
+        return res.status(403).json({ error: `Only the owner can see who this ${target.label.toLowerCase()} is shared with` });
+      }
+
+      res.status(200).json(await describeShares(record.shares ?? []));
+    } catch (error) {
+      logger.error(`Failed to get shares for ${kind} ${req.params.id}:`, error);
+      res.status(500).json({ error: 'Failed to get shares' });
+    }
+  });
+
+  /**
+   * Share a folder or upload with a user, or change their role
+   */
+  router.put(`/api/${kind}/:id/shares`, isAuthenticated, async (req: Request, res: Response) => {
+    try {
+      const idValidation = recordIdSchema.safeParse(req.params);
+      if (!idValidation.success) {
+        return res.status(400).json({
+          error: `Invalid ${target.label.toLowerCase()} ID`,
+          details: idValidation.error.format(),
+        });
+      }
+
+      const bodyValidation = shareSchema.safeParse(req.body);
+      if (!bodyValidation.success) {
+        return res.status(400).json({
+          error: 'Invalid request data',
+          details: bodyValidation.error.format(),
+        });
+      }
+
+      const { id } = idValidation.data;
+      const { user: name, role } = bodyValidation.data;
+
+      const record = await target.load(id);
+      const ownRole = record && await target.role(req, record);
+      if (!record || !ownRole) {
+        return res.status(404).json({ error: `${target.label} not found` });
+      }
+      if (ownRole !== 'owner') {
+        return res.status(403).json({ error: `Only the owner can share this ${target.label.toLowerCase()}` });
+      }
+      if (!record.userId) {
+        return res.status(400).json({ error: `Shared default ${kind} are already visible to everyone` });
+      }
+
+      const user = await User.findOne({ $or: [{ username: name }, { email: name.toLowerCase() }] });
+      if (!user) {
+        return res.status(404).json({ error: 'User not found' });
+      }
+
+      const userId = user._id.toString();
+      if (userId === record.userId) {
+        return res.status(400).json({ error: `The owner already has full access to this ${target.label.toLowerCase()}` });
+      }
+
+      const shares = [...(record.shares ?? []).filter((share) => share.userId !== userId), { userId, role }];
+      await target.save(id, shares);
+      logger.info(`User ${currentUserId(req)} shared ${kind} ${id} with ${userId} as ${role}`);
+
+      res.status(200).json(await describeShares(shares));
+    } catch (error) {
+      logger.error(`Failed to share ${kind} ${req.params.id}:`, error);
+      res.status(500).json({ error: 'Failed to share' });
+    }
+  });
+
+  /**
+   * Stop sharing a folder or upload with a user
+   */
+  router.delete(`/api/${kind}/:id/shares/:userId`, isAuthenticated, async (req: Request, res: Response) => {
+    try {
+      const validationResult = recordIdSchema.safeParse({ id: req.params.id });
+      if (!validationResult.success) {
+        return res.status(400).json({
+          error: `Invalid ${target.label.toLowerCase()} ID`,
+          details: validationResult.error.format(),
+        });
+      }
+
+      const { id } = validationResult.data;
+      const record = await target.load(id);
+      const role = record && await target.role(req, record);
+      if (!record || !role) {
+        return res.status(404).json({ error: `${target.label} not found` });
+      }
+      // Anyone may drop a share made with themselves
+      if (role !== 'owner' && req.params.userId !== currentUserId(req)) {
+        return res.status(403).json({ error: `Only the owner can change who this ${target.label.toLowerCase()} is shared with` });
+      }
+
+      const shares = (record.shares ?? []).filter((share) => share.userId !== req.params.userId);
+      await target.save(id, shares);
+
+      res.status(200).json(await describeShares(shares));
+    } catch (error) {
+      logger.error(`Failed to unshare ${kind} ${req.params.id}:`, error);
+      res.status(500).json({ error: 'Failed to remove share' });
+    }
+  });
+}
+
+/**
+ * Folders and uploads other users have shared with the signed-in user
+ */
+router.get('/api/shared', isAuthenticated, async (req: Request, res: Response) => {
+  try {
+    const userId = currentUserId(req);
+    const [folders, uploads] = await Promise.all([
+      storage.getFoldersSharedWith(userId),
+      storage.getUploadsSharedWith(userId),
+    ]);
+
+    const owners = await User.find({
+      _id: { $in: Array.from(new Set([...folders, ...uploads].map((record) => record.userId).filter(Boolean))) },
+    });
+    const withShare = <T extends Shareable>(record: T) => {
+      const owner = owners.find((u: any) => u._id.toString() === record.userId);
+      return {
+        ...record,
+        role: record.shares?.find((share) => share.userId === userId)?.role,
+        owner: owner ? { username: owner.username, displayName: owner.displayName } : null,
+      };
+    };
+
+    res.status(200).json({
+      folders: folders.map(withShare),
+      uploads: uploads.map(withShare),
+    });
+  } catch (error) {
+    logger.error('Failed to get shared items:', error);
+    res.status(500).json({ error: 'Failed to get shared items' });
+  }
+});
+
+export function registerSharingRoutes(app: any): void {
+  app.use(router);
+  logger.info('Sharing routes registered');
+}
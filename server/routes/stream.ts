@@ -1,19 +1,43 @@
 import { Router, Request, Response } from 'express';
 import { storage } from '../storage';
-import { googleDriveService } from '../services/googleDrive';
+import { blobStores, BlobRef, BlobStore, ByteRange } from '../services/blobStore';
 import { hlsConverter } from '../services/hlsConverter';
 import { fileProcessor } from '../services/fileProcessor';
 import { logger } from '../utils/logger';
-import fs from 'fs';
+import { accessUser, isAuthenticated, isAuthenticatedOrSigned, requireSignature } from '../config/auth';
+import { AccessRole, hasRole, sharing } from '../services/sharing';
+import { childUrlExpiry, nowInSeconds, signedQuery, streamResources } from '../utils/signing';
+import { z } from 'zod';
 import path from 'path';
 import { createReadStream } from 'fs';
+import { Upload } from '@shared/schema';
 
 const router = Router();
 
+// Longest lifetime a share link may be given
+const MAX_SHARE_SECONDS = 30 * 24 * 60 * 60;
+
+// Whether the signed-in user has at least a role on an upload; nothing in the trash is served
+const hasUploadRole = async (req: Request, upload: Upload, role: AccessRole): Promise<boolean> =>
+  !upload.deletedAt && hasRole(await sharing.uploadRole(accessUser(req), upload), role);
+
+// A valid signature already limits a request to one resource; otherwise the user must be able to view the upload
+const mayStream = async (req: Request, res: Response, upload: Upload): Promise<boolean> =>
+  !upload.deletedAt && (res.locals.signedExpires !== undefined || hasUploadRole(req, upload, 'viewer'));
+
+// Validation schema for creating a share link
+const shareSchema = z.object({
+  expiresIn: z.number().int().min(60).max(MAX_SHARE_SECONDS).default(24 * 60 * 60),
+  // Also sign a link to the original file, not just to the HLS renditions
+  includeSource: z.boolean().default(false),
+});
+
 /**
  * Generate and serve HLS playlist for a video
  */
-router.get('/api/stream/playlist/:uploadId', async (req: Request, res: Response) => {
+router.get('/api/stream/playlist/:uploadId', isAuthenticatedOrSigned((req) =>
+  streamResources.playlist(req.params.uploadId, (req.query.resolution as string) ?? '')
+), async (req: Request, res: Response) => {
   try {
     const { uploadId } = req.params;
     const { resolution } = req.query;
@@ -26,7 +50,7 @@ router.get('/api/stream/playlist/:uploadId', async (req: Request, res: Response)
     // Get upload
     const upload = await storage.getUpload(parseInt(uploadId, 10));
     
-    if (!upload) {
+    if (!upload || !(await mayStream(req, res, upload))) {
       return res.status(404).json({ error: 'Upload not found' });
     }
     
@@ -39,11 +63,13 @@ router.get('/api/stream/playlist/:uploadId', async (req: Request, res: Response)
       // Generate playlist
       const playlist = await hlsConverter.generatePlaylist(
         parseInt(uploadId, 10), 
-        resolution as string
+        resolution as string,
+        childUrlExpiry(res.locals.signedExpires)
       );
       
-      // Set Content-Type header
+      // Set Content-Type header; the signed URLs inside must not be cached
       res.set('Content-Type', 'application/vnd.apple.mpegurl');
+      res.set('Cache-Control', 'private, no-store');
       res.send(playlist);
     } catch (error) {
       // If no HLS chunks found, return error
@@ -59,7 +85,9 @@ router.get('/api/stream/playlist/:uploadId', async (req: Request, res: Response)
 /**
  * Generate and serve HLS master playlist for a video
  */
-router.get('/api/stream/master/:uploadId', async (req: Request, res: Response) => {
+router.get('/api/stream/master/:uploadId', isAuthenticatedOrSigned((req) =>
+  streamResources.master(req.params.uploadId)
+), async (req: Request, res: Response) => {
   try {
     const { uploadId } = req.params;
     
@@ -71,7 +99,7 @@ router.get('/api/stream/master/:uploadId', async (req: Request, res: Response) =
     // Get upload
     const upload = await storage.getUpload(parseInt(uploadId, 10));
     
-    if (!upload) {
+    if (!upload || !(await mayStream(req, res, upload))) {
       return res.status(404).json({ error: 'Upload not found' });
     }
     
@@ -81,17 +109,16 @@ router.get('/api/stream/master/:uploadId', async (req: Request, res: Response) =
     }
     
     try {
-      // Generate master playlist
-      const masterPlaylistPath = await hlsConverter.generateMasterPlaylist(parseInt(uploadId, 10));
-      
-      // Create read stream for master playlist
-      const fileStream = fs.createReadStream(masterPlaylistPath);
+      // Generate master playlist, signing variant URLs no longer than this request's signature
+      const masterPlaylist = await hlsConverter.generateMasterPlaylist(
+        parseInt(uploadId, 10),
+        childUrlExpiry(res.locals.signedExpires)
+      );
       
-      // Set Content-Type header
+      // Set Content-Type header; the signed URLs inside must not be cached
       res.set('Content-Type', 'application/vnd.apple.mpegurl');
-      
-      // Pipe file stream to response
-      fileStream.pipe(res);
+      res.set('Cache-Control', 'private, no-store');
+      res.send(masterPlaylist);
     } catch (error) {
       // If no HLS chunks found, return error
       logger.error(`No HLS chunks found for upload ${uploadId}:`, error);
@@ -104,9 +131,144 @@ router.get('/api/stream/master/:uploadId', async (req: Request, res: Response) =
 });
 
 /**
- * Stream HLS chunk
+ * Play a video: the HLS master playlist once a rendition is ready, the original file
+ * (with range support) until then. Signed access needs a source link, since it can serve
+ * the original.
  */
-router.get('/api/chunk/hls-stream', async (req: Request, res: Response) => {
+router.get('/api/stream/:uploadId', isAuthenticatedOrSigned((req) =>
+  streamResources.source(req.params.uploadId)
+), async (req: Request, res: Response) => {
+  try {
+    const uploadId = parseInt(req.params.uploadId, 10);
+    if (isNaN(uploadId)) {
+      return res.status(400).json({ error: 'Invalid upload ID' });
+    }
+
+    const upload = await storage.getUpload(uploadId);
+    if (!upload || !(await mayStream(req, res, upload))) {
+      return res.status(404).json({ error: 'Upload not found' });
+    }
+
+    if (!upload.fileType.startsWith('video/')) {
+      return res.status(400).json({ error: 'File is not a video' });
+    }
+
+    const conversions = await storage.getConversionsByUploadId(uploadId);
+    if (conversions.some((conversion) => conversion.status === 'ready')) {
+      const masterPlaylist = await hlsConverter.generateMasterPlaylist(
+        uploadId,
+        childUrlExpiry(res.locals.signedExpires)
+      );
+
+      // The answer changes once conversions finish, so never cache it
+      res.set('Content-Type', 'application/vnd.apple.mpegurl');
+      res.set('Cache-Control', 'private, no-store');
+      return res.send(masterPlaylist);
+    }
+
+    await sendBlob(req, res, blobStores.for(upload.storageBackend), {
+      id: upload.externalFileId,
+      accountId: upload.serviceAccountId ?? null,
+    }, upload.fileType);
+  } catch (error) {
+    logger.error('Failed to stream video:', error);
+    if (res.headersSent) {
+      res.destroy();
+      return;
+    }
+    res.status(500).json({ error: 'Failed to stream video' });
+  }
+});
+
+/**
+ * Serve an AES-128 key for an encrypted conversion to a signed-in user or signed URL
+ */
+router.get('/api/stream/key/:conversionId', isAuthenticatedOrSigned((req) =>
+  streamResources.key(req.params.conversionId, (req.query.index as string) ?? '0')
+), async (req: Request, res: Response) => {
+  try {
+    const conversionId = parseInt(req.params.conversionId, 10);
+    const index = parseInt((req.query.index as string) ?? '0', 10);
+
+    if (isNaN(conversionId) || isNaN(index) || index < 0) {
+      return res.status(400).json({ error: 'Invalid conversion ID or key index' });
+    }
+
+    const conversion = await storage.getConversion(conversionId);
+    const upload = conversion && await storage.getUpload(conversion.uploadId);
+    const key = upload && await mayStream(req, res, upload)
+      ? await storage.getConversionEncryptionKey(conversionId, index)
+      : undefined;
+    if (!key) {
+      return res.status(404).json({ error: 'Key not found' });
+    }
+
+    // Keys must never end up in a shared cache
+    res.set({
+      'Content-Type': 'application/octet-stream',
+      'Cache-Control': 'private, no-store',
+    });
+    res.send(Buffer.from(key, 'hex'));
+  } catch (error) {
+    logger.error('Failed to serve HLS key:', error);
+    res.status(500).json({ error: 'Failed to serve HLS key' });
+  }
+});
+
+/**
+ * Mint a signed master playlist link for embedding a video outside the app, and a link to
+ * the original file when asked for one
+ */
+router.post('/api/stream/share/:uploadId', isAuthenticated, async (req: Request, res: Response) => {
+  try {
+    const uploadId = parseInt(req.params.uploadId, 10);
+    if (isNaN(uploadId)) {
+      return res.status(400).json({ error: 'Invalid upload ID' });
+    }
+
+    const validationResult = shareSchema.safeParse(req.body ?? {});
+    if (!validationResult.success) {
+      return res.status(400).json({
+        error: 'Invalid request data',
+        details: validationResult.error.format(),
+      });
+    }
+
+    const upload = await storage.getUpload(uploadId);
+    if (!upload || !(await hasUploadRole(req, upload, 'editor'))) {
+      return res.status(404).json({ error: 'Upload not found' });
+    }
+
+    if (!upload.fileType.startsWith('video/')) {
+      return res.status(400).json({ error: 'File is not a video' });
+    }
+
+    const { expiresIn, includeSource } = validationResult.data;
+    const expires = nowInSeconds() + expiresIn;
+    const sharePath = `/api/stream/master/${uploadId}?${signedQuery(streamResources.master(uploadId), expires)}`;
+    const sourcePath = includeSource
+      ? `/api/stream/${uploadId}?${signedQuery(streamResources.source(uploadId), expires)}`
+      : null;
+
+    res.status(201).json({
+      url: `${req.protocol}://${req.get('host')}${sharePath}`,
+      path: sharePath,
+      sourceUrl: sourcePath && `${req.protocol}://${req.get('host')}${sourcePath}`,
+      sourcePath,
+      expiresAt: new Date(expires * 1000).toISOString(),
+    });
+  } catch (error) {
+    logger.error('Failed to create share link:', error);
+    res.status(500).json({ error: 'Failed to create share link' });
+  }
+});
+
+/**
+ * Stream HLS chunk; only reachable through signed URLs issued in playlists
+ */
+router.get('/api/chunk/hls-stream', requireSignature((req) =>
+  streamResources.chunk((req.query.chunkId as string) ?? '')
+), async (req: Request, res: Response) => {
   try {
     const { chunkId } = req.query;
     
@@ -118,25 +280,36 @@ router.get('/api/chunk/hls-stream', async (req: Request, res: Response) => {
     // Get chunk
     const chunk = await storage.getChunk(parseInt(chunkId as string, 10));
     
-    if (!chunk) {
+    if (!chunk || chunk.deletedAt) {
       return res.status(404).json({ error: 'Chunk not found' });
     }
     
     try {
-      // Get chunk file from cache or download from Google Drive
+      // Get chunk file from cache or download it from its store
       const chunkPath = await fileProcessor.getFileFromCacheOrDownload(
-        chunk.externalFileId,
+        blobStores.for(chunk.storageBackend),
+        { id: chunk.externalFileId, accountId: chunk.serviceAccountId ?? null },
         `_${chunk.uploadId}_${chunk.resolution}_${chunk.index}.ts`
       );
       
-      // Create read stream for chunk
-      const fileStream = fs.createReadStream(chunkPath);
-      
-      // Set Content-Type header
-      res.set('Content-Type', 'video/mp2t');
-      
-      // Pipe file stream to response
-      fileStream.pipe(res);
+      // Segments never change once uploaded, so the blob id is a strong validator and
+      // the response may be cached for as long as the signature stays valid. send() takes
+      // care of Range, If-None-Match, If-Modified-Since and Content-Length.
+      const remainingSeconds = Math.max(0, (res.locals.signedExpires ?? 0) - nowInSeconds());
+      res.type('video/mp2t');
+      res.set('ETag', `"${chunk.externalFileId}"`);
+      res.set('Last-Modified', new Date(chunk.createdAt).toUTCString());
+      res.sendFile(chunkPath, {
+        maxAge: remainingSeconds * 1000,
+        immutable: true,
+        etag: false,
+        lastModified: false,
+      }, (err) => {
+        if (err && !res.headersSent) {
+          logger.error(`Failed to send chunk ${chunkId}:`, err);
+          res.status(404).json({ error: 'Chunk not found or inaccessible' });
+        }
+      });
     } catch (error) {
       logger.error(`Failed to stream chunk ${chunkId}:`, error);
       return res.status(404).json({ error: 'Chunk not found or inaccessible' });
@@ -150,14 +323,14 @@ router.get('/api/chunk/hls-stream', async (req: Request, res: Response) => {
 /**
  * Get video preview/thumbnail
  */
-router.get('/api/preview/:uploadId', async (req: Request, res: Response) => {
+router.get('/api/preview/:uploadId', isAuthenticated, async (req: Request, res: Response) => {
   try {
     const { uploadId } = req.params;
     
     // Get upload
     const upload = await storage.getUpload(parseInt(uploadId, 10));
     
-    if (!upload) {
+    if (!upload || !(await hasUploadRole(req, upload, 'viewer'))) {
       return res.status(404).json({ error: 'Upload not found' });
     }
     
@@ -180,31 +353,108 @@ router.get('/api/preview/:uploadId', async (req: Request, res: Response) => {
 });
 
 /**
- * Download a file
+ * Download a file, streamed from its store with range and conditional request support
  */
-router.get('/api/download/:uploadId', async (req: Request, res: Response) => {
+router.get('/api/download/:uploadId', isAuthenticated, async (req: Request, res: Response) => {
   try {
     const { uploadId } = req.params;
     
     // Get upload
     const upload = await storage.getUpload(parseInt(uploadId, 10));
     
-    if (!upload) {
+    if (!upload || !(await hasUploadRole(req, upload, 'viewer'))) {
       return res.status(404).json({ error: 'Upload not found' });
     }
     
-    // Get file name for Content-Disposition header
-    const fileName = upload.uploadName;
-    
-    // Redirect to Google Drive download URL
-    const downloadUrl = googleDriveService.getPublicUrl(upload.externalFileId);
-    res.redirect(downloadUrl);
+    res.attachment(upload.uploadName);
+    await sendBlob(req, res, blobStores.for(upload.storageBackend), {
+      id: upload.externalFileId,
+      accountId: upload.serviceAccountId ?? null,
+    }, upload.fileType);
   } catch (error) {
     logger.error('Failed to download file:', error);
+    if (res.headersSent) {
+      res.destroy();
+      return;
+    }
     res.status(500).json({ error: 'Failed to download file' });
   }
 });
 
+/**
+ * Whether an If-Range precondition allows serving a partial response
+ */
+function ifRangeMatches(req: Request, etag: string, lastModified: Date): boolean {
+  const ifRange = req.get('If-Range');
+  if (!ifRange) return true;
+  if (ifRange.includes('"')) return ifRange === etag;
+  return Date.parse(ifRange) === Math.floor(lastModified.getTime() / 1000) * 1000;
+}
+
+/**
+ * Stream a blob through the server with validators, conditional requests and
+ * single byte ranges; multi-range requests get the whole file
+ */
+async function sendBlob(
+  req: Request,
+  res: Response,
+  store: BlobStore,
+  ref: BlobRef,
+  contentType: string
+): Promise<void> {
+  const blob = await store.stat(ref);
+  const size = blob.size;
+  const etag = `"${blob.etag || ref.id}"`;
+  const lastModified = blob.modifiedAt ?? new Date(0);
+
+  res.set({
+    'Content-Type': contentType,
+    'Accept-Ranges': 'bytes',
+    'ETag': etag,
+    'Last-Modified': lastModified.toUTCString(),
+    'Cache-Control': 'private, max-age=0, must-revalidate',
+  });
+
+  if (req.fresh) {
+    res.status(304).end();
+    return;
+  }
+
+  let range: ByteRange | undefined;
+  if (req.headers.range && ifRangeMatches(req, etag, lastModified)) {
+    const ranges = req.range(size, { combine: true });
+    if (ranges === -1) {
+      res.set('Content-Range', `bytes */${size}`);
+      res.status(416).end();
+      return;
+    }
+    if (Array.isArray(ranges) && ranges.type === 'bytes' && ranges.length === 1) {
+      range = { start: ranges[0].start, end: ranges[0].end };
+    }
+  }
+
+  if (range) {
+    res.status(206);
+    res.set('Content-Range', `bytes ${range.start}-${range.end}/${size}`);
+    res.set('Content-Length', String(range.end - range.start + 1));
+  } else {
+    res.set('Content-Length', String(size));
+  }
+
+  if (req.method === 'HEAD') {
+    res.end();
+    return;
+  }
+
+  const stream = await store.getStream(ref, range) as NodeJS.ReadableStream & { destroy?: () => void };
+  res.on('close', () => stream.destroy?.());
+  stream.on('error', (err) => {
+    logger.error(`Blob stream failed for ${store.backend}:${ref.id}:`, err);
+    res.destroy(err);
+  });
+  stream.pipe(res);
+}
+
 export function registerStreamRoutes(app: any): void {
   app.use(router);
 }
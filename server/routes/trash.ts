@@ -0,0 +1,190 @@
+import { Router, Request, Response } from 'express';
+import { z } from 'zod';
+import { Upload } from '@shared/schema';
+import { storage } from '../storage';
+import { accessUser, currentUserId, isAuthenticated, ownerFilter } from '../config/auth';
+import { sharing } from '../services/sharing';
+import { logger } from '../utils/logger';
+import config from '../config';
+
+const router = Router();
+
+// Validation schema for upload ID parameters
+const uploadIdSchema = z.object({
+  id: z.string().transform((val) => parseInt(val, 10)).refine((val) => !isNaN(val), {
+    message: 'Upload ID must be a valid number',
+  }),
+});
+
+// Validation schema for listing the trash
+const trashQuerySchema = z.object({
+  page: z.string().optional().default('1').transform((val) => parseInt(val, 10)).refine((val) => val > 0, {
+    message: 'Page must be a positive number',
+  }),
+  limit: z.string().optional().default('10').transform((val) => parseInt(val, 10)).refine((val) => val > 0, {
+    message: 'Limit must be a positive number',
+  }),
+});
+
+const retentionMs = () => config.storage.trashRetentionDays * 24 * 60 * 60 * 1000;
+
+// A trashed upload with the time the purge job will remove it
+const withPurgeAt = (upload: Upload) => ({
+  ...upload,
+  purgeAt: upload.deletedAt ? new Date(new Date(upload.deletedAt).getTime() + retentionMs()) : null,
+});
+
+/**
+ * Load an upload the signed-in user owns, replying with an error if they do not
+ */
+async function loadOwnUpload(req: Request, res: Response): Promise<Upload | null> {
+  const validationResult = uploadIdSchema.safeParse(req.params);
+  if (!validationResult.success) {
+    res.status(400).json({
+      error: 'Invalid upload ID',
+      details: validationResult.error.format(),
+    });
+    return null;
+  }
+
+  const upload = await storage.getUpload(validationResult.data.id);
+  const role = upload && await sharing.uploadRole(accessUser(req), upload);
+  if (!upload || !role) {
+    res.status(404).json({ error: 'Upload not found' });
+    return null;
+  }
+  if (role !== 'owner') {
+    res.status(403).json({ error: 'Only the owner can delete or restore this upload' });
+    return null;
+  }
+  return upload;
+}
+
+/**
+ * Move an upload to the trash
+ */
+router.delete('/api/uploads/:id', isAuthenticated, async (req: Request, res: Response) => {
+  try {
+    const upload = await loadOwnUpload(req, res);
+    if (!upload) return;
+    if (upload.deletedAt) {
+      return res.status(409).json({ error: 'Upload is already in the trash' });
+    }
+
+    const trashed = await storage.trashUpload(upload.id);
+    logger.info(`User ${currentUserId(req)} moved upload ${upload.id} to the trash`);
+
+    res.status(200).json(withPurgeAt(trashed));
+  } catch (error) {
+    logger.error(`Failed to move upload ${req.params.id} to the trash:`, error);
+    res.status(500).json({ error: 'Failed to delete upload' });
+  }
+});
+
+/**
+ * List the signed-in user's trashed uploads, most recently deleted first
+ */
+router.get('/api/trash', isAuthenticated, async (req: Request, res: Response) => {
+  try {
+    const validationResult = trashQuerySchema.safeParse(req.query);
+    if (!validationResult.success) {
+      return res.status(400).json({
+        error: 'Invalid query parameters',
+        details: validationResult.error.format(),
+      });
+    }
+
+    const { page, limit } = validationResult.data;
+    const userId = ownerFilter(req);
+    const [uploads, total] = await Promise.all([
+      storage.getUploads({ userId, trashed: true, offset: (page - 1) * limit, limit }),
+      storage.count({ userId, trashed: true }),
+    ]);
+
+    res.status(200).json({
+      files: uploads.map(withPurgeAt),
+      total,
+      page,
+      limit,
+      totalPages: Math.ceil(total / limit),
+      retentionDays: config.storage.trashRetentionDays,
+    });
+  } catch (error) {
+    logger.error('Failed to get trash:', error);
+    res.status(500).json({ error: 'Failed to get trash' });
+  }
+});
+
+/**
+ * Restore a trashed upload to its folder, or to the top level if the folder is gone
+ */
+router.post('/api/trash/:id/restore', isAuthenticated, async (req: Request, res: Response) => {
+  try {
+    const upload = await loadOwnUpload(req, res);
+    if (!upload) return;
+    if (!upload.deletedAt) {
+      return res.status(409).json({ error: 'Upload is not in the trash' });
+    }
+
+    const restored = await storage.restoreUpload(upload.id);
+    logger.info(`User ${currentUserId(req)} restored upload ${upload.id} from the trash`);
+
+    res.status(200).json(restored);
+  } catch (error) {
+    logger.error(`Failed to restore upload ${req.params.id}:`, error);
+    res.status(500).json({ error: 'Failed to restore upload' });
+  }
+});
+
+/**
+ * Permanently delete a trashed upload without waiting for the purge job
+ */
+router.delete('/api/trash/:id', isAuthenticated, async (req: Request, res: Response) => {
+  try {
+    const upload = await loadOwnUpload(req, res);
+    if (!upload) return;
+    if (!upload.deletedAt) {
+      return res.status(409).json({ error: 'Upload is not in the trash' });
+    }
+
+    await storage.deleteFile(upload.id);
+    logger.info(`User ${currentUserId(req)} permanently deleted upload ${upload.id}`);
+
+    res.status(204).send();
+  } catch (error) {
+    logger.error(`Failed to permanently delete upload ${req.params.id}:`, error);
+    res.status(500).json({ error: 'Failed to permanently delete upload' });
+  }
+});
+
+/**
+ * Permanently delete everything in the signed-in user's trash. Uploads that cannot be
+ * deleted stay in the trash and are counted as failed.
+ */
+router.delete('/api/trash', isAuthenticated, async (req: Request, res: Response) => {
+  try {
+    const uploads = await storage.getUploads({ userId: currentUserId(req), trashed: true });
+    let deleted = 0;
+    let failed = 0;
+    for (const upload of uploads) {
+      try {
+        await storage.deleteFile(upload.id);
+        deleted++;
+      } catch (error) {
+        logger.error(`Failed to permanently delete upload ${upload.id}:`, error);
+        failed++;
+      }
+    }
+    logger.info(`User ${currentUserId(req)} emptied the trash: deleted=${deleted}, failed=${failed}`);
+
+    res.status(200).json({ deleted, failed });
+  } catch (error) {
+    logger.error('Failed to empty trash:', error);
+    res.status(500).json({ error: 'Failed to empty trash' });
+  }
+});
+
+export function registerTrashRoutes(app: any): void {
+  app.use(router);
+  logger.info('Trash routes registered');
+}
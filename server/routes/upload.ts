@@ -1,19 +1,27 @@
 import { Router, Request, Response } from 'express';
-import { storage } from '../storage';
+import { isDuplicateKeyError, storage } from '../storage';
 import { googleDriveService } from '../services/googleDrive';
+import { blobStores } from '../services/blobStore';
 import { fileProcessor } from '../services/fileProcessor';
 import { jobQueue } from '../services/jobQueue';
+import { mediaProbe } from '../services/mediaProbe';
 import { chunker } from '../utils/chunker';
+import { ChecksumMismatchError, isSha256Hex, sha256File } from '../utils/checksum';
+import { normalizeTags } from '../utils/metadataFields';
 import { logger } from '../utils/logger';
+import { accessUser, currentUserId, isAuthenticated, ownerFilter } from '../config/auth';
+import { AccessRole, hasRole, sharing } from '../services/sharing';
 import path from 'path';
 import fs from 'fs/promises';
-import { v4 as uuidv4 } from 'uuid';
-import { fileCategories } from '@shared/schema';
+import { fileCategories, MetadataFieldValues, Upload } from '@shared/schema';
 import { z } from 'zod';
 import { UploadModel } from 'server/models/mongoose';
 
 const router = Router();
 
+// How long a request may hold an upload's completion before another may take over
+const COMPLETE_CLAIM_TTL_MS = 60 * 60 * 1000;
+
 // Initialize Google Drive service
 googleDriveService.initialize().catch(err => {
   logger.error('Failed to initialize Google Drive service:', err);
@@ -26,54 +34,167 @@ const validateCategory = (category: string): boolean => {
   return fileCategories.includes(category as any);
 };
 
+// Whether the signed-in user has at least a role on an upload
+const hasUploadRole = async (req: Request, upload: Upload, role: AccessRole): Promise<boolean> =>
+  hasRole(await sharing.uploadRole(accessUser(req), upload), role);
+
+/**
+ * Folder a new upload goes into, by ID or by top-level name (created if missing), and
+ * the user the upload belongs to. Files added to a folder shared with the uploader
+ * belong to the folder's owner, so they are stored in that owner's service accounts.
+ */
+const resolveUploadTarget = async (
+  req: Request,
+  folderId?: string,
+  folderName?: string
+): Promise<{ userId: string; folderId?: string; folderName?: string } | null> => {
+  const userId = currentUserId(req);
+
+  if (folderId) {
+    const folder = await storage.getFolder(parseInt(folderId, 10));
+    if (!folder || !hasRole(await sharing.folderRole(accessUser(req), folder), 'editor')) {
+      return null;
+    }
+    return { userId: folder.userId ?? userId, folderId: folder.id.toString(), folderName: folder.name };
+  }
+
+  if (folderName) {
+    let folder = await storage.getFolderByName(folderName, null, userId);
+    if (!folder) {
+      try {
+        folder = await storage.createFolder({ name: folderName, userId });
+      } catch (error) {
+        // Uploads started together into a new folder race to create it; all use the winner's
+        folder = isDuplicateKeyError(error) ? await storage.getFolderByName(folderName, null, userId) : undefined;
+        if (!folder) throw error;
+      }
+    }
+    return { userId, folderId: folder.id.toString(), folderName: folder.name };
+  }
+
+  return { userId };
+};
+
+/**
+ * Fill in what a new upload's file says about itself: copied from the upload it was
+ * deduplicated against when that one was already read, or read by a probe job
+ */
+const queueMediaProbe = async (uploadId: number, externalFileId: string, fileType: string, existing?: Upload) => {
+  if (!mediaProbe.canProbe(fileType)) return;
+
+  if (existing?.metadata?.probedAt) {
+    await storage.updateUploadMediaMetadata(uploadId, existing.metadata);
+    return;
+  }
+  await jobQueue.addProbeJob(uploadId, externalFileId, fileType);
+};
+
+/**
+ * IDs of the Drive service accounts a user added
+ */
+const accountIdsOf = async (userId: string): Promise<Set<string>> => {
+  const accounts = await storage.getAccounts();
+  return new Set(accounts.filter(account => String(account.userId) === userId).map(account => account._id.toString()));
+};
+
 /**
  * Initialize upload - create upload record
  */
-router.post('/api/upload/init', async (req: Request, res: Response) => {
+router.post('/api/upload/init', isAuthenticated, async (req: Request, res: Response) => {
   try {
-    const { category, folderName, fileName, fileSize, fileType, totalChunks } = req.body;
+    const { category, folderId: targetFolderId, folderName: targetFolderName, fileName, fileSize, fileType, totalChunks, chunkSize, checksum } = req.body;
 
     // Validate required fields
-    if (!fileName || !fileSize || !fileType) {
+    if (!fileName || !fileSize || !fileType || !totalChunks || !chunkSize) {
       return res.status(400).json({ error: 'Missing required fields' });
     }
 
-    // Validate category
-    if (!validateCategory(category)) {
-      return res.status(400).json({ error: 'Invalid category' });
+    // The final digest is checked against the merged file before it is stored
+    if (!isSha256Hex(checksum)) {
+      return res.status(400).json({ error: 'checksum must be a hex SHA-256 digest of the file' });
     }
 
-    // Generate unique identifier
-    const identifier = uuidv4();
+    const size = parseInt(fileSize, 10);
+    const expectedChunks = parseInt(totalChunks, 10);
+    const nominalChunkSize = parseInt(chunkSize, 10);
 
-    // Create folder if provided and doesn't exist
-    let folderId: string | undefined;
-
-    if (folderName) {
-      let folder = await storage.getFolderByName(folderName);
+    // The manifest is only useful if the client and server agree on how the file is sliced
+    if (nominalChunkSize <= 0 || expectedChunks !== Math.ceil(size / nominalChunkSize)) {
+      return res.status(400).json({ error: 'totalChunks does not match fileSize and chunkSize' });
+    }
 
-      if (!folder) {
-        folder = await storage.createFolder({ name: folderName });
-      }
+    // Validate category
+    if (!validateCategory(category)) {
+      return res.status(400).json({ error: 'Invalid category' });
+    }
 
-      folderId = folder.id.toString();
+    const target = await resolveUploadTarget(req, targetFolderId, targetFolderName);
+    if (!target) {
+      return res.status(404).json({ error: 'Folder not found' });
     }
+    const { userId, folderId, folderName } = target;
 
-    // Create file record
+    // Uploads are keyed by content hash so identical files share one blob. A declared hash
+    // only attaches stored content for its owner: an editor in a shared folder could otherwise
+    // link in any of the owner's files. Their uploads are deduplicated once merged instead.
+    const identifier = checksum.toLowerCase();
+    const existing = userId === currentUserId(req)
+      ? await storage.findReusableUpload(identifier, userId)
+      : undefined;
+
+    // Create file record, with the size of the stored content when there is some
     const file = await storage.createFile({
       name: fileName,
-      size: parseInt(fileSize, 10),
+      size: existing?.fileSize ?? size,
       mimeType: fileType,
     });
 
+    if (existing) {
+      // Same content is already stored: point a new upload at it and skip the transfer
+      const upload = await storage.createUpload({
+        userId,
+        identifier,
+        checksum: identifier,
+        fileType,
+        externalFileId: existing.externalFileId,
+        storageBackend: existing.storageBackend,
+        serviceAccountId: existing.serviceAccountId,
+        source: 'upload',
+        fileId: file.id,
+        fileSize: existing.fileSize,
+        uploadName: fileName,
+        category: category as any,
+        status: 'ready',
+        thumbnail: existing.thumbnail,
+        thumbnailServiceAccountId: existing.thumbnailServiceAccountId,
+        folderId,
+        folderName,
+      });
+
+      logger.info(`Deduplicated upload ${upload.id} against upload ${existing.id} (${existing.externalFileId})`);
+      await queueMediaProbe(upload.id, existing.externalFileId, fileType, existing);
+
+      return res.status(200).json({
+        uploadId: upload.id,
+        identifier,
+        totalChunks: expectedChunks,
+        chunkSize: nominalChunkSize,
+        deduplicated: true,
+        skipChunks: true,
+        externalFileId: existing.externalFileId,
+      });
+    }
+
     // Create upload record
     const upload = await storage.createUpload({
+      userId,
       identifier,
+      checksum: identifier,
       fileType,
       externalFileId: 'pending', // Will be updated when upload is complete
       source: 'upload',
       fileId: file.id,
-      fileSize: parseInt(fileSize, 10),
+      fileSize: size,
       uploadName: fileName,
       category: category as any,
       status: 'processing',
@@ -81,6 +202,14 @@ router.post('/api/upload/init', async (req: Request, res: Response) => {
       folderName,
     });
 
+    // Record what the server expects so the client can resume after a dropped connection
+    await storage.createUploadManifest({
+      uploadId: upload.id,
+      fileSize: size,
+      chunkSize: nominalChunkSize,
+      totalChunks: expectedChunks,
+    });
+
     // Create upload directory
     const uploadDir = path.join('./temp/uploads', `upload_${upload.id}`);
     await fs.mkdir(uploadDir, { recursive: true });
@@ -88,7 +217,10 @@ router.post('/api/upload/init', async (req: Request, res: Response) => {
     res.status(200).json({
       uploadId: upload.id,
       identifier,
-      totalChunks,
+      totalChunks: expectedChunks,
+      chunkSize: nominalChunkSize,
+      deduplicated: false,
+      skipChunks: false,
     });
   } catch (error) {
     logger.error('Upload initialization failed:', error);
@@ -99,7 +231,7 @@ router.post('/api/upload/init', async (req: Request, res: Response) => {
 /**
  * Handle chunk upload
  */
-router.post('/api/upload/chunk', async (req: any, res: Response) => {
+router.post('/api/upload/chunk', isAuthenticated, async (req: any, res: Response) => {
   const upload = req.app.locals.upload;
 
   upload.single('chunk')(req, res, async (err: any) => {
@@ -109,7 +241,7 @@ router.post('/api/upload/chunk', async (req: any, res: Response) => {
     }
 
     try {
-      const { uploadId, chunkIndex } = req.body;
+      const { uploadId, chunkIndex, checksum } = req.body;
 
       if (!uploadId || chunkIndex === undefined) {
         return res.status(400).json({ error: 'Missing required fields' });
@@ -119,21 +251,68 @@ router.post('/api/upload/chunk', async (req: any, res: Response) => {
         return res.status(400).json({ error: 'No chunk file provided' });
       }
 
+      if (!isSha256Hex(checksum)) {
+        await fs.rm(req.file.path, { force: true });
+        return res.status(400).json({ error: 'checksum must be a hex SHA-256 digest of the chunk' });
+      }
+
+      const id = parseInt(uploadId, 10);
+      const index = parseInt(chunkIndex, 10);
+
+      const owner = await storage.getUpload(id);
+      const manifest = owner && await hasUploadRole(req, owner, 'editor') ? await storage.getUploadManifest(id) : undefined;
+      if (!manifest) {
+        await fs.rm(req.file.path, { force: true });
+        return res.status(404).json({ error: 'Upload not found or already completed' });
+      }
+      if (manifest.completingAt) {
+        await fs.rm(req.file.path, { force: true });
+        return res.status(409).json({ error: 'Upload is being completed' });
+      }
+
+      if (isNaN(index) || index < 0 || index >= manifest.totalChunks) {
+        await fs.rm(req.file.path, { force: true });
+        return res.status(400).json({ error: `Chunk index out of range: ${chunkIndex}` });
+      }
+
+      // A short chunk means the connection dropped mid-request; make the client resend it
+      const expectedSize = chunker.getExpectedChunkSize(manifest, index);
+      if (req.file.size !== expectedSize) {
+        await fs.rm(req.file.path, { force: true });
+        return res.status(400).json({
+          error: `Chunk ${index} has ${req.file.size} bytes, expected ${expectedSize}`,
+        });
+      }
+
       // Process the chunk
       const chunkPath = await chunker.handleUploadedChunk(
         req.file,
-        parseInt(uploadId, 10),
-        parseInt(chunkIndex, 10),
-        './temp/uploads'
+        id,
+        index,
+        './temp/uploads',
+        checksum
       );
 
+      const updated = await storage.recordUploadedChunk(id, index, req.file.size, checksum.toLowerCase());
+
       res.status(200).json({
         success: true,
         uploadId,
         chunkIndex,
-        path: chunkPath
+        path: chunkPath,
+        receivedChunks: updated.receivedChunks.length,
+        totalChunks: updated.totalChunks,
       });
     } catch (error) {
+      if (error instanceof ChecksumMismatchError) {
+        logger.warn(error.message);
+        return res.status(422).json({
+          error: 'Chunk checksum mismatch',
+          retryable: true,
+          expected: error.expected,
+          actual: error.actual,
+        });
+      }
       logger.error('Chunk upload failed:', error);
       res.status(500).json({ error: 'Chunk upload failed' });
     }
@@ -141,9 +320,9 @@ router.post('/api/upload/chunk', async (req: any, res: Response) => {
 });
 
 /**
- * Complete upload - combine chunks and upload to Google Drive
+ * Complete upload - combine chunks and upload to the default store
  */
-router.post('/api/upload/complete', async (req: Request, res: Response) => {
+router.post('/api/upload/complete', isAuthenticated, async (req: Request, res: Response) => {
   try {
     const { uploadId } = req.body;
 
@@ -153,7 +332,7 @@ router.post('/api/upload/complete', async (req: Request, res: Response) => {
 
     // Get upload record
     const upload = await storage.getUpload(parseInt(uploadId, 10));
-    if (!upload) {
+    if (!upload || !(await hasUploadRole(req, upload, 'editor'))) {
       return res.status(404).json({ error: 'Upload not found' });
     }
 
@@ -163,67 +342,173 @@ router.post('/api/upload/complete', async (req: Request, res: Response) => {
       return res.status(404).json({ error: 'File not found' });
     }
 
+    const current = await storage.getUploadManifest(upload.id);
+    if (!current) {
+      return res.status(409).json({ error: 'Upload has already been completed' });
+    }
+
+    // Refuse to merge until every chunk in the manifest has arrived
+    const missingChunks = chunker.getMissingChunks(current);
+    if (missingChunks.length > 0) {
+      return res.status(409).json({
+        error: 'Upload is missing chunks',
+        missingChunks,
+      });
+    }
+
+    // A concurrent or retried request must not merge and store the file a second time
+    const manifest = await storage.claimUploadManifest(upload.id, COMPLETE_CLAIM_TTL_MS);
+    if (!manifest) {
+      return res.status(409).json({ error: 'Upload is already being completed' });
+    }
+
     // Combine chunks into a complete file
     const outputFilePath = path.join('./temp/uploads', `${uploadId}_${file.name}`);
     const uploadDir = path.join('./temp/uploads', `upload_${uploadId}`);
+    let completed = false;
 
-    // Get total chunks by counting files in upload directory
-    const files = await fs.readdir(uploadDir);
-    const totalChunks = files.length;
-    console.log('total-chunks', totalChunks);
-
-    // Combine chunks
-    await chunker.combineUploadedChunks(
-      parseInt(uploadId, 10),
-      totalChunks,
-      './temp/uploads',
-      `${uploadId}_${file.name}`
-    );
-    console.log('uploading...');
-
-
-    // Upload to Google Drive
-    const externalFileId = await googleDriveService.uploadFile(
-      outputFilePath,
-      file.mimeType,
-      file.name
-    );
-    console.log('externalFileId', externalFileId);
-
-    // Update upload record with external file ID
-    await UploadModel.updateOne({ uploadId: parseInt(uploadId, 10) }, {
-      externalFileId,
-      status: 'ready'
-    });
+    try {
+      // Combine chunks
+      await chunker.combineUploadedChunks(
+        parseInt(uploadId, 10),
+        manifest.totalChunks,
+        './temp/uploads',
+        `${uploadId}_${file.name}`
+      );
 
-    // Generate thumbnail/preview based on file type
-    if (file.mimeType.startsWith('video/')) {
-      // Schedule thumbnail generation job
-      await jobQueue.addThumbnailJob(parseInt(uploadId, 10), externalFileId);
-    } else if (file.mimeType.startsWith('image/') || file.mimeType === 'application/pdf') {
-      // Schedule preview generation job
-      await jobQueue.addPreviewJob(parseInt(uploadId, 10), externalFileId, file.mimeType);
+      // Every chunk was verified, but the merged file must match the digest declared at init
+      const actualChecksum = await sha256File(outputFilePath);
+      if (actualChecksum !== upload.checksum) {
+        logger.error(`Merged file checksum mismatch for upload ${uploadId}: expected ${upload.checksum}, got ${actualChecksum}`);
+        await fs.rm(uploadDir, { recursive: true, force: true });
+        await storage.deleteUploadManifest(upload.id);
+        await storage.updateUploadStatus(upload.id, 'failed');
+        completed = true;
+        return res.status(422).json({
+          error: 'File checksum mismatch',
+          retryable: false,
+          expected: upload.checksum,
+          actual: actualChecksum,
+        });
+      }
+
+      // An identical upload may have finished while this one was in flight
+      const existing = await storage.findReusableUpload(actualChecksum, upload.userId ?? null);
+
+      // Upload to the default store
+      const store = existing ? blobStores.for(existing.storageBackend) : blobStores.default;
+      const blob = existing
+        ? { id: existing.externalFileId, accountId: existing.serviceAccountId ?? null }
+        : await store.put(
+          outputFilePath,
+          file.mimeType,
+          file.name,
+          { folderId: upload.folderId, ownerUserId: upload.userId }
+        );
+      const externalFileId = blob.id;
+      console.log('externalFileId', externalFileId);
+
+      // Update upload record with external file ID
+      await UploadModel.updateOne({ id: parseInt(uploadId, 10) }, {
+        externalFileId,
+        storageBackend: store.backend,
+        serviceAccountId: blob.accountId,
+        checksum: actualChecksum,
+        ...(existing && {
+          thumbnail: existing.thumbnail,
+          thumbnailServiceAccountId: existing.thumbnailServiceAccountId,
+        }),
+        status: 'ready'
+      });
+      await storage.deleteUploadManifest(upload.id);
+      completed = true;
+
+      // Generate thumbnail/preview based on file type
+      if (existing) {
+        logger.info(`Deduplicated upload ${uploadId} against upload ${existing.id} (${existing.externalFileId})`);
+      } else if (file.mimeType.startsWith('video/')) {
+        // Schedule thumbnail generation job
+        await jobQueue.addThumbnailJob(parseInt(uploadId, 10), externalFileId);
+      } else if (file.mimeType.startsWith('image/') || file.mimeType === 'application/pdf') {
+        // Schedule preview generation job
+        await jobQueue.addPreviewJob(parseInt(uploadId, 10), externalFileId, file.mimeType);
+      }
+      await queueMediaProbe(parseInt(uploadId, 10), externalFileId, file.mimeType, existing);
+
+      // Clean up the received chunks
+      await fs.rm(uploadDir, { recursive: true, force: true });
+
+      res.status(200).json({
+        success: true,
+        uploadId,
+        externalFileId,
+        deduplicated: !!existing,
+      });
+    } finally {
+      // Let the client retry once this attempt has failed
+      if (!completed) {
+        await storage.releaseUploadManifest(upload.id);
+      }
+      await fs.rm(outputFilePath, { force: true });
+    }
+  } catch (error) {
+    logger.error('Upload completion failed:', error);
+    res.status(500).json({ error: 'Upload completion failed' });
+  }
+});
+
+/**
+ * Get upload progress - which chunks the server already holds
+ */
+router.get('/api/upload/:id/status', isAuthenticated, async (req: Request, res: Response) => {
+  try {
+    const uploadId = parseInt(req.params.id, 10);
+    if (isNaN(uploadId)) {
+      return res.status(400).json({ error: 'Invalid upload ID' });
     }
 
-    // Clean up temporary files
-    await fs.unlink(outputFilePath);
-    await fs.rm(uploadDir, { recursive: true, force: true });
+    const upload = await storage.getUpload(uploadId);
+    if (!upload || !(await hasUploadRole(req, upload, 'editor'))) {
+      return res.status(404).json({ error: 'Upload not found' });
+    }
+
+    const manifest = await storage.getUploadManifest(uploadId);
+
+    // Without a manifest the upload has either completed or never was chunked
+    if (!manifest) {
+      return res.status(200).json({
+        uploadId,
+        status: upload.status,
+        complete: upload.status === 'ready',
+        receivedChunks: [],
+        missingChunks: [],
+      });
+    }
+
+    const missingChunks = chunker.getMissingChunks(manifest);
 
     res.status(200).json({
-      success: true,
       uploadId,
-      externalFileId
+      status: upload.status,
+      complete: false,
+      fileSize: manifest.fileSize,
+      chunkSize: manifest.chunkSize,
+      totalChunks: manifest.totalChunks,
+      receivedChunks: manifest.receivedChunks
+        .map(chunk => chunk.index)
+        .sort((a, b) => a - b),
+      missingChunks,
     });
   } catch (error) {
-    logger.error('Upload completion failed:', error);
-    res.status(500).json({ error: 'Upload completion failed' });
+    logger.error(`Failed to get upload status ${req.params.id}:`, error);
+    res.status(500).json({ error: 'Failed to get upload status' });
   }
 });
 
 /**
  * Upload entire file in one request (for smaller files)
  */
-router.post('/api/upload', async (req: any, res: Response) => {
+router.post('/api/upload', isAuthenticated, async (req: any, res: Response) => {
   const upload = req.app.locals.upload;
 
   upload.single('file')(req, res, async (err: any) => {
@@ -237,13 +522,24 @@ router.post('/api/upload', async (req: any, res: Response) => {
         return res.status(400).json({ error: 'No file provided' });
       }
 
-      const { category, folderId, folderName } = req.body;
+      const { category } = req.body;
 
       // Validate category
       if (!validateCategory(category)) {
         return res.status(400).json({ error: 'Invalid category' });
       }
 
+      const target = await resolveUploadTarget(req, req.body.folderId, req.body.folderName);
+      if (!target) {
+        await fs.unlink(req.file.path);
+        return res.status(404).json({ error: 'Folder not found' });
+      }
+      const { userId, folderId, folderName } = target;
+
+      // Record the digest for later audits and key the upload by it
+      const checksum = await sha256File(req.file.path);
+      const existing = await storage.findReusableUpload(checksum, userId);
+
       // Create file record
       const file = await storage.createFile({
         name: req.file.originalname,
@@ -251,17 +547,29 @@ router.post('/api/upload', async (req: any, res: Response) => {
         mimeType: req.file.mimetype,
       });
 
-      // Upload to Google Drive
-      const externalFileId = await googleDriveService.uploadFile(
-        req.file.path,
-        req.file.mimetype,
-        req.file.originalname
-      );
+      // Upload to the default store unless identical content is already stored
+      const store = existing ? blobStores.for(existing.storageBackend) : blobStores.default;
+      const blob = existing
+        ? { id: existing.externalFileId, accountId: existing.serviceAccountId ?? null }
+        : await store.put(
+          req.file.path,
+          req.file.mimetype,
+          req.file.originalname,
+          { folderId, ownerUserId: userId }
+        );
+      const externalFileId = blob.id;
 
       // Create upload record
       const upload = await storage.createUpload({
+        userId,
+        identifier: checksum,
+        checksum,
         fileType: req.file.mimetype,
         externalFileId,
+        storageBackend: store.backend,
+        serviceAccountId: blob.accountId,
+        thumbnail: existing?.thumbnail,
+        thumbnailServiceAccountId: existing?.thumbnailServiceAccountId,
         source: 'upload',
         fileId: file.id,
         fileSize: req.file.size,
@@ -273,13 +581,16 @@ router.post('/api/upload', async (req: any, res: Response) => {
       });
 
       // Generate thumbnail/preview based on file type
-      if (req.file.mimetype.startsWith('video/')) {
+      if (existing) {
+        logger.info(`Deduplicated upload ${upload.id} against upload ${existing.id} (${existing.externalFileId})`);
+      } else if (req.file.mimetype.startsWith('video/')) {
         // Schedule thumbnail generation job
         await jobQueue.addThumbnailJob(upload.id, externalFileId);
       } else if (req.file.mimetype.startsWith('image/') || req.file.mimetype === 'application/pdf') {
         // Schedule preview generation job
         await jobQueue.addPreviewJob(upload.id, externalFileId, req.file.mimetype);
       }
+      await queueMediaProbe(upload.id, externalFileId, req.file.mimetype, existing);
 
       // Clean up temporary file
       await fs.unlink(req.file.path);
@@ -287,7 +598,8 @@ router.post('/api/upload', async (req: any, res: Response) => {
       res.status(200).json({
         success: true,
         uploadId: upload.id,
-        externalFileId
+        externalFileId,
+        deduplicated: !!existing,
       });
     } catch (error) {
       logger.error('File upload failed:', error);
@@ -299,9 +611,9 @@ router.post('/api/upload', async (req: any, res: Response) => {
 /**
  * Import file from Google Drive
  */
-router.get('/api/upload/googledrive', async (req: Request, res: Response) => {
+router.get('/api/upload/googledrive', isAuthenticated, async (req: Request, res: Response) => {
   try {
-    const { fileId, uploadName, fileType, category, folderId, folderName } = req.query;
+    const { fileId, uploadName, fileType, category } = req.query;
 
     // Validate required fields
     if (!fileId || !uploadName || !category || !fileType) {
@@ -313,12 +625,28 @@ router.get('/api/upload/googledrive', async (req: Request, res: Response) => {
       return res.status(400).json({ error: 'Invalid category' });
     }
 
+    // The file stays in the importer's service account, so it can only go into their own folders
+    const target = await resolveUploadTarget(req, req.query.folderId as string | undefined, req.query.folderName as string | undefined);
+    if (!target) {
+      return res.status(404).json({ error: 'Folder not found' });
+    }
+    if (target.userId !== currentUserId(req)) {
+      return res.status(400).json({ error: 'Files can only be imported into your own folders' });
+    }
+    const { folderId, folderName } = target;
+
     // Download the file to get metadata
     console.log('checker1')
     const tempPath = path.join('./temp', `import_${Date.now()}`);
 
-    // Get file details from Google Drive
-    const fileDetails = await googleDriveService.getFile(fileId as string);
+    // Find which service account can see the file, then get its details from there
+    // Only files in the user's own service accounts can be imported
+    const serviceAccountId = await googleDriveService.locate(fileId as string);
+    const accountIds = (req.user as any).isAdmin ? null : await accountIdsOf(currentUserId(req));
+    if (!serviceAccountId || (accountIds && !accountIds.has(serviceAccountId))) {
+      return res.status(404).json({ error: 'File not found in Google Drive' });
+    }
+    const fileDetails = await googleDriveService.getFile(fileId as string, serviceAccountId);
     console.log('checker2')
     // Create file record
     const file = await storage.createFile({
@@ -330,16 +658,19 @@ router.get('/api/upload/googledrive', async (req: Request, res: Response) => {
 
     // Create upload record
     const upload = await storage.createUpload({
+      userId: currentUserId(req),
       fileType: fileType as string,
       externalFileId: fileId as string,
+      storageBackend: 'gdrive',
+      serviceAccountId,
       source: 'googledrive',
       fileId: file.id,
       fileSize: fileDetails.size || 0,
       uploadName: uploadName as string,
       category: category as any,
       status: 'ready',
-      folderId: folderId as string,
-      folderName: folderName as string,
+      folderId,
+      folderName,
     });
 
     console.log('checker4')
@@ -351,6 +682,7 @@ router.get('/api/upload/googledrive', async (req: Request, res: Response) => {
       // Schedule preview generation job
       await jobQueue.addPreviewJob(upload.id, fileId as string, fileType as string);
     }
+    await queueMediaProbe(upload.id, fileId as string, fileType as string);
     console.log('checker4')
 
     res.status(200).json({
@@ -367,27 +699,63 @@ router.get('/api/upload/googledrive', async (req: Request, res: Response) => {
 /**
  * Get all uploads with pagination
  */
-router.get('/api/uploads', async (req: Request, res: Response) => {
+router.get('/api/uploads', isAuthenticated, async (req: Request, res: Response) => {
   try {
     const {
       category,
       folderId,
+      tags,
+      fields,
       page = '1',
       limit = '10'
     } = req.query;
 
     const pageNumber = parseInt(page as string, 10);
     const pageSize = parseInt(limit as string, 10);
+    let userId = ownerFilter(req);
+    let fieldsOwnerId = currentUserId(req);
+
+    // Inside another user's folder shared with the caller, list everything the folder holds
+    if (folderId) {
+      const folder = await storage.getFolder(parseInt(folderId as string, 10));
+      if (folder?.userId && folder.userId !== userId) {
+        if (!(await sharing.folderRole(accessUser(req), folder))) {
+          return res.status(404).json({ error: 'Folder not found' });
+        }
+        userId = undefined;
+        fieldsOwnerId = folder.userId;
+      }
+    }
+
+    // Tags as tags=a,b (all must match); fields as fields[key]=value, typed by the owner's definitions
+    const tagFilter = typeof tags === 'string' ? normalizeTags(tags.split(',')) : undefined;
+    let fieldFilter: MetadataFieldValues | undefined;
+    if (fields && typeof fields === 'object' && !Array.isArray(fields)) {
+      const definitions = await storage.getMetadataFields(fieldsOwnerId);
+      fieldFilter = {};
+      for (const [key, value] of Object.entries(fields as Record<string, unknown>)) {
+        const field = definitions.find(definition => definition.key === key);
+        if (!field || typeof value !== 'string') {
+          return res.status(400).json({ error: `Unknown field filter: ${key}` });
+        }
+        fieldFilter[key] = field.type === 'number' ? Number(value) : value;
+      }
+    }
 
     // Get uploads with pagination - using try/catch for all storage operations
     let uploads: any[] = [];
     try {
       if (category === 'uncategorized') {
-        uploads = await googleDriveService.getAllFiles();
+        const accountIds = userId ? await accountIdsOf(userId) : null;
+        uploads = (await googleDriveService.getAllFiles())
+          .filter(file => !accountIds || (file.accountId && accountIds.has(file.accountId)));
       }
       else {
 
         uploads = await storage.getUploads({
+          userId,
+          tags: tagFilter,
+          fields: fieldFilter,
           category: category as string,
           folderId: folderId as string,
           offset: (pageNumber - 1) * pageSize,
@@ -404,6 +772,9 @@ router.get('/api/uploads', async (req: Request, res: Response) => {
     let total = 0;
     try {
       const allUploads = await storage.getUploads({
+        userId,
+        tags: tagFilter,
+        fields: fieldFilter,
         category: category as string,
         folderId: folderId as string
       });
@@ -430,13 +801,13 @@ router.get('/api/uploads', async (req: Request, res: Response) => {
 /**
  * Get a specific upload by ID
  */
-router.get('/api/uploads/:id', async (req: Request, res: Response) => {
+router.get('/api/uploads/:id', isAuthenticated, async (req: Request, res: Response) => {
   try {
     const { id } = req.params;
 
     const upload = await storage.getUpload(parseInt(id, 10));
 
-    if (!upload) {
+    if (!upload || !(await hasUploadRole(req, upload, 'viewer'))) {
       return res.status(404).json({ error: 'Upload not found' });
     }
 
@@ -0,0 +1,136 @@
+import path from 'path';
+import fs from 'fs/promises';
+import { storage } from '../storage';
+import { googleDriveService } from './googleDrive';
+import { BlobRef } from './blobStore';
+import { logger } from '../utils/logger';
+
+export interface AccountMigrationProgress {
+  total: number; // files owned by the source account when the migration started
+  migrated: number;
+  failed: number;
+  bytes: number; // bytes moved so far
+}
+
+/**
+ * Moves every Drive file a service account owns (uploads, thumbnails and HLS segments)
+ * onto other accounts, so a full account can be relieved or an old one retired
+ */
+class AccountMigrationService {
+  private tempDir = path.resolve('./temp/migrate');
+
+  async migrate(
+    sourceAccountId: string,
+    onProgress: (progress: AccountMigrationProgress) => Promise<void>
+  ): Promise<AccountMigrationProgress> {
+    logger.debug(`Starting migrate: sourceAccountId=${sourceAccountId}`);
+    await fs.mkdir(this.tempDir, { recursive: true });
+
+    // Files stay with the user who added the account
+    const source = (await storage.getAccounts()).find(account => account._id.toString() === sourceAccountId);
+    const ownerUserId = source?.userId ? String(source.userId) : null;
+
+    const fileIds = await storage.getFileIdsOwnedByAccount(sourceAccountId);
+    const progress: AccountMigrationProgress = { total: fileIds.length, migrated: 0, failed: 0, bytes: 0 };
+    await onProgress(progress);
+
+    for (const fileId of fileIds) {
+      try {
+        progress.bytes += await this.migrateFile({ id: fileId, accountId: sourceAccountId }, ownerUserId);
+        progress.migrated++;
+      } catch (error) {
+        // The original and every reference to it are untouched, so a later run can retry it
+        logger.error(`Failed to migrate file: fileId=${fileId}, sourceAccountId=${sourceAccountId}`, error);
+        progress.failed++;
+      }
+      await onProgress(progress);
+    }
+
+    logger.info(`Account migration finished: sourceAccountId=${sourceAccountId}, migrated=${progress.migrated}, failed=${progress.failed}, bytes=${progress.bytes}`);
+    return progress;
+  }
+
+  /**
+   * Copy one file to another account and repoint its records, returning its size. The
+   * original is deleted only once the copy is verified and nothing refers to it any more.
+   */
+  private async migrateFile(source: BlobRef, ownerUserId: string | null): Promise<number> {
+    logger.debug(`Starting migrateFile: fileId=${source.id}, accountId=${source.accountId}`);
+    const original = await googleDriveService.stat(source);
+
+    // A previous run may have stopped while repointing records; they may already use its copy
+    let copy = await this.pendingCopy(source, original.size);
+    if (copy) {
+      logger.info(`Resuming migration of ${source.id} with its earlier copy ${copy.id}@${copy.accountId}`);
+    } else {
+      copy = await this.copy(source, original, ownerUserId);
+    }
+
+    // Once reassignment starts records may point at the copy, so it is kept even if this throws
+    await storage.reassignDriveFile(source.id, source.accountId!, copy);
+
+    try {
+      await googleDriveService.delete(source);
+      await storage.incrementAccountUsage(source.accountId!, -original.size);
+    } catch (error) {
+      logger.warn(`Migrated ${source.id} but could not delete the original: ${(error as Error).message}`);
+    }
+
+    logger.debug(`Migrated file: fileId=${source.id} -> ${copy.id}@${copy.accountId}, size=${original.size}`);
+    return original.size;
+  }
+
+  /**
+   * Copy a file onto another account and verify its size
+   */
+  private async copy(
+    source: BlobRef,
+    original: { size: number; mimeType: string; name: string },
+    ownerUserId: string | null
+  ): Promise<BlobRef> {
+    const tempPath = path.join(this.tempDir, `${source.accountId}_${source.id}`);
+
+    let copy: BlobRef | null = null;
+    try {
+      await googleDriveService.download(source, tempPath);
+      copy = await googleDriveService.put(tempPath, original.mimeType, original.name, {
+        excludedAccountIds: [source.accountId!],
+        ownerUserId,
+      });
+
+      const copied = await googleDriveService.stat(copy);
+      if (copied.size !== original.size) {
+        throw new Error(`Size mismatch for ${source.id}: expected ${original.size} bytes, copy has ${copied.size}`);
+      }
+      return copy;
+    } catch (error) {
+      if (copy) {
+        await this.discard(copy, original.size);
+      }
+      throw error;
+    } finally {
+      await fs.rm(tempPath, { force: true });
+    }
+  }
+
+  private async pendingCopy(source: BlobRef, size: number): Promise<BlobRef | null> {
+    const copy = await storage.getPendingDriveCopy(source.id, source.accountId!);
+    if (!copy) return null;
+    try {
+      return (await googleDriveService.stat(copy)).size === size ? copy : null;
+    } catch {
+      return null; // gone; records still on it show up as dangling in reconciliation
+    }
+  }
+
+  private async discard(copy: BlobRef, size: number): Promise<void> {
+    try {
+      await googleDriveService.delete(copy);
+      await storage.incrementAccountUsage(copy.accountId!, -size);
+    } catch (error) {
+      logger.warn(`Failed to remove unused copy ${copy.id}: ${(error as Error).message}`);
+    }
+  }
+}
+
+export const accountMigration = new AccountMigrationService();
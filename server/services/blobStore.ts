@@ -0,0 +1,91 @@
+import { StorageBackend } from '@shared/schema';
+import config from '../config';
+import { googleDriveService } from './googleDrive';
+import { localBlobStore } from './localBlobStore';
+import { s3BlobStore } from './s3BlobStore';
+
+// Inclusive byte range, as in an HTTP Range header
+export interface ByteRange {
+  start: number;
+  end: number;
+}
+
+// Hints for where a new blob should go; stores without a choice ignore them
+export interface PutOptions {
+  folderId?: string | null; // folder of the upload the blob belongs to
+  excludedAccountIds?: string[]; // Drive service accounts not to use
+  ownerUserId?: string | null; // user the blob belongs to, whose Drive service accounts hold it
+}
+
+// Where to find a blob: its ID and, in Drive, the service account that owns it
+export interface BlobRef {
+  id: string;
+  accountId: string | null; // null outside Drive, or for records saved before owners were tracked
+}
+
+export interface BlobInfo extends BlobRef {
+  name: string;
+  mimeType: string;
+  size: number;
+  etag: string | null; // content hash reported by the backend, if it keeps one
+  modifiedAt: Date | null;
+}
+
+export interface BlobQuota {
+  used: number; // bytes
+  limit: number | null; // bytes, null when the backend has no limit
+}
+
+/**
+ * A place uploads, thumbnails and HLS segments are kept. Blob IDs are opaque and only
+ * meaningful to the backend that issued them, so records store both, along with the
+ * owning account where the backend has several.
+ */
+export interface BlobStore {
+  readonly backend: StorageBackend;
+
+  /** Store a local file and return where it went */
+  put(filePath: string, mimeType: string, name: string, options?: PutOptions): Promise<BlobRef>;
+
+  /** Read a blob, or only the given bytes of it */
+  getStream(ref: BlobRef, range?: ByteRange): Promise<NodeJS.ReadableStream>;
+
+  /** Copy a blob to a local file */
+  download(ref: BlobRef, destination: string): Promise<void>;
+
+  stat(ref: BlobRef): Promise<BlobInfo>;
+
+  /** Remove a blob; one that is already gone counts as removed */
+  delete(ref: BlobRef): Promise<void>;
+
+  list(): Promise<BlobInfo[]>;
+
+  quota(): Promise<BlobQuota>;
+}
+
+class BlobStoreRegistry {
+  /**
+   * Store holding a record's blobs; records from before storage backends existed are in Drive
+   */
+  for(backend: string | null | undefined): BlobStore {
+    switch (backend ?? 'gdrive') {
+      case 'gdrive':
+        return googleDriveService;
+      case 'local':
+        return localBlobStore;
+      case 's3':
+        return s3BlobStore;
+      default:
+        throw new Error(`Unknown storage backend: ${backend}`);
+    }
+  }
+
+  /**
+   * Store new blobs are written to, set by STORAGE_BACKEND
+   */
+  get default(): BlobStore {
+    return this.for(config.storage.backend);
+  }
+}
+
+export const blobStores = new BlobStoreRegistry();
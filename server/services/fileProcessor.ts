@@ -2,7 +2,8 @@ import sharp from 'sharp';
 import path from 'path';
 import fs from 'fs/promises';
 import { access, constants } from 'fs/promises';
-import { googleDriveService } from './googleDrive';
+import { blobStores, BlobRef, BlobStore } from './blobStore';
+import { storage } from '../storage';
 import { hlsConverter } from './hlsConverter';
 import { logger } from '../utils/logger';
 
@@ -40,22 +41,25 @@ class FileProcessor {
    */
   async generateVideoThumbnail(uploadId: number, externalFileId: string): Promise<string> {
     try {
-      // Download the video file from Google Drive
+      // Download the video file from its storage backend
+      const { store, source, folderId, ownerUserId } = await this.sourceOf(uploadId, externalFileId);
       const videoPath = path.join(this.tempDir, `${uploadId}_thumbnail_original.mp4`);
       const thumbnailPath = path.join(this.tempDir, `${uploadId}_thumbnail.jpg`);
 
-      await googleDriveService.downloadFile(externalFileId, videoPath);
+      await store.download(source, videoPath);
 
       // Generate thumbnail using FFmpeg
       await hlsConverter.generateThumbnail(videoPath, thumbnailPath);
       console.log('thumbnailPath', thumbnailPath, videoPath);
 
-      // Upload thumbnail to Google Drive
-      const thumbnailId = await googleDriveService.uploadFile(
+      // Upload thumbnail next to the video
+      const thumbnail = await store.put(
         thumbnailPath,
         'image/jpeg',
-        `${uploadId}_thumbnail.jpg`
+        `${uploadId}_thumbnail.jpg`,
+        { folderId, ownerUserId }
       );
+      await storage.updateUploadThumbnail(uploadId, thumbnail.id, thumbnail.accountId);
       console.log('success')
 
       // Clean up temporary files
@@ -63,7 +67,7 @@ class FileProcessor {
       await fs.rm(thumbnailPath, { force: true });
       console.log('cleanUp completed')
 
-      return thumbnailId;
+      return thumbnail.id;
     } catch (error) {
       logger.error(`Failed to generate video thumbnail for upload ${uploadId}:`, error);
       throw error;
@@ -75,28 +79,31 @@ class FileProcessor {
    */
   async generateImageThumbnail(uploadId: number, externalFileId: string): Promise<string> {
     try {
-      // Download the image file from Google Drive
+      // Download the image file from its storage backend
+      const { store, source, folderId, ownerUserId } = await this.sourceOf(uploadId, externalFileId);
       const imagePath = path.join(this.tempDir, `${uploadId}_original.jpg`);
       const thumbnailPath = path.join(this.tempDir, `${uploadId}_thumbnail.jpg`);
 
-      await googleDriveService.downloadFile(externalFileId, imagePath);
+      await store.download(source, imagePath);
       // Generate thumbnail using Sharp
       await sharp(imagePath)
         .resize(200, 200, { fit: 'inside' })
         .toFile(thumbnailPath);
 
-      // Upload thumbnail to Google Drive
-      const thumbnailId = await googleDriveService.uploadFile(
+      // Upload thumbnail next to the image
+      const thumbnail = await store.put(
         thumbnailPath,
         'image/jpeg',
-        `${uploadId}_thumbnail.jpg`
+        `${uploadId}_thumbnail.jpg`,
+        { folderId, ownerUserId }
       );
+      await storage.updateUploadThumbnail(uploadId, thumbnail.id, thumbnail.accountId);
 
       // Clean up temporary files
       await fs.rm(imagePath, { force: true });
       await fs.rm(thumbnailPath, { force: true });
 
-      return thumbnailId;
+      return thumbnail.id;
     } catch (error) {
       logger.error(`Failed to generate image thumbnail for upload ${uploadId}:`, error);
       throw error;
@@ -108,11 +115,12 @@ class FileProcessor {
    */
   async generatePdfPreview(uploadId: number, externalFileId: string): Promise<string> {
     try {
-      // Download the PDF file from Google Drive
+      // Download the PDF file from its storage backend
+      const { store, source, folderId, ownerUserId } = await this.sourceOf(uploadId, externalFileId);
       const pdfPath = path.join(this.tempDir, `${uploadId}_original.pdf`);
       const previewPath = path.join(this.tempDir, `${uploadId}_preview.jpg`);
 
-      await googleDriveService.downloadFile(externalFileId, pdfPath);
+      await store.download(source, pdfPath);
 
       // Generate preview from first page
       if (pdf2pic) {
@@ -151,18 +159,20 @@ class FileProcessor {
           .toFile(previewPath);
       }
 
-      // Upload preview to Google Drive
-      const previewId = await googleDriveService.uploadFile(
+      // Upload preview next to the PDF
+      const preview = await store.put(
         previewPath,
         'image/jpeg',
-        `${uploadId}_preview.jpg`
+        `${uploadId}_preview.jpg`,
+        { folderId, ownerUserId }
       );
+      await storage.updateUploadThumbnail(uploadId, preview.id, preview.accountId);
 
       // Clean up temporary files
       await fs.rm(pdfPath, { force: true });
       await fs.rm(previewPath, { force: true });
 
-      return previewId;
+      return preview.id;
     } catch (error) {
       logger.error(`Failed to generate PDF preview for upload ${uploadId}:`, error);
       throw error;
@@ -204,14 +214,16 @@ class FileProcessor {
   }
 
   /**
-   * Get a file from the cache or download it
+   * Get a file from the cache or download it from its store
    */
   async getFileFromCacheOrDownload(
-    externalFileId: string,
+    store: BlobStore,
+    blob: BlobRef,
     suffix: string = '',
     maxCacheTime: number = 24 * 60 * 60 * 1000 // 24 hours
   ): Promise<string> {
-    const cacheFilePath = path.join(this.cacheDir, `${externalFileId}${suffix}`);
+    // Blob IDs are only unique within a backend
+    const cacheFilePath = path.join(this.cacheDir, `${store.backend}_${blob.id}${suffix}`);
 
     try {
       // Check if file exists in cache
@@ -225,14 +237,36 @@ class FileProcessor {
         }
       }
 
-      // Download the file from Google Drive
-      await googleDriveService.downloadFile(externalFileId, cacheFilePath);
+      await store.download(blob, cacheFilePath);
       return cacheFilePath;
     } catch (error) {
-      logger.error(`Failed to get file from cache or download: ${externalFileId}`, error);
+      logger.error(`Failed to get file from cache or download: ${blob.id}`, error);
       throw error;
     }
   }
+
+  /**
+   * Store holding an upload's file and where the file is in it; thumbnails and previews
+   * go to the same store, placed as the upload's folder asks
+   */
+  private async sourceOf(
+    uploadId: number,
+    externalFileId: string
+  ): Promise<{ store: BlobStore; source: BlobRef; folderId: string | null; ownerUserId: string | null }> {
+    const upload = await storage.getUpload(uploadId);
+    if (!upload) {
+      throw new Error(`Upload not found: ${uploadId}`);
+    }
+
+    // The recorded owner only applies to the upload's own file
+    const accountId = upload.externalFileId === externalFileId ? upload.serviceAccountId ?? null : null;
+    return {
+      store: blobStores.for(upload.storageBackend),
+      source: { id: externalFileId, accountId },
+      folderId: upload.folderId ?? null,
+      ownerUserId: upload.userId ?? null,
+    };
+  }
 }
 
 export const fileProcessor = new FileProcessor();
@@ -2,15 +2,28 @@ import { google } from 'googleapis';
 import fs from 'fs/promises';
 import { createReadStream, createWriteStream } from 'fs';
 import { IServiceAccount, ServiceAccount as MongooseServiceAccount } from 'server/models/mongoose';
-import { Account } from '@shared/schema';
 import { logger } from '../utils/logger';
+import config from '../config';
 import { storage } from '../storage';
+import type { BlobInfo, BlobQuota, BlobRef, BlobStore, ByteRange, PutOptions } from './blobStore';
+import { createPlacementPolicy, placementReservations, PlacementCandidate, PlacementPolicy, PlacementRequest } from './placement';
+import { privateKeyOf, sealServiceAccountKey } from './serviceAccountCredentials';
+import { isEncryptionConfigured } from '../utils/credentialEncryption';
+
+export type ServiceAccountHealthStatus = 'unknown' | 'healthy' | 'unhealthy' | 'unloaded';
+
+export interface ServiceAccountHealth {
+  status: ServiceAccountHealthStatus; // unloaded: no client could be built, e.g. the key would not decrypt
+  checkedAt: Date | null;
+  error: string | null;
+}
 
 interface GoogleDriveServiceAccount {
   email: string;
   auth: any;
   drive: any;
   id?: string;
+  health: ServiceAccountHealth;
 }
 
 interface DriveFile {
@@ -19,15 +32,53 @@ interface DriveFile {
   mimeType: string;
   size: number;
   accountEmail: string;
+  accountId: string | null;
   createdAt: string;
   category: string;
   status: string;
   thumbnail: string;
 }
 
-class GoogleDriveService {
+/**
+ * Drive client acting as a service account. With GOOGLE_API_ROOT_URL set, calls go to that
+ * server and requests carry a self-signed JWT, so no token exchange with Google is needed.
+ */
+function createDriveClient(clientEmail: string, privateKey: string): { auth: any; drive: any } {
+  const auth = new google.auth.JWT(
+    clientEmail,
+    undefined,
+    privateKey,
+    ['https://www.googleapis.com/auth/drive']
+  );
+
+  const rootUrl = config.google.apiRootUrl;
+  if (rootUrl) {
+    auth.useJWTAccessWithScope = true;
+  }
+
+  const drive = google.drive({ version: 'v3', auth, ...(rootUrl ? { rootUrl } : {}) });
+  return { auth, drive };
+}
+
+// Google rejected the account itself: a revoked or deleted key, or a disabled account
+function isAuthError(error: any): boolean {
+  const status = error?.code ?? error?.response?.status;
+  const reason = error?.response?.data?.error;
+  return status === 401 || reason === 'invalid_grant' || reason === 'invalid_client' || reason === 'unauthorized_client';
+}
+
+// Drive refuses uploads past an account's storage quota with this reason
+function isStorageQuotaError(error: any): boolean {
+  const errors: any[] = error?.errors ?? error?.response?.data?.error?.errors ?? [];
+  return errors.some(e => e?.reason === 'storageQuotaExceeded');
+}
+
+class GoogleDriveService implements BlobStore {
+  readonly backend = 'gdrive' as const;
   private serviceAccounts: GoogleDriveServiceAccount[] = [];
   private initialized = false;
+  private healthTimer: NodeJS.Timeout | null = null;
+  private placementPolicy: PlacementPolicy = createPlacementPolicy(config.storage.drive.placementStrategy);
 
   async initialize(userId?: string): Promise<void> {
     logger.debug(`Starting initialization: userId=${userId || 'none'}`);
@@ -48,7 +99,6 @@ class GoogleDriveService {
 
       if (accounts.length === 0) {
         logger.warn('No Google Drive service accounts found.');
-        return;
       }
 
       logger.debug(`Found ${accounts.length} service accounts to load`);
@@ -70,6 +120,7 @@ class GoogleDriveService {
 
       logger.debug('Setting initialized flag to true');
       this.initialized = true;
+      this.startHealthChecks();
     } catch (error) {
       logger.error('Initialization failed:', error);
       throw error;
@@ -81,80 +132,197 @@ class GoogleDriveService {
     logger.debug(`Starting to load service account: email=${email}, id=${id}`);
 
     try {
-      logger.debug(`Creating JWT auth for service account: client_email=${credentials.client_email}`);
-      const auth = new google.auth.JWT(
-        credentials.client_email,
-        undefined,
-        credentials.private_key,
-        ['https://www.googleapis.com/auth/drive']
-      );
-
-      logger.debug(`Initializing Google Drive API client for: email=${email}`);
-      const drive = google.drive({ version: 'v3', auth });
+      logger.debug(`Creating Drive client for service account: client_email=${credentials.client_email}`);
+      const { auth, drive } = createDriveClient(credentials.client_email, privateKeyOf(account));
 
       logger.debug(`Adding service account to list: email=${email}, id=${id}`);
-      this.serviceAccounts.push({ email, auth, drive, id: id?.toString() });
+      this.serviceAccounts.push({
+        email,
+        auth,
+        drive,
+        id: id?.toString(),
+        health: { status: 'unknown', checkedAt: null, error: null },
+      });
       logger.info(`Service account loaded: ${email}`);
     } catch (error) {
       logger.error(`Error loading service account: ${email}`, error);
       throw error;
     }
+
+    if (credentials.private_key && isEncryptionConfigured()) {
+      await this.sealPrivateKey(account).catch(error =>
+        logger.error(`Failed to encrypt private key of service account ${email}:`, error)
+      );
+    }
+  }
+
+  /**
+   * Rebuild an account's client from its stored record after it was added or changed, or
+   * drop it if the record is gone
+   */
+  async refreshServiceAccount(accountId: string): Promise<void> {
+    logger.debug(`Starting refreshServiceAccount: accountId=${accountId}`);
+
+    if (!this.initialized) {
+      // Loads every account, this one included
+      await this.initialize();
+      return;
+    }
+
+    const account = await MongooseServiceAccount.findById(accountId);
+    this.evictServiceAccount(accountId);
+    if (!account) {
+      return;
+    }
+
+    try {
+      await this.loadServiceAccount(account);
+    } catch (error) {
+      logger.error(`Failed to reload service account ${account.email}:`, error);
+      return;
+    }
+    await this.checkHealth(accountId);
+  }
+
+  /**
+   * Stop using an account, e.g. after it was deleted. Calls already running finish with
+   * the old client.
+   */
+  evictServiceAccount(accountId: string): void {
+    const before = this.serviceAccounts.length;
+    this.serviceAccounts = this.serviceAccounts.filter(sa => sa.id !== accountId);
+    if (this.serviceAccounts.length < before) {
+      logger.info(`Service account unloaded: ${accountId}`);
+    }
+  }
+
+  getHealth(accountId: string): ServiceAccountHealth {
+    const sa = this.serviceAccounts.find(sa => sa.id === accountId);
+    return sa ? sa.health : { status: 'unloaded', checkedAt: null, error: null };
+  }
+
+  /**
+   * Make a cheap authenticated call as an account. Auth failures mark it unhealthy, which
+   * keeps new uploads off it until a later probe succeeds.
+   */
+  async checkHealth(accountId: string): Promise<ServiceAccountHealth> {
+    logger.debug(`Starting checkHealth: accountId=${accountId}`);
+    const sa = this.serviceAccounts.find(sa => sa.id === accountId);
+    if (!sa) {
+      return this.getHealth(accountId);
+    }
+
+    try {
+      await sa.drive.about.get({ fields: 'user(emailAddress)' });
+      sa.health = { status: 'healthy', checkedAt: new Date(), error: null };
+    } catch (error: any) {
+      const message = error?.response?.data?.error_description || error?.message || String(error);
+      // Network trouble says nothing about the account, so only auth failures count against it
+      const status = isAuthError(error) ? 'unhealthy' : 'unknown';
+      sa.health = { status, checkedAt: new Date(), error: message };
+      logger.warn(`Health check failed for service account ${sa.email} (${status}): ${message}`);
+    }
+
+    logger.debug(`Completed checkHealth: accountId=${accountId}, status=${sa.health.status}`);
+    return sa.health;
+  }
+
+  private async checkAllHealth(): Promise<void> {
+    for (const sa of this.serviceAccounts) {
+      if (sa.id) await this.checkHealth(sa.id);
+    }
+  }
+
+  private startHealthChecks(): void {
+    const minutes = config.storage.drive.healthCheckMinutes;
+    if (this.healthTimer || minutes === 0) return;
+
+    this.checkAllHealth().catch(error => logger.error('Service account health checks failed:', error));
+    this.healthTimer = setInterval(() => {
+      this.checkAllHealth().catch(error => logger.error('Service account health checks failed:', error));
+    }, minutes * 60 * 1000);
+    this.healthTimer.unref();
+  }
+
+  /**
+   * Encrypt the private key of an account saved before keys were encrypted at rest
+   */
+  private async sealPrivateKey(account: IServiceAccount): Promise<void> {
+    logger.debug(`Starting sealPrivateKey: email=${account.email}`);
+    const { credentials, encryptedPrivateKey } = sealServiceAccountKey(account.credentials as any);
+    await MongooseServiceAccount.updateOne(
+      { _id: account.id },
+      { credentials, encryptedPrivateKey }
+    ).exec();
+    logger.info(`Encrypted stored private key of service account ${account.email}`);
+  }
+
+  /**
+   * Check a key works by reading its account's storage quota, without loading it
+   */
+  async testCredentials(clientEmail: string, privateKey: string): Promise<{ used: number; limit: number | null }> {
+    logger.debug(`Starting testCredentials: clientEmail=${clientEmail}`);
+    const { drive } = createDriveClient(clientEmail, privateKey);
+    const response = await drive.about.get({ fields: 'storageQuota' });
+    const quota = response.data.storageQuota ?? {};
+
+    const used = parseInt(quota.usage ?? '0', 10);
+    const limit = quota.limit && quota.limit !== 'UNLIMITED' ? parseInt(quota.limit, 10) : null;
+    logger.debug(`Credentials accepted: clientEmail=${clientEmail}, used=${used}, limit=${limit ?? 'unlimited'}`);
+    return { used, limit };
   }
 
-  async getOptimalServiceAccount(): Promise<GoogleDriveServiceAccount> {
-    logger.debug('Starting getOptimalServiceAccount');
+  /**
+   * Loaded service accounts with room for a file, in the order the placement policy
+   * prefers them
+   */
+  async rankServiceAccounts(request: PlacementRequest): Promise<PlacementCandidate[]> {
+    logger.debug(`Starting rankServiceAccounts: size=${request.size}, pinnedAccountId=${request.pinnedAccountId || 'none'}, ownerUserId=${request.ownerUserId || 'any'}`);
 
     if (!this.initialized) {
       logger.debug('Initializing service due to uninitialized state');
       await this.initialize();
     }
 
-    logger.debug(`Checking available service accounts: count=${this.serviceAccounts.length}`);
     if (this.serviceAccounts.length === 0) {
       logger.error('No available service accounts.');
       throw new Error('No available service accounts.');
     }
 
-    logger.debug('Fetching accounts from storage');
+    const loaded = new Set(this.serviceAccounts.filter(sa => sa.health.status !== 'unhealthy').map(sa => sa.id));
+    const excluded = new Set(request.excludedAccountIds ?? []);
     const accounts = await storage.getAccounts();
-    logger.debug(`Retrieved ${accounts.length} accounts from storage`);
-
-    let optimal: Account | undefined;
-    let maxFree = -1;
+    const candidates: PlacementCandidate[] = [];
 
     for (const acc of accounts) {
-      if (!acc.isActive) {
-        logger.debug(`Skipping inactive account: id=${acc._id}`);
+      const id = acc._id.toString();
+      if (!acc.isActive || !loaded.has(id)) {
+        logger.debug(`Skipping inactive, unloaded or unhealthy account: id=${id}`);
         continue;
       }
-      const free = acc.storageLimit - acc.storageUsed;
-      logger.debug(`Evaluating account: id=${acc._id}, freeSpace=${free}`);
-      if (free > maxFree) {
-        maxFree = free;
-        optimal = acc;
+      if (excluded.has(id)) {
+        logger.debug(`Skipping excluded account: id=${id}`);
+        continue;
+      }
+      if (request.ownerUserId && String(acc.userId) !== request.ownerUserId) {
+        logger.debug(`Skipping account of another user: id=${id}`);
+        continue;
       }
-    }
-
-    if (!optimal) {
-      logger.error('No active service accounts with available storage.');
-      throw new Error('No active service accounts with available storage.');
-    }
-    console.log(
-      'optimal', optimal._id, this.serviceAccounts
-    )
 
-    logger.debug(`Selected optimal account: id=${optimal._id}`);
-    const selected = this.serviceAccounts.find((sa) => sa.id === optimal._id.toString());
-    if (!selected) {
-      logger.error(`Matching service account not found for id=${optimal._id}`);
-      throw new Error('Matching service account not found.');
+      const free = acc.storageLimit - acc.storageUsed;
+      const available = free - placementReservations.reservedFor(id);
+      logger.debug(`Evaluating account: id=${id}, freeSpace=${free}, available=${available}`);
+      if (available >= request.size) {
+        candidates.push({ id, email: acc.email, free, available, createdAt: new Date(acc.createdAt) });
+      }
     }
 
-    logger.debug(`Returning optimal service account: email=${selected.email}, id=${selected.id}`);
-    return selected;
+    const ranked = this.placementPolicy.rank(candidates, request);
+    logger.debug(`Ranked service accounts: ${ranked.map(c => c.id).join(',') || 'none'}`);
+    return ranked;
   }
 
-  async uploadFile(filePath: string, mimeType: string, fileName: string): Promise<string> {
+  async put(filePath: string, mimeType: string, fileName: string, options: PutOptions = {}): Promise<BlobRef> {
     logger.debug(`Starting file upload: filePath=${filePath}, mimeType=${mimeType}, fileName=${fileName}`);
 
     if (!this.initialized) {
@@ -162,161 +330,269 @@ class GoogleDriveService {
       await this.initialize();
     }
 
-    logger.debug('Selecting optimal service account');
-    const serviceAccount = await this.getOptimalServiceAccount();
-    logger.debug(`Selected service account: email=${serviceAccount.email}, id=${serviceAccount.id}`);
+    const { size } = await fs.stat(filePath);
+    const pinnedAccountId = await this.pinnedAccountFor(options.folderId);
+    const candidates = await this.rankServiceAccounts({
+      size,
+      pinnedAccountId,
+      excludedAccountIds: options.excludedAccountIds,
+      ownerUserId: options.ownerUserId,
+    });
+    if (candidates.length === 0) {
+      logger.error(`No active service account has room for ${size} bytes: fileName=${fileName}`);
+      throw new Error(`No active service account has room for ${fileName} (${size} bytes).`);
+    }
 
-    const media = { body: createReadStream(filePath) };
-    const fileMetadata = { name: fileName };
+    for (const candidate of candidates) {
+      const serviceAccount = this.serviceAccounts.find(sa => sa.id === candidate.id);
+      const release = serviceAccount && placementReservations.tryReserve(candidate.id, size, candidate.free);
+      if (!serviceAccount || !release) {
+        logger.debug(`Service account no longer has room: id=${candidate.id}`);
+        continue;
+      }
 
-    logger.debug(`Sending file creation request to Google Drive: fileName=${fileName}`);
-    const response = await serviceAccount.drive.files.create({
-      resource: fileMetadata,
-      media,
-      fields: 'id',
-    });
+      try {
+        logger.debug(`Sending file creation request to Google Drive: fileName=${fileName}, serviceAccount=${serviceAccount.email}`);
+        const response = await serviceAccount.drive.files.create({
+          resource: { name: fileName },
+          media: { body: createReadStream(filePath) },
+          fields: 'id',
+        });
 
-    logger.debug(`Setting public read permissions for file: fileId=${response.data.id}`);
-    await serviceAccount.drive.permissions.create({
-      fileId: response.data.id,
-      resource: { role: 'reader', type: 'anyone' },
-    });
+        logger.debug(`Setting public read permissions for file: fileId=${response.data.id}`);
+        await serviceAccount.drive.permissions.create({
+          fileId: response.data.id,
+          resource: { role: 'reader', type: 'anyone' },
+        });
 
-    logger.debug(`Retrieving file stats: filePath=${filePath}`);
-    const stats = await fs.stat(filePath);
-    if (serviceAccount.id === undefined) {
-      logger.error('Service account id is undefined');
-      throw new Error('Service account id is undefined.');
-    }
+        await storage.incrementAccountUsage(candidate.id, size);
 
-    logger.debug(`Retrieving account info for service account: id=${serviceAccount.id}`);
-    const accountInfo = await storage.getAccount(Number(serviceAccount.id));
+        logger.info(`Uploaded file: ${fileName}, ID: ${response.data.id}, serviceAccount: ${candidate.id}`);
+        return { id: response.data.id, accountId: candidate.id };
+      } catch (error) {
+        if (isAuthError(error)) {
+          logger.warn(`Service account ${serviceAccount.email} failed to authenticate, trying the next account`);
+          serviceAccount.health = { status: 'unhealthy', checkedAt: new Date(), error: (error as Error).message };
+          continue;
+        }
+        if (!isStorageQuotaError(error)) {
+          throw error;
+        }
 
-    if (accountInfo) {
-      logger.debug(`Updating storage usage for service account: id=${serviceAccount.id}, newUsage=${accountInfo.storageUsed + stats.size}`);
-      await storage.updateAccountUsage(serviceAccount.id, accountInfo.storageUsed + stats.size);
-    } else {
-      logger.debug(`No account info found for service account: id=${serviceAccount.id}`);
+        // Our usage figures were stale; treat the account as full until the next refresh
+        logger.warn(`Service account ${serviceAccount.email} is out of storage, trying the next account`);
+        const account = (await storage.getAccounts()).find(acc => acc._id.toString() === candidate.id);
+        if (account) {
+          await storage.updateAccountUsage(candidate.id, account.storageLimit);
+        }
+      } finally {
+        release();
+      }
     }
 
-    logger.info(`Uploaded file: ${fileName}, ID: ${response.data.id}`);
-    return response.data.id;
+    logger.error(`Every candidate service account was full: fileName=${fileName}`);
+    throw new Error(`No service account had room for ${fileName} (${size} bytes).`);
   }
 
-  async getFile(fileId: string): Promise<any> {
-    logger.debug(`Starting getFile: fileId=${fileId}`);
-    console.log('check');
+  /**
+   * Service account a folder's uploads are pinned to, if any
+   */
+  private async pinnedAccountFor(folderId: string | null | undefined): Promise<string | null> {
+    if (!folderId) return null;
+    const folder = await storage.getFolder(parseInt(folderId, 10));
+    return folder?.serviceAccountId ?? null;
+  }
 
-    if (!this.initialized) {
-      logger.debug('Initializing GoogleDriveService');
-      await this.initialize();
-    }
-    console.log('check2');
+  async getFile(fileId: string, accountId: string | null = null): Promise<any> {
+    logger.debug(`Starting getFile: fileId=${fileId}, accountId=${accountId || 'unknown'}`);
 
-    logger.debug(`Iterating through ${this.serviceAccounts.length} service accounts to find file: fileId=${fileId}`);
-    for (const sa of this.serviceAccounts) {
-      try {
-        logger.debug(`Attempting to get file from service account: email=${sa.email}, fileId=${fileId}`);
-        const response = await sa.drive.files.get({
-          fileId,
-          fields: 'id,name,mimeType,size',
-        });
-        logger.debug(`File found: fileId=${fileId}, name=${response.data.name}`);
-        return response.data;
-      } catch (error: any) {
-        if (error.code === 404) {
-          logger.debug(`File not found in service account: email=${sa.email}, fileId=${fileId}`);
-          continue;
-        }
-        logger.error(`Error getting file: fileId=${fileId}, serviceAccount=${sa.email}`, error);
-        throw error;
+    return this.withOwningAccount({ id: fileId, accountId }, async (sa) => {
+      const response = await sa.drive.files.get({
+        fileId,
+        fields: 'id,name,mimeType,size,md5Checksum,modifiedTime',
+      });
+      logger.debug(`File found: fileId=${fileId}, name=${response.data.name}`);
+      return response.data;
+    });
+  }
+
+  async stat(ref: BlobRef): Promise<BlobInfo> {
+    const file = await this.getFile(ref.id, ref.accountId);
+    return {
+      id: file.id,
+      accountId: ref.accountId,
+      name: file.name,
+      mimeType: file.mimeType,
+      size: parseInt(file.size ?? '0', 10),
+      etag: file.md5Checksum ?? null,
+      modifiedAt: file.modifiedTime ? new Date(file.modifiedTime) : null,
+    };
+  }
+
+  async download(ref: BlobRef, destination: string): Promise<void> {
+    const fileId = ref.id;
+    logger.debug(`Starting download: fileId=${fileId}, destination=${destination}`);
+
+    await this.withOwningAccount(ref, async (sa) => {
+      logger.debug(`Requesting file download from service account: email=${sa.email}, fileId=${fileId}`);
+      const response = await sa.drive.files.get({ fileId, alt: 'media' }, { responseType: 'stream' });
+
+      logger.debug(`Creating write stream: destination=${destination}`);
+      const dest = createWriteStream(destination);
+      await new Promise<void>((resolve, reject) => {
+        (response.data as NodeJS.ReadableStream)
+          .on('end', (): void => {
+            logger.info(`Downloaded file ${fileId} to ${destination}`);
+            resolve();
+          })
+          .on('error', (err: Error): void => {
+            logger.error(`Download error for file ${fileId}:`, err);
+            reject(err);
+          })
+          .pipe(dest);
+      });
+    });
+
+    logger.debug(`Download completed: fileId=${fileId}, destination=${destination}`);
+  }
+
+  async getStream(ref: BlobRef, range?: ByteRange): Promise<NodeJS.ReadableStream> {
+    const fileId = ref.id;
+    logger.debug(`Starting getStream: fileId=${fileId}, range=${range ? `${range.start}-${range.end}` : 'none'}`);
+
+    // Drive honours Range on media downloads, so only the requested bytes leave Drive
+    const headers = range ? { Range: `bytes=${range.start}-${range.end}` } : undefined;
+
+    return this.withOwningAccount(ref, async (sa) => {
+      const response = await sa.drive.files.get({ fileId, alt: 'media' }, { responseType: 'stream', headers });
+      logger.debug(`Streaming file: fileId=${fileId}, serviceAccount=${sa.email}`);
+      return response.data as NodeJS.ReadableStream;
+    });
+  }
+
+  async delete(ref: BlobRef): Promise<void> {
+    const fileId = ref.id;
+    logger.debug(`Starting delete: fileId=${fileId}`);
+
+    try {
+      await this.withOwningAccount(ref, async (sa) => {
+        await sa.drive.files.delete({ fileId });
+        logger.info(`Deleted file: ${fileId}`);
+        logger.debug(`File deleted successfully: fileId=${fileId}, serviceAccount=${sa.email}`);
+      });
+    } catch (error: any) {
+      // Already gone, e.g. removed by an earlier attempt that failed afterwards
+      if (error.code === 404 || error.message === `File not found: ${fileId}`) {
+        logger.warn(`File to delete was already gone: ${fileId}`);
+        return;
       }
+      throw error;
     }
-
-    logger.error(`File not found across all service accounts: fileId=${fileId}`);
-    throw new Error(`File not found: ${fileId}`);
   }
 
-  async downloadFile(fileId: string, destination: string): Promise<void> {
-    logger.debug(`Starting downloadFile: fileId=${fileId}, destination=${destination}`);
+  /**
+   * ID of the service account that can see a file, or null if none can. Only needed for
+   * records saved before owners were tracked.
+   */
+  async locate(fileId: string): Promise<string | null> {
+    logger.debug(`Starting locate: fileId=${fileId}`);
 
+    try {
+      return await this.withOwningAccount({ id: fileId, accountId: null }, async (sa) => {
+        await sa.drive.files.get({ fileId, fields: 'id' });
+        return sa.id ?? null;
+      });
+    } catch (error) {
+      if ((error as Error).message === `File not found: ${fileId}`) return null;
+      throw error;
+    }
+  }
+
+  /**
+   * Run a Drive call as the account owning a file. Without a known, loaded owner every
+   * account is tried in turn until one stops answering 404.
+   */
+  private async withOwningAccount<T>(
+    ref: BlobRef,
+    operation: (sa: GoogleDriveServiceAccount) => Promise<T>
+  ): Promise<T> {
     if (!this.initialized) {
       logger.debug('Initializing GoogleDriveService');
       await this.initialize();
     }
 
-    logger.debug(`Iterating through ${this.serviceAccounts.length} service accounts to download file: fileId=${fileId}`);
+    const owner = ref.accountId ? this.serviceAccounts.find(sa => sa.id === ref.accountId) : undefined;
+    if (owner) {
+      logger.debug(`Using owning service account: email=${owner.email}, fileId=${ref.id}`);
+      return operation(owner);
+    }
+
+    if (ref.accountId) {
+      logger.warn(`Owning service account ${ref.accountId} is not loaded, searching all accounts: fileId=${ref.id}`);
+    }
+
+    logger.debug(`Iterating through ${this.serviceAccounts.length} service accounts to find file: fileId=${ref.id}`);
     for (const sa of this.serviceAccounts) {
       try {
-        logger.debug(`Creating write stream: destination=${destination}`);
-        const dest = createWriteStream(destination);
-        logger.debug(`Requesting file download from service account: email=${sa.email}, fileId=${fileId}`);
-        const response = await sa.drive.files.get({ fileId, alt: 'media' }, { responseType: 'stream' });
-
-        logger.debug(`Starting file stream for download: fileId=${fileId}`);
-        await new Promise<void>((resolve, reject) => {
-          (response.data as NodeJS.ReadableStream)
-            .on('end', (): void => {
-              logger.info(`Downloaded file ${fileId} to ${destination}`);
-              resolve();
-            })
-            .on('error', (err: Error): void => {
-              logger.error(`Download error for file ${fileId}:`, err);
-              reject(err);
-            })
-            .pipe(dest);
-        });
-        logger.debug(`Download completed: fileId=${fileId}, destination=${destination}`);
-        return;
+        return await operation(sa);
       } catch (error: any) {
         if (error.code === 404) {
-          logger.debug(`File not found in service account: email=${sa.email}, fileId=${fileId}`);
+          logger.debug(`File not found in service account: email=${sa.email}, fileId=${ref.id}`);
           continue;
         }
-        logger.error(`Error downloading file: fileId=${fileId}, serviceAccount=${sa.email}`, error);
+        logger.error(`Drive request failed: fileId=${ref.id}, serviceAccount=${sa.email}`, error);
         throw error;
       }
     }
 
-    logger.error(`File not found across all service accounts: fileId=${fileId}`);
-    throw new Error(`File not found: ${fileId}`);
+    logger.error(`File not found across all service accounts: fileId=${ref.id}`);
+    throw new Error(`File not found: ${ref.id}`);
   }
 
-  async deleteFile(fileId: string): Promise<void> {
-    logger.debug(`Starting deleteFile: fileId=${fileId}`);
+  async list(): Promise<BlobInfo[]> {
+    const files = await this.getAllFiles();
+    return files.map(file => ({
+      id: file.id,
+      accountId: file.accountId,
+      name: file.name,
+      mimeType: file.mimeType,
+      size: file.size,
+      etag: null,
+      modifiedAt: file.createdAt ? new Date(file.createdAt) : null,
+    }));
+  }
+
+  async quota(): Promise<BlobQuota> {
+    logger.debug('Starting quota');
 
     if (!this.initialized) {
       logger.debug('Initializing GoogleDriveService');
       await this.initialize();
     }
 
-    logger.debug(`Iterating through ${this.serviceAccounts.length} service accounts to delete file: fileId=${fileId}`);
+    // Drive's capacity is the sum of every loaded service account's quota
+    let used = 0;
+    let limit: number | null = 0;
     for (const sa of this.serviceAccounts) {
-      try {
-        logger.debug(`Attempting to delete file from service account: email=${sa.email}, fileId=${fileId}`);
-        await sa.drive.files.delete({ fileId });
-        logger.info(`Deleted file: ${fileId}`);
-        logger.debug(`File deleted successfully: fileId=${fileId}, serviceAccount=${sa.email}`);
-        return;
-      } catch (error: any) {
-        if (error.code === 404) {
-          logger.debug(`File not found in service account: email=${sa.email}, fileId=${fileId}`);
-          continue;
-        }
-        logger.error(`Error deleting file: fileId=${fileId}, serviceAccount=${sa.email}`, error);
-        throw error;
+      const res = await sa.drive.about.get({ fields: 'storageQuota' });
+      const quota = res.data.storageQuota;
+      used += parseInt(quota.usage ?? '0', 10);
+      if (!quota.limit || quota.limit === 'UNLIMITED') {
+        limit = null;
+      } else if (limit !== null) {
+        limit += parseInt(quota.limit, 10);
       }
     }
 
-    logger.error(`File not found across all service accounts: fileId=${fileId}`);
-    throw new Error(`File not found: ${fileId}`);
+    logger.debug(`Completed quota: used=${used}, limit=${limit ?? 'unlimited'}`);
+    return { used, limit };
   }
 
-  async updateStorageStats(userId: string): Promise<void> {
-    logger.debug(`Starting updateStorageStats: userId=${userId}`);
+  async updateStorageStats(userId?: string): Promise<void> {
+    logger.debug(`Starting updateStorageStats: userId=${userId || 'all'}`);
 
     if (!this.initialized) {
-      logger.debug(`Initializing GoogleDriveService for userId=${userId}`);
+      logger.debug(`Initializing GoogleDriveService for userId=${userId || 'all'}`);
       await this.initialize(userId);
     }
 
@@ -338,7 +614,7 @@ class GoogleDriveService {
       }
     }
 
-    logger.debug(`Completed updateStorageStats for userId=${userId}`);
+    logger.debug(`Completed updateStorageStats for userId=${userId || 'all'}`);
   }
 
   async importFile(fileId: string, destination: string): Promise<{
@@ -374,7 +650,7 @@ class GoogleDriveService {
     }
 
     logger.debug(`Downloading file: fileId=${fileId}, destination=${destination}`);
-    await this.downloadFile(fileId, destination);
+    await this.download({ id: fileId, accountId: null }, destination);
     logger.debug(`File imported successfully: fileId=${fileId}, name=${metadata.name}`);
 
     return {
@@ -427,6 +703,7 @@ class GoogleDriveService {
                 mimeType: file.mimeType || 'application/octet-stream',
                 size: parseInt(file.size || '0', 10),
                 accountEmail: sa.email,
+                accountId: sa.id ?? null,
                 createdAt: file.createdTime,
                 status: 'ready',
                 category: file.fileExtension || 'N/A',
@@ -3,31 +3,27 @@ import fs from 'fs/promises';
 import path from 'path';
 import { access, constants } from 'fs/promises';
 import { storage } from '../storage';
-import { googleDriveService } from './googleDrive';
+import { blobStores, PutOptions } from './blobStore';
 import { logger } from '../utils/logger';
-import { JobStatus } from '@shared/schema';
-
-// Define HLS conversion settings for different resolutions
-const resolutionSettings = {
-  '1080p': {
-    width: 1920,
-    height: 1080,
-    videoBitrate: '5000k',
-    audioBitrate: '192k',
-  },
-  '720p': {
-    width: 1280,
-    height: 720,
-    videoBitrate: '2500k',
-    audioBitrate: '128k',
-  },
-  '360p': {
-    width: 640,
-    height: 360,
-    videoBitrate: '800k',
-    audioBitrate: '96k',
-  },
-};
+import { JobStatus, EncodingProfile } from '@shared/schema';
+import { audioEncodeArgs, bitrateToBps, videoEncodeArgs } from '../utils/encodingProfiles';
+import { getTargetDuration, parseAttributeList, parseMediaPlaylist } from '../utils/playlist';
+import { HlsEncryptionOptions, HlsKeyRotator, parseKeyPlaceholderUri } from '../utils/hlsEncryption';
+import { signedQuery, streamResources } from '../utils/signing';
+
+// A single output of a multi-rendition conversion
+export interface HlsRendition {
+  conversionId: number;
+  resolution: string;
+}
+
+// Variant attributes as reported by ffmpeg in the master playlist
+interface VariantStreamInfo {
+  bandwidth: number | null;
+  codecs: string | null;
+  width: number | null;
+  height: number | null;
+}
 
 class HlsConverter {
   private tempDir: string;
@@ -72,8 +68,14 @@ class HlsConverter {
     uploadId: number,
     conversionId: number,
     resolution: string,
-    externalFileId: string
+    externalFileId: string,
+    encryption?: HlsEncryptionOptions
   ): Promise<void> {
+    let keyRotator: HlsKeyRotator | null = null;
+    // Unique output directory for this conversion, and where the source is downloaded to
+    const outputDirPath = path.join(this.outputDir, `${uploadId}_${resolution}`);
+    const videoPath = path.join(this.tempDir, `${uploadId}_original.mp4`);
+
     try {
       // Get conversion and upload information
       const conversion = await storage.getConversion(conversionId);
@@ -89,26 +91,35 @@ class HlsConverter {
       // Update conversion status to processing
       await storage.updateConversionStatus(conversionId, 'processing', 0);
 
-      // Create unique output directory for this conversion
-      const outputDirPath = path.join(this.outputDir, `${uploadId}_${resolution}`);
       await fs.mkdir(outputDirPath, { recursive: true });
 
-      // Download the file from Google Drive
-      const videoPath = path.join(this.tempDir, `${uploadId}_original.mp4`);
-      await googleDriveService.downloadFile(externalFileId, videoPath);
+      // Download the file from its storage backend
+      await blobStores.for(upload.storageBackend).download(
+        { id: externalFileId, accountId: upload.serviceAccountId ?? null },
+        videoPath
+      );
 
       // Get video duration to calculate progress
       const duration = await this.getVideoDuration(videoPath);
 
-      // Settings based on resolution
-      const settings = resolutionSettings[resolution as keyof typeof resolutionSettings];
-      if (!settings) {
-        throw new Error(`Unsupported resolution: ${resolution}`);
+      // Settings come from the encoding profile named by the resolution
+      const profile = await storage.getEncodingProfileByName(resolution);
+      if (!profile) {
+        throw new Error(`Unknown encoding profile: ${resolution}`);
       }
 
       const outputPattern = path.join(outputDirPath, `segment_%03d.ts`);
       const playlistPath = path.join(outputDirPath, 'playlist.m3u8');
 
+      // Encrypted output reads rotating keys from a key info file
+      const encryptionArgs: string[] = [];
+      if (encryption) {
+        keyRotator = new HlsKeyRotator(outputDirPath, outputDirPath, encryption.segmentsPerKey);
+        await keyRotator.start();
+        encryptionArgs.push('-hls_key_info_file', keyRotator.keyInfoPath, '-hls_flags', 'periodic_rekey');
+      }
+      const rotator = keyRotator;
+
       // Start conversion
       await new Promise<void>((resolve, reject) => {
         let lastProgress = 0;
@@ -118,14 +129,14 @@ class HlsConverter {
             '-profile:v main',
             '-level 3.1',
             '-start_number 0',
-            '-hls_time 10', // 10-second chunks
+            `-hls_time ${profile.segmentDuration}`,
             '-hls_list_size 0',
             '-f hls',
-            `-vf scale=${settings.width}:${settings.height}`,
-            `-b:v ${settings.videoBitrate}`,
-            `-b:a ${settings.audioBitrate}`,
+            `-vf scale=${profile.width}:${profile.height}`,
           ])
-          .output(outputPattern)
+          .outputOptions(...videoEncodeArgs(profile), ...audioEncodeArgs(profile))
+          .outputOptions('-hls_segment_filename', outputPattern, ...encryptionArgs)
+          .output(playlistPath)
           .on('progress', async (progress) => {
             const currentProgress = Math.round(progress.percent ?? 0);
             
@@ -138,51 +149,11 @@ class HlsConverter {
           })
           .on('end', async () => {
             try {
-              // Create a list of chunks
-              const chunkFiles = await fs.readdir(outputDirPath);
-              const segments = chunkFiles.filter(file => file.endsWith('.ts'))
-                .sort((a, b) => {
-                  const numA = parseInt(a.match(/segment_(\d+)\.ts/)?.[1] || '0', 10);
-                  const numB = parseInt(b.match(/segment_(\d+)\.ts/)?.[1] || '0', 10);
-                  return numA - numB;
-                });
-
-              // Upload each segment to Google Drive
-              for (let i = 0; i < segments.length; i++) {
-                const segmentPath = path.join(outputDirPath, segments[i]);
-                const segmentId = await googleDriveService.uploadFile(
-                  segmentPath, 
-                  'video/mp2t', 
-                  `${uploadId}_${resolution}_segment_${i}.ts`
-                );
-                
-                // Create chunk record in database
-                await storage.createChunk({
-                  uploadId,
-                  index: i,
-                  duration: 10, // Assuming 10 second segments
-                  resolution,
-                  path: segmentPath,
-                  externalFileId: segmentId,
-                });
-              }
+              const keys = rotator ? await rotator.stop() : null;
 
-              // Upload the playlist file
-              const playlistContent = await fs.readFile(playlistPath, 'utf-8');
-              
-              // Modify playlist content to use chunk IDs
-              const chunks = await storage.getChunksByUploadId(uploadId, resolution);
-              let modifiedPlaylist = playlistContent;
-              
-              for (let i = 0; i < chunks.length; i++) {
-                modifiedPlaylist = modifiedPlaylist.replace(
-                  `segment_${i.toString().padStart(3, '0')}.ts`,
-                  `/api/chunk/hls-stream?chunkId=${chunks[i].id}`
-                );
-              }
-              
-              // Save modified playlist
-              await fs.writeFile(playlistPath, modifiedPlaylist);
+              // Store each segment with the duration ffmpeg wrote for it
+              await this.storeRenditionSegments(uploadId, resolution, outputDirPath, { folderId: upload.folderId, ownerUserId: upload.userId });
+              await storage.updateConversionEncryption(conversionId, keys);
               
               // Update conversion status to ready
               await storage.updateConversionStatus(conversionId, 'ready', 100);
@@ -195,9 +166,6 @@ class HlsConverter {
                 await storage.updateUploadStatus(uploadId, 'ready');
               }
               
-              // Clean up temp files
-              await fs.rm(videoPath, { force: true });
-              
               logger.info(`HLS conversion completed for ${uploadId} (${resolution})`);
               resolve();
             } catch (error) {
@@ -213,11 +181,275 @@ class HlsConverter {
       });
     } catch (error) {
       logger.error(`HLS conversion failed for ${uploadId} (${resolution}):`, error);
+      await keyRotator?.stop();
       await storage.updateConversionError(conversionId, (error as Error).message || 'Unknown error');
       throw error;
+    } finally {
+      // Clean up temp files
+      await fs.rm(videoPath, { force: true });
+      await fs.rm(outputDirPath, { recursive: true, force: true });
     }
   }
 
+  /**
+   * Convert a video to several HLS renditions with a single download and decode
+   */
+  async convertToHlsMultiVariant(
+    uploadId: number,
+    renditions: HlsRendition[],
+    externalFileId: string,
+    encryption?: HlsEncryptionOptions
+  ): Promise<void> {
+    let keyRotator: HlsKeyRotator | null = null;
+    const label = renditions.map(r => r.resolution).join(',');
+    const markAllFailed = (message: string) =>
+      Promise.all(renditions.map(r => storage.updateConversionError(r.conversionId, message)));
+    // One directory per rendition, named after the resolution so %v resolves to it
+    const outputDirPath = path.join(this.outputDir, `${uploadId}_abr`);
+    const videoPath = path.join(this.tempDir, `${uploadId}_abr_source`);
+
+    try {
+      const upload = await storage.getUpload(uploadId);
+      if (!upload) {
+        throw new Error(`Upload not found: ${uploadId}`);
+      }
+
+      const profiles: EncodingProfile[] = [];
+      for (const rendition of renditions) {
+        const profile = await storage.getEncodingProfileByName(rendition.resolution);
+        if (!profile) {
+          throw new Error(`Unknown encoding profile: ${rendition.resolution}`);
+        }
+        profiles.push(profile);
+        const conversion = await storage.getConversion(rendition.conversionId);
+        if (!conversion) {
+          throw new Error(`Conversion job not found: ${rendition.conversionId}`);
+        }
+      }
+
+      // The HLS muxer cuts every variant at the same points
+      const segmentDuration = profiles[0].segmentDuration;
+      if (profiles.some(profile => profile.segmentDuration !== segmentDuration)) {
+        throw new Error('Renditions in a single pass must share a segment duration');
+      }
+
+      await Promise.all(renditions.map(r => storage.updateConversionStatus(r.conversionId, 'processing', 0)));
+
+      for (const rendition of renditions) {
+        await fs.mkdir(path.join(outputDirPath, rendition.resolution), { recursive: true });
+      }
+
+      // Download the source once for all renditions
+      await blobStores.for(upload.storageBackend).download(
+        { id: externalFileId, accountId: upload.serviceAccountId ?? null },
+        videoPath
+      );
+
+      const { hasAudio } = await this.probeVideo(videoPath);
+
+      // Decode once, split the picture and scale each branch to its rendition
+      const filterGraph = [
+        `[0:v]split=${renditions.length}${renditions.map((_, i) => `[v${i}in]`).join('')}`,
+        ...profiles.map((profile, i) => `[v${i}in]scale=${profile.width}:${profile.height}[v${i}out]`),
+      ].join(';');
+
+      const streamArgs: string[] = [];
+      const streamMap: string[] = [];
+      renditions.forEach((r, i) => {
+        streamArgs.push('-map', `[v${i}out]`, ...videoEncodeArgs(profiles[i], i));
+        if (hasAudio) {
+          streamArgs.push('-map', '0:a:0', ...audioEncodeArgs(profiles[i], i));
+        }
+        streamMap.push(hasAudio ? `v:${i},a:${i},name:${r.resolution}` : `v:${i},name:${r.resolution}`);
+      });
+
+      // One key sequence covers every rendition: the muxer reads a single key info file,
+      // and all renditions carry the same content anyway. Rotation follows the first one.
+      const encryptionArgs: string[] = [];
+      if (encryption) {
+        keyRotator = new HlsKeyRotator(
+          outputDirPath,
+          path.join(outputDirPath, renditions[0].resolution),
+          encryption.segmentsPerKey
+        );
+        await keyRotator.start();
+        encryptionArgs.push('-hls_key_info_file', keyRotator.keyInfoPath, '-hls_flags', 'periodic_rekey');
+      }
+
+      await new Promise<void>((resolve, reject) => {
+        let lastProgress = 0;
+
+        ffmpeg(videoPath)
+          .complexFilter(filterGraph)
+          .outputOptions(
+            ...streamArgs,
+            '-profile:v', 'main',
+            // Keyframes on segment boundaries keep the renditions switchable
+            '-force_key_frames', `expr:gte(t,n_forced*${segmentDuration})`,
+            '-f', 'hls',
+            '-hls_time', String(segmentDuration),
+            '-hls_list_size', '0',
+            '-hls_playlist_type', 'vod',
+            '-start_number', '0',
+            '-hls_segment_filename', path.join(outputDirPath, '%v', 'segment_%03d.ts'),
+            '-master_pl_name', 'master.m3u8',
+            '-var_stream_map', streamMap.join(' '),
+            ...encryptionArgs
+          )
+          .output(path.join(outputDirPath, '%v', 'playlist.m3u8'))
+          .on('progress', async (progress) => {
+            const currentProgress = Math.round(progress.percent ?? 0);
+
+            // Every rendition advances together, so they all share the same progress
+            if (currentProgress >= lastProgress + 5) {
+              lastProgress = currentProgress;
+              await Promise.all(renditions.map(r => storage.updateConversionProgress(r.conversionId, currentProgress)));
+              logger.info(`HLS multi-rendition progress for ${uploadId} (${label}): ${currentProgress}%`);
+            }
+          })
+          .on('end', () => resolve())
+          .on('error', (err) => reject(err))
+          .run();
+      });
+
+      const keys = keyRotator ? await keyRotator.stop() : null;
+
+      const masterPlaylist = await fs.readFile(path.join(outputDirPath, 'master.m3u8'), 'utf-8');
+      const variants = this.parseMasterPlaylist(masterPlaylist);
+
+      for (const rendition of renditions) {
+        await this.storeRenditionSegments(
+          uploadId,
+          rendition.resolution,
+          path.join(outputDirPath, rendition.resolution),
+          { folderId: upload.folderId, ownerUserId: upload.userId }
+        );
+        await storage.updateConversionEncryption(rendition.conversionId, keys);
+
+        const info = variants.get(rendition.resolution);
+        if (info) {
+          await storage.updateConversionStreamInfo(rendition.conversionId, info);
+        }
+        await storage.updateConversionStatus(rendition.conversionId, 'ready', 100);
+      }
+
+      // Check if all conversions are complete
+      const conversions = await storage.getConversionsByUploadId(uploadId);
+      const allReady = conversions.every(conv => conv.status === 'ready' || conv.status === 'failed');
+
+      if (allReady) {
+        await storage.updateUploadStatus(uploadId, 'ready');
+      }
+
+      logger.info(`HLS multi-rendition conversion completed for ${uploadId} (${label})`);
+    } catch (error) {
+      logger.error(`HLS multi-rendition conversion failed for ${uploadId} (${label}):`, error);
+      await keyRotator?.stop();
+      await markAllFailed((error as Error).message || 'Unknown error');
+      throw error;
+    } finally {
+      // Clean up temp files
+      await fs.rm(videoPath, { force: true });
+      await fs.rm(outputDirPath, { recursive: true, force: true });
+    }
+  }
+
+  /**
+   * Upload the segments of one rendition to the default store and record them as chunks, in
+   * playlist order and with the exact #EXTINF durations ffmpeg wrote. Segments of an earlier
+   * run of the same rendition are replaced once the new ones are stored.
+   */
+  private async storeRenditionSegments(
+    uploadId: number,
+    resolution: string,
+    dirPath: string,
+    options: PutOptions
+  ): Promise<void> {
+    const playlist = parseMediaPlaylist(await fs.readFile(path.join(dirPath, 'playlist.m3u8'), 'utf-8'));
+    if (playlist.segments.length === 0) {
+      throw new Error(`ffmpeg produced no segments for ${uploadId} (${resolution})`);
+    }
+
+    const previous = await storage.getChunksByUploadId(uploadId, resolution);
+
+    const store = blobStores.default;
+    for (let i = 0; i < playlist.segments.length; i++) {
+      const segment = playlist.segments[i];
+      const segmentPath = path.join(dirPath, path.basename(segment.uri));
+      const blob = await store.put(
+        segmentPath,
+        'video/mp2t',
+        `${uploadId}_${resolution}_segment_${i}.ts`,
+        options
+      );
+
+      await storage.createChunk({
+        uploadId,
+        index: i,
+        duration: segment.duration,
+        resolution,
+        path: segmentPath,
+        externalFileId: blob.id,
+        storageBackend: store.backend,
+        serviceAccountId: blob.accountId,
+        keyIndex: segment.keyUri ? parseKeyPlaceholderUri(segment.keyUri) : null,
+        keyIv: segment.keyIv,
+      });
+    }
+
+    if (previous.length > 0) {
+      await storage.deleteChunks(previous.map(chunk => chunk.id));
+      logger.info(`Replaced ${previous.length} earlier segments of ${uploadId} (${resolution})`);
+    }
+  }
+
+  /**
+   * Read BANDWIDTH, CODECS and RESOLUTION per variant from an ffmpeg master playlist,
+   * keyed by the variant's directory name
+   */
+  private parseMasterPlaylist(content: string): Map<string, VariantStreamInfo> {
+    const variants = new Map<string, VariantStreamInfo>();
+    const lines = content.split(/\r?\n/).map(line => line.trim());
+
+    for (let i = 0; i < lines.length; i++) {
+      if (!lines[i].startsWith('#EXT-X-STREAM-INF:')) continue;
+
+      const attributes = parseAttributeList(lines[i].slice('#EXT-X-STREAM-INF:'.length));
+
+      const uri = lines.slice(i + 1).find(line => line && !line.startsWith('#'));
+      if (!uri) continue;
+
+      const resolution = attributes['RESOLUTION']?.match(/^(\d+)x(\d+)$/);
+      variants.set(path.posix.dirname(uri), {
+        bandwidth: attributes['BANDWIDTH'] ? parseInt(attributes['BANDWIDTH'], 10) : null,
+        codecs: attributes['CODECS'] || null,
+        width: resolution ? parseInt(resolution[1], 10) : null,
+        height: resolution ? parseInt(resolution[2], 10) : null,
+      });
+    }
+
+    return variants;
+  }
+
+  /**
+   * Get duration and whether the source carries an audio stream
+   */
+  private async probeVideo(videoPath: string): Promise<{ duration: number; hasAudio: boolean }> {
+    return new Promise((resolve, reject) => {
+      ffmpeg.ffprobe(videoPath, (err, metadata) => {
+        if (err) {
+          reject(err);
+          return;
+        }
+
+        resolve({
+          duration: metadata.format.duration || 0,
+          hasAudio: metadata.streams.some(stream => stream.codec_type === 'audio'),
+        });
+      });
+    });
+  }
+
   /**
    * Get video duration using FFmpeg
    */
@@ -279,29 +511,41 @@ class HlsConverter {
   }
 
   /**
-   * Generate an HLS master playlist for multiple resolutions
+   * Generate an HLS master playlist for multiple resolutions, with variant URLs signed
+   * until expires (unix seconds)
    */
-  async generateMasterPlaylist(uploadId: number): Promise<string> {
+  async generateMasterPlaylist(uploadId: number, expires: number): Promise<string> {
     try {
       const chunks = await storage.getChunksByUploadId(uploadId);
       const resolutions = Array.from(new Set(chunks.map(chunk => chunk.resolution)));
+      const conversions = await storage.getConversionsByUploadId(uploadId);
       
       // Create master playlist content
       let masterPlaylist = '#EXTM3U\n';
       masterPlaylist += '#EXT-X-VERSION:3\n';
       
       for (const resolution of resolutions) {
-        const settings = resolutionSettings[resolution as keyof typeof resolutionSettings];
-        if (!settings) continue;
+        const profile = await storage.getEncodingProfileByName(resolution);
+        if (!profile) continue;
         
-        masterPlaylist += `#EXT-X-STREAM-INF:BANDWIDTH=${parseInt(settings.videoBitrate) * 1000},RESOLUTION=${settings.width}x${settings.height}\n`;
-        masterPlaylist += `/api/stream/playlist/${uploadId}?resolution=${resolution}\n`;
+        // Prefer what the encoder measured over the nominal profile
+        const conversion = conversions.find(conv => conv.resolution === resolution);
+        if (conversion?.bandwidth) {
+          const width = conversion.width ?? profile.width;
+          const height = conversion.height ?? profile.height;
+          const codecs = conversion.codecs ? `,CODECS="${conversion.codecs}"` : '';
+          masterPlaylist += `#EXT-X-STREAM-INF:BANDWIDTH=${conversion.bandwidth},RESOLUTION=${width}x${height}${codecs}\n`;
+        } else {
+          const bandwidth = bitrateToBps(profile.videoBitrate) + bitrateToBps(profile.audioBitrate);
+          masterPlaylist += `#EXT-X-STREAM-INF:BANDWIDTH=${bandwidth},RESOLUTION=${profile.width}x${profile.height}\n`;
+        }
+        masterPlaylist += `/api/stream/playlist/${uploadId}?resolution=${resolution}&${signedQuery(streamResources.playlist(uploadId, resolution), expires)}\n`;
       }
       
       const masterPlaylistPath = path.join(this.outputDir, `${uploadId}_master.m3u8`);
       await fs.writeFile(masterPlaylistPath, masterPlaylist);
       
-      return masterPlaylistPath;
+      return masterPlaylist;
     } catch (error) {
       logger.error(`Failed to generate master playlist for ${uploadId}:`, error);
       throw error;
@@ -309,9 +553,10 @@ class HlsConverter {
   }
 
   /**
-   * Generate an HLS playlist for a specific resolution
+   * Generate an HLS playlist for a specific resolution, with segment and key URLs signed
+   * until expires (unix seconds)
    */
-  async generatePlaylist(uploadId: number, resolution?: string): Promise<string> {
+  async generatePlaylist(uploadId: number, resolution: string | undefined, expires: number): Promise<string> {
     try {
       const chunks = await storage.getChunksByUploadId(uploadId, resolution);
       
@@ -334,12 +579,31 @@ class HlsConverter {
       // Create playlist content
       let playlist = '#EXTM3U\n';
       playlist += '#EXT-X-VERSION:3\n';
-      playlist += `#EXT-X-TARGETDURATION:${Math.ceil(Math.max(...filteredChunks.map(chunk => chunk.duration)))}\n`;
+      playlist += `#EXT-X-TARGETDURATION:${getTargetDuration(filteredChunks.map(chunk => chunk.duration))}\n`;
       playlist += '#EXT-X-MEDIA-SEQUENCE:0\n';
       
+      // Encrypted chunks point players at the key route; a key tag is only needed where it changes
+      const conversion = (await storage.getConversionsByUploadId(uploadId))
+        .find(conv => conv.resolution === useResolution);
+      let currentKeyTag = '#EXT-X-KEY:METHOD=NONE';
+      
       for (const chunk of filteredChunks) {
+        let keyTag = '#EXT-X-KEY:METHOD=NONE';
+        if (typeof chunk.keyIndex === 'number') {
+          if (!conversion) {
+            throw new Error(`No conversion found for encrypted chunks of ${uploadId} (${useResolution})`);
+          }
+          const iv = chunk.keyIv ? `,IV=${chunk.keyIv}` : '';
+          const keyQuery = signedQuery(streamResources.key(conversion.id, chunk.keyIndex), expires);
+          keyTag = `#EXT-X-KEY:METHOD=AES-128,URI="/api/stream/key/${conversion.id}?index=${chunk.keyIndex}&${keyQuery}"${iv}`;
+        }
+        if (keyTag !== currentKeyTag) {
+          playlist += `${keyTag}\n`;
+          currentKeyTag = keyTag;
+        }
+        
         playlist += `#EXTINF:${chunk.duration.toFixed(6)},\n`;
-        playlist += `/api/chunk/hls-stream?chunkId=${chunk.id}\n`;
+        playlist += `/api/chunk/hls-stream?chunkId=${chunk.id}&${signedQuery(streamResources.chunk(chunk.id), expires)}\n`;
       }
       
       playlist += '#EXT-X-ENDLIST\n';
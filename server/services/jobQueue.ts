@@ -1,8 +1,19 @@
 import { Queue, Worker, Job } from 'bullmq';
 import Redis from 'ioredis';
-import { storage } from '../storage';
-import { hlsConverter } from './hlsConverter';
+import { ProbedMetadata, storage } from '../storage';
+import { hlsConverter, HlsRendition } from './hlsConverter';
+import { HlsEncryptionOptions } from '../utils/hlsEncryption';
 import { fileProcessor } from './fileProcessor';
+import { blobStores } from './blobStore';
+import { mediaProbe } from './mediaProbe';
+import { googleDriveService } from './googleDrive';
+import { accountMigration, AccountMigrationProgress } from './accountMigration';
+import { storageReconciliation } from './storageReconciliation';
+import { AccessUser, hasRole, sharing } from './sharing';
+import {
+  BulkItemResult, BulkOperationProgress, BulkOperationResult, EncodingProfile, FileCategory, Folder,
+  StorageReconciliationReport, Upload
+} from '@shared/schema';
 import { logger } from '../utils/logger';
 import config from 'server/config';
 
@@ -16,10 +27,47 @@ const redisConnection = new Redis(config.redis.url || 'redis://127.0.0.1:6379',
 // Job types
 export enum JobType {
   HLS_CONVERSION = 'hls_conversion',
+  HLS_MULTI_CONVERSION = 'hls_multi_conversion',
   GENERATE_THUMBNAIL = 'generate_thumbnail',
   GENERATE_PREVIEW = 'generate_preview',
+  PROBE_METADATA = 'probe_metadata',
+  BACKFILL_SERVICE_ACCOUNTS = 'backfill_service_accounts',
+  MIGRATE_ACCOUNT = 'migrate_account',
+  RECONCILE_STORAGE = 'reconcile_storage',
+  PURGE_TRASH = 'purge_trash',
+  BULK_OPERATION = 'bulk_operation',
 }
 
+// What a bulk operation does to each upload in its selection
+export type BulkOperation =
+  | { action: 'move'; folderId: number | null }
+  | { action: 'delete' }
+  | { action: 'tag'; addTags: string[]; removeTags: string[] }
+  | { action: 'categorize'; category: FileCategory }
+  | { action: 'convert'; resolutions: string[]; encrypt: boolean }
+  | { action: 'thumbnails' };
+
+export interface BulkOperationJobData {
+  user: AccessUser;
+  uploadIds: number[];
+  operation: BulkOperation;
+}
+
+// One rendition asked for by queueHlsConversions, and what became of it
+export interface HlsConversionRequest {
+  conversionId: number;
+  resolution: string;
+  status: string;
+  message: string;
+}
+
+// Job scheduler repeating the storage reconciliation
+const reconciliationSchedulerId = 'storage_reconciliation';
+
+// Job scheduler purging expired trash; retention is in days, so hourly is plenty
+const trashPurgeSchedulerId = 'trash_purge';
+const trashPurgeEveryMs = 60 * 60 * 1000;
+
 // Job Queue service
 class JobQueueService {
   private conversionQueue: Queue;
@@ -31,6 +79,15 @@ class JobQueueService {
       connection: this.redisConnection
     });
     this.initializeWorkers();
+    this.scheduleStorageReconciliation().catch(error =>
+      logger.error('Failed to schedule storage reconciliation:', error)
+    );
+    this.scheduleTrashPurge().catch(error =>
+      logger.error('Failed to schedule trash purge:', error)
+    );
+    this.backfillLegacyOwners().catch(error =>
+      logger.error('Failed to queue owner backfill:', error)
+    );
     logger.info('Job queue service initialized with Redis');
   }
 
@@ -45,10 +102,24 @@ class JobQueueService {
           switch (job.name) {
             case JobType.HLS_CONVERSION:
               return this.processHlsConversion(job);
+            case JobType.HLS_MULTI_CONVERSION:
+              return this.processHlsMultiConversion(job);
             case JobType.GENERATE_THUMBNAIL:
               return this.processGenerateThumbnail(job);
             case JobType.GENERATE_PREVIEW:
               return this.processGeneratePreview(job);
+            case JobType.PROBE_METADATA:
+              return this.processProbeMetadata(job);
+            case JobType.BACKFILL_SERVICE_ACCOUNTS:
+              return this.processBackfillServiceAccounts();
+            case JobType.MIGRATE_ACCOUNT:
+              return this.processMigrateAccount(job);
+            case JobType.RECONCILE_STORAGE:
+              return this.processReconcileStorage();
+            case JobType.PURGE_TRASH:
+              return this.processPurgeTrash();
+            case JobType.BULK_OPERATION:
+              return this.processBulkOperation(job);
             default:
               throw new Error(`Unknown job type: ${job.name}`);
           }
@@ -70,7 +141,7 @@ class JobQueueService {
   }
 
   private async processHlsConversion(job: Job): Promise<void> {
-    const { uploadId, conversionId, resolution, externalFileId } = job.data;
+    const { uploadId, conversionId, resolution, externalFileId, encryption } = job.data;
 
     logger.info(`Processing HLS conversion job: uploadId=${uploadId}, resolution=${resolution}`);
 
@@ -82,7 +153,7 @@ class JobQueueService {
     await storage.updateConversionStatus(conversionId, 'processing', 0);
 
     try {
-      await hlsConverter.convertToHls(uploadId, conversionId, resolution, externalFileId);
+      await hlsConverter.convertToHls(uploadId, conversionId, resolution, externalFileId, encryption ?? undefined);
     } catch (error) {
       logger.error(`HLS conversion failed: uploadId=${uploadId}, resolution=${resolution}`, error);
       await storage.updateConversionError(conversionId, (error as Error).message);
@@ -90,6 +161,20 @@ class JobQueueService {
     }
   }
 
+  private async processHlsMultiConversion(job: Job): Promise<void> {
+    const { uploadId, renditions, externalFileId, encryption } = job.data as {
+      uploadId: number;
+      renditions: HlsRendition[];
+      externalFileId: string;
+      encryption: HlsEncryptionOptions | null;
+    };
+
+    logger.info(`Processing HLS multi-rendition job: uploadId=${uploadId}, resolutions=${renditions.map(r => r.resolution).join(',')}`);
+
+    // convertToHlsMultiVariant marks every rendition failed on error
+    await hlsConverter.convertToHlsMultiVariant(uploadId, renditions, externalFileId, encryption ?? undefined);
+  }
+
   private async processGenerateThumbnail(job: Job): Promise<string> {
     const { uploadId, externalFileId } = job.data;
 
@@ -122,12 +207,326 @@ class JobQueueService {
     }
   }
 
+  private async processProbeMetadata(job: Job): Promise<ProbedMetadata> {
+    const { uploadId, externalFileId, fileType } = job.data;
+
+    logger.info(`Processing metadata probe job: uploadId=${uploadId}, fileType=${fileType}`);
+
+    try {
+      return await mediaProbe.probeUpload(uploadId, externalFileId, fileType);
+    } catch (error) {
+      logger.error(`Metadata probe failed: uploadId=${uploadId}`, error);
+      throw error;
+    }
+  }
+
+  /**
+   * Record the owning service account on Drive uploads, thumbnails and segments saved
+   * before owners were tracked, so reads stop searching every account for them. Then give
+   * uploads saved before users owned them an owner: the user who added their service
+   * account, or else the owner of their folder.
+   */
+  private async processBackfillServiceAccounts(): Promise<{ uploads: number; chunks: number; owners: number; unresolved: number }> {
+    logger.info('Processing service account backfill job');
+
+    // Deduplicated uploads share files, so look each one up only once
+    const owners = new Map<string, string | null>();
+    const ownerOf = async (fileId: string): Promise<string | null> => {
+      if (!owners.has(fileId)) {
+        owners.set(fileId, await googleDriveService.locate(fileId));
+      }
+      return owners.get(fileId) ?? null;
+    };
+
+    let uploads = 0;
+    let chunks = 0;
+    let unresolved = 0;
+
+    for (const upload of await storage.getUploadsWithoutServiceAccount()) {
+      const update: { serviceAccountId?: string; thumbnailServiceAccountId?: string } = {};
+
+      if (!upload.serviceAccountId) {
+        const owner = await ownerOf(upload.externalFileId);
+        if (owner) update.serviceAccountId = owner;
+        else unresolved++;
+      }
+      if (upload.thumbnail && !upload.thumbnailServiceAccountId) {
+        const owner = await ownerOf(upload.thumbnail);
+        if (owner) update.thumbnailServiceAccountId = owner;
+        else unresolved++;
+      }
+
+      if (update.serviceAccountId || update.thumbnailServiceAccountId) {
+        await storage.updateUploadServiceAccounts(upload.id, update);
+        uploads++;
+      }
+    }
+
+    for (const chunk of await storage.getChunksWithoutServiceAccount()) {
+      const owner = await ownerOf(chunk.externalFileId);
+      if (owner) {
+        await storage.updateChunkServiceAccount(chunk.id, owner);
+        chunks++;
+      } else {
+        unresolved++;
+      }
+    }
+
+    let ownedUploads = 0;
+    const accountOwners = new Map(
+      (await storage.getAccounts()).map(account => [account._id.toString(), account.userId ? String(account.userId) : null])
+    );
+    for (const upload of await storage.getUploadsWithoutOwner()) {
+      let userId = upload.serviceAccountId ? accountOwners.get(upload.serviceAccountId) ?? null : null;
+      if (!userId && upload.folderId) {
+        userId = (await storage.getFolder(parseInt(upload.folderId, 10)))?.userId ?? null;
+      }
+
+      if (userId && await storage.updateUploadOwner(upload.id, userId)) {
+        ownedUploads++;
+      } else if (!userId) {
+        unresolved++;
+      }
+    }
+
+    // Unresolved files keep falling back to searching every account, and ownerless
+    // uploads stay visible to admins only
+    logger.info(`Service account backfill completed: uploads=${uploads}, chunks=${chunks}, owners=${ownedUploads}, unresolved=${unresolved}`);
+    return { uploads, chunks, owners: ownedUploads, unresolved };
+  }
+
+  private async processMigrateAccount(job: Job): Promise<AccountMigrationProgress> {
+    const { sourceAccountId } = job.data as { sourceAccountId: string };
+
+    logger.info(`Processing account migration job: sourceAccountId=${sourceAccountId}`);
+
+    return accountMigration.migrate(sourceAccountId, progress => job.updateProgress(progress));
+  }
+
+  private async processReconcileStorage(): Promise<StorageReconciliationReport> {
+    logger.info('Processing storage reconciliation job');
+    return storageReconciliation.run();
+  }
+
+  /**
+   * Permanently delete uploads that have been in the trash longer than TRASH_RETENTION_DAYS,
+   * along with their files, thumbnails and HLS segments
+   */
+  private async processPurgeTrash(): Promise<{ purged: number; failed: number }> {
+    const cutoff = new Date(Date.now() - config.storage.trashRetentionDays * 24 * 60 * 60 * 1000);
+    logger.info(`Processing trash purge job: trashed before ${cutoff.toISOString()}`);
+
+    let purged = 0;
+    let failed = 0;
+    for (const upload of await storage.getUploadsTrashedBefore(cutoff)) {
+      try {
+        await storage.deleteFile(upload.id);
+        purged++;
+      } catch (error) {
+        // Left in the trash for the next run
+        logger.error(`Failed to purge upload ${upload.id}:`, error);
+        failed++;
+      }
+    }
+
+    logger.info(`Trash purge completed: purged=${purged}, failed=${failed}`);
+    return { purged, failed };
+  }
+
+  /**
+   * Apply a bulk operation to each upload in turn. Permissions are checked again per upload,
+   * and one failing upload does not stop the rest.
+   */
+  private async processBulkOperation(job: Job): Promise<BulkOperationResult> {
+    const { user, uploadIds, operation } = job.data as BulkOperationJobData;
+
+    logger.info(`Processing bulk operation job: action=${operation.action}, uploads=${uploadIds.length}, userId=${user.id}`);
+
+    // The destination folder and encoding profiles are the same for every upload
+    const folder = operation.action === 'move' && operation.folderId !== null
+      ? await storage.getFolder(operation.folderId) ?? null
+      : null;
+    const profiles: EncodingProfile[] = [];
+    if (operation.action === 'convert') {
+      for (const resolution of operation.resolutions) {
+        const profile = await storage.getEncodingProfileByName(resolution);
+        if (profile) profiles.push(profile);
+      }
+    }
+
+    const progress: BulkOperationProgress = { total: uploadIds.length, processed: 0, succeeded: 0, failed: 0, skipped: 0 };
+    const results: BulkItemResult[] = [];
+
+    for (const uploadId of uploadIds) {
+      let result: BulkItemResult;
+      try {
+        result = await this.applyBulkOperation(user, uploadId, operation, { folder, profiles });
+      } catch (error) {
+        logger.error(`Bulk ${operation.action} failed for upload ${uploadId}:`, error);
+        result = { uploadId, status: 'failed', message: (error as Error).message };
+      }
+
+      results.push(result);
+      progress.processed++;
+      progress[result.status]++;
+      await job.updateProgress({ ...progress });
+    }
+
+    logger.info(`Bulk operation completed: action=${operation.action}, succeeded=${progress.succeeded}, failed=${progress.failed}, skipped=${progress.skipped}`);
+    return { ...progress, results };
+  }
+
+  private async applyBulkOperation(
+    user: AccessUser,
+    uploadId: number,
+    operation: BulkOperation,
+    target: { folder: Folder | null; profiles: EncodingProfile[] }
+  ): Promise<BulkItemResult> {
+    const upload = await storage.getUpload(uploadId);
+    const role = upload && !upload.deletedAt ? await sharing.uploadRole(user, upload) : null;
+    if (!upload || !role) {
+      return { uploadId, status: 'failed', message: 'Upload not found' };
+    }
+    // Like the single-file routes, only owners move files to the trash
+    if (!hasRole(role, operation.action === 'delete' ? 'owner' : 'editor')) {
+      return { uploadId, status: 'failed', message: 'You cannot change this upload' };
+    }
+
+    switch (operation.action) {
+      case 'move': {
+        if (operation.folderId !== null && !target.folder) {
+          return { uploadId, status: 'failed', message: 'Folder not found' };
+        }
+        if ((upload.folderId ?? null) === (target.folder?.id.toString() ?? null)) {
+          return { uploadId, status: 'skipped', message: 'Already in this folder' };
+        }
+        // As with folders, a file stays among its owner's folders; another user's folder would
+        // hand its owner the file
+        if (target.folder?.userId && target.folder.userId !== upload.userId) {
+          return { uploadId, status: 'failed', message: 'Files can only be moved among their owner\'s folders' };
+        }
+        await storage.moveUpload(upload.id, target.folder);
+        return { uploadId, status: 'succeeded' };
+      }
+
+      case 'delete':
+        await storage.trashUpload(upload.id);
+        return { uploadId, status: 'succeeded', message: 'Moved to trash' };
+
+      case 'tag':
+        await storage.updateUploadsMetadata([upload.id], { addTags: operation.addTags, removeTags: operation.removeTags });
+        return { uploadId, status: 'succeeded' };
+
+      case 'categorize':
+        if (upload.category === operation.category) {
+          return { uploadId, status: 'skipped', message: `Already ${operation.category}` };
+        }
+        await storage.updateUploadCategory(upload.id, operation.category);
+        return { uploadId, status: 'succeeded' };
+
+      case 'convert': {
+        if (!upload.fileType.startsWith('video/')) {
+          return { uploadId, status: 'skipped', message: 'Not a video' };
+        }
+        const encryption = operation.encrypt ? { segmentsPerKey: config.hls.keyRotationSegments } : null;
+        const requests = await this.queueHlsConversions(upload, target.profiles, encryption);
+        const queued = requests.filter(request => request.status === 'waiting').length;
+        if (queued === 0) {
+          return { uploadId, status: 'skipped', message: 'Already converted or converting' };
+        }
+        if (upload.status !== 'processing') {
+          await storage.updateUploadStatus(upload.id, 'processing');
+        }
+        return { uploadId, status: 'succeeded', message: `Queued ${queued} renditions` };
+      }
+
+      case 'thumbnails': {
+        const previous = upload.thumbnail && upload.thumbnail !== 'pending'
+          ? { id: upload.thumbnail, accountId: upload.thumbnailServiceAccountId ?? null }
+          : null;
+
+        // Generated here rather than queued, so the result reports whether it worked
+        if (upload.fileType.startsWith('video/')) {
+          await fileProcessor.generateVideoThumbnail(upload.id, upload.externalFileId);
+        } else if (upload.fileType.startsWith('image/')) {
+          await fileProcessor.generateImageThumbnail(upload.id, upload.externalFileId);
+        } else if (upload.fileType === 'application/pdf') {
+          await fileProcessor.generatePdfPreview(upload.id, upload.externalFileId);
+        } else {
+          return { uploadId, status: 'skipped', message: 'No thumbnail for this file type' };
+        }
+
+        // Deduplicated uploads share thumbnails; only the last reference removes the old one
+        if (previous) {
+          const store = blobStores.for(upload.storageBackend);
+          if (await storage.countUploadReferences(store.backend, previous.id) === 0) {
+            await store.delete(previous);
+          }
+        }
+        return { uploadId, status: 'succeeded' };
+      }
+    }
+  }
+
+  /**
+   * Queue the backfill once on startup while uploads from before owners were recorded
+   * remain, since other users cannot see them until it has run
+   */
+  private async backfillLegacyOwners(): Promise<void> {
+    const ownerless = await storage.getUploadsWithoutOwner();
+    if (ownerless.length > 0) {
+      logger.info(`Found ${ownerless.length} uploads without an owner; queuing the backfill`);
+      await this.addServiceAccountBackfillJob();
+    }
+  }
+
+  private async scheduleTrashPurge(): Promise<void> {
+    await this.conversionQueue.upsertJobScheduler(
+      trashPurgeSchedulerId,
+      { every: trashPurgeEveryMs },
+      {
+        name: JobType.PURGE_TRASH,
+        data: {},
+        opts: { removeOnComplete: 20, removeOnFail: 20 },
+      }
+    );
+    logger.info(`Scheduled trash purge, keeping trashed uploads for ${config.storage.trashRetentionDays} days`);
+  }
+
+  /**
+   * Repeat the storage reconciliation every RECONCILE_INTERVAL_MINUTES. Upserting keeps a
+   * single schedule across restarts and picks up a changed interval.
+   */
+  private async scheduleStorageReconciliation(): Promise<void> {
+    const minutes = config.storage.reconcileIntervalMinutes;
+    if (minutes === 0) {
+      await this.conversionQueue.removeJobScheduler(reconciliationSchedulerId);
+      logger.info('Storage reconciliation schedule disabled');
+      return;
+    }
+
+    await this.conversionQueue.upsertJobScheduler(
+      reconciliationSchedulerId,
+      { every: minutes * 60 * 1000 },
+      {
+        name: JobType.RECONCILE_STORAGE,
+        data: {},
+        opts: { removeOnComplete: 20, removeOnFail: 20 },
+      }
+    );
+    logger.info(`Scheduled storage reconciliation every ${minutes} minutes`);
+  }
+
   async addHlsConversionJob(
     uploadId: number,
     conversionId: number,
     resolution: string,
-    externalFileId: string
+    externalFileId: string,
+    encryption: HlsEncryptionOptions | null = null
   ): Promise<string> {
+    const jobId = `hls_${uploadId}_${resolution}`;
+    await this.removeFinishedJob(jobId);
+
     const job = await this.conversionQueue.add(
       JobType.HLS_CONVERSION,
       {
@@ -135,9 +534,10 @@ class JobQueueService {
         conversionId,
         resolution,
         externalFileId,
+        encryption,
       },
       {
-        jobId: `hls_${uploadId}_${resolution}`,
+        jobId,
       }
     );
 
@@ -145,6 +545,131 @@ class JobQueueService {
     return job.id ?? '';
   }
 
+  async addHlsMultiConversionJob(
+    uploadId: number,
+    renditions: HlsRendition[],
+    externalFileId: string,
+    encryption: HlsEncryptionOptions | null = null
+  ): Promise<string> {
+    const resolutions = renditions.map(r => r.resolution);
+    const jobId = `hls_${uploadId}_${resolutions.join('_')}`;
+    await this.removeFinishedJob(jobId);
+
+    const job = await this.conversionQueue.add(
+      JobType.HLS_MULTI_CONVERSION,
+      {
+        uploadId,
+        renditions,
+        externalFileId,
+        encryption,
+      },
+      {
+        jobId,
+      }
+    );
+
+    logger.info(`Added HLS multi-rendition job: ${job.id}, uploadId=${uploadId}, resolutions=${resolutions.join(',')}`);
+    return job.id ?? '';
+  }
+
+  /**
+   * Remove a completed or failed job so a new one can be added under its ID; BullMQ ignores
+   * a job whose ID is still stored, which would leave a retried conversion waiting forever
+   */
+  private async removeFinishedJob(jobId: string): Promise<void> {
+    const previous = await this.conversionQueue.getJob(jobId);
+    if (!previous) return;
+
+    const state = await previous.getState();
+    if (state === 'completed' || state === 'failed') {
+      await previous.remove();
+    }
+  }
+
+  /**
+   * Create conversions for the renditions of an upload that are not done or under way, and
+   * queue them. Failed renditions are retried. Pending renditions are encoded in one pass
+   * unless asked otherwise; a single pass needs every rendition cut into segments of the
+   * same length.
+   */
+  async queueHlsConversions(
+    upload: Upload,
+    profiles: EncodingProfile[],
+    encryption: HlsEncryptionOptions | null = null,
+    mode: 'single-pass' | 'per-resolution' = 'single-pass'
+  ): Promise<HlsConversionRequest[]> {
+    const requests: HlsConversionRequest[] = [];
+    const pending: { conversionId: number; resolution: string }[] = [];
+    const existingConversions = await storage.getConversionsByUploadId(upload.id);
+
+    for (const { name: resolution } of profiles) {
+      const existingConversion = existingConversions.find((c) => c.resolution === resolution);
+
+      if (existingConversion) {
+        if (existingConversion.status === 'ready') {
+          requests.push({
+            conversionId: existingConversion.id,
+            resolution,
+            status: 'ready',
+            message: 'Conversion already complete',
+          });
+          continue;
+        }
+
+        if (existingConversion.status === 'failed') {
+          await storage.updateConversionStatus(existingConversion.id, 'waiting', 0);
+          requests.push({
+            conversionId: existingConversion.id,
+            resolution,
+            status: 'waiting',
+            message: 'Retrying failed conversion',
+          });
+          pending.push({ conversionId: existingConversion.id, resolution });
+          continue;
+        }
+
+        if (existingConversion.status === 'processing' || existingConversion.status === 'waiting') {
+          requests.push({
+            conversionId: existingConversion.id,
+            resolution,
+            status: existingConversion.status,
+            message: `Conversion already ${existingConversion.status}`,
+          });
+          continue;
+        }
+      }
+
+      const conversion = await storage.createConversion({
+        uploadId: upload.id,
+        resolution,
+        status: 'waiting',
+        encrypted: encryption !== null,
+      });
+
+      pending.push({ conversionId: conversion.id, resolution });
+
+      requests.push({
+        conversionId: conversion.id,
+        resolution,
+        status: 'waiting',
+        message: 'Conversion job created',
+      });
+    }
+
+    const segmentDurations = new Set(
+      pending.map((p) => profiles.find((profile) => profile.name === p.resolution)!.segmentDuration)
+    );
+    if (pending.length > 1 && segmentDurations.size === 1 && mode === 'single-pass') {
+      await this.addHlsMultiConversionJob(upload.id, pending, upload.externalFileId, encryption);
+    } else {
+      for (const { conversionId, resolution } of pending) {
+        await this.addHlsConversionJob(upload.id, conversionId, resolution, upload.externalFileId, encryption);
+      }
+    }
+
+    return requests;
+  }
+
   async addThumbnailJob(uploadId: number, externalFileId: string): Promise<string> {
     const job = await this.conversionQueue.add(
       JobType.GENERATE_THUMBNAIL,
@@ -178,6 +703,124 @@ class JobQueueService {
     return job.id ?? '';
   }
 
+  async addProbeJob(uploadId: number, externalFileId: string, fileType: string): Promise<string> {
+    const job = await this.conversionQueue.add(
+      JobType.PROBE_METADATA,
+      {
+        uploadId,
+        externalFileId,
+        fileType,
+      },
+      {
+        jobId: `probe_${uploadId}`,
+      }
+    );
+
+    logger.info(`Added metadata probe job: ${job.id}, uploadId=${uploadId}, fileType=${fileType}`);
+    return job.id ?? '';
+  }
+
+  async addServiceAccountBackfillJob(): Promise<string> {
+    // Timestamped so the backfill can be run again after adding or restoring accounts
+    const job = await this.conversionQueue.add(
+      JobType.BACKFILL_SERVICE_ACCOUNTS,
+      {},
+      {
+        jobId: `backfill_service_accounts_${Date.now()}`,
+      }
+    );
+
+    logger.info(`Added service account backfill job: ${job.id}`);
+    return job.id ?? '';
+  }
+
+  /**
+   * Queue moving every file off a service account. One migration per account at a time;
+   * the previous one's result is replaced when a new one starts.
+   */
+  async addAccountMigrationJob(sourceAccountId: string): Promise<string> {
+    const jobId = this.accountMigrationJobId(sourceAccountId);
+    const previous = await this.conversionQueue.getJob(jobId);
+    if (previous) {
+      const state = await previous.getState();
+      if (state !== 'completed' && state !== 'failed') {
+        throw new Error(`A migration is already ${state} for service account ${sourceAccountId}`);
+      }
+      await previous.remove();
+    }
+
+    const job = await this.conversionQueue.add(
+      JobType.MIGRATE_ACCOUNT,
+      {
+        sourceAccountId,
+      },
+      {
+        jobId,
+      }
+    );
+
+    logger.info(`Added account migration job: ${job.id}, sourceAccountId=${sourceAccountId}`);
+    return job.id ?? '';
+  }
+
+  async getAccountMigrationJob(sourceAccountId: string): Promise<Job | null> {
+    return (await this.conversionQueue.getJob(this.accountMigrationJobId(sourceAccountId))) ?? null;
+  }
+
+  private accountMigrationJobId(sourceAccountId: string): string {
+    return `migrate_account_${sourceAccountId}`;
+  }
+
+  async addStorageReconciliationJob(): Promise<string> {
+    const job = await this.conversionQueue.add(
+      JobType.RECONCILE_STORAGE,
+      {},
+      {
+        jobId: `reconcile_storage_${Date.now()}`,
+        removeOnComplete: 20,
+        removeOnFail: 20,
+      }
+    );
+
+    logger.info(`Added storage reconciliation job: ${job.id}`);
+    return job.id ?? '';
+  }
+
+  /**
+   * Scheduled and manual reconciliation runs, newest first
+   */
+  async getStorageReconciliationJobs(): Promise<Job[]> {
+    const jobs = await this.conversionQueue.getJobs(['active', 'waiting', 'completed', 'failed']);
+    return jobs
+      .filter(job => job?.name === JobType.RECONCILE_STORAGE)
+      .sort((a, b) => b.timestamp - a.timestamp);
+  }
+
+  /**
+   * Queue a bulk operation over uploads a user selected; progress and per-upload results
+   * are kept on the job
+   */
+  async addBulkOperationJob(user: AccessUser, uploadIds: number[], operation: BulkOperation): Promise<string> {
+    const data: BulkOperationJobData = { user, uploadIds, operation };
+    const job = await this.conversionQueue.add(
+      JobType.BULK_OPERATION,
+      data,
+      {
+        jobId: `bulk_${user.id}_${Date.now()}`,
+        removeOnComplete: 100,
+        removeOnFail: 100,
+      }
+    );
+
+    logger.info(`Added bulk operation job: ${job.id}, action=${operation.action}, uploads=${uploadIds.length}`);
+    return job.id ?? '';
+  }
+
+  async getBulkOperationJob(jobId: string): Promise<Job | null> {
+    const job = await this.conversionQueue.getJob(jobId);
+    return job?.name === JobType.BULK_OPERATION ? job : null;
+  }
+
   async getJob(jobId: string): Promise<Job | null> {
     return this.conversionQueue.getJob(jobId);
   }
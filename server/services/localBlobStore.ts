@@ -0,0 +1,127 @@
+import crypto from 'crypto';
+import path from 'path';
+import fs from 'fs/promises';
+import { createReadStream } from 'fs';
+import config from '../config';
+import { logger } from '../utils/logger';
+import { sha256File } from '../utils/checksum';
+import type { BlobInfo, BlobQuota, BlobRef, BlobStore, ByteRange } from './blobStore';
+
+// What the filesystem does not record about a blob, kept next to it as <id>.json
+interface BlobMetadata {
+  name: string;
+  mimeType: string;
+  sha256: string;
+}
+
+// IDs are generated here and end up in paths, so accept nothing else
+const blobIdPattern = /^[a-f0-9]{32}$/;
+
+class LocalBlobStore implements BlobStore {
+  readonly backend = 'local' as const;
+  private rootDir = path.resolve(config.storage.local.dir);
+
+  async put(filePath: string, mimeType: string, name: string): Promise<BlobRef> {
+    logger.debug(`Starting put: filePath=${filePath}, mimeType=${mimeType}, name=${name}`);
+    await fs.mkdir(this.rootDir, { recursive: true });
+
+    const id = crypto.randomBytes(16).toString('hex');
+    const metadata: BlobMetadata = { name, mimeType, sha256: await sha256File(filePath) };
+    await fs.writeFile(this.metadataPath(id), JSON.stringify(metadata));
+
+    // Copy beside the final path and rename, so readers never see a partial blob
+    const tempPath = `${this.blobPath(id)}.tmp`;
+    await fs.copyFile(filePath, tempPath);
+    await fs.rename(tempPath, this.blobPath(id));
+
+    logger.info(`Stored local blob: ${name}, ID: ${id}`);
+    return { id, accountId: null };
+  }
+
+  async getStream({ id }: BlobRef, range?: ByteRange): Promise<NodeJS.ReadableStream> {
+    logger.debug(`Starting getStream: id=${id}, range=${range ? `${range.start}-${range.end}` : 'none'}`);
+    await this.assertExists(id);
+    return createReadStream(this.blobPath(id), range ? { start: range.start, end: range.end } : undefined);
+  }
+
+  async download({ id }: BlobRef, destination: string): Promise<void> {
+    logger.debug(`Starting download: id=${id}, destination=${destination}`);
+    await this.assertExists(id);
+    await fs.copyFile(this.blobPath(id), destination);
+    logger.debug(`Download completed: id=${id}, destination=${destination}`);
+  }
+
+  async stat({ id }: BlobRef): Promise<BlobInfo> {
+    logger.debug(`Starting stat: id=${id}`);
+    await this.assertExists(id);
+    const [stats, metadata] = await Promise.all([
+      fs.stat(this.blobPath(id)),
+      fs.readFile(this.metadataPath(id), 'utf8').then(content => JSON.parse(content) as BlobMetadata),
+    ]);
+
+    return {
+      id,
+      accountId: null,
+      name: metadata.name,
+      mimeType: metadata.mimeType,
+      size: stats.size,
+      etag: metadata.sha256,
+      modifiedAt: stats.mtime,
+    };
+  }
+
+  async delete({ id }: BlobRef): Promise<void> {
+    logger.debug(`Starting delete: id=${id}`);
+    await fs.rm(this.blobPath(id), { force: true });
+    await fs.rm(this.metadataPath(id), { force: true });
+    logger.info(`Deleted local blob: ${id}`);
+  }
+
+  async list(): Promise<BlobInfo[]> {
+    logger.debug(`Starting list: rootDir=${this.rootDir}`);
+    let entries: string[];
+    try {
+      entries = await fs.readdir(this.rootDir);
+    } catch (error: any) {
+      if (error.code === 'ENOENT') return [];
+      throw error;
+    }
+
+    const ids = entries.filter(entry => blobIdPattern.test(entry));
+    const blobs = await Promise.all(ids.map(id => this.stat({ id, accountId: null })));
+    logger.debug(`Completed list: count=${blobs.length}`);
+    return blobs;
+  }
+
+  async quota(): Promise<BlobQuota> {
+    logger.debug(`Starting quota: rootDir=${this.rootDir}`);
+    const blobs = await this.list();
+    const used = blobs.reduce((total, blob) => total + blob.size, 0);
+
+    // The disk's free space is all this store can still grow into
+    await fs.mkdir(this.rootDir, { recursive: true });
+    const disk = await fs.statfs(this.rootDir);
+    return { used, limit: used + disk.bavail * disk.bsize };
+  }
+
+  private blobPath(id: string): string {
+    if (!blobIdPattern.test(id)) {
+      throw new Error(`Invalid blob ID: ${id}`);
+    }
+    return path.join(this.rootDir, id);
+  }
+
+  private metadataPath(id: string): string {
+    return `${this.blobPath(id)}.json`;
+  }
+
+  private async assertExists(id: string): Promise<void> {
+    try {
+      await fs.access(this.blobPath(id));
+    } catch {
+      throw new Error(`File not found: ${id}`);
+    }
+  }
+}
+
+export const localBlobStore = new LocalBlobStore();
@@ -0,0 +1,135 @@
+import ffmpeg, { FfprobeData } from 'fluent-ffmpeg';
+import sharp from 'sharp';
+import path from 'path';
+import fs from 'fs/promises';
+import { blobStores } from './blobStore';
+import { ProbedMetadata, storage } from '../storage';
+import { readExif } from '../utils/exif';
+import { countPdfPages } from '../utils/pdfPages';
+import { logger } from '../utils/logger';
+
+// Degrees clockwise each EXIF orientation turns the picture; 5-8 also swap width and height
+const exifRotations: Record<number, number> = { 3: 180, 4: 180, 5: 90, 6: 90, 7: 270, 8: 270 };
+
+// ffprobe reports numbers as strings, with N/A when it does not know
+function toNumber(value: string | number | undefined): number | undefined {
+  const number = typeof value === 'number' ? value : parseFloat(value ?? '');
+  return Number.isFinite(number) && number > 0 ? number : undefined;
+}
+
+// Frame rates are fractions such as 30000/1001
+function toFrameRate(rate: string | undefined): number | undefined {
+  const [numerator, denominator] = (rate ?? '').split('/').map(Number);
+  if (!numerator || !denominator) return undefined;
+  return Math.round((numerator / denominator) * 1000) / 1000;
+}
+
+function withoutUndefined<T extends object>(record: T): T {
+  return Object.fromEntries(Object.entries(record).filter(([, value]) => value !== undefined)) as T;
+}
+
+/**
+ * Reads technical details from uploaded files: duration, codecs and streams of videos and
+ * audio with ffprobe, dimensions and EXIF of images with sharp, and the page count of PDFs
+ */
+class MediaProbe {
+  private tempDir = path.resolve('./temp');
+
+  canProbe(fileType: string): boolean {
+    return fileType.startsWith('video/')
+      || fileType.startsWith('audio/')
+      || fileType.startsWith('image/')
+      || fileType === 'application/pdf';
+  }
+
+  /**
+   * Download an upload's file, read it and save the results on the upload
+   */
+  async probeUpload(uploadId: number, externalFileId: string, fileType: string): Promise<ProbedMetadata> {
+    const upload = await storage.getUpload(uploadId);
+    if (!upload) {
+      throw new Error(`Upload not found: ${uploadId}`);
+    }
+
+    const store = blobStores.for(upload.storageBackend);
+    const accountId = upload.externalFileId === externalFileId ? upload.serviceAccountId ?? null : null;
+    const filePath = path.join(this.tempDir, `${uploadId}_probe${path.extname(upload.uploadName)}`);
+
+    try {
+      await fs.mkdir(this.tempDir, { recursive: true });
+      await store.download({ id: externalFileId, accountId }, filePath);
+
+      const media = { ...(await this.probeFile(filePath, fileType)), probedAt: new Date().toISOString() };
+      await storage.updateUploadMediaMetadata(uploadId, media);
+      logger.info(`Probed upload ${uploadId}: ${JSON.stringify(media)}`);
+      return media;
+    } finally {
+      await fs.rm(filePath, { force: true });
+    }
+  }
+
+  async probeFile(filePath: string, fileType: string): Promise<ProbedMetadata> {
+    if (fileType.startsWith('video/') || fileType.startsWith('audio/')) {
+      return this.probeStreams(filePath);
+    }
+    if (fileType.startsWith('image/')) {
+      return this.probeImage(filePath);
+    }
+    if (fileType === 'application/pdf') {
+      return withoutUndefined({ pageCount: countPdfPages(await fs.readFile(filePath)) });
+    }
+    return {};
+  }
+
+  private async probeStreams(filePath: string): Promise<ProbedMetadata> {
+    const data = await new Promise<FfprobeData>((resolve, reject) => {
+      ffmpeg.ffprobe(filePath, (err, metadata) => (err ? reject(err) : resolve(metadata)));
+    });
+
+    // Cover art embedded in audio files shows up as a video stream
+    const video = data.streams.find(stream => stream.codec_type === 'video' && !stream.disposition?.attached_pic);
+    const audio = data.streams.filter(stream => stream.codec_type === 'audio');
+
+    // Phones record upright video sideways and ask players to turn it: older files with a
+    // rotate tag (clockwise), newer ones with a display matrix (counter-clockwise)
+    const matrix = video?.side_data_list?.find((side: any) => side.rotation !== undefined);
+    const turn = video?.tags?.rotate !== undefined
+      ? Number(video.tags.rotate)
+      : matrix ? -Number(matrix.rotation) : 0;
+    const rotation = Number.isFinite(turn) ? ((turn % 360) + 360) % 360 : 0;
+    const sideways = rotation === 90 || rotation === 270;
+
+    return withoutUndefined({
+      duration: toNumber(data.format.duration),
+      width: sideways ? video?.height : video?.width,
+      height: sideways ? video?.width : video?.height,
+      codec: video?.codec_name,
+      frameRate: toFrameRate(video?.avg_frame_rate) ?? toFrameRate(video?.r_frame_rate),
+      bitrate: toNumber(data.format.bit_rate),
+      rotation: rotation || undefined,
+      audioTracks: audio.length
+        ? audio.map(stream => withoutUndefined({
+          codec: stream.codec_name ?? 'unknown',
+          channels: stream.channels,
+          sampleRate: toNumber(stream.sample_rate),
+          language: stream.tags?.language,
+        }))
+        : undefined,
+    });
+  }
+
+  private async probeImage(filePath: string): Promise<ProbedMetadata> {
+    const info = await sharp(filePath).metadata();
+    const rotation = exifRotations[info.orientation ?? 1];
+    const sideways = rotation === 90 || rotation === 270;
+
+    return withoutUndefined({
+      width: sideways ? info.height : info.width,
+      height: sideways ? info.width : info.height,
+      rotation,
+      exif: info.exif ? readExif(info.exif) : undefined,
+    });
+  }
+}
+
+export const mediaProbe = new MediaProbe();
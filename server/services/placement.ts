@@ -0,0 +1,131 @@
+import { logger } from '../utils/logger';
+
+export const placementStrategies = ['most-free', 'round-robin', 'fill-first'] as const;
+export type PlacementStrategy = typeof placementStrategies[number];
+
+// A service account that could take a new file
+export interface PlacementCandidate {
+  id: string;
+  email: string;
+  free: number; // storageLimit - storageUsed
+  available: number; // free, less what in-flight uploads have reserved
+  createdAt: Date;
+}
+
+export interface PlacementRequest {
+  size: number; // bytes about to be uploaded
+  pinnedAccountId: string | null; // set when the target folder is pinned to an account
+  excludedAccountIds?: string[]; // accounts the file must not go to, e.g. the one it is leaving
+  ownerUserId?: string | null; // user whose accounts the file must go to; any account when unset
+}
+
+/**
+ * Orders service accounts by preference for a new file. Callers try them in turn, so
+ * later entries are where an upload goes when earlier ones turn out to be full.
+ */
+export interface PlacementPolicy {
+  rank(candidates: PlacementCandidate[], request: PlacementRequest): PlacementCandidate[];
+}
+
+const byAge = (a: PlacementCandidate, b: PlacementCandidate) =>
+  a.createdAt.getTime() - b.createdAt.getTime() || a.id.localeCompare(b.id);
+
+/**
+ * Spread files over the accounts with the most room
+ */
+class MostFreePolicy implements PlacementPolicy {
+  rank(candidates: PlacementCandidate[]): PlacementCandidate[] {
+    return [...candidates].sort((a, b) => b.available - a.available);
+  }
+}
+
+/**
+ * Take accounts with room in turn, however full they are
+ */
+class RoundRobinPolicy implements PlacementPolicy {
+  private next = 0;
+
+  rank(candidates: PlacementCandidate[]): PlacementCandidate[] {
+    if (candidates.length === 0) return [];
+    const ordered = [...candidates].sort(byAge);
+    const start = this.next++ % ordered.length;
+    return [...ordered.slice(start), ...ordered.slice(0, start)];
+  }
+}
+
+/**
+ * Fill the oldest account before touching the next one
+ */
+class FillFirstPolicy implements PlacementPolicy {
+  rank(candidates: PlacementCandidate[]): PlacementCandidate[] {
+    return [...candidates].sort(byAge);
+  }
+}
+
+/**
+ * Keep files of a pinned folder on its account, even when others have more room;
+ * anything else is left to the configured strategy
+ */
+class FolderPinPolicy implements PlacementPolicy {
+  constructor(private fallback: PlacementPolicy) {}
+
+  rank(candidates: PlacementCandidate[], request: PlacementRequest): PlacementCandidate[] {
+    if (request.pinnedAccountId) {
+      return candidates.filter(candidate => candidate.id === request.pinnedAccountId);
+    }
+    return this.fallback.rank(candidates, request);
+  }
+}
+
+export function createPlacementPolicy(strategy: PlacementStrategy): PlacementPolicy {
+  switch (strategy) {
+    case 'round-robin':
+      return new FolderPinPolicy(new RoundRobinPolicy());
+    case 'fill-first':
+      return new FolderPinPolicy(new FillFirstPolicy());
+    case 'most-free':
+    default:
+      return new FolderPinPolicy(new MostFreePolicy());
+  }
+}
+
+/**
+ * Bytes promised to uploads still in flight, per account. storageUsed only moves once an
+ * upload finishes, so without this concurrent uploads would all pick the same account.
+ */
+class PlacementReservations {
+  private reserved = new Map<string, number>();
+
+  reservedFor(accountId: string): number {
+    return this.reserved.get(accountId) ?? 0;
+  }
+
+  /**
+   * Reserve size bytes on an account with free bytes unused, returning a release callback,
+   * or null if other reservations have taken the room since the account was ranked
+   */
+  tryReserve(accountId: string, size: number, free: number): (() => void) | null {
+    const reserved = this.reservedFor(accountId);
+    if (free - reserved < size) {
+      return null;
+    }
+
+    this.reserved.set(accountId, reserved + size);
+    logger.debug(`Reserved ${size} bytes on service account ${accountId}`);
+
+    let released = false;
+    return () => {
+      if (released) return;
+      released = true;
+      const remaining = this.reservedFor(accountId) - size;
+      if (remaining > 0) {
+        this.reserved.set(accountId, remaining);
+      } else {
+        this.reserved.delete(accountId);
+      }
+      logger.debug(`Released ${size} bytes on service account ${accountId}`);
+    };
+  }
+}
+
+export const placementReservations = new PlacementReservations();
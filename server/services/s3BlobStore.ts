@@ -0,0 +1,171 @@
+import crypto from 'crypto';
+import { createReadStream, createWriteStream } from 'fs';
+import { pipeline } from 'stream/promises';
+import {
+  S3Client,
+  GetObjectCommand,
+  HeadObjectCommand,
+  DeleteObjectCommand,
+  ListObjectsV2Command,
+} from '@aws-sdk/client-s3';
+import { Upload } from '@aws-sdk/lib-storage';
+import config from '../config';
+import { logger } from '../utils/logger';
+import type { BlobInfo, BlobQuota, BlobRef, BlobStore, ByteRange } from './blobStore';
+
+/**
+ * Blobs in an S3 bucket or an S3-compatible server such as MinIO. Object keys are random
+ * UUIDs; the original file name travels in the object's metadata.
+ */
+class S3BlobStore implements BlobStore {
+  readonly backend = 's3' as const;
+  private s3: S3Client | null = null;
+
+  async put(filePath: string, mimeType: string, name: string): Promise<BlobRef> {
+    logger.debug(`Starting put: filePath=${filePath}, mimeType=${mimeType}, name=${name}`);
+    const id = crypto.randomUUID();
+
+    // A single PUT is capped at 5 GB; Upload switches to a multipart upload above one part
+    await new Upload({
+      client: this.client(),
+      params: {
+        Bucket: this.bucket(),
+        Key: id,
+        Body: createReadStream(filePath),
+        ContentType: mimeType,
+        // Metadata values must be ASCII
+        Metadata: { name: encodeURIComponent(name) },
+      },
+    }).done();
+
+    logger.info(`Stored S3 object: ${name}, ID: ${id}`);
+    return { id, accountId: null };
+  }
+
+  async getStream({ id }: BlobRef, range?: ByteRange): Promise<NodeJS.ReadableStream> {
+    logger.debug(`Starting getStream: id=${id}, range=${range ? `${range.start}-${range.end}` : 'none'}`);
+    try {
+      const response = await this.client().send(new GetObjectCommand({
+        Bucket: this.bucket(),
+        Key: id,
+        Range: range ? `bytes=${range.start}-${range.end}` : undefined,
+      }));
+      return response.Body as NodeJS.ReadableStream;
+    } catch (error: any) {
+      throw this.notFoundOr(error, id);
+    }
+  }
+
+  async download(ref: BlobRef, destination: string): Promise<void> {
+    logger.debug(`Starting download: id=${ref.id}, destination=${destination}`);
+    const stream = await this.getStream(ref);
+    await pipeline(stream, createWriteStream(destination));
+    logger.debug(`Download completed: id=${ref.id}, destination=${destination}`);
+  }
+
+  async stat({ id }: BlobRef): Promise<BlobInfo> {
+    logger.debug(`Starting stat: id=${id}`);
+    try {
+      const response = await this.client().send(new HeadObjectCommand({ Bucket: this.bucket(), Key: id }));
+      return {
+        id,
+        accountId: null,
+        name: response.Metadata?.name ? decodeURIComponent(response.Metadata.name) : id,
+        mimeType: response.ContentType || 'application/octet-stream',
+        size: response.ContentLength ?? 0,
+        etag: response.ETag?.replace(/"/g, '') ?? null,
+        modifiedAt: response.LastModified ?? null,
+      };
+    } catch (error: any) {
+      throw this.notFoundOr(error, id);
+    }
+  }
+
+  async delete(ref: BlobRef): Promise<void> {
+    const { id } = ref;
+    logger.debug(`Starting delete: id=${id}`);
+    // DeleteObject succeeds for missing keys, which is what callers expect of a delete
+    await this.client().send(new DeleteObjectCommand({ Bucket: this.bucket(), Key: id }));
+    logger.info(`Deleted S3 object: ${id}`);
+  }
+
+  async list(): Promise<BlobInfo[]> {
+    logger.debug(`Starting list: bucket=${this.bucket()}`);
+    const blobs: BlobInfo[] = [];
+    let continuationToken: string | undefined;
+
+    do {
+      const response = await this.client().send(new ListObjectsV2Command({
+        Bucket: this.bucket(),
+        ContinuationToken: continuationToken,
+      }));
+      for (const object of response.Contents ?? []) {
+        if (!object.Key) continue;
+        // Listings carry no content type or metadata; stat() has them when needed
+        blobs.push({
+          id: object.Key,
+          accountId: null,
+          name: object.Key,
+          mimeType: 'application/octet-stream',
+          size: object.Size ?? 0,
+          etag: object.ETag?.replace(/"/g, '') ?? null,
+          modifiedAt: object.LastModified ?? null,
+        });
+      }
+      continuationToken = response.IsTruncated ? response.NextContinuationToken : undefined;
+    } while (continuationToken);
+
+    logger.debug(`Completed list: count=${blobs.length}`);
+    return blobs;
+  }
+
+  async quota(): Promise<BlobQuota> {
+    logger.debug(`Starting quota: bucket=${this.bucket()}`);
+    let used = 0;
+    let continuationToken: string | undefined;
+
+    do {
+      const response = await this.client().send(new ListObjectsV2Command({
+        Bucket: this.bucket(),
+        ContinuationToken: continuationToken,
+      }));
+      for (const object of response.Contents ?? []) {
+        used += object.Size ?? 0;
+      }
+      continuationToken = response.IsTruncated ? response.NextContinuationToken : undefined;
+    } while (continuationToken);
+
+    return { used, limit: config.storage.s3.quotaBytes };
+  }
+
+  // Created on first use, so S3 settings are only required when the backend is in use
+  private client(): S3Client {
+    if (!this.s3) {
+      const { endpoint, region, accessKeyId, secretAccessKey, forcePathStyle } = config.storage.s3;
+      this.s3 = new S3Client({
+        endpoint,
+        region,
+        forcePathStyle,
+        credentials: accessKeyId && secretAccessKey ? { accessKeyId, secretAccessKey } : undefined,
+      });
+    }
+    return this.s3;
+  }
+
+  private bucket(): string {
+    if (!config.storage.s3.bucket) {
+      throw new Error('S3_BUCKET is not configured');
+    }
+    return config.storage.s3.bucket;
+  }
+
+  private notFoundOr(error: any, id: string): Error {
+    if (error?.name === 'NoSuchKey' || error?.name === 'NotFound' || error?.$metadata?.httpStatusCode === 404) {
+      return new Error(`File not found: ${id}`);
+    }
+    logger.error(`S3 request failed: id=${id}`, error);
+    return error;
+  }
+}
+
+export const s3BlobStore = new S3BlobStore();
@@ -0,0 +1,55 @@
+import crypto from 'crypto';
+import { z } from 'zod';
+import { IServiceAccount } from '../models/mongoose';
+import { decryptSecret, encryptSecret, EncryptedSecret } from '../utils/credentialEncryption';
+import { logger } from '../utils/logger';
+
+// A JSON key downloaded from the Google Cloud Console for a service account
+export const serviceAccountKeySchema = z.object({
+  type: z.literal('service_account'),
+  project_id: z.string().min(1),
+  private_key_id: z.string().min(1),
+  private_key: z.string().refine(isPrivateKey, { message: 'Not a valid PEM private key' }),
+  client_email: z.string().email(),
+  client_id: z.string().min(1),
+  auth_uri: z.string().url(),
+  token_uri: z.string().url(),
+  auth_provider_x509_cert_url: z.string().url(),
+  client_x509_cert_url: z.string().url(),
+}).passthrough();
+
+export type ServiceAccountKey = z.infer<typeof serviceAccountKeySchema>;
+
+/**
+ * Split a key into what is stored as-is and the private key, which is only stored encrypted
+ */
+export function sealServiceAccountKey(key: ServiceAccountKey): {
+  credentials: Omit<ServiceAccountKey, 'private_key'>;
+  encryptedPrivateKey: EncryptedSecret;
+} {
+  const { private_key, ...credentials } = key;
+  return { credentials, encryptedPrivateKey: encryptSecret(private_key) };
+}
+
+/**
+ * Private key of a stored account, decrypted, or as saved by older versions
+ */
+export function privateKeyOf(account: Pick<IServiceAccount, 'email' | 'credentials' | 'encryptedPrivateKey'>): string {
+  if (account.encryptedPrivateKey) {
+    return decryptSecret(account.encryptedPrivateKey);
+  }
+  if (account.credentials.private_key) {
+    logger.warn(`Service account ${account.email} has an unencrypted private key`);
+    return account.credentials.private_key;
+  }
+  throw new Error(`Service account ${account.email} has no private key`);
+}
+
+function isPrivateKey(pem: string): boolean {
+  try {
+    crypto.createPrivateKey(pem);
+    return true;
+  } catch {
+    return false;
+  }
+}
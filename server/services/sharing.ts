@@ -0,0 +1,65 @@
+import { Folder, Share, ShareRole, Upload } from '@shared/schema';
+import { storage } from '../storage';
+
+// What a user may do with a folder or upload: owners (and admins) can also share,
+// rename, move and delete
+export type AccessRole = ShareRole | 'owner';
+
+// The user a request acts for, as far as permissions go
+export interface AccessUser {
+  id: string;
+  isAdmin: boolean;
+}
+
+const rank: Record<AccessRole, number> = { viewer: 1, editor: 2, owner: 3 };
+
+export function hasRole(role: AccessRole | null, required: AccessRole): boolean {
+  return role !== null && rank[role] >= rank[required];
+}
+
+function higher(a: AccessRole | null, b: AccessRole | null): AccessRole | null {
+  if (a === null) return b;
+  if (b === null) return a;
+  return rank[a] >= rank[b] ? a : b;
+}
+
+// Best role any of the records is shared with the user as
+function sharedRole(records: { shares?: Share[] | null }[], userId: string): AccessRole | null {
+  let role: AccessRole | null = null;
+  for (const record of records) {
+    for (const share of record.shares ?? []) {
+      if (share.userId === userId) {
+        role = higher(role, share.role);
+      }
+    }
+  }
+  return role;
+}
+
+/**
+ * Resolves a user's role on folders and uploads. A folder share covers everything
+ * below it; what editors add to a shared folder belongs to the folder's owner.
+ */
+class SharingService {
+  async folderRole(user: AccessUser | null, folder: Folder): Promise<AccessRole | null> {
+    if (!user) return null;
+    if (user.isAdmin || folder.userId === user.id) return 'owner';
+    // Shared default folders take anyone's files, but only admins change them
+    if (!folder.userId) return 'editor';
+
+    const ancestors = await storage.getFolderAncestors(folder);
+    return sharedRole([folder, ...ancestors], user.id);
+  }
+
+  async uploadRole(user: AccessUser | null, upload: Upload): Promise<AccessRole | null> {
+    if (!user) return null;
+    if (user.isAdmin || upload.userId === user.id) return 'owner';
+
+    // Sitting in a shared default folder gives no rights over another user's file
+    const folder = upload.folderId ? await storage.getFolder(parseInt(upload.folderId, 10)) : undefined;
+    const inherited = folder?.userId ? await this.folderRole(user, folder) : null;
+    return higher(sharedRole([upload], user.id), inherited);
+  }
+}
+
+export const sharing = new SharingService();
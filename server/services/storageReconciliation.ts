@@ -0,0 +1,78 @@
+import { DriveFileReference, OrphanedDriveFile, StorageReconciliationReport } from '@shared/schema';
+import { storage } from '../storage';
+import { googleDriveService } from './googleDrive';
+import { logger } from '../utils/logger';
+
+/**
+ * Compares what the database refers to in Drive with what the service accounts actually
+ * hold. Nothing is changed beyond usage figures; acting on the report is left to the user.
+ */
+class StorageReconciliationService {
+  async run(): Promise<StorageReconciliationReport> {
+    const startedAt = new Date().toISOString();
+    logger.debug('Starting storage reconciliation');
+
+    await googleDriveService.updateStorageStats();
+
+    const [driveFiles, references] = await Promise.all([
+      googleDriveService.getAllFiles(),
+      storage.getDriveFileReferences(),
+    ]);
+
+    const referenced = new Set(references.map(reference => reference.fileId));
+    const orphans: OrphanedDriveFile[] = driveFiles
+      .filter(file => !referenced.has(file.id))
+      .map(file => ({
+        id: file.id,
+        name: file.name,
+        mimeType: file.mimeType,
+        size: file.size,
+        accountId: file.accountId,
+        accountEmail: file.accountEmail,
+        createdAt: file.createdAt,
+      }));
+
+    const dangling = await this.findDangling(references, new Set(driveFiles.map(file => file.id)));
+
+    const accounts = (await storage.getAccounts()).map(account => ({
+      id: account._id.toString(),
+      email: account.email,
+      storageUsed: account.storageUsed,
+      storageLimit: account.storageLimit,
+    }));
+
+    logger.info(`Storage reconciliation finished: driveFiles=${driveFiles.length}, references=${references.length}, orphans=${orphans.length}, dangling=${dangling.length}`);
+    return {
+      startedAt,
+      finishedAt: new Date().toISOString(),
+      driveFiles: driveFiles.length,
+      references: references.length,
+      orphans,
+      dangling,
+      accounts,
+    };
+  }
+
+  /**
+   * References to files missing from the listing. A listing can miss files when an account
+   * fails to answer, so each one is looked up directly before it is reported.
+   */
+  private async findDangling(references: DriveFileReference[], listed: Set<string>): Promise<DriveFileReference[]> {
+    const missing = references.filter(reference => !listed.has(reference.fileId));
+    const owners = new Map<string, string | null>();
+    const dangling: DriveFileReference[] = [];
+
+    for (const reference of missing) {
+      if (!owners.has(reference.fileId)) {
+        owners.set(reference.fileId, await googleDriveService.locate(reference.fileId));
+      }
+      if (!owners.get(reference.fileId)) {
+        dangling.push(reference);
+      }
+    }
+
+    return dangling;
+  }
+}
+
+export const storageReconciliation = new StorageReconciliationService();
@@ -1,15 +1,71 @@
 import mongoose from 'mongoose';
 import {
   User, InsertUser, File, InsertFile,
-  Upload, InsertUpload, Chunk, InsertChunk,
-  Conversion, InsertConversion, Account, InsertAccount,
-  Folder, InsertFolder, FileStatus, JobStatus
+  Upload, InsertUpload, UploadManifest, InsertUploadManifest, Chunk, InsertChunk,
+  Conversion, InsertConversion, EncodingProfile, InsertEncodingProfile, Account, InsertAccount,
+  Folder, InsertFolder, Share, FileCategory, FileStatus, JobStatus, StorageBackend, DriveFileReference, DriveFileReferenceKind,
+  SearchSort, SearchFacets, UploadSearchResult, MediaMetadata, MetadataField, InsertMetadataField, MetadataFieldValues
 } from '@shared/schema';
 import {
-  UserModel, FileModel, UploadModel, ChunkModel,
-  ConversionModel, ServiceAccount, FolderModel
+  UserModel, FileModel, UploadModel, UploadManifestModel, ChunkModel,
+  ConversionModel, EncodingProfileModel, ServiceAccount, FolderModel, MetadataFieldModel
 } from './models/mongoose';
 import { logger } from './utils/logger';
+import { defaultEncodingProfiles } from './utils/encodingProfiles';
+import { blobStores, BlobRef } from './services/blobStore';
+import { encodeSearchCursor, SearchCursor } from './utils/searchCursor';
+
+// What the media library search matches, within one user's live uploads unless userId is left out
+export interface UploadSearchOptions {
+  userId?: string;
+  query?: string; // words matched against names, tags, folder names and codecs
+  folderId?: string;
+  tags?: string[]; // all must be present
+  category?: string[];
+  mimeType?: string[];
+  status?: string[];
+  minSize?: number; // bytes
+  maxSize?: number;
+  from?: Date; // upload date range
+  to?: Date;
+  codec?: string;
+  minDuration?: number; // seconds
+  maxDuration?: number;
+  minHeight?: number; // pixels
+  minPages?: number;
+  maxPages?: number;
+  sort: SearchSort;
+  limit: number;
+  cursor?: SearchCursor;
+}
+
+// Changes to the tags and custom field values of one or more uploads. tags replaces the
+// whole list; addTags and removeTags adjust it. A null field value clears the field.
+export interface UploadMetadataEdit {
+  tags?: string[];
+  addTags?: string[];
+  removeTags?: string[];
+  fields?: Record<string, string | number | null>;
+}
+
+// Field and direction each search order sorts by; upload IDs break ties the same way
+const searchSortOrders: Record<SearchSort, { field: string; direction: 1 | -1 }> = {
+  relevance: { field: 'score', direction: -1 },
+  newest: { field: 'createdAt', direction: -1 },
+  oldest: { field: 'createdAt', direction: 1 },
+  name: { field: 'uploadName', direction: 1 },
+  largest: { field: 'fileSize', direction: -1 },
+  smallest: { field: 'fileSize', direction: 1 },
+};
+
+// Size facet buckets: under 1 MB, 10 MB, 100 MB, 1 GB, and anything larger
+const searchSizeBoundaries = [0, 1024 ** 2, 10 * 1024 ** 2, 100 * 1024 ** 2, 1024 ** 3];
+
+// Upload metadata read from the file itself, as opposed to the owner's custom fields
+const probedMetadataKeys = [
+  'duration', 'width', 'height', 'codec', 'frameRate', 'bitrate', 'rotation', 'audioTracks', 'exif', 'pageCount', 'probedAt',
+] as const;
+export type ProbedMetadata = Pick<MediaMetadata, typeof probedMetadataKeys[number]>;
 
 export interface IStorage {
   getUser(id: number): Promise<User | undefined>;
@@ -20,34 +76,94 @@ export interface IStorage {
   createUpload(upload: InsertUpload): Promise<Upload>;
   getUpload(id: number): Promise<Upload | undefined>;
   getUploadByIdentifier(identifier: string): Promise<Upload | undefined>;
+  findReusableUpload(identifier: string, userId: string | null): Promise<Upload | undefined>;
+  countUploadReferences(storageBackend: StorageBackend, externalFileId: string): Promise<number>;
   getUploads(options?: {
+    userId?: string;
+    trashed?: boolean;
+    tags?: string[];
+    fields?: MetadataFieldValues;
     category?: string;
     folderId?: string;
     limit?: number;
     offset?: number;
   }): Promise<Upload[]>;
   updateUploadStatus(id: number, status: FileStatus): Promise<Upload>;
-  updateUploadThumbnail(id: number, thumbnailId: string): Promise<Upload>;
+  updateUploadThumbnail(id: number, thumbnailId: string, serviceAccountId: string | null): Promise<Upload>;
+  updateUploadCategory(id: number, category: FileCategory): Promise<Upload>;
+  moveUpload(id: number, folder: Folder | null): Promise<Upload>;
+  getUploadsWithoutServiceAccount(): Promise<Upload[]>;
+  updateUploadServiceAccounts(
+    id: number,
+    update: Partial<Pick<Upload, 'serviceAccountId' | 'thumbnailServiceAccountId'>>
+  ): Promise<Upload>;
+  getUploadsWithoutOwner(): Promise<Upload[]>;
+  updateUploadOwner(id: number, userId: string): Promise<boolean>;
+  updateUploadShares(id: number, shares: Share[]): Promise<Upload>;
+  getUploadsSharedWith(userId: string): Promise<Upload[]>;
+  trashUpload(id: number): Promise<Upload>;
+  restoreUpload(id: number): Promise<Upload>;
+  getUploadsTrashedBefore(date: Date): Promise<Upload[]>;
+  searchUploads(options: UploadSearchOptions): Promise<UploadSearchResult>;
+  updateUploadsMetadata(ids: number[], edit: UploadMetadataEdit): Promise<number>;
+  updateUploadMediaMetadata(id: number, media: ProbedMetadata): Promise<Upload>;
+  createMetadataField(field: InsertMetadataField): Promise<MetadataField>;
+  getMetadataField(id: number): Promise<MetadataField | undefined>;
+  getMetadataFields(userId: string): Promise<MetadataField[]>;
+  updateMetadataField(id: number, update: Partial<Pick<MetadataField, 'label' | 'options'>>): Promise<MetadataField>;
+  deleteMetadataField(id: number): Promise<boolean>;
+  createUploadManifest(manifest: InsertUploadManifest): Promise<UploadManifest>;
+  getUploadManifest(uploadId: number): Promise<UploadManifest | undefined>;
+  recordUploadedChunk(uploadId: number, index: number, size: number, checksum: string): Promise<UploadManifest>;
+  claimUploadManifest(uploadId: number, staleAfterMs: number): Promise<UploadManifest | undefined>;
+  releaseUploadManifest(uploadId: number): Promise<void>;
+  deleteUploadManifest(uploadId: number): Promise<boolean>;
   createChunk(chunk: InsertChunk): Promise<Chunk>;
   getChunksByUploadId(uploadId: number, resolution?: string): Promise<Chunk[]>;
+  deleteChunks(ids: number[]): Promise<number>;
   getChunk(id: number): Promise<Chunk | undefined>;
+  getChunksWithoutServiceAccount(): Promise<Chunk[]>;
+  updateChunkServiceAccount(id: number, serviceAccountId: string): Promise<Chunk>;
   createConversion(conversion: InsertConversion): Promise<Conversion>;
   getConversion(id: number): Promise<Conversion | undefined>;
   getConversionsByUploadId(uploadId: number): Promise<Conversion[]>;
+  countConversionsByResolution(resolution: string): Promise<number>;
   updateConversionStatus(id: number, status: JobStatus, progress?: number): Promise<Conversion>;
   updateConversionProgress(id: number, progress: number): Promise<Conversion>;
   updateConversionError(id: number, error: string): Promise<Conversion>;
+  updateConversionStreamInfo(id: number, info: Pick<Conversion, 'bandwidth' | 'codecs' | 'width' | 'height'>): Promise<Conversion>;
+  updateConversionEncryption(id: number, keys: string[] | null): Promise<Conversion>;
+  getConversionEncryptionKey(id: number, index: number): Promise<string | undefined>;
+  createEncodingProfile(profile: InsertEncodingProfile): Promise<EncodingProfile>;
+  getEncodingProfile(id: number): Promise<EncodingProfile | undefined>;
+  getEncodingProfileByName(name: string): Promise<EncodingProfile | undefined>;
+  getEncodingProfiles(): Promise<EncodingProfile[]>;
+  updateEncodingProfile(id: number, update: Partial<InsertEncodingProfile>): Promise<EncodingProfile>;
+  deleteEncodingProfile(id: number): Promise<boolean>;
   createAccount(account: InsertAccount): Promise<Account>;
   getAccount(id: number): Promise<Account | undefined>;
   getAccounts(): Promise<Account[]>;
   updateAccountUsage(id: string, storageUsed: number): Promise<Account>;
+  incrementAccountUsage(id: string, bytes: number): Promise<Account>;
+  getFileIdsOwnedByAccount(serviceAccountId: string): Promise<string[]>;
+  reassignDriveFile(fileId: string, fromAccountId: string, to: BlobRef): Promise<number>;
+  getPendingDriveCopy(fileId: string, fromAccountId: string): Promise<BlobRef | undefined>;
+  getDriveFileReferences(): Promise<DriveFileReference[]>;
+  isDriveFileReferenced(fileId: string): Promise<boolean>;
+  relinkDriveFile(kind: DriveFileReferenceKind, recordId: number, fileId: string, serviceAccountId: string | null): Promise<boolean>;
   createFolder(folder: InsertFolder): Promise<Folder>;
   getFolder(id: number): Promise<Folder | undefined>;
-  getFolderByName(name: string): Promise<Folder | undefined>;
-  getFolders(): Promise<Folder[]>;
+  getFolderByName(name: string, parentId: number | null, userId?: string): Promise<Folder | undefined>;
+  getFolders(userId?: string): Promise<Folder[]>;
+  getChildFolders(parentId: number | null, userId?: string): Promise<Folder[]>;
+  getFoldersSharedWith(userId: string): Promise<Folder[]>;
+  getFolderAncestors(folder: Folder): Promise<Folder[]>;
+  getFolderDescendants(id: number): Promise<Folder[]>;
   updateFolder(id: number, update: Partial<Folder>): Promise<Folder>;
+  moveFolder(id: number, parentId: number | null): Promise<Folder>;
   deleteFolder(id: number): Promise<boolean>;
-  count(options?: { folderId?: string }): Promise<number>;
+  deleteFolderTree(id: number): Promise<{ folders: number; files: number }>;
+  count(options?: { userId?: string; folderId?: string; trashed?: boolean }): Promise<number>;
   deleteFile(id: number): Promise<boolean>;
   moveFile(id: number, newFolderId: number): Promise<boolean>;
 }
@@ -58,8 +174,10 @@ export class MongoStorage implements IStorage {
   private uploadIdCounter: number = 1;
   private chunkIdCounter: number = 1;
   private conversionIdCounter: number = 1;
+  private encodingProfileIdCounter: number = 1;
   private accountIdCounter: number = 1;
   private folderIdCounter: number = 1;
+  private metadataFieldIdCounter: number = 1;
 
   constructor() {
     logger.debug('Starting MongoStorage constructor');
@@ -71,6 +189,7 @@ export class MongoStorage implements IStorage {
     try {
       await this.initializeCounters();
       await this.initializeDefaultFolders();
+      await this.initializeDefaultEncodingProfiles();
     } catch (error) {
       logger.error('Failed to initialize storage:', error);
       throw new Error('Storage initialization failed');
@@ -79,7 +198,7 @@ export class MongoStorage implements IStorage {
 
   private async initializeCounters() {
     logger.debug('Starting initializeCounters');
-    const [maxUser, maxFile, maxUpload, maxChunk, maxConversion, maxAccount, maxFolder] = await Promise.all([
+    const [maxUser, maxFile, maxUpload, maxChunk, maxConversion, maxAccount, maxFolder, maxEncodingProfile, maxMetadataField] = await Promise.all([
       UserModel.findOne().sort({ id: -1 }).exec(),
       FileModel.findOne().sort({ id: -1 }).exec(),
       UploadModel.findOne().sort({ id: -1 }).exec(),
@@ -87,6 +206,8 @@ export class MongoStorage implements IStorage {
       ConversionModel.findOne().sort({ id: -1 }).exec(),
       ServiceAccount.findOne().sort({ id: -1 }).exec(),
       FolderModel.findOne().sort({ id: -1 }).exec(),
+      EncodingProfileModel.findOne().sort({ id: -1 }).exec(),
+      MetadataFieldModel.findOne().sort({ id: -1 }).exec(),
     ]);
 
     this.userIdCounter = (maxUser?.id || 0) + 1;
@@ -96,8 +217,10 @@ export class MongoStorage implements IStorage {
     this.conversionIdCounter = (maxConversion?.id || 0) + 1;
     this.accountIdCounter = (maxAccount?.id || 0) + 1;
     this.folderIdCounter = (maxFolder?.id || 0) + 1;
+    this.encodingProfileIdCounter = (maxEncodingProfile?.id || 0) + 1;
+    this.metadataFieldIdCounter = (maxMetadataField?.id || 0) + 1;
 
-    logger.debug(`Initialized counters: user=${this.userIdCounter}, file=${this.fileIdCounter}, upload=${this.uploadIdCounter}, chunk=${this.chunkIdCounter}, conversion=${this.conversionIdCounter}, account=${this.accountIdCounter}, folder=${this.folderIdCounter}`);
+    logger.debug(`Initialized counters: user=${this.userIdCounter}, file=${this.fileIdCounter}, upload=${this.uploadIdCounter}, chunk=${this.chunkIdCounter}, conversion=${this.conversionIdCounter}, account=${this.accountIdCounter}, folder=${this.folderIdCounter}, encodingProfile=${this.encodingProfileIdCounter}, metadataField=${this.metadataFieldIdCounter}`);
   }
 
   private async initializeDefaultFolders() {
@@ -105,7 +228,7 @@ export class MongoStorage implements IStorage {
     const defaultFolders = ['C++ Basics', 'Game Development', 'Full-Stack Projects'];
     for (const name of defaultFolders) {
       logger.debug(`Checking for default folder: name=${name}`);
-      const existing = await FolderModel.findOne({ name }).exec();
+      const existing = await FolderModel.findOne({ name, parentId: null, userId: null }).exec();
       if (!existing) {
         logger.debug(`Creating default folder: name=${name}`);
         await this.createFolder({ name });
@@ -116,6 +239,20 @@ export class MongoStorage implements IStorage {
     logger.debug('Completed initializeDefaultFolders');
   }
 
+  private async initializeDefaultEncodingProfiles() {
+    logger.debug('Starting initializeDefaultEncodingProfiles');
+    for (const profile of defaultEncodingProfiles) {
+      const existing = await EncodingProfileModel.findOne({ name: profile.name }).exec();
+      if (!existing) {
+        logger.debug(`Creating default encoding profile: name=${profile.name}`);
+        await this.createEncodingProfile(profile);
+      } else {
+        logger.debug(`Default encoding profile already exists: name=${profile.name}`);
+      }
+    }
+    logger.debug('Completed initializeDefaultEncodingProfiles');
+  }
+
   // User operations
   async getUser(id: number): Promise<User | undefined> {
     try {
@@ -192,6 +329,8 @@ export class MongoStorage implements IStorage {
       id,
       fileType: insertUpload.fileType,
       externalFileId: insertUpload.externalFileId,
+      storageBackend: insertUpload.storageBackend ?? 'gdrive',
+      serviceAccountId: insertUpload.serviceAccountId ?? null,
       source: insertUpload.source,
       fileId: insertUpload.fileId,
       fileSize: insertUpload.fileSize,
@@ -199,8 +338,10 @@ export class MongoStorage implements IStorage {
       category: insertUpload.category,
       status: insertUpload.status ?? 'processing',
       identifier: insertUpload.identifier ?? null,
+      checksum: insertUpload.checksum ?? null,
       folderName: insertUpload.folderName ?? null,
       thumbnail: insertUpload.thumbnail ?? null,
+      thumbnailServiceAccountId: insertUpload.thumbnailServiceAccountId ?? null,
       folderId: insertUpload.folderId ?? null,
       createdAt: now,
       updatedAt: now,
@@ -232,22 +373,67 @@ export class MongoStorage implements IStorage {
     return upload || undefined;
   }
 
+  async findReusableUpload(identifier: string, userId: string | null): Promise<Upload | undefined> {
+    logger.debug(`Starting findReusableUpload: identifier=${identifier}, userId=${userId}`);
+    // Only a finished upload has a blob that another upload can point at, and only one of
+    // the same user's, as its blob sits in that user's service accounts
+    const upload = await UploadModel.findOne({
+      identifier,
+      userId,
+      status: 'ready',
+      deletedAt: null,
+      externalFileId: { $nin: [null, 'pending'] },
+    }).sort({ createdAt: 1 }).exec();
+    if (upload) {
+      logger.debug(`Found reusable upload: identifier=${identifier}, id=${upload.id}, externalFileId=${upload.externalFileId}`);
+    } else {
+      logger.debug(`No reusable upload: identifier=${identifier}`);
+    }
+    return upload || undefined;
+  }
+
+  async countUploadReferences(storageBackend: StorageBackend, externalFileId: string): Promise<number> {
+    logger.debug(`Starting countUploadReferences: storageBackend=${storageBackend}, externalFileId=${externalFileId}`);
+    // A blob can be referenced as an upload's content or as its thumbnail. Uploads saved
+    // before storage backends existed have no backend and live in Drive.
+    const count = await UploadModel.countDocuments({
+      $or: [{ externalFileId }, { thumbnail: externalFileId }],
+      storageBackend: storageBackend === 'gdrive' ? { $in: ['gdrive', null] } : storageBackend,
+    }).exec();
+    logger.debug(`Counted ${count} references to storageBackend=${storageBackend}, externalFileId=${externalFileId}`);
+    return count;
+  }
+
   async getUploads(options?: {
+    userId?: string;
+    trashed?: boolean;
+    tags?: string[];
+    fields?: MetadataFieldValues;
     category?: string;
     folderId?: string;
     limit?: number;
     offset?: number;
   }): Promise<Upload[]> {
     logger.debug(`Starting getUploads: options=${JSON.stringify(options)}`);
-    const query: any = {};
+    // Either the trash or everything outside it, never both
+    const query: any = { deletedAt: options?.trashed ? { $ne: null } : null };
+    if (options?.userId) {
+      query.userId = options.userId;
+    }
     if (options?.category) {
       query.category = options.category;
     }
     if (options?.folderId) {
       query.folderId = options.folderId;
     }
+    if (options?.tags?.length) {
+      query.tags = { $all: options.tags };
+    }
+    for (const [key, value] of Object.entries(options?.fields ?? {})) {
+      query[`metadata.fields.${key}`] = value;
+    }
 
-    let uploadsQuery = UploadModel.find(query).sort({ createdAt: -1 });
+    let uploadsQuery = UploadModel.find(query).sort(options?.trashed ? { deletedAt: -1 } : { createdAt: -1 });
     if (options?.offset !== undefined && options?.limit !== undefined) {
       uploadsQuery = uploadsQuery.skip(options.offset).limit(options.limit);
       logger.debug(`Applying pagination: offset=${options.offset}, limit=${options.limit}`);
@@ -273,11 +459,11 @@ export class MongoStorage implements IStorage {
     return upload.toObject();
   }
 
-  async updateUploadThumbnail(id: number, thumbnailId: string): Promise<Upload> {
+  async updateUploadThumbnail(id: number, thumbnailId: string, serviceAccountId: string | null): Promise<Upload> {
     logger.debug(`Starting updateUploadThumbnail: id=${id}, thumbnailId=${thumbnailId}`);
     const upload = await UploadModel.findOneAndUpdate(
       { id },
-      { thumbnail: thumbnailId, updatedAt: new Date() },
+      { thumbnail: thumbnailId, thumbnailServiceAccountId: serviceAccountId, updatedAt: new Date() },
       { new: true }
     ).exec();
     if (!upload) {
@@ -288,6 +474,411 @@ export class MongoStorage implements IStorage {
     return upload.toObject();
   }
 
+  async updateUploadCategory(id: number, category: FileCategory): Promise<Upload> {
+    logger.debug(`Starting updateUploadCategory: id=${id}, category=${category}`);
+    const upload = await UploadModel.findOneAndUpdate(
+      { id },
+      { category, updatedAt: new Date() },
+      { new: true }
+    ).exec();
+    if (!upload) {
+      logger.error(`Upload not found: id=${id}`);
+      throw new Error(`Upload with ID ${id} not found`);
+    }
+    logger.debug(`Updated upload category: id=${id}, category=${category}`);
+    return upload.toObject();
+  }
+
+  /**
+   * Put an upload in a folder, or at the top level when folder is null
+   */
+  async moveUpload(id: number, folder: Folder | null): Promise<Upload> {
+    logger.debug(`Starting moveUpload: id=${id}, folderId=${folder?.id ?? null}`);
+    const upload = await UploadModel.findOneAndUpdate(
+      { id },
+      { folderId: folder ? folder.id.toString() : null, folderName: folder?.name ?? null, updatedAt: new Date() },
+      { new: true }
+    ).exec();
+    if (!upload) {
+      logger.error(`Upload not found: id=${id}`);
+      throw new Error(`Upload with ID ${id} not found`);
+    }
+    logger.debug(`Moved upload: id=${id}, folderId=${upload.folderId}`);
+    return upload.toObject();
+  }
+
+  async getUploadsWithoutServiceAccount(): Promise<Upload[]> {
+    logger.debug('Starting getUploadsWithoutServiceAccount');
+    // Drive uploads saved before owners were recorded, for the file or its thumbnail
+    const uploads = await UploadModel.find({
+      storageBackend: { $in: ['gdrive', null] },
+      externalFileId: { $nin: [null, 'pending'] },
+      $or: [
+        { serviceAccountId: null },
+        { thumbnail: { $ne: null }, thumbnailServiceAccountId: null },
+      ],
+    }).exec();
+    logger.debug(`Found ${uploads.length} uploads without a service account`);
+    return uploads.map(upload => upload.toObject() as Upload);
+  }
+
+  async updateUploadServiceAccounts(
+    id: number,
+    update: Partial<Pick<Upload, 'serviceAccountId' | 'thumbnailServiceAccountId'>>
+  ): Promise<Upload> {
+    logger.debug(`Starting updateUploadServiceAccounts: id=${id}, update=${JSON.stringify(update)}`);
+    const upload = await UploadModel.findOneAndUpdate(
+      { id },
+      { ...update, updatedAt: new Date() },
+      { new: true }
+    ).exec();
+    if (!upload) {
+      logger.error(`Upload not found: id=${id}`);
+      throw new Error(`Upload with ID ${id} not found`);
+    }
+    logger.debug(`Updated upload service accounts: id=${id}`);
+    return upload.toObject();
+  }
+
+  async getUploadsWithoutOwner(): Promise<Upload[]> {
+    logger.debug('Starting getUploadsWithoutOwner');
+    // Uploads saved before owners were recorded are only visible to admins
+    const uploads = await UploadModel.find({ userId: null }).exec();
+    logger.debug(`Found ${uploads.length} uploads without an owner`);
+    return uploads.map(upload => upload.toObject() as Upload);
+  }
+
+  async updateUploadOwner(id: number, userId: string): Promise<boolean> {
+    logger.debug(`Starting updateUploadOwner: id=${id}, userId=${userId}`);
+    // Never overwrites an owner recorded meanwhile
+    const result = await UploadModel.updateOne({ id, userId: null }, { userId, updatedAt: new Date() }).exec();
+    return result.modifiedCount > 0;
+  }
+
+  async updateUploadShares(id: number, shares: Share[]): Promise<Upload> {
+    logger.debug(`Starting updateUploadShares: id=${id}, shares=${shares.length}`);
+    const upload = await UploadModel.findOneAndUpdate(
+      { id },
+      { shares, updatedAt: new Date() },
+      { new: true }
+    ).exec();
+    if (!upload) {
+      logger.error(`Upload not found: id=${id}`);
+      throw new Error(`Upload with ID ${id} not found`);
+    }
+    logger.debug(`Updated upload shares: id=${id}`);
+    return upload.toObject();
+  }
+
+  async getUploadsSharedWith(userId: string): Promise<Upload[]> {
+    logger.debug(`Starting getUploadsSharedWith: userId=${userId}`);
+    const uploads = await UploadModel.find({ 'shares.userId': userId, deletedAt: null }).sort({ createdAt: -1 }).exec();
+    logger.debug(`Retrieved ${uploads.length} uploads shared with userId=${userId}`);
+    return uploads.map((upload: mongoose.Document & Upload) => upload.toObject() as Upload);
+  }
+
+  async trashUpload(id: number): Promise<Upload> {
+    logger.debug(`Starting trashUpload: id=${id}`);
+    const now = new Date();
+    const upload = await UploadModel.findOneAndUpdate(
+      { id },
+      { deletedAt: now, updatedAt: now },
+      { new: true }
+    ).exec();
+    if (!upload) {
+      logger.error(`Upload not found: id=${id}`);
+      throw new Error(`Upload with ID ${id} not found`);
+    }
+    // Segments go with their upload so signed stream URLs stop working too
+    await ChunkModel.updateMany({ uploadId: id }, { deletedAt: now }).exec();
+    logger.debug(`Moved upload to trash: id=${id}`);
+    return upload.toObject();
+  }
+
+  async restoreUpload(id: number): Promise<Upload> {
+    logger.debug(`Starting restoreUpload: id=${id}`);
+    const existing = await UploadModel.findOne({ id }).exec();
+    if (!existing) {
+      logger.error(`Upload not found: id=${id}`);
+      throw new Error(`Upload with ID ${id} not found`);
+    }
+
+    // A file whose folder was deleted meanwhile comes back at the top level
+    const update: Record<string, any> = { deletedAt: null, updatedAt: new Date() };
+    if (existing.folderId && !(await FolderModel.exists({ id: parseInt(existing.folderId, 10) }))) {
+      update.folderId = null;
+      update.folderName = null;
+    }
+
+    const upload = await UploadModel.findOneAndUpdate({ id }, update, { new: true }).exec();
+    await ChunkModel.updateMany({ uploadId: id }, { deletedAt: null }).exec();
+    logger.debug(`Restored upload from trash: id=${id}, folderId=${upload.folderId}`);
+    return upload.toObject();
+  }
+
+  async getUploadsTrashedBefore(date: Date): Promise<Upload[]> {
+    logger.debug(`Starting getUploadsTrashedBefore: date=${date.toISOString()}`);
+    const uploads = await UploadModel.find({ deletedAt: { $ne: null, $lt: date } }).exec();
+    logger.debug(`Retrieved ${uploads.length} uploads trashed before ${date.toISOString()}`);
+    return uploads.map((upload: mongoose.Document & Upload) => upload.toObject() as Upload);
+  }
+
+  async searchUploads(options: UploadSearchOptions): Promise<UploadSearchResult> {
+    logger.debug(`Starting searchUploads: options=${JSON.stringify(options)}`);
+    const range = (min?: number | Date, max?: number | Date) => ({
+      ...(min !== undefined && { $gte: min }),
+      ...(max !== undefined && { $lte: max }),
+    });
+
+    const match: Record<string, any> = { deletedAt: null };
+    if (options.query) match.$text = { $search: options.query };
+    if (options.userId) match.userId = options.userId;
+    if (options.folderId) match.folderId = options.folderId;
+    if (options.tags?.length) match.tags = { $all: options.tags };
+    if (options.codec) match['metadata.codec'] = options.codec;
+    if (options.minDuration !== undefined || options.maxDuration !== undefined) {
+      match['metadata.duration'] = range(options.minDuration, options.maxDuration);
+    }
+    if (options.minHeight !== undefined) match['metadata.height'] = range(options.minHeight);
+    if (options.minPages !== undefined || options.maxPages !== undefined) {
+      match['metadata.pageCount'] = range(options.minPages, options.maxPages);
+    }
+
+    // Facet filters stay apart so each facet counts as if its own filter were unset,
+    // letting the client offer the other values of a facet already narrowed down
+    const facetFilters: Record<keyof SearchFacets, Record<string, any> | null> = {
+      category: options.category?.length ? { category: { $in: options.category } } : null,
+      mimeType: options.mimeType?.length ? { fileType: { $in: options.mimeType } } : null,
+      status: options.status?.length ? { status: { $in: options.status } } : null,
+      size: options.minSize !== undefined || options.maxSize !== undefined
+        ? { fileSize: range(options.minSize, options.maxSize) }
+        : null,
+      date: options.from || options.to ? { createdAt: range(options.from, options.to) } : null,
+    };
+    const filtersExcept = (facet?: keyof SearchFacets): Record<string, any> => {
+      const filters = Object.entries(facetFilters)
+        .filter(([name, filter]) => name !== facet && filter)
+        .map(([, filter]) => filter);
+      return filters.length ? { $and: filters } : {};
+    };
+
+    // Relevance only means something when there are words to match
+    const { field, direction } = searchSortOrders[options.sort === 'relevance' && !options.query ? 'newest' : options.sort];
+    const op = direction === 1 ? '$gt' : '$lt';
+    const cursorValue = options.cursor && field === 'createdAt' && options.cursor.value !== null
+      ? new Date(options.cursor.value)
+      : options.cursor?.value;
+    const afterCursor = options.cursor
+      ? { $or: [{ [field]: { [op]: cursorValue } }, { [field]: cursorValue, id: { [op]: options.cursor.id } }] }
+      : {};
+
+    const day = 24 * 60 * 60 * 1000;
+    const now = Date.now();
+    const dateBoundaries = [0, now - 365 * day, now - 30 * day, now - 7 * day, now - day, now + day].map(t => new Date(t));
+    const countBy = (facet: keyof SearchFacets, key: string): mongoose.PipelineStage.FacetPipelineStage[] => [
+      { $match: filtersExcept(facet) },
+      { $group: { _id: `$${key}`, count: { $sum: 1 } } },
+      { $sort: { count: -1, _id: 1 } },
+      { $limit: 20 },
+    ];
+
+    const [found] = await UploadModel.aggregate([
+      { $match: match },
+      ...(options.query ? [{ $addFields: { score: { $meta: 'textScore' } } }] : []),
+      {
+        $facet: {
+          results: [
+            { $match: filtersExcept() },
+            { $match: afterCursor },
+            { $sort: { [field]: direction, id: direction } },
+            { $limit: options.limit + 1 },
+          ],
+          total: [{ $match: filtersExcept() }, { $count: 'count' }],
+          category: countBy('category', 'category'),
+          mimeType: countBy('mimeType', 'fileType'),
+          status: countBy('status', 'status'),
+          size: [
+            { $match: filtersExcept('size') },
+            { $bucket: { groupBy: '$fileSize', boundaries: searchSizeBoundaries, default: 'larger', output: { count: { $sum: 1 } } } },
+          ],
+          date: [
+            { $match: filtersExcept('date') },
+            { $bucket: { groupBy: '$createdAt', boundaries: dateBoundaries, default: 'unknown', output: { count: { $sum: 1 } } } },
+          ],
+        },
+      },
+    ]).exec();
+
+    const results: Upload[] = found.results.slice(0, options.limit);
+    const last: any = results[results.length - 1];
+    const nextCursor = found.results.length > options.limit
+      ? encodeSearchCursor({ value: last[field] instanceof Date ? last[field].toISOString() : last[field] ?? null, id: last.id })
+      : null;
+
+    const values = (buckets: { _id: string | null; count: number }[]) =>
+      buckets.filter(bucket => bucket._id !== null).map(bucket => ({ value: bucket._id as string, count: bucket.count }));
+    const facets: SearchFacets = {
+      category: values(found.category),
+      mimeType: values(found.mimeType),
+      status: values(found.status),
+      size: found.size.map((bucket: { _id: number | 'larger'; count: number }) => {
+        if (bucket._id === 'larger') {
+          return { min: searchSizeBoundaries[searchSizeBoundaries.length - 1], max: null, count: bucket.count };
+        }
+        const index = searchSizeBoundaries.indexOf(bucket._id);
+        return { min: bucket._id, max: searchSizeBoundaries[index + 1] ?? null, count: bucket.count };
+      }),
+      // Open-ended at both ends: "older than a year" and "in the last day"
+      date: found.date
+        .filter((bucket: { _id: Date | 'unknown' }) => bucket._id !== 'unknown')
+        .map((bucket: { _id: Date; count: number }) => {
+          const index = dateBoundaries.findIndex(boundary => boundary.getTime() === new Date(bucket._id).getTime());
+          return {
+            from: index > 0 ? dateBoundaries[index].toISOString() : null,
+            to: index < dateBoundaries.length - 2 ? dateBoundaries[index + 1].toISOString() : null,
+            count: bucket.count,
+          };
+        }),
+    };
+
+    const total = found.total[0]?.count ?? 0;
+    logger.debug(`Search matched ${total} uploads, returning ${results.length}`);
+    return { results, total, nextCursor, facets };
+  }
+
+  async updateUploadsMetadata(ids: number[], edit: UploadMetadataEdit): Promise<number> {
+    logger.debug(`Starting updateUploadsMetadata: ids=${ids.join(',')}, edit=${JSON.stringify(edit)}`);
+    const filter = { id: { $in: ids } };
+    const now = new Date();
+
+    const set: Record<string, any> = { updatedAt: now };
+    const unset: Record<string, ''> = {};
+    if (edit.tags) set.tags = edit.tags;
+    for (const [key, value] of Object.entries(edit.fields ?? {})) {
+      if (value === null) unset[`metadata.fields.${key}`] = '';
+      else set[`metadata.fields.${key}`] = value;
+    }
+    const result = await UploadModel.updateMany(filter, { $set: set, ...(Object.keys(unset).length && { $unset: unset }) }).exec();
+
+    // A field cannot be added to and pulled from in one update
+    if (edit.addTags?.length) {
+      await UploadModel.updateMany(filter, { $addToSet: { tags: { $each: edit.addTags } } }).exec();
+    }
+    if (edit.removeTags?.length) {
+      await UploadModel.updateMany(filter, { $pull: { tags: { $in: edit.removeTags } } }).exec();
+    }
+
+    logger.debug(`Updated metadata of ${result.matchedCount} uploads`);
+    return result.matchedCount;
+  }
+
+  /**
+   * Replace what was read from an upload's file, keeping its custom field values
+   */
+  async updateUploadMediaMetadata(id: number, media: ProbedMetadata): Promise<Upload> {
+    logger.debug(`Starting updateUploadMediaMetadata: id=${id}, media=${JSON.stringify(media)}`);
+    const set: Record<string, any> = { updatedAt: new Date() };
+    const unset: Record<string, ''> = {};
+    for (const key of probedMetadataKeys) {
+      if (media[key] === undefined) unset[`metadata.${key}`] = '';
+      else set[`metadata.${key}`] = media[key];
+    }
+    // The dimensions and length are also top-level fields of the upload
+    set.duration = media.duration ?? null;
+    set.width = media.width ?? null;
+    set.height = media.height ?? null;
+
+    const upload = await UploadModel.findOneAndUpdate(
+      { id },
+      { $set: set, $unset: unset },
+      { new: true }
+    ).exec();
+    if (!upload) {
+      logger.error(`Upload not found: id=${id}`);
+      throw new Error(`Upload with ID ${id} not found`);
+    }
+    logger.debug(`Updated media metadata of upload: id=${id}`);
+    return upload.toObject();
+  }
+
+  // Upload manifest operations
+  async createUploadManifest(insertManifest: InsertUploadManifest): Promise<UploadManifest> {
+    logger.debug(`Starting createUploadManifest: uploadId=${insertManifest.uploadId}, totalChunks=${insertManifest.totalChunks}`);
+    const manifest = new UploadManifestModel({
+      ...insertManifest,
+      receivedChunks: [],
+    });
+    await manifest.save();
+    logger.debug(`Created upload manifest: uploadId=${insertManifest.uploadId}`);
+    return manifest.toObject();
+  }
+
+  async getUploadManifest(uploadId: number): Promise<UploadManifest | undefined> {
+    logger.debug(`Starting getUploadManifest: uploadId=${uploadId}`);
+    const manifest = await UploadManifestModel.findOne({ uploadId }).exec();
+    if (manifest) {
+      logger.debug(`Found upload manifest: uploadId=${uploadId}, received=${manifest.receivedChunks.length}/${manifest.totalChunks}`);
+    } else {
+      logger.debug(`Upload manifest not found: uploadId=${uploadId}`);
+    }
+    return manifest ? manifest.toObject() : undefined;
+  }
+
+  async recordUploadedChunk(uploadId: number, index: number, size: number, checksum: string): Promise<UploadManifest> {
+    logger.debug(`Starting recordUploadedChunk: uploadId=${uploadId}, index=${index}, size=${size}`);
+    // A re-sent chunk replaces the previous entry rather than adding a duplicate
+    let manifest = await UploadManifestModel.findOneAndUpdate(
+      { uploadId, 'receivedChunks.index': index },
+      { $set: { 'receivedChunks.$.size': size, 'receivedChunks.$.checksum': checksum }, updatedAt: new Date() },
+      { new: true }
+    ).exec();
+    if (!manifest) {
+      manifest = await UploadManifestModel.findOneAndUpdate(
+        { uploadId, 'receivedChunks.index': { $ne: index } },
+        { $push: { receivedChunks: { index, size, checksum } }, updatedAt: new Date() },
+        { new: true }
+      ).exec();
+    }
+    if (!manifest) {
+      // Lost a race with a concurrent request for the same index
+      manifest = await UploadManifestModel.findOne({ uploadId }).exec();
+    }
+    if (!manifest) {
+      logger.error(`Upload manifest not found: uploadId=${uploadId}`);
+      throw new Error(`Upload manifest for upload ${uploadId} not found`);
+    }
+    logger.debug(`Recorded chunk: uploadId=${uploadId}, index=${index}, received=${manifest.receivedChunks.length}/${manifest.totalChunks}`);
+    return manifest.toObject();
+  }
+
+  async claimUploadManifest(uploadId: number, staleAfterMs: number): Promise<UploadManifest | undefined> {
+    logger.debug(`Starting claimUploadManifest: uploadId=${uploadId}`);
+    // Only one request may complete an upload; a claim left by a request that died expires
+    const now = new Date();
+    const manifest = await UploadManifestModel.findOneAndUpdate(
+      {
+        uploadId,
+        $or: [{ completingAt: null }, { completingAt: { $lt: new Date(now.getTime() - staleAfterMs) } }],
+      },
+      { completingAt: now },
+      { new: true }
+    ).exec();
+    logger.debug(`Claimed upload manifest: uploadId=${uploadId}, claimed=${!!manifest}`);
+    return manifest ? manifest.toObject() : undefined;
+  }
+
+  async releaseUploadManifest(uploadId: number): Promise<void> {
+    logger.debug(`Starting releaseUploadManifest: uploadId=${uploadId}`);
+    await UploadManifestModel.updateOne({ uploadId }, { completingAt: null }).exec();
+  }
+
+  async deleteUploadManifest(uploadId: number): Promise<boolean> {
+    logger.debug(`Starting deleteUploadManifest: uploadId=${uploadId}`);
+    const result = await UploadManifestModel.deleteOne({ uploadId }).exec();
+    logger.debug(`Deleted upload manifest: uploadId=${uploadId}, deleted=${result.deletedCount > 0}`);
+    return result.deletedCount > 0;
+  }
+
   // Chunk operations
   async createChunk(insertChunk: InsertChunk): Promise<Chunk> {
     logger.debug(`Starting createChunk: uploadId=${insertChunk.uploadId}`);
@@ -315,6 +906,35 @@ export class MongoStorage implements IStorage {
     return chunks.map((chunk: mongoose.Document & Chunk) => chunk.toObject() as Chunk);
   }
 
+  async deleteChunks(ids: number[]): Promise<number> {
+    logger.debug(`Starting deleteChunks: ids=${ids.length}`);
+    if (ids.length === 0) return 0;
+
+    // Blobs first: if one cannot be deleted, its record is kept to try again
+    const chunks = await ChunkModel.find({ id: { $in: ids } }).exec();
+    await this.releaseChunkBlobs(chunks);
+    await ChunkModel.deleteMany({ id: { $in: ids } }).exec();
+    logger.debug(`Deleted ${chunks.length} chunks`);
+    return chunks.length;
+  }
+
+  // HLS segments belong to their chunk alone unless a chunk other than those being deleted
+  // was pointed at the same blob
+  private async releaseChunkBlobs(chunks: Chunk[]): Promise<void> {
+    const ids = chunks.map(chunk => chunk.id);
+    for (const chunk of chunks) {
+      const shared = await ChunkModel.exists({
+        storageBackend: chunk.storageBackend,
+        externalFileId: chunk.externalFileId,
+        id: { $nin: ids },
+      });
+      if (shared) {
+        continue;
+      }
+      await blobStores.for(chunk.storageBackend).delete({ id: chunk.externalFileId, accountId: chunk.serviceAccountId ?? null });
+    }
+  }
+
   async getChunk(id: number): Promise<Chunk | undefined> {
     logger.debug(`Starting getChunk: id=${id}`);
     const chunk = await ChunkModel.findOne({ id }).exec();
@@ -326,6 +946,27 @@ export class MongoStorage implements IStorage {
     return chunk || undefined;
   }
 
+  async getChunksWithoutServiceAccount(): Promise<Chunk[]> {
+    logger.debug('Starting getChunksWithoutServiceAccount');
+    const chunks = await ChunkModel.find({
+      storageBackend: { $in: ['gdrive', null] },
+      serviceAccountId: null,
+    }).exec();
+    logger.debug(`Found ${chunks.length} chunks without a service account`);
+    return chunks.map(chunk => chunk.toObject() as Chunk);
+  }
+
+  async updateChunkServiceAccount(id: number, serviceAccountId: string): Promise<Chunk> {
+    logger.debug(`Starting updateChunkServiceAccount: id=${id}, serviceAccountId=${serviceAccountId}`);
+    const chunk = await ChunkModel.findOneAndUpdate({ id }, { serviceAccountId }, { new: true }).exec();
+    if (!chunk) {
+      logger.error(`Chunk not found: id=${id}`);
+      throw new Error(`Chunk with ID ${id} not found`);
+    }
+    logger.debug(`Updated chunk service account: id=${id}, serviceAccountId=${serviceAccountId}`);
+    return chunk.toObject();
+  }
+
   // Conversion operations
   async createConversion(insertConversion: InsertConversion): Promise<Conversion> {
     logger.debug(`Starting createConversion: uploadId=${insertConversion.uploadId}, resolution=${insertConversion.resolution}`);
@@ -337,10 +978,15 @@ export class MongoStorage implements IStorage {
       uploadId: insertConversion.uploadId,
       resolution: insertConversion.resolution,
       status: insertConversion.status ?? 'waiting',
+      encrypted: insertConversion.encrypted ?? false,
       progress: 0,
       startedAt: null,
       completedAt: null,
       error: null,
+      bandwidth: null,
+      codecs: null,
+      width: null,
+      height: null,
       createdAt: now,
       updatedAt: now,
     });
@@ -367,6 +1013,36 @@ export class MongoStorage implements IStorage {
     return conversions.map((conversion: mongoose.Document & Conversion) => conversion.toObject() as Conversion);
   }
 
+  async updateConversionEncryption(id: number, keys: string[] | null): Promise<Conversion> {
+    logger.debug(`Starting updateConversionEncryption: id=${id}, keys=${keys ? keys.length : 'none'}`);
+    const conversion = await ConversionModel.findOneAndUpdate(
+      { id },
+      { encrypted: keys !== null, encryptionKeys: keys ?? [], updatedAt: new Date() },
+      { new: true }
+    ).exec();
+    if (!conversion) {
+      logger.error(`Conversion not found: id=${id}`);
+      throw new Error(`Conversion with ID ${id} not found`);
+    }
+    logger.debug(`Updated conversion encryption: id=${id}, encrypted=${keys !== null}`);
+    return conversion.toObject();
+  }
+
+  async getConversionEncryptionKey(id: number, index: number): Promise<string | undefined> {
+    logger.debug(`Starting getConversionEncryptionKey: id=${id}, index=${index}`);
+    const conversion = await ConversionModel.findOne({ id }).select('+encryptionKeys').exec();
+    const key = conversion?.encrypted ? conversion.encryptionKeys?.[index] : undefined;
+    logger.debug(`${key ? 'Found' : 'No'} encryption key: id=${id}, index=${index}`);
+    return key;
+  }
+
+  async countConversionsByResolution(resolution: string): Promise<number> {
+    logger.debug(`Starting countConversionsByResolution: resolution=${resolution}`);
+    const count = await ConversionModel.countDocuments({ resolution }).exec();
+    logger.debug(`Counted ${count} conversions for resolution=${resolution}`);
+    return count;
+  }
+
   async updateConversionStatus(id: number, status: JobStatus, progress?: number): Promise<Conversion> {
     logger.debug(`Starting updateConversionStatus: id=${id}, status=${status}, progress=${progress || 'none'}`);
     const update: any = { status, updatedAt: new Date() };
@@ -423,6 +1099,94 @@ export class MongoStorage implements IStorage {
     return conversion.toObject();
   }
 
+  async updateConversionStreamInfo(id: number, info: Pick<Conversion, 'bandwidth' | 'codecs' | 'width' | 'height'>): Promise<Conversion> {
+    logger.debug(`Starting updateConversionStreamInfo: id=${id}, bandwidth=${info.bandwidth}, codecs=${info.codecs}`);
+    const conversion = await ConversionModel.findOneAndUpdate(
+      { id },
+      { ...info, updatedAt: new Date() },
+      { new: true }
+    ).exec();
+    if (!conversion) {
+      logger.error(`Conversion not found: id=${id}`);
+      throw new Error(`Conversion with ID ${id} not found`);
+    }
+    logger.debug(`Updated conversion stream info: id=${id}, resolution=${info.width}x${info.height}`);
+    return conversion.toObject();
+  }
+
+  // Encoding profile operations
+  async createEncodingProfile(insertProfile: InsertEncodingProfile): Promise<EncodingProfile> {
+    logger.debug(`Starting createEncodingProfile: name=${insertProfile.name}`);
+    const id = this.encodingProfileIdCounter++;
+    logger.debug(`Assigned encoding profile ID: id=${id}`);
+    const now = new Date();
+    const profile = new EncodingProfileModel({
+      ...insertProfile,
+      id,
+      createdAt: now,
+      updatedAt: now,
+    });
+    await profile.save();
+    logger.debug(`Created encoding profile: id=${id}, name=${insertProfile.name}`);
+    return profile.toObject();
+  }
+
+  async getEncodingProfile(id: number): Promise<EncodingProfile | undefined> {
+    logger.debug(`Starting getEncodingProfile: id=${id}`);
+    const profile = await EncodingProfileModel.findOne({ id }).exec();
+    if (profile) {
+      logger.debug(`Found encoding profile: id=${id}, name=${profile.name}`);
+    } else {
+      logger.debug(`Encoding profile not found: id=${id}`);
+    }
+    return profile ? profile.toObject() : undefined;
+  }
+
+  async getEncodingProfileByName(name: string): Promise<EncodingProfile | undefined> {
+    logger.debug(`Starting getEncodingProfileByName: name=${name}`);
+    const profile = await EncodingProfileModel.findOne({ name }).exec();
+    if (profile) {
+      logger.debug(`Found encoding profile: id=${profile.id}, name=${name}`);
+    } else {
+      logger.debug(`Encoding profile not found: name=${name}`);
+    }
+    return profile ? profile.toObject() : undefined;
+  }
+
+  async getEncodingProfiles(): Promise<EncodingProfile[]> {
+    logger.debug('Starting getEncodingProfiles');
+    // Largest first, matching how renditions are usually listed
+    const profiles = await EncodingProfileModel.find().sort({ height: -1, id: 1 }).exec();
+    logger.debug(`Retrieved ${profiles.length} encoding profiles`);
+    return profiles.map((profile: mongoose.Document & EncodingProfile) => profile.toObject() as EncodingProfile);
+  }
+
+  async updateEncodingProfile(id: number, update: Partial<InsertEncodingProfile>): Promise<EncodingProfile> {
+    logger.debug(`Starting updateEncodingProfile: id=${id}`);
+    const profile = await EncodingProfileModel.findOneAndUpdate(
+      { id },
+      { ...update, updatedAt: new Date() },
+      { new: true }
+    ).exec();
+    if (!profile) {
+      logger.error(`Encoding profile not found: id=${id}`);
+      throw new Error(`Encoding profile with ID ${id} not found`);
+    }
+    logger.debug(`Updated encoding profile: id=${id}, name=${profile.name}`);
+    return profile.toObject();
+  }
+
+  async deleteEncodingProfile(id: number): Promise<boolean> {
+    logger.debug(`Starting deleteEncodingProfile: id=${id}`);
+    const result = await EncodingProfileModel.deleteOne({ id }).exec();
+    if (result.deletedCount > 0) {
+      logger.debug(`Deleted encoding profile: id=${id}`);
+    } else {
+      logger.debug(`Encoding profile not found for deletion: id=${id}`);
+    }
+    return result.deletedCount > 0;
+  }
+
   // Account operations
   async createAccount(insertAccount: InsertAccount): Promise<Account> {
     logger.debug(`Starting createAccount: email=${insertAccount.email}`);
@@ -477,15 +1241,173 @@ export class MongoStorage implements IStorage {
     return account.toObject();
   }
 
+  async incrementAccountUsage(id: string, bytes: number): Promise<Account> {
+    logger.debug(`Starting incrementAccountUsage: id=${id}, bytes=${bytes}`);
+    // Atomic, so concurrent uploads to one account don't overwrite each other's usage
+    const account = await ServiceAccount.findOneAndUpdate(
+      { _id: id },
+      { $inc: { storageUsed: bytes }, updatedAt: new Date() },
+      { new: true }
+    ).exec();
+    if (!account) {
+      logger.error(`Account not found: id=${id}`);
+      throw new Error(`Account with ID ${id} not found`);
+    }
+    logger.debug(`Incremented account usage: id=${id}, storageUsed=${account.storageUsed}`);
+    return account.toObject();
+  }
+
+  async getFileIdsOwnedByAccount(serviceAccountId: string): Promise<string[]> {
+    logger.debug(`Starting getFileIdsOwnedByAccount: serviceAccountId=${serviceAccountId}`);
+    const [fileIds, thumbnailIds, chunkIds] = await Promise.all([
+      UploadModel.distinct('externalFileId', { serviceAccountId }).exec(),
+      UploadModel.distinct('thumbnail', { thumbnailServiceAccountId: serviceAccountId }).exec(),
+      ChunkModel.distinct('externalFileId', { serviceAccountId }).exec(),
+    ]);
+    // Deduplicated uploads share a file, so the same ID can turn up more than once
+    const ids = Array.from(new Set<string>([...fileIds, ...thumbnailIds, ...chunkIds].filter(Boolean)));
+    logger.debug(`Found ${ids.length} files owned by serviceAccountId=${serviceAccountId}`);
+    return ids;
+  }
+
+  async reassignDriveFile(fileId: string, fromAccountId: string, to: BlobRef): Promise<number> {
+    logger.debug(`Starting reassignDriveFile: fileId=${fileId}, from=${fromAccountId}, to=${to.id}@${to.accountId}`);
+    // The updates below are not atomic together. Recording the copy first lets a rerun after a
+    // partial failure finish repointing to the same copy rather than make another one.
+    await ServiceAccount.updateOne({ _id: fromAccountId }, { $pull: { pendingCopies: { fileId } } }).exec();
+    await ServiceAccount.updateOne(
+      { _id: fromAccountId },
+      { $push: { pendingCopies: { fileId, copyId: to.id, copyAccountId: to.accountId } } }
+    ).exec();
+
+    // Each update only matches records still pointing at the old copy, so a rerun is harmless
+    const uploads = await UploadModel.updateMany(
+      { externalFileId: fileId, serviceAccountId: fromAccountId },
+      { externalFileId: to.id, serviceAccountId: to.accountId, updatedAt: new Date() }
+    ).exec();
+    const thumbnails = await UploadModel.updateMany(
+      { thumbnail: fileId, thumbnailServiceAccountId: fromAccountId },
+      { thumbnail: to.id, thumbnailServiceAccountId: to.accountId, updatedAt: new Date() }
+    ).exec();
+    const chunks = await ChunkModel.updateMany(
+      { externalFileId: fileId, serviceAccountId: fromAccountId },
+      { externalFileId: to.id, serviceAccountId: to.accountId }
+    ).exec();
+
+    await ServiceAccount.updateOne({ _id: fromAccountId }, { $pull: { pendingCopies: { fileId } } }).exec();
+    const modified = uploads.modifiedCount + thumbnails.modifiedCount + chunks.modifiedCount;
+    logger.debug(`Reassigned Drive file: fileId=${fileId}, records=${modified}`);
+    return modified;
+  }
+
+  async getPendingDriveCopy(fileId: string, fromAccountId: string): Promise<BlobRef | undefined> {
+    logger.debug(`Starting getPendingDriveCopy: fileId=${fileId}, from=${fromAccountId}`);
+    const account = await ServiceAccount.findOne({ _id: fromAccountId, 'pendingCopies.fileId': fileId }).exec();
+    const pending = account?.pendingCopies.find((copy: { fileId: string }) => copy.fileId === fileId);
+    return pending ? { id: pending.copyId, accountId: pending.copyAccountId ?? null } : undefined;
+  }
+
+  async getDriveFileReferences(): Promise<DriveFileReference[]> {
+    logger.debug('Starting getDriveFileReferences');
+    const drive = { $in: ['gdrive', null] };
+    const [uploads, chunks] = await Promise.all([
+      UploadModel.find({ storageBackend: drive, externalFileId: { $nin: [null, 'pending'] } }).exec(),
+      ChunkModel.find({ storageBackend: drive }).exec(),
+    ]);
+
+    const references: DriveFileReference[] = [];
+    for (const upload of uploads) {
+      references.push({
+        kind: 'upload',
+        recordId: upload.id,
+        uploadId: upload.id,
+        name: upload.uploadName,
+        fileId: upload.externalFileId,
+        serviceAccountId: upload.serviceAccountId ?? null,
+      });
+      if (upload.thumbnail) {
+        references.push({
+          kind: 'thumbnail',
+          recordId: upload.id,
+          uploadId: upload.id,
+          name: upload.uploadName,
+          fileId: upload.thumbnail,
+          serviceAccountId: upload.thumbnailServiceAccountId ?? null,
+        });
+      }
+    }
+    for (const chunk of chunks) {
+      references.push({
+        kind: 'chunk',
+        recordId: chunk.id,
+        uploadId: chunk.uploadId,
+        name: `${chunk.resolution} segment ${chunk.index}`,
+        fileId: chunk.externalFileId,
+        serviceAccountId: chunk.serviceAccountId ?? null,
+      });
+    }
+
+    logger.debug(`Found ${references.length} Drive file references`);
+    return references;
+  }
+
+  async isDriveFileReferenced(fileId: string): Promise<boolean> {
+    logger.debug(`Starting isDriveFileReferenced: fileId=${fileId}`);
+    const drive = { $in: ['gdrive', null] };
+    const [uploads, thumbnails, chunks] = await Promise.all([
+      UploadModel.countDocuments({ storageBackend: drive, externalFileId: fileId }).exec(),
+      UploadModel.countDocuments({ storageBackend: drive, thumbnail: fileId }).exec(),
+      ChunkModel.countDocuments({ storageBackend: drive, externalFileId: fileId }).exec(),
+    ]);
+    const referenced = uploads + thumbnails + chunks > 0;
+    logger.debug(`Drive file referenced: fileId=${fileId}, referenced=${referenced}`);
+    return referenced;
+  }
+
+  async relinkDriveFile(
+    kind: DriveFileReferenceKind,
+    recordId: number,
+    fileId: string,
+    serviceAccountId: string | null
+  ): Promise<boolean> {
+    logger.debug(`Starting relinkDriveFile: kind=${kind}, recordId=${recordId}, fileId=${fileId}`);
+    let result;
+    switch (kind) {
+      case 'upload':
+        result = await UploadModel.updateOne(
+          { id: recordId },
+          { externalFileId: fileId, storageBackend: 'gdrive', serviceAccountId, updatedAt: new Date() }
+        ).exec();
+        break;
+      case 'thumbnail':
+        result = await UploadModel.updateOne(
+          { id: recordId },
+          { thumbnail: fileId, thumbnailServiceAccountId: serviceAccountId, updatedAt: new Date() }
+        ).exec();
+        break;
+      case 'chunk':
+        result = await ChunkModel.updateOne(
+          { id: recordId },
+          { externalFileId: fileId, storageBackend: 'gdrive', serviceAccountId }
+        ).exec();
+        break;
+    }
+    logger.debug(`Relinked Drive file: kind=${kind}, recordId=${recordId}, matched=${result.matchedCount}`);
+    return result.matchedCount > 0;
+  }
+
   // Folder operations
   async createFolder(insertFolder: InsertFolder): Promise<Folder> {
-    logger.debug(`Starting createFolder: name=${insertFolder.name}`);
+    logger.debug(`Starting createFolder: name=${insertFolder.name}, parentId=${insertFolder.parentId ?? 'none'}`);
+    const path = await this.folderPathUnder(insertFolder.parentId ?? null);
     const id = this.folderIdCounter++;
     logger.debug(`Assigned folder ID: id=${id}`);
     const now = new Date();
     const folder = new FolderModel({
       ...insertFolder,
       id,
+      parentId: insertFolder.parentId ?? null,
+      path,
       createdAt: now,
     });
     await folder.save();
@@ -504,9 +1426,12 @@ export class MongoStorage implements IStorage {
     return folder || undefined;
   }
 
-  async getFolderByName(name: string): Promise<Folder | undefined> {
-    logger.debug(`Starting getFolderByName: name=${name}`);
-    const folder = await FolderModel.findOne({ name }).exec();
+  async getFolderByName(name: string, parentId: number | null, userId?: string): Promise<Folder | undefined> {
+    logger.debug(`Starting getFolderByName: name=${name}, parentId=${parentId}, userId=${userId}`);
+    // Among the children a user can see, their own folder wins over a shared one
+    const folder = await FolderModel.findOne({ name, parentId, ...this.folderOwnerQuery(userId) })
+      .sort({ userId: -1 })
+      .exec();
     if (folder) {
       logger.debug(`Found folder: name=${name}, id=${folder.id}`);
     } else {
@@ -515,13 +1440,47 @@ export class MongoStorage implements IStorage {
     return folder || undefined;
   }
 
-  async getFolders(): Promise<Folder[]> {
-    logger.debug('Starting getFolders');
-    const folders = await FolderModel.find().exec();
+  async getFolders(userId?: string): Promise<Folder[]> {
+    logger.debug(`Starting getFolders: userId=${userId}`);
+    const folders = await FolderModel.find(this.folderOwnerQuery(userId)).exec();
     logger.debug(`Retrieved ${folders.length} folders`);
     return folders.map((folder: mongoose.Document & Folder) => folder.toObject() as Folder);
   }
 
+  async getChildFolders(parentId: number | null, userId?: string): Promise<Folder[]> {
+    logger.debug(`Starting getChildFolders: parentId=${parentId}, userId=${userId}`);
+    const folders = await FolderModel.find({ parentId, ...this.folderOwnerQuery(userId) })
+      .sort({ name: 1 })
+      .exec();
+    logger.debug(`Retrieved ${folders.length} child folders: parentId=${parentId}`);
+    return folders.map((folder: mongoose.Document & Folder) => folder.toObject() as Folder);
+  }
+
+  async getFoldersSharedWith(userId: string): Promise<Folder[]> {
+    logger.debug(`Starting getFoldersSharedWith: userId=${userId}`);
+    const folders = await FolderModel.find({ 'shares.userId': userId }).sort({ name: 1 }).exec();
+    logger.debug(`Retrieved ${folders.length} folders shared with userId=${userId}`);
+    return folders.map((folder: mongoose.Document & Folder) => folder.toObject() as Folder);
+  }
+
+  async getFolderAncestors(folder: Folder): Promise<Folder[]> {
+    logger.debug(`Starting getFolderAncestors: id=${folder.id}`);
+    const path = folder.path ?? [];
+    const ancestors = await FolderModel.find({ id: { $in: path } }).exec();
+    const byId = new Map<number, Folder>(
+      ancestors.map((ancestor: mongoose.Document & Folder) => [ancestor.id, ancestor.toObject() as Folder])
+    );
+    logger.debug(`Retrieved ${byId.size} of ${path.length} ancestors: id=${folder.id}`);
+    return path.map(id => byId.get(id)).filter((ancestor): ancestor is Folder => !!ancestor);
+  }
+
+  async getFolderDescendants(id: number): Promise<Folder[]> {
+    logger.debug(`Starting getFolderDescendants: id=${id}`);
+    const folders = await FolderModel.find({ path: id }).exec();
+    logger.debug(`Retrieved ${folders.length} descendants: id=${id}`);
+    return folders.map((folder: mongoose.Document & Folder) => folder.toObject() as Folder);
+  }
+
   async updateFolder(id: number, update: Partial<Folder>): Promise<Folder> {
     logger.debug(`Starting updateFolder: id=${id}, update=${JSON.stringify(update)}`);
     const folder = await FolderModel.findOneAndUpdate(
@@ -533,10 +1492,61 @@ export class MongoStorage implements IStorage {
       logger.error(`Folder not found: id=${id}`);
       throw new Error(`Folder with ID ${id} not found`);
     }
+    // Uploads keep a copy of their folder's name for search
+    if (update.name) {
+      await UploadModel.updateMany({ folderId: id.toString() }, { folderName: update.name }).exec();
+    }
     logger.debug(`Updated folder: id=${id}, name=${folder.name}`);
     return folder.toObject();
   }
 
+  async moveFolder(id: number, parentId: number | null): Promise<Folder> {
+    logger.debug(`Starting moveFolder: id=${id}, parentId=${parentId}`);
+    const folder = await FolderModel.findOne({ id }).exec();
+    if (!folder) {
+      logger.error(`Folder not found: id=${id}`);
+      throw new Error(`Folder with ID ${id} not found`);
+    }
+
+    const path = await this.folderPathUnder(parentId);
+    if (path.includes(id)) {
+      throw new Error(`Folder ${id} cannot be moved into its own subtree`);
+    }
+
+    // Descendants keep their path below the moved folder and take the new one above it
+    const oldDepth = (folder.path ?? []).length;
+    const descendants = await FolderModel.find({ path: id }).exec();
+    const now = new Date();
+    await FolderModel.bulkWrite([
+      { updateOne: { filter: { id }, update: { parentId, path, updatedAt: now } } },
+      ...descendants.map((descendant: mongoose.Document & Folder) => ({
+        updateOne: {
+          filter: { id: descendant.id },
+          update: { path: [...path, ...descendant.path.slice(oldDepth)], updatedAt: now },
+        },
+      })),
+    ]);
+
+    logger.debug(`Moved folder: id=${id}, parentId=${parentId}, descendants=${descendants.length}`);
+    return (await FolderModel.findOne({ id }).exec())!.toObject();
+  }
+
+  async deleteFolderTree(id: number): Promise<{ folders: number; files: number }> {
+    logger.debug(`Starting deleteFolderTree: id=${id}`);
+    const descendants = await FolderModel.find({ path: id }).exec();
+    const folderIds = [id, ...descendants.map((descendant: mongoose.Document & Folder) => descendant.id)];
+
+    // Files go to the trash first so a failure leaves their folders in place to retry from
+    const uploads = await UploadModel.find({ folderId: { $in: folderIds.map(String) }, deletedAt: null }).exec();
+    for (const upload of uploads) {
+      await this.trashUpload(upload.id);
+    }
+
+    const result = await FolderModel.deleteMany({ id: { $in: folderIds } }).exec();
+    logger.debug(`Deleted folder tree: id=${id}, folders=${result.deletedCount}, files=${uploads.length}`);
+    return { folders: result.deletedCount, files: uploads.length };
+  }
+
   async deleteFolder(id: number): Promise<boolean> {
     logger.debug(`Starting deleteFolder: id=${id}`);
     const result = await FolderModel.deleteOne({ id }).exec();
@@ -548,9 +1558,86 @@ export class MongoStorage implements IStorage {
     return result.deletedCount > 0;
   }
 
-  async count(options?: { folderId?: string }): Promise<number> {
+  // Metadata field operations
+  async createMetadataField(insertField: InsertMetadataField): Promise<MetadataField> {
+    logger.debug(`Starting createMetadataField: userId=${insertField.userId}, key=${insertField.key}`);
+    const id = this.metadataFieldIdCounter++;
+    const field = new MetadataFieldModel({
+      ...insertField,
+      id,
+      options: insertField.options ?? [],
+      createdAt: new Date(),
+    });
+    await field.save();
+    logger.debug(`Created metadata field: id=${id}, key=${insertField.key}`);
+    return field.toObject();
+  }
+
+  async getMetadataField(id: number): Promise<MetadataField | undefined> {
+    logger.debug(`Starting getMetadataField: id=${id}`);
+    const field = await MetadataFieldModel.findOne({ id }).exec();
+    logger.debug(field ? `Found metadata field: id=${id}, key=${field.key}` : `Metadata field not found: id=${id}`);
+    return field ? field.toObject() : undefined;
+  }
+
+  async getMetadataFields(userId: string): Promise<MetadataField[]> {
+    logger.debug(`Starting getMetadataFields: userId=${userId}`);
+    const fields = await MetadataFieldModel.find({ userId }).sort({ id: 1 }).exec();
+    logger.debug(`Retrieved ${fields.length} metadata fields: userId=${userId}`);
+    return fields.map((field: mongoose.Document & MetadataField) => field.toObject() as MetadataField);
+  }
+
+  async updateMetadataField(id: number, update: Partial<Pick<MetadataField, 'label' | 'options'>>): Promise<MetadataField> {
+    logger.debug(`Starting updateMetadataField: id=${id}, update=${JSON.stringify(update)}`);
+    const field = await MetadataFieldModel.findOneAndUpdate({ id }, update, { new: true }).exec();
+    if (!field) {
+      logger.error(`Metadata field not found: id=${id}`);
+      throw new Error(`Metadata field with ID ${id} not found`);
+    }
+    logger.debug(`Updated metadata field: id=${id}`);
+    return field.toObject();
+  }
+
+  async deleteMetadataField(id: number): Promise<boolean> {
+    logger.debug(`Starting deleteMetadataField: id=${id}`);
+    const field = await MetadataFieldModel.findOneAndDelete({ id }).exec();
+    if (!field) {
+      logger.debug(`Metadata field not found for deletion: id=${id}`);
+      return false;
+    }
+    // Values left behind would come back if a field with the same key were defined again
+    await UploadModel.updateMany(
+      { userId: field.userId },
+      { $unset: { [`metadata.fields.${field.key}`]: '' } }
+    ).exec();
+    logger.debug(`Deleted metadata field: id=${id}, key=${field.key}`);
+    return true;
+  }
+
+  // A user sees their own folders and the shared default ones
+  private folderOwnerQuery(userId?: string): Record<string, any> {
+    return userId ? { userId: { $in: [userId, null] } } : {};
+  }
+
+  // Path of a folder created or moved under parentId
+  private async folderPathUnder(parentId: number | null): Promise<number[]> {
+    if (parentId === null) {
+      return [];
+    }
+    const parent = await FolderModel.findOne({ id: parentId }).exec();
+    if (!parent) {
+      throw new Error(`Folder with ID ${parentId} not found`);
+    }
+    return [...(parent.path ?? []), parent.id];
+  }
+
+  async count(options?: { userId?: string; folderId?: string; trashed?: boolean }): Promise<number> {
     logger.debug(`Starting count: options=${JSON.stringify(options)}`);
-    const query: any = {};
+    // Either the trash or everything outside it, as getUploads lists them
+    const query: any = { deletedAt: options?.trashed ? { $ne: null } : null };
+    if (options?.userId) {
+      query.userId = options.userId;
+    }
     if (options?.folderId) {
       query.folderId = options.folderId;
     }
@@ -561,14 +1648,41 @@ export class MongoStorage implements IStorage {
 
   async deleteFile(id: number): Promise<boolean> {
     logger.debug(`Starting deleteFile: id=${id}`);
-    const file = await FileModel.findOne({ id }).exec();
-    if (!file) return false;
+    const upload = await UploadModel.findOne({ id }).exec();
+    if (!upload) return false;
+
+    // Blobs go before the records, so an upload whose blobs could not all be deleted stays
+    // where it was and the next attempt finishes the job; deleting a gone blob succeeds
+    const chunks = await ChunkModel.find({ uploadId: id }).exec();
+    await this.releaseChunkBlobs(chunks);
+    logger.debug(`Deleted ${chunks.length} HLS segments of upload: id=${id}`);
+
+    // Deduplicated uploads share blobs; only the last reference removes them
+    const store = blobStores.for(upload.storageBackend);
+    const blobs = [
+      { id: upload.externalFileId, accountId: upload.serviceAccountId ?? null },
+      { id: upload.thumbnail, accountId: upload.thumbnailServiceAccountId ?? null },
+    ].filter((blob): blob is BlobRef => !!blob.id && blob.id !== 'pending');
+
+    for (const blob of blobs) {
+      // This upload is still counted among the references
+      const references = await this.countUploadReferences(store.backend, blob.id) - 1;
+
+      if (references > 0) {
+        logger.debug(`Keeping blob still referenced by ${references} uploads: backend=${store.backend}, fileId=${blob.id}`);
+        continue;
+      }
+
+      await store.delete(blob);
+      logger.debug(`Deleted last reference to blob: backend=${store.backend}, fileId=${blob.id}`);
+    }
 
-    // Delete file from storage
-    await googleDriveService.deleteFile(file.externalFileId);
+    await UploadModel.deleteOne({ id }).exec();
+    await FileModel.deleteOne({ id: upload.fileId }).exec();
+    await ChunkModel.deleteMany({ uploadId: id }).exec();
+    await ConversionModel.deleteMany({ uploadId: id }).exec();
+    await UploadManifestModel.deleteOne({ uploadId: id }).exec();
 
-    // Delete from database
-    await FileModel.deleteOne({ id }).exec();
     return true;
   }
 
@@ -586,4 +1700,11 @@ export class MongoStorage implements IStorage {
   }
 }
 
+/**
+ * Whether a write failed on a unique index, e.g. a sibling folder created at the same time
+ */
+export function isDuplicateKeyError(error: unknown): boolean {
+  return (error as { code?: number } | null)?.code === 11000;
+}
+
 export const storage = new MongoStorage();
\ No newline at end of file
@@ -0,0 +1,37 @@
+import { createHash } from 'crypto';
+import { createReadStream } from 'fs';
+
+/**
+ * Raised when received content does not match the digest the client declared
+ */
+export class ChecksumMismatchError extends Error {
+  constructor(
+    public readonly expected: string,
+    public readonly actual: string,
+    message = 'Checksum mismatch'
+  ) {
+    super(`${message}: expected ${expected}, got ${actual}`);
+    this.name = 'ChecksumMismatchError';
+  }
+}
+
+/**
+ * Check that a value looks like a hex-encoded SHA-256 digest
+ */
+export function isSha256Hex(value: unknown): value is string {
+  return typeof value === 'string' && /^[a-f0-9]{64}$/i.test(value);
+}
+
+/**
+ * Compute the SHA-256 digest of a file as lowercase hex
+ */
+export async function sha256File(filePath: string): Promise<string> {
+  return new Promise((resolve, reject) => {
+    const hash = createHash('sha256');
+    const stream = createReadStream(filePath);
+
+    stream.on('error', reject);
+    stream.on('data', (data) => hash.update(data));
+    stream.on('end', () => resolve(hash.digest('hex')));
+  });
+}
@@ -2,6 +2,8 @@ import fs from 'fs/promises';
 import path from 'path';
 import { createReadStream, createWriteStream } from 'fs';
 import { logger } from './logger';
+import { ChecksumMismatchError, sha256File } from './checksum';
+import { UploadManifest } from '@shared/schema';
 
 /**
  * Utility for chunking large files
@@ -108,15 +110,53 @@ class Chunker {
   }
   
   /**
-   * Process an uploaded file chunk
+   * Expected byte size of a chunk according to the upload manifest
+   */
+  getExpectedChunkSize(manifest: UploadManifest, chunkIndex: number): number {
+    if (chunkIndex < manifest.totalChunks - 1) {
+      return manifest.chunkSize;
+    }
+    return manifest.fileSize - manifest.chunkSize * (manifest.totalChunks - 1);
+  }
+
+  /**
+   * Indexes the manifest expects but has not received yet
+   */
+  getMissingChunks(manifest: UploadManifest): number[] {
+    const received = new Set(manifest.receivedChunks.map(chunk => chunk.index));
+    const missing: number[] = [];
+
+    for (let i = 0; i < manifest.totalChunks; i++) {
+      if (!received.has(i)) {
+        missing.push(i);
+      }
+    }
+
+    return missing;
+  }
+
+  /**
+   * Process an uploaded file chunk, verifying its SHA-256 digest before it is kept
    */
   async handleUploadedChunk(
     chunkFile: Express.Multer.File,
     uploadId: number,
     chunkIndex: number,
-    tempDir: string
+    tempDir: string,
+    expectedChecksum: string
   ): Promise<string> {
     try {
+      const actualChecksum = await sha256File(chunkFile.path);
+      if (actualChecksum !== expectedChecksum.toLowerCase()) {
+        await fs.rm(chunkFile.path, { force: true });
+        throw new ChecksumMismatchError(
+          expectedChecksum,
+          actualChecksum,
+          `Chunk ${chunkIndex} of upload ${uploadId} is corrupted`
+        );
+      }
+
+
       // Create directory for chunks if it doesn't exist
       const chunkDir = path.join(tempDir, `upload_${uploadId}`);
       await fs.mkdir(chunkDir, { recursive: true });
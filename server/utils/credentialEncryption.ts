@@ -0,0 +1,48 @@
+import crypto from 'crypto';
+import config from '../config';
+
+// AES-256-GCM ciphertext of a secret, as stored in the database
+export interface EncryptedSecret {
+  iv: string; // base64, 12 bytes
+  tag: string; // base64 GCM authentication tag
+  data: string; // base64 ciphertext
+}
+
+export function isEncryptionConfigured(): boolean {
+  return !!config.credentials.masterKey;
+}
+
+/**
+ * Encrypt a secret with CREDENTIALS_MASTER_KEY, under a fresh IV each time
+ */
+export function encryptSecret(plaintext: string): EncryptedSecret {
+  const iv = crypto.randomBytes(12);
+  const cipher = crypto.createCipheriv('aes-256-gcm', masterKey(), iv);
+  const data = Buffer.concat([cipher.update(plaintext, 'utf8'), cipher.final()]);
+
+  return {
+    iv: iv.toString('base64'),
+    tag: cipher.getAuthTag().toString('base64'),
+    data: data.toString('base64'),
+  };
+}
+
+/**
+ * Decrypt a secret from encryptSecret; throws if it was tampered with or the key changed
+ */
+export function decryptSecret(secret: EncryptedSecret): string {
+  const decipher = crypto.createDecipheriv('aes-256-gcm', masterKey(), Buffer.from(secret.iv, 'base64'));
+  decipher.setAuthTag(Buffer.from(secret.tag, 'base64'));
+  return Buffer.concat([
+    decipher.update(Buffer.from(secret.data, 'base64')),
+    decipher.final(),
+  ]).toString('utf8');
+}
+
+function masterKey(): Buffer {
+  const key = config.credentials.masterKey;
+  if (!key) {
+    throw new Error('CREDENTIALS_MASTER_KEY is not configured');
+  }
+  return Buffer.from(key, /^[0-9a-fA-F]{64}$/.test(key) ? 'hex' : 'base64');
+}
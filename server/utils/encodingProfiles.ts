@@ -0,0 +1,86 @@
+import { EncodingProfile, InsertEncodingProfile } from '@shared/schema';
+
+// Built-in profiles, seeded on first start so existing 1080p/720p/360p conversions keep working
+export const defaultEncodingProfiles: InsertEncodingProfile[] = [
+  {
+    name: '1080p',
+    label: '1080p (Full HD)',
+    width: 1920,
+    height: 1080,
+    videoCodec: 'libx264',
+    rateControl: 'cbr',
+    videoBitrate: '5000k',
+    audioBitrate: '192k',
+    audioChannels: 2,
+    segmentDuration: 10,
+  },
+  {
+    name: '720p',
+    label: '720p (HD)',
+    width: 1280,
+    height: 720,
+    videoCodec: 'libx264',
+    rateControl: 'cbr',
+    videoBitrate: '2500k',
+    audioBitrate: '128k',
+    audioChannels: 2,
+    segmentDuration: 10,
+  },
+  {
+    name: '360p',
+    label: '360p (SD)',
+    width: 640,
+    height: 360,
+    videoCodec: 'libx264',
+    rateControl: 'cbr',
+    videoBitrate: '800k',
+    audioBitrate: '96k',
+    audioChannels: 2,
+    segmentDuration: 10,
+  },
+];
+
+// ffmpeg-style bitrate: a number with an optional k or M suffix
+export const bitratePattern = /^\d+(\.\d+)?[kM]?$/;
+
+/**
+ * Convert an ffmpeg bitrate such as 2500k or 5M to bits per second
+ */
+export function bitrateToBps(bitrate: string): number {
+  const value = parseFloat(bitrate);
+  if (bitrate.endsWith('M')) return Math.round(value * 1000000);
+  if (bitrate.endsWith('k')) return Math.round(value * 1000);
+  return Math.round(value);
+}
+
+/**
+ * ffmpeg arguments for the video encoder of a profile, scoped to the streamIndex-th video
+ * output when encoding several renditions at once
+ */
+export function videoEncodeArgs(profile: EncodingProfile, streamIndex?: number): string[] {
+  const scope = streamIndex === undefined ? ':v' : `:v:${streamIndex}`;
+  const bufsize = `${bitrateToBps(profile.videoBitrate) * 2}`;
+
+  const args = [`-c${scope}`, profile.videoCodec];
+  if (profile.rateControl === 'crf') {
+    // Constant quality, capped so a rendition never exceeds its advertised bandwidth
+    args.push(`-crf${scope}`, String(profile.crf ?? 23));
+  } else {
+    args.push(`-b${scope}`, profile.videoBitrate);
+  }
+  args.push(`-maxrate${scope}`, profile.videoBitrate, `-bufsize${scope}`, bufsize);
+
+  return args;
+}
+
+/**
+ * ffmpeg arguments for the audio encoder of a profile
+ */
+export function audioEncodeArgs(profile: EncodingProfile, streamIndex?: number): string[] {
+  const scope = streamIndex === undefined ? ':a' : `:a:${streamIndex}`;
+  return [
+    `-c${scope}`, 'aac',
+    `-b${scope}`, profile.audioBitrate,
+    `-ac${scope}`, String(profile.audioChannels),
+  ];
+}
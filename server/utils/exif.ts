@@ -0,0 +1,124 @@
+import { MediaExif } from '@shared/schema';
+
+// TIFF field types this reader understands, with their size in bytes
+const ASCII = 2;
+const SHORT = 3;
+const LONG = 4;
+const RATIONAL = 5;
+const typeSizes: Record<number, number> = { 1: 1, [ASCII]: 1, [SHORT]: 2, [LONG]: 4, [RATIONAL]: 8, 7: 1, 9: 4, 10: 8 };
+
+// Tags read from IFD0, the Exif sub-IFD and the GPS sub-IFD
+const tags = {
+  make: 0x010f,
+  model: 0x0110,
+  orientation: 0x0112,
+  exifPointer: 0x8769,
+  gpsPointer: 0x8825,
+  exposureTime: 0x829a,
+  fNumber: 0x829d,
+  iso: 0x8827,
+  takenAt: 0x9003,
+  focalLength: 0x920a,
+  lens: 0xa434,
+  latitudeRef: 1,
+  latitude: 2,
+  longitudeRef: 3,
+  longitude: 4,
+};
+
+type TagValue = string | number[];
+
+/**
+ * Read the entries of one IFD, by tag. Returns an empty map if the IFD lies outside the data.
+ */
+function readIfd(tiff: Buffer, offset: number, little: boolean): Map<number, TagValue> {
+  const entries = new Map<number, TagValue>();
+  const u16 = (at: number) => (little ? tiff.readUInt16LE(at) : tiff.readUInt16BE(at));
+  const u32 = (at: number) => (little ? tiff.readUInt32LE(at) : tiff.readUInt32BE(at));
+
+  if (offset + 2 > tiff.length) return entries;
+  const count = u16(offset);
+
+  for (let i = 0; i < count; i++) {
+    const entry = offset + 2 + i * 12;
+    if (entry + 12 > tiff.length) break;
+
+    const tag = u16(entry);
+    const type = u16(entry + 2);
+    const length = u32(entry + 4);
+    const size = (typeSizes[type] ?? 0) * length;
+    // Values of up to four bytes are stored in the entry itself
+    const at = size <= 4 ? entry + 8 : u32(entry + 8);
+    if (!size || at + size > tiff.length) continue;
+
+    if (type === ASCII) {
+      entries.set(tag, tiff.toString('latin1', at, at + size).replace(/\0+$/, '').trim());
+    } else if (type === SHORT) {
+      entries.set(tag, Array.from({ length }, (_, n) => u16(at + n * 2)));
+    } else if (type === LONG) {
+      entries.set(tag, Array.from({ length }, (_, n) => u32(at + n * 4)));
+    } else if (type === RATIONAL) {
+      entries.set(tag, Array.from({ length }, (_, n) => {
+        const denominator = u32(at + n * 8 + 4);
+        return denominator ? u32(at + n * 8) / denominator : 0;
+      }));
+    }
+  }
+  return entries;
+}
+
+const text = (value: TagValue | undefined) => (typeof value === 'string' && value ? value : undefined);
+const number = (value: TagValue | undefined) => (Array.isArray(value) && value.length ? value[0] : undefined);
+
+// Degrees, minutes and seconds to signed decimal degrees
+function coordinate(value: TagValue | undefined, ref: TagValue | undefined): number | undefined {
+  if (!Array.isArray(value) || value.length < 3) return undefined;
+  const degrees = value[0] + value[1] / 60 + value[2] / 3600;
+  return ref === 'S' || ref === 'W' ? -degrees : degrees;
+}
+
+// EXIF dates are "YYYY:MM:DD HH:MM:SS" in the camera's local time, kept without a zone
+function date(value: TagValue | undefined): string | undefined {
+  const match = typeof value === 'string' && value.match(/^(\d{4}):(\d{2}):(\d{2}) (\d{2}:\d{2}:\d{2})/);
+  return match && match[1] !== '0000' ? `${match[1]}-${match[2]}-${match[3]}T${match[4]}` : undefined;
+}
+
+/**
+ * Read the camera, exposure and location details from an EXIF block as sharp returns it,
+ * or undefined if it cannot be parsed
+ */
+export function readExif(exif: Buffer): MediaExif | undefined {
+  try {
+    // sharp keeps the "Exif\0\0" header of the APP1 segment in front of the TIFF data
+    const tiff = exif.toString('latin1', 0, 4) === 'Exif' ? exif.subarray(6) : exif;
+    const order = tiff.toString('latin1', 0, 2);
+    if (order !== 'II' && order !== 'MM') return undefined;
+    const little = order === 'II';
+    const u32 = (at: number) => (little ? tiff.readUInt32LE(at) : tiff.readUInt32BE(at));
+
+    const ifd0 = readIfd(tiff, u32(4), little);
+    const exifPointer = number(ifd0.get(tags.exifPointer));
+    const gpsPointer = number(ifd0.get(tags.gpsPointer));
+    const sub = exifPointer ? readIfd(tiff, exifPointer, little) : new Map<number, TagValue>();
+    const gps = gpsPointer ? readIfd(tiff, gpsPointer, little) : new Map<number, TagValue>();
+
+    const result: MediaExif = {
+      make: text(ifd0.get(tags.make)),
+      model: text(ifd0.get(tags.model)),
+      lens: text(sub.get(tags.lens)),
+      orientation: number(ifd0.get(tags.orientation)),
+      takenAt: date(sub.get(tags.takenAt)),
+      exposureTime: number(sub.get(tags.exposureTime)),
+      fNumber: number(sub.get(tags.fNumber)),
+      iso: number(sub.get(tags.iso)),
+      focalLength: number(sub.get(tags.focalLength)),
+      latitude: coordinate(gps.get(tags.latitude), gps.get(tags.latitudeRef)),
+      longitude: coordinate(gps.get(tags.longitude), gps.get(tags.longitudeRef)),
+    };
+
+    const present = Object.entries(result).filter(([, value]) => value !== undefined);
+    return present.length ? Object.fromEntries(present) as MediaExif : undefined;
+  } catch {
+    return undefined;
+  }
+}
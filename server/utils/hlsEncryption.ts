@@ -0,0 +1,103 @@
+import crypto from 'crypto';
+import fs from 'fs/promises';
+import { watch, FSWatcher } from 'fs';
+import path from 'path';
+import { logger } from './logger';
+
+// Options for an encrypted HLS conversion
+export interface HlsEncryptionOptions {
+  segmentsPerKey: number;
+}
+
+/**
+ * Placeholder written into ffmpeg's playlists for key n; served playlists replace it
+ * with the key route
+ */
+export function keyPlaceholderUri(index: number): string {
+  return `key_${index}`;
+}
+
+/**
+ * Key index from a placeholder URI, or null for anything else
+ */
+export function parseKeyPlaceholderUri(uri: string): number | null {
+  const match = uri.match(/^key_(\d+)$/);
+  return match ? parseInt(match[1], 10) : null;
+}
+
+/**
+ * Feeds ffmpeg AES-128 keys through -hls_key_info_file and swaps in a fresh key every
+ * segmentsPerKey segments. With -hls_flags periodic_rekey ffmpeg re-reads the info file
+ * at segment boundaries, so the exact switch point can drift by a segment; the #EXT-X-KEY
+ * tags in ffmpeg's playlist record which key each segment really used.
+ */
+export class HlsKeyRotator {
+  readonly keyInfoPath: string;
+  private keys: Buffer[] = [];
+  private seenSegments = new Set<string>();
+  private watcher: FSWatcher | null = null;
+  private rotation: Promise<void> = Promise.resolve();
+
+  constructor(
+    private workDir: string,
+    private segmentDir: string,
+    private segmentsPerKey: number
+  ) {
+    this.keyInfoPath = path.join(workDir, 'key_info.txt');
+  }
+
+  /**
+   * Write the first key and start watching for new segments
+   */
+  async start(): Promise<void> {
+    await this.writeNextKey();
+
+    this.watcher = watch(this.segmentDir, (_event, filename) => {
+      const name = filename?.toString();
+      if (!name || !name.endsWith('.ts') || this.seenSegments.has(name)) return;
+
+      this.seenSegments.add(name);
+      if (this.seenSegments.size % this.segmentsPerKey === 0) {
+        this.rotation = this.rotation
+          .then(() => this.writeNextKey())
+          .catch((error) => logger.error(`Failed to rotate HLS key in ${this.workDir}:`, error));
+      }
+    });
+  }
+
+  /**
+   * Stop rotating, remove the key files from disk and return every key issued, hex encoded,
+   * in issue order
+   */
+  async stop(): Promise<string[]> {
+    this.watcher?.close();
+    this.watcher = null;
+    await this.rotation;
+
+    await fs.rm(this.keyInfoPath, { force: true });
+    for (let i = 0; i < this.keys.length; i++) {
+      await fs.rm(this.keyPath(i), { force: true });
+    }
+
+    return this.keys.map(key => key.toString('hex'));
+  }
+
+  private keyPath(index: number): string {
+    return path.join(this.workDir, `key_${index}.bin`);
+  }
+
+  private async writeNextKey(): Promise<void> {
+    const index = this.keys.length;
+    const key = crypto.randomBytes(16);
+    await fs.writeFile(this.keyPath(index), key);
+
+    // No IV line: ffmpeg then derives each segment's IV from its sequence number.
+    // Swap the info file in with a rename so ffmpeg never reads it half written.
+    const tempPath = `${this.keyInfoPath}.tmp`;
+    await fs.writeFile(tempPath, `${keyPlaceholderUri(index)}\n${this.keyPath(index)}\n`);
+    await fs.rename(tempPath, this.keyInfoPath);
+
+    this.keys.push(key);
+    logger.debug(`Issued HLS key ${index} for ${this.workDir}`);
+  }
+}
@@ -0,0 +1,76 @@
+import { MetadataField } from '@shared/schema';
+
+export const MAX_TAGS = 50;
+export const MAX_TAG_LENGTH = 50;
+const MAX_TEXT_LENGTH = 500;
+
+/**
+ * Tags as stored: trimmed, lowercased, without blanks or duplicates
+ */
+export function normalizeTags(tags: string[]): string[] {
+  return Array.from(new Set(tags.map(tag => tag.trim().toLowerCase()).filter(Boolean)));
+}
+
+/**
+ * Key a field's values are stored under, from its label, e.g. "Shot Date" -> "shot_date"
+ */
+export function fieldKeyFor(label: string): string {
+  return label
+    .toLowerCase()
+    .normalize('NFKD')
+    .replace(/[^a-z0-9]+/g, '_')
+    .replace(/^_+|_+$/g, '')
+    .slice(0, 40);
+}
+
+function isDate(value: string): boolean {
+  if (!/^\d{4}-\d{2}-\d{2}$/.test(value)) return false;
+  const date = new Date(`${value}T00:00:00Z`);
+  return !isNaN(date.getTime()) && date.toISOString().startsWith(value);
+}
+
+/**
+ * Check values against a user's field definitions and convert them to their stored form.
+ * null clears a field. Returns the values, or one message per rejected field.
+ */
+export function checkFieldValues(
+  definitions: MetadataField[],
+  values: Record<string, unknown>
+): { values: Record<string, string | number | null> } | { errors: Record<string, string> } {
+  const checked: Record<string, string | number | null> = {};
+  const errors: Record<string, string> = {};
+
+  for (const [key, value] of Object.entries(values)) {
+    const field = definitions.find(definition => definition.key === key);
+    if (!field) {
+      errors[key] = 'No such field';
+      continue;
+    }
+    if (value === null || value === '') {
+      checked[key] = null;
+      continue;
+    }
+
+    switch (field.type) {
+      case 'number': {
+        const number = typeof value === 'number' ? value : typeof value === 'string' ? Number(value) : NaN;
+        if (Number.isFinite(number)) checked[key] = number;
+        else errors[key] = 'Must be a number';
+        break;
+      }
+      case 'date':
+        if (typeof value === 'string' && isDate(value)) checked[key] = value;
+        else errors[key] = 'Must be a date as YYYY-MM-DD';
+        break;
+      case 'select':
+        if (typeof value === 'string' && field.options.includes(value)) checked[key] = value;
+        else errors[key] = `Must be one of: ${field.options.join(', ')}`;
+        break;
+      default:
+        if (typeof value === 'string' && value.length <= MAX_TEXT_LENGTH) checked[key] = value;
+        else errors[key] = `Must be text of at most ${MAX_TEXT_LENGTH} characters`;
+    }
+  }
+
+  return Object.keys(errors).length ? { errors } : { values: checked };
+}
@@ -0,0 +1,37 @@
+import zlib from 'zlib';
+
+// The page tree root counts every page below it, so the largest /Count of a /Pages node is the total
+const pagesNodePattern = /\/Type\s*\/Pages\b[^>]*?\/Count\s+(\d+)|\/Count\s+(\d+)[^>]*?\/Type\s*\/Pages\b/g;
+const streamPattern = /stream\r?\n([^]*?)\r?\n?endstream/g;
+
+function largestCount(text: string): number | undefined {
+  let largest: number | undefined;
+  for (const match of Array.from(text.matchAll(pagesNodePattern))) {
+    const count = parseInt(match[1] ?? match[2], 10);
+    if (largest === undefined || count > largest) largest = count;
+  }
+  return largest;
+}
+
+/**
+ * Count the pages of a PDF from its page tree, or undefined if none is found. PDF 1.5+
+ * files may keep the tree in compressed object streams, which are inflated as a fallback.
+ */
+export function countPdfPages(pdf: Buffer): number | undefined {
+  const text = pdf.toString('latin1');
+  const count = largestCount(text);
+  if (count !== undefined) return count;
+
+  let largest: number | undefined;
+  for (const match of Array.from(text.matchAll(streamPattern))) {
+    let inflated: string;
+    try {
+      inflated = zlib.inflateSync(Buffer.from(match[1], 'latin1')).toString('latin1');
+    } catch {
+      continue; // not Flate-encoded, e.g. an image
+    }
+    const streamCount = largestCount(inflated);
+    if (streamCount !== undefined && (largest === undefined || streamCount > largest)) largest = streamCount;
+  }
+  return largest;
+}
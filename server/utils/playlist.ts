@@ -0,0 +1,70 @@
+// A segment entry of an HLS media playlist
+export interface MediaSegment {
+  uri: string;
+  duration: number;
+  keyUri: string | null; // URI of the AES-128 key in effect, null when unencrypted
+  keyIv: string | null; // explicit IV of that key; players fall back to the sequence number
+}
+
+export interface MediaPlaylist {
+  targetDuration: number | null;
+  segments: MediaSegment[];
+}
+
+/**
+ * Parse an HLS attribute list such as BANDWIDTH=800000,CODECS="avc1.4d401e,mp4a.40.2",
+ * unquoting quoted values
+ */
+export function parseAttributeList(text: string): Record<string, string> {
+  const attributes: Record<string, string> = {};
+  const attributePattern = /([A-Z0-9-]+)=("[^"]*"|[^,]*)/g;
+  let match: RegExpExecArray | null;
+  while ((match = attributePattern.exec(text)) !== null) {
+    attributes[match[1]] = match[2].replace(/^"|"$/g, '');
+  }
+  return attributes;
+}
+
+/**
+ * Parse an HLS media playlist into its segments and their #EXTINF durations, in playback order
+ */
+export function parseMediaPlaylist(content: string): MediaPlaylist {
+  const lines = content.split(/\r?\n/).map(line => line.trim());
+  const segments: MediaSegment[] = [];
+  let targetDuration: number | null = null;
+  let pendingDuration: number | null = null;
+  let keyUri: string | null = null;
+  let keyIv: string | null = null;
+
+  for (const line of lines) {
+    if (!line) continue;
+
+    if (line.startsWith('#EXT-X-TARGETDURATION:')) {
+      targetDuration = parseInt(line.slice('#EXT-X-TARGETDURATION:'.length), 10);
+    } else if (line.startsWith('#EXTINF:')) {
+      // #EXTINF:<duration>,[<title>]
+      pendingDuration = parseFloat(line.slice('#EXTINF:'.length).split(',')[0]);
+    } else if (line.startsWith('#EXT-X-KEY:')) {
+      // A key applies to every following segment until the next #EXT-X-KEY
+      const attributes = parseAttributeList(line.slice('#EXT-X-KEY:'.length));
+      keyUri = attributes['METHOD'] === 'NONE' ? null : attributes['URI'] ?? null;
+      keyIv = keyUri ? attributes['IV'] ?? null : null;
+    } else if (!line.startsWith('#')) {
+      if (pendingDuration === null || isNaN(pendingDuration)) {
+        throw new Error(`Segment ${line} has no #EXTINF duration`);
+      }
+      segments.push({ uri: line, duration: pendingDuration, keyUri, keyIv });
+      pendingDuration = null;
+    }
+  }
+
+  return { targetDuration, segments };
+}
+
+/**
+ * #EXT-X-TARGETDURATION for a set of segment durations: RFC 8216 requires every #EXTINF,
+ * rounded to the nearest integer, to be no greater than it
+ */
+export function getTargetDuration(durations: number[]): number {
+  return Math.max(1, ...durations.map(duration => Math.round(duration)));
+}
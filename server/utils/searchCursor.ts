@@ -0,0 +1,32 @@
+/**
+ * Position after the last result of a search page: the value it was sorted by and its ID,
+ * which breaks ties between equal values
+ */
+export interface SearchCursor {
+  value: string | number | null;
+  id: number;
+}
+
+/**
+ * Encode a cursor as an opaque URL-safe string
+ */
+export function encodeSearchCursor(cursor: SearchCursor): string {
+  return Buffer.from(JSON.stringify([cursor.value, cursor.id])).toString('base64url');
+}
+
+/**
+ * Decode a cursor from encodeSearchCursor, or null if it was not made by it
+ */
+export function decodeSearchCursor(encoded: string): SearchCursor | null {
+  try {
+    const decoded = JSON.parse(Buffer.from(encoded, 'base64url').toString('utf8'));
+    if (!Array.isArray(decoded) || decoded.length !== 2) return null;
+
+    const [value, id] = decoded;
+    if (!['string', 'number'].includes(typeof value) && value !== null) return null;
+    if (!Number.isInteger(id)) return null;
+    return { value, id };
+  } catch {
+    return null;
+  }
+}
@@ -0,0 +1,60 @@
+import crypto from 'crypto';
+import config from '../config';
+
+export type SignatureCheck = 'valid' | 'expired' | 'invalid';
+
+// Names of signable stream resources, shared by the URLs we issue and the routes checking them
+export const streamResources = {
+  master: (uploadId: number | string) => `master:${uploadId}`,
+  // The original file, which a playback link must not unlock
+  source: (uploadId: number | string) => `source:${uploadId}`,
+  playlist: (uploadId: number | string, resolution: string) => `playlist:${uploadId}:${resolution}`,
+  chunk: (chunkId: number | string) => `chunk:${chunkId}`,
+  key: (conversionId: number | string, index: number | string) => `key:${conversionId}:${index}`,
+};
+
+/**
+ * HMAC-SHA256 signature of a resource name (e.g. chunk:42) valid until expires, in unix seconds
+ */
+export function signResource(resource: string, expires: number): string {
+  return crypto
+    .createHmac('sha256', config.stream.signingSecret)
+    .update(`${resource}\n${expires}`)
+    .digest('base64url');
+}
+
+/**
+ * Query string carrying a signature for a resource, to append to its URL
+ */
+export function signedQuery(resource: string, expires: number): string {
+  return `expires=${expires}&sig=${signResource(resource, expires)}`;
+}
+
+/**
+ * Check expires and sig query values against a resource
+ */
+export function verifyResourceSignature(resource: string, expires: unknown, sig: unknown): SignatureCheck {
+  if (typeof expires !== 'string' || typeof sig !== 'string' || !/^\d+$/.test(expires)) {
+    return 'invalid';
+  }
+
+  const expected = Buffer.from(signResource(resource, parseInt(expires, 10)));
+  const actual = Buffer.from(sig);
+  if (expected.length !== actual.length || !crypto.timingSafeEqual(expected, actual)) {
+    return 'invalid';
+  }
+
+  return parseInt(expires, 10) < nowInSeconds() ? 'expired' : 'valid';
+}
+
+/**
+ * Expiry for URLs issued now, never outliving the signature that authorized the request
+ */
+export function childUrlExpiry(parentExpires?: number): number {
+  const expires = nowInSeconds() + config.stream.urlTtlSeconds;
+  return parentExpires === undefined ? expires : Math.min(expires, parentExpires);
+}
+
+export function nowInSeconds(): number {
+  return Math.floor(Date.now() / 1000);
+}
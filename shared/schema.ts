@@ -1,4 +1,4 @@
-import { pgTable, text, serial, integer, boolean, timestamp, json, bigint } from "drizzle-orm/pg-core";
+import { pgTable, text, serial, integer, real, boolean, timestamp, json, bigint } from "drizzle-orm/pg-core";
 import { createInsertSchema } from "drizzle-zod";
 import { z } from "zod";
 
@@ -29,10 +29,76 @@ export type FileStatus = typeof fileStatuses[number];
 export const jobStatuses = ['waiting', 'processing', 'ready', 'failed'] as const;
 export type JobStatus = typeof jobStatuses[number];
 
-// Resolutions for video conversion
+// Resolutions for video conversion; these are the names of the built-in encoding profiles
 export const videoResolutions = ['1080p', '720p', '360p'] as const;
 export type VideoResolution = typeof videoResolutions[number];
 
+// Encoding profile options
+export const videoCodecs = ['libx264', 'libx265'] as const;
+export type VideoCodec = typeof videoCodecs[number];
+
+export const rateControlModes = ['cbr', 'crf'] as const;
+export type RateControlMode = typeof rateControlModes[number];
+
+// Backends a blob (upload, thumbnail or segment) can be stored in
+export const storageBackends = ['gdrive', 'local', 's3'] as const;
+export type StorageBackend = typeof storageBackends[number];
+
+// Roles a folder or upload can be shared with; editors can also add files and convert
+export const shareRoles = ['viewer', 'editor'] as const;
+export type ShareRole = typeof shareRoles[number];
+
+// Another user a folder or upload is shared with
+export type Share = {
+  userId: string;
+  role: ShareRole;
+};
+
+// Types a user-defined metadata field can have; dates are stored as YYYY-MM-DD
+export const metadataFieldTypes = ['text', 'number', 'date', 'select'] as const;
+export type MetadataFieldType = typeof metadataFieldTypes[number];
+
+// Values of user-defined metadata fields, by field key
+export type MetadataFieldValues = Record<string, string | number>;
+
+// Technical details read from a file's content, where its type has them, and the
+// values of its owner's custom fields
+export type MediaMetadata = {
+  duration?: number; // seconds, for video and audio
+  width?: number; // pixels as displayed, for video and images
+  height?: number;
+  codec?: string; // video codec, e.g. h264
+  frameRate?: number; // frames per second
+  bitrate?: number; // bits per second across all streams
+  rotation?: number; // degrees clockwise the picture is turned for display
+  audioTracks?: MediaAudioTrack[];
+  exif?: MediaExif; // for images
+  pageCount?: number; // for PDFs
+  probedAt?: string; // when the file was last read; absent until then
+  fields?: MetadataFieldValues;
+};
+
+export type MediaAudioTrack = {
+  codec: string;
+  channels?: number;
+  sampleRate?: number; // Hz
+  language?: string;
+};
+
+export type MediaExif = {
+  make?: string;
+  model?: string;
+  lens?: string;
+  orientation?: number; // 1-8, as EXIF numbers them
+  takenAt?: string; // camera's local time, without a zone
+  exposureTime?: number; // seconds
+  fNumber?: number;
+  iso?: number;
+  focalLength?: number; // mm
+  latitude?: number; // decimal degrees
+  longitude?: number;
+};
+
 // Files table
 export const files = pgTable("files", {
   id: serial("id").primaryKey(),
@@ -55,24 +121,40 @@ export type File = typeof files.$inferSelect;
 // Uploads table
 export const uploads = pgTable("uploads", {
   id: serial("id").primaryKey(),
-  identifier: text("identifier"), // for deduplication
+  userId: text("user_id"), // user who uploaded the file; null for uploads made before accounts were per user
+  identifier: text("identifier"), // content hash, shared by deduplicated uploads
+  checksum: text("checksum"), // SHA-256 hex digest of the complete file
   fileType: text("file_type").notNull(), // e.g., video/mp4, image/jpeg
-  externalFileId: text("external_file_id").notNull(), // Google Drive file ID
+  externalFileId: text("external_file_id").notNull(), // blob ID within storageBackend
+  storageBackend: text("storage_backend", { enum: storageBackends }).notNull().default("gdrive"), // backend holding the file and its thumbnail
+  serviceAccountId: text("service_account_id"), // Drive service account owning externalFileId
   source: text("source").notNull(), // e.g., "googledrive"
   fileId: integer("file_id").notNull(), // reference to files table
   fileSize: bigint("file_size", { mode: "number" }).notNull(),
   uploadName: text("upload_name").notNull().default("Unnamed"),
   category: text("category").notNull(), // video, image, document, code
-  thumbnail: text("thumbnail"), // Google Drive file ID for thumbnail
+  thumbnail: text("thumbnail"), // blob ID of the thumbnail, in the same backend as the file
+  thumbnailServiceAccountId: text("thumbnail_service_account_id"), // Drive service account owning the thumbnail
   folderId: text("folder_id"), // virtual folder identifier
   folderName: text("folder_name"), // virtual folder name
+  shares: json("shares").$type<Share[]>().notNull().default([]), // users this upload alone is shared with
+  tags: json("tags").$type<string[]>().notNull().default([]), // free-form labels, lowercased
+  metadata: json("metadata").$type<MediaMetadata>().notNull().default({}), // extracted from the content
+  duration: real("duration"), // seconds, copied from metadata by the media probe
+  width: integer("width"), // pixels as displayed, copied from metadata by the media probe
+  height: integer("height"),
   status: text("status").notNull().default("processing"), // processing, ready, failed
+  deletedAt: timestamp("deleted_at"), // when the upload was moved to the trash; null while it is live
   createdAt: timestamp("created_at").defaultNow().notNull(),
   updatedAt: timestamp("updated_at").defaultNow().notNull(),
 });
 
 export const insertUploadSchema = createInsertSchema(uploads).omit({
   id: true,
+  duration: true,
+  width: true,
+  height: true,
+  deletedAt: true,
   createdAt: true,
   updatedAt: true,
 });
@@ -80,20 +162,54 @@ export const insertUploadSchema = createInsertSchema(uploads).omit({
 export type InsertUpload = z.infer<typeof insertUploadSchema>;
 export type Upload = typeof uploads.$inferSelect;
 
+// Manifest of chunks received for a resumable chunked upload
+export type ReceivedChunk = {
+  index: number;
+  size: number; // size in bytes as written to disk
+  checksum: string; // SHA-256 hex digest verified on receipt
+};
+
+export const uploadManifests = pgTable("upload_manifests", {
+  uploadId: integer("upload_id").primaryKey(), // reference to uploads table
+  fileSize: bigint("file_size", { mode: "number" }).notNull(),
+  chunkSize: integer("chunk_size").notNull(), // nominal size of every chunk but the last
+  totalChunks: integer("total_chunks").notNull(),
+  receivedChunks: json("received_chunks").$type<ReceivedChunk[]>().notNull().default([]),
+  completingAt: timestamp("completing_at"), // set while a request merges and stores the file
+  createdAt: timestamp("created_at").defaultNow().notNull(),
+  updatedAt: timestamp("updated_at").defaultNow().notNull(),
+});
+
+export const insertUploadManifestSchema = createInsertSchema(uploadManifests).omit({
+  receivedChunks: true,
+  completingAt: true,
+  createdAt: true,
+  updatedAt: true,
+});
+
+export type InsertUploadManifest = z.infer<typeof insertUploadManifestSchema>;
+export type UploadManifest = typeof uploadManifests.$inferSelect;
+
 // Chunks table for video processing
 export const chunks = pgTable("chunks", {
   id: serial("id").primaryKey(),
   uploadId: integer("upload_id").notNull(), // reference to uploads table
   index: integer("index").notNull(), // chunk index
-  duration: integer("duration").notNull(), // duration in seconds
-  resolution: text("resolution").notNull(), // 1080p, 720p, 360p
+  duration: real("duration").notNull(), // exact duration in seconds, from the segment's #EXTINF
+  resolution: text("resolution").notNull(), // encoding profile name, e.g. 720p
   path: text("path").notNull(), // path to chunk file
-  externalFileId: text("external_file_id").notNull(), // Google Drive file ID
+  externalFileId: text("external_file_id").notNull(), // blob ID within storageBackend
+  storageBackend: text("storage_backend", { enum: storageBackends }).notNull().default("gdrive"),
+  serviceAccountId: text("service_account_id"), // Drive service account owning externalFileId
+  keyIndex: integer("key_index"), // index into the conversion's encryption keys, null when unencrypted
+  keyIv: text("key_iv"), // explicit AES-128 IV as written by ffmpeg, if any
+  deletedAt: timestamp("deleted_at"), // set while the chunk's upload is in the trash
   createdAt: timestamp("created_at").defaultNow().notNull(),
 });
 
 export const insertChunkSchema = createInsertSchema(chunks).omit({
   id: true,
+  deletedAt: true,
   createdAt: true,
 });
 
@@ -104,12 +220,18 @@ export type Chunk = typeof chunks.$inferSelect;
 export const conversions = pgTable("conversions", {
   id: serial("id").primaryKey(),
   uploadId: integer("upload_id").notNull(), // reference to uploads table
-  resolution: text("resolution").notNull(), // 1080p, 720p, 360p
+  resolution: text("resolution").notNull(), // encoding profile name, e.g. 720p
   status: text("status").notNull().default("waiting"), // waiting, processing, ready, failed
   progress: integer("progress").notNull().default(0), // progress percentage
   startedAt: timestamp("started_at"),
   completedAt: timestamp("completed_at"),
   error: text("error"), // error message if failed
+  bandwidth: integer("bandwidth"), // peak bits per second, from the encoder's master playlist
+  codecs: text("codecs"), // RFC 6381 codec string, e.g. avc1.4d401f,mp4a.40.2
+  width: integer("width"), // actual output width in pixels
+  height: integer("height"), // actual output height in pixels
+  encrypted: boolean("encrypted").notNull().default(false), // segments are AES-128 encrypted
+  encryptionKeys: json("encryption_keys").$type<string[]>(), // hex AES-128 keys in rotation order; never sent to clients
   createdAt: timestamp("created_at").defaultNow().notNull(),
   updatedAt: timestamp("updated_at").defaultNow().notNull(),
 });
@@ -120,6 +242,11 @@ export const insertConversionSchema = createInsertSchema(conversions).omit({
   startedAt: true,
   completedAt: true,
   error: true,
+  bandwidth: true,
+  codecs: true,
+  width: true,
+  height: true,
+  encryptionKeys: true,
   createdAt: true,
   updatedAt: true,
 });
@@ -127,9 +254,37 @@ export const insertConversionSchema = createInsertSchema(conversions).omit({
 export type InsertConversion = z.infer<typeof insertConversionSchema>;
 export type Conversion = typeof conversions.$inferSelect;
 
+// Named encoding profiles used for HLS conversion
+export const encodingProfiles = pgTable("encoding_profiles", {
+  id: serial("id").primaryKey(),
+  name: text("name").notNull().unique(), // referenced by conversions.resolution and chunks.resolution
+  label: text("label").notNull(), // shown in the convert dialog
+  width: integer("width").notNull(),
+  height: integer("height").notNull(),
+  videoCodec: text("video_codec").notNull().default("libx264"), // libx264, libx265
+  rateControl: text("rate_control").notNull().default("cbr"), // cbr, crf
+  videoBitrate: text("video_bitrate").notNull(), // target bitrate for cbr, cap for crf, e.g. 2500k
+  crf: integer("crf"), // quality for crf, lower is better
+  audioBitrate: text("audio_bitrate").notNull(), // e.g. 128k
+  audioChannels: integer("audio_channels").notNull().default(2),
+  segmentDuration: integer("segment_duration").notNull().default(10), // HLS segment length in seconds
+  createdAt: timestamp("created_at").defaultNow().notNull(),
+  updatedAt: timestamp("updated_at").defaultNow().notNull(),
+});
+
+export const insertEncodingProfileSchema = createInsertSchema(encodingProfiles).omit({
+  id: true,
+  createdAt: true,
+  updatedAt: true,
+});
+
+export type InsertEncodingProfile = z.infer<typeof insertEncodingProfileSchema>;
+export type EncodingProfile = typeof encodingProfiles.$inferSelect;
+
 // Google Drive service accounts
 export const accounts = pgTable("accounts", {
   _id: serial("id").primaryKey(),
+  userId: text("user_id"), // user who added the account; only their files are placed in it
   email: text("email").notNull().unique(),
   name: text("name").notNull(),
   credentialsPath: text("credentials_path").notNull(),
@@ -153,7 +308,12 @@ export type Account = typeof accounts.$inferSelect;
 // Virtual folders
 export const folders = pgTable("folders", {
   id: serial("id").primaryKey(),
-  name: text("name").notNull().unique(),
+  name: text("name").notNull(), // unique among a parent's children
+  userId: text("user_id"), // owning user; null for the default folders every user shares
+  parentId: integer("parent_id"), // null for top-level folders
+  path: json("path").$type<number[]>().notNull().default([]), // ancestor IDs, top-level first
+  shares: json("shares").$type<Share[]>().notNull().default([]), // users this folder and everything below it is shared with
+  serviceAccountId: text("service_account_id"), // Drive service account new files in this folder are pinned to
   createdAt: timestamp("created_at").defaultNow().notNull(),
 });
 
@@ -164,3 +324,100 @@ export const insertFolderSchema = createInsertSchema(folders).omit({
 
 export type InsertFolder = z.infer<typeof insertFolderSchema>;
 export type Folder = typeof folders.$inferSelect;
+
+// Custom metadata fields a user defines for their uploads
+export const metadataFields = pgTable("metadata_fields", {
+  id: serial("id").primaryKey(),
+  userId: text("user_id").notNull(), // user whose uploads the field applies to
+  key: text("key").notNull(), // name values are stored under in upload metadata; never changes
+  label: text("label").notNull(),
+  type: text("type", { enum: metadataFieldTypes }).notNull(),
+  options: json("options").$type<string[]>().notNull().default([]), // choices of a select field
+  createdAt: timestamp("created_at").defaultNow().notNull(),
+});
+
+export const insertMetadataFieldSchema = createInsertSchema(metadataFields).omit({
+  id: true,
+  createdAt: true,
+});
+
+export type InsertMetadataField = z.infer<typeof insertMetadataFieldSchema>;
+export type MetadataField = typeof metadataFields.$inferSelect;
+
+// Storage reconciliation: records pointing at missing Drive files, and Drive files nothing points at
+export const driveFileReferenceKinds = ['upload', 'thumbnail', 'chunk'] as const;
+export type DriveFileReferenceKind = typeof driveFileReferenceKinds[number];
+
+export type DriveFileReference = {
+  kind: DriveFileReferenceKind;
+  recordId: number; // upload ID for uploads and thumbnails, chunk ID for segments
+  uploadId: number;
+  name: string; // upload name, or rendition and index for segments
+  fileId: string;
+  serviceAccountId: string | null;
+};
+
+export type OrphanedDriveFile = {
+  id: string;
+  name: string;
+  mimeType: string;
+  size: number;
+  accountId: string | null;
+  accountEmail: string;
+  createdAt: string;
+};
+
+export type StorageReconciliationReport = {
+  startedAt: string;
+  finishedAt: string;
+  driveFiles: number; // files listed across all service accounts
+  references: number; // Drive file references held by uploads and chunks
+  orphans: OrphanedDriveFile[];
+  dangling: DriveFileReference[];
+  accounts: { id: string; email: string; storageUsed: number; storageLimit: number }[]; // usage after the refresh
+};
+
+// Media library search: sort orders, facet counts and a page of results
+export const searchSorts = ['relevance', 'newest', 'oldest', 'name', 'largest', 'smallest'] as const;
+export type SearchSort = typeof searchSorts[number];
+
+export type SearchFacetValue = { value: string; count: number };
+export type SearchRangeFacet = { min: number | null; max: number | null; count: number }; // max exclusive, null when open-ended
+export type SearchDateFacet = { from: string | null; to: string | null; count: number };
+
+export type SearchFacets = {
+  category: SearchFacetValue[];
+  mimeType: SearchFacetValue[];
+  status: SearchFacetValue[];
+  size: SearchRangeFacet[];
+  date: SearchDateFacet[];
+};
+
+export type UploadSearchResult = {
+  results: Upload[];
+  total: number; // matches across all pages
+  nextCursor: string | null; // pass back as cursor for the next page; null on the last one
+  facets: SearchFacets;
+};
+
+// Bulk operations over a selection of uploads, run as a background job
+export const bulkActions = ['move', 'delete', 'tag', 'categorize', 'convert', 'thumbnails'] as const;
+export type BulkAction = typeof bulkActions[number];
+
+export type BulkItemResult = {
+  uploadId: number;
+  status: 'succeeded' | 'failed' | 'skipped';
+  message?: string;
+};
+
+export type BulkOperationProgress = {
+  total: number;
+  processed: number;
+  succeeded: number;
+  failed: number;
+  skipped: number;
+};
+
+export type BulkOperationResult = BulkOperationProgress & {
+  results: BulkItemResult[];
+};